@@ -9,10 +9,14 @@
 import * as vscode from 'vscode';
 import { randomUUID } from 'crypto';
 import { HttpMcpClient } from './mcp-client';
+import { decodePlanList, Plan, planRef } from './mcp-models';
+import { describeUnavailableServer, readServerOutcomes, SnapshotSource, unavailableServers } from './multiServer/aggregator';
 import { UNASSIGNED_PROJECT_FILTER, type PlanSortOrder } from './plans-provider';
 
 type PlanCategory = 'active' | 'done' | 'hold';
 
+type DashboardSource = Pick<HttpMcpClient, 'listPlans'> & SnapshotSource;
+
 interface WebviewMessage {
     type: string;
     planRef?: string;
@@ -33,6 +37,13 @@ interface PlanSummary {
     project?: { id?: string; name?: string };
     serverId?: string;
     serverName?: string;
+    /** Set when the row comes from the offline cache. */
+    staleSyncedAt?: string;
+}
+
+interface StaleServer {
+    serverName: string;
+    syncedAt: string;
 }
 
 interface DashboardFilterState {
@@ -46,7 +57,7 @@ export class DashboardViewProvider {
     public static readonly viewType = 'riotplan.dashboard';
 
     private _panel: vscode.WebviewPanel | null = null;
-    private _mcpClient: Pick<HttpMcpClient, 'listPlans'> | null = null;
+    private _mcpClient: DashboardSource | null = null;
     private _unsubscribeNotification?: () => void;
     private _watchdogTimer?: ReturnType<typeof setInterval>;
     private _debounceTimer?: ReturnType<typeof setTimeout>;
@@ -58,7 +69,7 @@ export class DashboardViewProvider {
 
     constructor(private readonly _extensionUri: vscode.Uri) {}
 
-    setClient(client: HttpMcpClient | Pick<HttpMcpClient, 'listPlans'>): void {
+    setClient(client: HttpMcpClient | DashboardSource): void {
         this._unregisterHandlers();
         this._mcpClient = client;
         const notificationCapableClient = client as HttpMcpClient;
@@ -195,6 +206,9 @@ export class DashboardViewProvider {
     private async _fetchPlans(): Promise<{
         totalCount: number;
         dateGroups: Array<{ dayKey: string; label: string; plans: PlanSummary[]; sortValue: number }>;
+        staleServers?: StaleServer[];
+        /** "<server> unavailable: <reason>" for each server that failed with nothing cached. */
+        unavailableServers?: string[];
     }> {
         if (!this._mcpClient) {
             return { totalCount: 0, dateGroups: [] };
@@ -207,22 +221,25 @@ export class DashboardViewProvider {
                 return { totalCount: 0, dateGroups: [] };
             }
 
-            const parsed = JSON.parse(plansData);
-            const plans: PlanSummary[] = (parsed.plans || []).map((p: any) => ({
-                ref: p.uuid || p.id || p.path || p.code || p.name || '',
+            // The client has already reported drift for each server; this only types the merged list.
+            const payload = JSON.parse(plansData);
+            const { plans: decoded } = decodePlanList(payload).value;
+            const plans: PlanSummary[] = decoded.map((p) => ({
+                ref: planRef(p),
                 uuid: p.uuid,
                 id: p.id,
-                path: p.path || p.code,
+                path: p.path || p.code || '',
                 code: toSafePlanCode(p),
                 name: resolvePlanTitle(p),
                 stage: normalizeStage(p.stage),
                 status: normalizeStatus(p.status, p.stage),
                 progress: p.progress,
-                lastUpdated: p.lastUpdated || p.updatedAt || p.createdAt,
+                lastUpdated: p.lastUpdated,
                 category: getPlanCategory(p),
                 project: p.project,
-                serverId: typeof p.serverId === 'string' ? p.serverId : undefined,
-                serverName: typeof p.serverName === 'string' ? p.serverName : undefined,
+                serverId: p.serverId,
+                serverName: p.serverName,
+                staleSyncedAt: p.stale ? p.syncedAt : undefined,
             }))
                 .filter((plan: PlanSummary) => this._matchesProjectFilter(plan))
                 .filter((plan: PlanSummary) => this._matchesServerFilter(plan))
@@ -231,7 +248,16 @@ export class DashboardViewProvider {
             const sorted = [...plans].sort((a, b) => this._comparePlans(a, b));
             const grouped = groupPlansByDay(sorted);
 
-            return { totalCount: plans.length, dateGroups: grouped };
+            const unavailable = unavailableServers(readServerOutcomes(payload))
+                .filter((server) => !this._filters.serverFilterId || server.serverId === this._filters.serverFilterId)
+                .map(describeUnavailableServer);
+
+            return {
+                totalCount: plans.length,
+                dateGroups: grouped,
+                staleServers: collectStaleServers(decoded),
+                unavailableServers: unavailable,
+            };
         } catch (err) {
             console.error('RiotPlan: [DASHBOARD] Failed to fetch plans:', err);
             return { totalCount: 0, dateGroups: [] };
@@ -241,6 +267,7 @@ export class DashboardViewProvider {
     private async _handleWebviewMessage(message: WebviewMessage): Promise<void> {
         switch (message.type) {
             case 'refresh':
+                this._mcpClient?.invalidateSnapshot?.();
                 await this._refreshData();
                 break;
 
@@ -531,6 +558,28 @@ export class DashboardViewProvider {
       margin-bottom: 16px;
     }
 
+    .stale-notice {
+      margin-bottom: 16px;
+      padding: 8px 12px;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-inputValidation-warningBorder, #b89500);
+      background: var(--vscode-inputValidation-warningBackground, rgba(184, 149, 0, 0.15));
+      font-size: 12px;
+    }
+
+    .unavailable-notice {
+      margin-bottom: 16px;
+      padding: 8px 12px;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-inputValidation-errorBorder, #be1100);
+      background: var(--vscode-inputValidation-errorBackground, rgba(190, 17, 0, 0.15));
+      font-size: 12px;
+    }
+
+    tr.plan-row.stale {
+      opacity: 0.7;
+    }
+
     .placeholder {
       color: var(--vscode-descriptionForeground);
       font-style: italic;
@@ -611,15 +660,26 @@ export class DashboardViewProvider {
       const container = document.getElementById('plans-container');
       const totalBadge = document.getElementById('total-count');
 
+      let html = '';
+      const staleServers = data && Array.isArray(data.staleServers) ? data.staleServers : [];
+      if (staleServers.length > 0) {
+        html += '<div class="stale-notice">Offline: showing cached plans for ';
+        html += staleServers.map((server) => escapeHtml(server.serverName) + ' (last synced ' + escapeHtml(formatTime(server.syncedAt)) + ')').join(', ');
+        html += '</div>';
+      }
+      const unavailableServers = data && Array.isArray(data.unavailableServers) ? data.unavailableServers : [];
+      for (const notice of unavailableServers) {
+        html += '<div class="unavailable-notice">' + escapeHtml(notice) + '</div>';
+      }
+
       if (!data || data.totalCount === 0) {
         totalBadge.textContent = '0 plans';
-        container.innerHTML = '<div class="empty-state"><div class="empty-icon">☆</div><p>No plans found</p><p style="margin-top:8px;font-size:12px">Create your first plan to get started</p></div>';
+        container.innerHTML = html + '<div class="empty-state"><div class="empty-icon">☆</div><p>No plans found</p><p style="margin-top:8px;font-size:12px">Create your first plan to get started</p></div>';
         return;
       }
 
       totalBadge.textContent = data.totalCount + ' plan' + (data.totalCount === 1 ? '' : 's');
 
-      let html = '';
       const dateGroups = Array.isArray(data.dateGroups) ? data.dateGroups : [];
       for (const dayGroup of dateGroups) {
         const plans = Array.isArray(dayGroup.plans) ? dayGroup.plans : [];
@@ -647,7 +707,7 @@ export class DashboardViewProvider {
             ? String(plan.serverName).trim()
             : '—';
 
-          html += '<tr class="plan-row"';
+          html += '<tr class="plan-row' + (plan.staleSyncedAt ? ' stale' : '') + '"';
           if (planRef) {
             html += ' data-plan-ref="' + escapeAttr(planRef) + '"';
           }
@@ -657,7 +717,11 @@ export class DashboardViewProvider {
           html += '<div class="plan-name">' + escapeHtml(plan.name) + '</div>';
           html += '</td>';
 
-          html += '<td class="cell-server" title="' + escapeAttr(serverLabel) + '">' + escapeHtml(serverLabel) + '</td>';
+          if (plan.staleSyncedAt) {
+            html += '<td class="cell-server" title="' + escapeAttr(serverLabel + ' is unreachable; last synced ' + formatTime(plan.staleSyncedAt)) + '">' + escapeHtml(serverLabel + ' · offline') + '</td>';
+          } else {
+            html += '<td class="cell-server" title="' + escapeAttr(serverLabel) + '">' + escapeHtml(serverLabel) + '</td>';
+          }
 
           html += '<td><span class="stage-pill" style="background:' + escapeAttr(stageColor + '33') + ';border:1px solid ' + escapeAttr(stageColor + '80') + ';">' + escapeHtml(plan.stage || 'unknown') + '</span></td>';
 
@@ -715,7 +779,22 @@ export class DashboardViewProvider {
     }
 }
 
-function resolvePlanTitle(plan: any): string {
+/** One entry per server whose plans were served from the offline cache. */
+function collectStaleServers(plans: Plan[]): StaleServer[] {
+    const byServer = new Map<string, StaleServer>();
+    for (const plan of plans) {
+        if (!plan.stale || !plan.syncedAt) {
+            continue;
+        }
+        const serverName = plan.serverName || plan.serverId || 'Unknown server';
+        if (!byServer.has(serverName)) {
+            byServer.set(serverName, { serverName, syncedAt: plan.syncedAt });
+        }
+    }
+    return [...byServer.values()];
+}
+
+function resolvePlanTitle(plan: Plan): string {
     const direct = firstNonEmptyString(plan?.title, plan?.name);
     if (direct) {
         return stripUuidPrefix(direct);
@@ -727,7 +806,7 @@ function resolvePlanTitle(plan: any): string {
     return 'Untitled Plan';
 }
 
-function toSafePlanCode(plan: any): string {
+function toSafePlanCode(plan: Plan): string {
     const raw = firstNonEmptyString(plan?.code, plan?.id, plan?.path);
     if (!raw) {
         return 'plan';
@@ -821,7 +900,7 @@ function normalizeStatus(status: unknown, stage: unknown): string {
     return 'unknown';
 }
 
-function getPlanCategory(plan: any): PlanCategory {
+function getPlanCategory(plan: Plan): PlanCategory {
     const explicitCategory = typeof plan?.category === 'string' ? plan.category.toLowerCase() : '';
     if (explicitCategory === 'done' || explicitCategory === 'hold' || explicitCategory === 'active') {
         return explicitCategory;
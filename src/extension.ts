@@ -5,9 +5,26 @@
  */
 
 import * as vscode from 'vscode';
-import { basename } from 'node:path';
+import { basename, join } from 'node:path';
 import { randomUUID } from 'node:crypto';
-import { HttpMcpClient } from './mcp-client';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { HttpMcpClient, HttpStatusError } from './mcp-client';
+import { describeOperation, type RiotPlanOperation } from './mcp-capabilities';
+import { isCancellationError, toAbortSignal, type RequestOptions } from './mcp-request';
+import { describeCircuit } from './mcp-resilience';
+import { describeServerInfo } from './mcp-protocol';
+import { SchemaDriftLog, type SchemaDriftReport } from './mcp-models';
+import { formatPromptMessages, isPlanArgument, type McpPrompt } from './mcp-prompts';
+import { expandUriTemplate, isJsonMimeType, ResourceSubscriptionRegistry, templateVariables } from './mcp-resources';
+import { describeStdioCommand, splitCommandLine, stdioServerUrl } from './mcp-stdio';
+import { describeTlsSettings, loadTlsOptions } from './mcp-tls';
+import { describeAuthScheme } from './mcp-auth';
+import { formatDiagnosticsReport, runConnectionDiagnostics } from './mcp-diagnostics';
+import { isUnixSocketUrl, unixSocketPath } from './mcp-unix-socket';
+import { RequestTracer, type TraceEntry } from './mcp-trace';
+import { createServerRequestHandlers } from './server-requests';
+import { ProgressForwarder } from './progress-reporting';
 import {
     PlanItem,
     PlansTreeProvider,
@@ -20,12 +37,41 @@ import { ProjectDetailPanel } from './project-detail-panel';
 import { StatusTreeProvider } from './status-provider';
 import { DashboardViewProvider } from './dashboard-view';
 import { ProjectsTreeProvider } from './projects-provider';
+import { TraceTreeProvider } from './trace-provider';
+import {
+    RESOURCE_DOCUMENT_SCHEME,
+    ResourceDocumentProvider,
+    resourceDocumentUri,
+    ResourceNode,
+    ResourceServer,
+    ResourceServerSource,
+    ResourcesTreeProvider,
+} from './resources-provider';
 import { MultiServerConnectionManager } from './multiServer/connectionManager';
-import { ServerProfilesStore } from './multiServer/profilesStore';
-import { sanitizeToken, tokenStorageKey } from './multiServer/auth';
+import { ServerHealthMonitor } from './multiServer/healthMonitor';
+import { describeProfileSource, REPOSITORY_PROFILES_FILE, ServerProfilesStore } from './multiServer/profilesStore';
+import {
+    createProfileBundle,
+    mergeImportedProfiles,
+    parseProfileBundle,
+    planProfileImport,
+    resolveProfileImport,
+    type ProfileConflictResolution,
+    type ProfileImportChange,
+} from './multiServer/profileBundle';
+import { oauthStorageKey, profileHeaderStorageKey, sanitizeToken, tlsPassphraseStorageKey, tokenStorageKey } from './multiServer/auth';
+import { OAuthSessionManager } from './multiServer/oauthSessions';
+import {
+    describeTokenCheck,
+    describeTokenExpiry,
+    tokenExpiry,
+    tokenExpiryNotice,
+    type TokenCheckResult,
+} from './multiServer/tokenLifecycle';
+import { OfflineCache } from './multiServer/offlineCache';
 import { MultiServerAggregator, type MultiServerAggregatorOptions } from './multiServer/aggregator';
 import { ContextCatalogSyncEngine, stampNewCatalogMetadata } from './multiServer/contextCatalogSync';
-import { fromServerScopedRef } from './multiServer/types';
+import { fromServerScopedRef, type ServerProfile } from './multiServer/types';
 
 interface ContextProject {
     id?: string;
@@ -64,23 +110,40 @@ interface PlanTransferFile {
 let mcpClient: HttpMcpClient;
 let connectionManager: MultiServerConnectionManager;
 let profilesStore: ServerProfilesStore;
+let oauthSessions: OAuthSessionManager;
 let aggregator: MultiServerAggregator;
 let contextCatalogSync: ContextCatalogSyncEngine | undefined;
+let offlineCache: OfflineCache | undefined;
 let plansProvider: PlansTreeProvider;
 let projectsProvider: ProjectsTreeProvider;
 let statusProvider: StatusTreeProvider;
 let dashboardProvider: DashboardViewProvider;
+let resourcesProvider: ResourcesTreeProvider | undefined;
 let currentServerUrl = 'http://127.0.0.1:3002';
 let extensionContextRef: vscode.ExtensionContext;
 let currentProxyBypass = false;
 const PLAN_LIST_AUTO_REFRESH_MS = 5 * 60 * 1000;
 const PLAN_DETAIL_AUTO_REFRESH_MS = 2 * 60 * 1000;
 const AUTH_DEBUG_CHANNEL_NAME = 'RiotPlan Auth Debug';
+const SCHEMA_DIAGNOSTICS_CHANNEL_NAME = 'RiotPlan Schema Diagnostics';
+const SERVER_PROCESS_CHANNEL_NAME = 'RiotPlan Server Processes';
 /** Quick pick sentinel: run context catalog sync instead of setting a filter. */
 const PROJECT_FILTER_SYNC_SENTINEL = '__riotplan_sync_context__';
 const CONTEXT_CATALOG_MUTATION_SYNC_DEBOUNCE_MS = 450;
+/** Operations surfaced as `riotplan.supports.<operation>` context keys for menu `when` clauses. */
+const CAPABILITY_CONTEXT_OPERATIONS: RiotPlanOperation[] = ['createPlan', 'renamePlan', 'deletePlan', 'bindProject'];
+/** Last value written per capability context key; status changes fire often, so unchanged keys are skipped. */
+const capabilityContextValues = new Map<RiotPlanOperation, boolean>();
 
 let contextCatalogMutationDebounceTimer: ReturnType<typeof setTimeout> | undefined;
+/**
+ * Profiles with an open or dismissed re-authentication prompt; cleared when the
+ * profile gets new credentials or the server reconnects after being disconnected.
+ */
+const reauthenticationPrompts = new Set<string>();
+/** `<serverId>:<state>:<expiry>` of token expiry warnings already shown this session. */
+const shownExpiryWarnings = new Set<string>();
+const TOKEN_EXPIRY_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
 
 function isContextCatalogReplicationEnabled(): boolean {
     return vscode.workspace.getConfiguration('riotplan').get<boolean>('contextCatalogReplication', true);
@@ -90,15 +153,30 @@ function getMultiServerAggregatorOptions(): MultiServerAggregatorOptions {
     return {
         dedupeContextProjectsByCatalogId: isContextCatalogReplicationEnabled(),
         preferredServerIdForContextUi: connectionManager.getActiveServerId(),
+        offlineCache,
     };
 }
 
 function refreshAggregatorAndClients(): void {
+    aggregator?.dispose();
     aggregator = new MultiServerAggregator(connectionManager, getMultiServerAggregatorOptions());
     contextCatalogSync = new ContextCatalogSyncEngine(connectionManager);
     plansProvider.updateClient(aggregator as any);
     projectsProvider.updateClient(aggregator as any);
     dashboardProvider.setClient(aggregator as any);
+    resourcesProvider?.refresh();
+}
+
+/** A context key is true unless every connected server is known to lack the operation. */
+function updateCapabilityContextKeys(): void {
+    for (const operation of CAPABILITY_CONTEXT_OPERATIONS) {
+        const supported = connectionManager.supportsOperation(operation);
+        if (capabilityContextValues.get(operation) === supported) {
+            continue;
+        }
+        capabilityContextValues.set(operation, supported);
+        void vscode.commands.executeCommand('setContext', `riotplan.supports.${operation}`, supported);
+    }
 }
 
 async function runContextCatalogFullSyncAfterConnections(silent: boolean): Promise<void> {
@@ -143,10 +221,88 @@ export async function activate(context: vscode.ExtensionContext) {
 
     // Initialize core objects synchronously so commands can reference them.
     profilesStore = new ServerProfilesStore();
-    connectionManager = new MultiServerConnectionManager();
+    offlineCache = new OfflineCache(vscode.Uri.joinPath(context.globalStorageUri, 'offline-cache').fsPath);
+    PlanDetailPanel.setOfflineCache(offlineCache);
+    oauthSessions = new OAuthSessionManager(context.secrets, context.extension.id);
+    context.subscriptions.push(vscode.window.registerUriHandler(oauthSessions));
+    const clientInfo = { name: 'riotplan-vscode', version: String(context.extension.packageJSON.version || '0.0.0') };
+    const tracer = new RequestTracer();
+    tracer.setEnabled(vscode.workspace.getConfiguration('riotplan').get<boolean>('traceRequests', false));
+    const schemaDiagnosticsChannel = vscode.window.createOutputChannel(SCHEMA_DIAGNOSTICS_CHANNEL_NAME);
+    context.subscriptions.push(schemaDiagnosticsChannel);
+    const schemaDriftLog = new SchemaDriftLog((message) => schemaDiagnosticsChannel.appendLine(message));
+    const onSchemaDrift = (report: SchemaDriftReport) => {
+        if (!schemaDriftLog.report(report) || !report.rejected) {
+            return;
+        }
+        void vscode.window.showWarningMessage(
+            `RiotPlan: ${report.model} from ${report.serverUrl} did not match the expected format.`,
+            'Show Details'
+        ).then((choice) => {
+            if (choice === 'Show Details') {
+                schemaDiagnosticsChannel.show(true);
+            }
+        });
+    };
+    const serverProcessChannel = vscode.window.createOutputChannel(SERVER_PROCESS_CHANNEL_NAME);
+    context.subscriptions.push(serverProcessChannel);
+    connectionManager = new MultiServerConnectionManager({
+        clientInfo,
+        tracer,
+        onSchemaDrift,
+        stdioBaseDir: () => vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+        onServerOutput: (profile, line) => serverProcessChannel.appendLine(`[${profile.name}] ${line}`),
+        onServerProcessState: (profile, state, detail) => {
+            serverProcessChannel.appendLine(
+                `[${new Date().toISOString()}] [${profile.name}] process ${state}${detail ? `: ${detail}` : ''}`
+            );
+            if (state !== 'failed') {
+                return;
+            }
+            void vscode.window.showErrorMessage(
+                `RiotPlan: the server process for "${profile.name}" ${detail || 'stopped'}.`,
+                'Show Output'
+            ).then((choice) => {
+                if (choice === 'Show Output') {
+                    serverProcessChannel.show(true);
+                }
+            });
+        },
+        requestHandlers: (profile) => createServerRequestHandlers(profile.name),
+        onUnauthorized: async (profile, error) => {
+            const token = profile.authMode === 'oauth' ? await oauthSessions.refresh(profile) : undefined;
+            if (!token) {
+                // The challenge may name the protected resource metadata for sign-in discovery.
+                promptReauthentication(profile, error instanceof HttpStatusError ? error.headers['www-authenticate'] : undefined);
+            }
+            return token;
+        },
+        resolveTls: async (profile) => loadTlsOptions(profile.tls!, {
+            passphrase: await context.secrets.get(tlsPassphraseStorageKey(profile.id)),
+            baseDir: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+        }),
+        readHeaderSecret: (profile, headerName) => Promise.resolve(
+            context.secrets.get(profileHeaderStorageKey(profile.id, headerName))
+        ),
+    });
+    // Probes enabled servers in the background; state changes reach the views through onStatusChange.
+    let healthMonitor: ServerHealthMonitor | undefined;
+    const applyHealthCheckInterval = () => {
+        healthMonitor?.stop();
+        const seconds = vscode.workspace.getConfiguration('riotplan').get<number>('healthCheckIntervalSeconds', 30);
+        healthMonitor = seconds > 0 ? new ServerHealthMonitor(connectionManager, { intervalMs: seconds * 1000 }) : undefined;
+        healthMonitor?.start();
+    };
+    applyHealthCheckInterval();
+    context.subscriptions.push({ dispose: () => healthMonitor?.stop() });
     currentServerUrl = getLegacyServerUrl() || 'http://127.0.0.1:3002';
     currentProxyBypass = getConfiguredProxyBypass();
-    mcpClient = new HttpMcpClient(currentServerUrl, undefined, currentProxyBypass);
+    mcpClient = new HttpMcpClient(currentServerUrl, undefined, currentProxyBypass, {
+        clientInfo,
+        requestHandlers: createServerRequestHandlers(currentServerUrl),
+        tracer,
+        onSchemaDrift,
+    });
     aggregator = new MultiServerAggregator(connectionManager, getMultiServerAggregatorOptions());
     contextCatalogSync = new ContextCatalogSyncEngine(connectionManager);
     plansProvider = new PlansTreeProvider(aggregator as any);
@@ -192,24 +348,82 @@ export async function activate(context: vscode.ExtensionContext) {
         const activeId = connectionManager.getActiveServerId();
         const statuses = await Promise.all(connectionManager.getStatuses().map(async (status) => {
             const profile = profileMap.get(status.serverId);
-            const secret = await context.secrets.get(tokenStorageKey(status.serverId));
+            const token = profile?.authMode === 'oauth'
+                ? undefined
+                : sanitizeToken(await context.secrets.get(tokenStorageKey(status.serverId)));
+            const hasApiKey = profile?.authMode === 'oauth' ? await oauthSessions.hasSession(status.serverId) : Boolean(token);
             return {
                 serverId: status.serverId,
                 serverName: profile?.name || status.serverId,
                 serverUrl: status.serverUrl || profile?.url || '',
                 state: status.state,
                 lastError: status.lastError,
-                hasApiKey: Boolean(sanitizeToken(secret)),
+                hasApiKey,
                 isActive: status.serverId === activeId,
+                circuit: status.circuit,
+                latencyMs: status.latencyMs,
+                lastCheckedAt: status.lastCheckedAt,
+                definedIn: profile ? describeProfileSource(profile) : undefined,
+                tokenExpiresAt: tokenExpiry(token)?.getTime(),
             };
         }));
         statusProvider.setServerStatuses(statuses);
     }
 
+    // Views showing cached data for a server switch back to live data once it reconnects.
+    const unreachableServers = new Set<string>();
+    // Health probes report `connected` again and again; only a fresh connection re-arms the re-auth prompt.
+    const connectedServers = new Set<string>();
+    const rejectedServers = new Set<string>();
+    const disposeCircuitListener = connectionManager.onStatusChange(() => {
+        void refreshServerStatuses();
+        updateCapabilityContextKeys();
+        let reconnected = false;
+        for (const status of connectionManager.getStatuses()) {
+            const reachable = status.state === 'connected' && status.circuit?.state !== 'open';
+            if (status.state !== 'disconnected' || status.lastError !== 'unauthorized') {
+                rejectedServers.delete(status.serverId);
+            } else if (!rejectedServers.has(status.serverId)) {
+                // Health probes that get 401/403 end up here without going through onUnauthorized.
+                rejectedServers.add(status.serverId);
+                const profile = connectionManager.getProfiles().find((entry) => entry.id === status.serverId);
+                if (profile) {
+                    void recoverRejectedCredentials(profile);
+                }
+            }
+            if (status.state !== 'connected') {
+                connectedServers.delete(status.serverId);
+            } else if (!connectedServers.has(status.serverId)) {
+                connectedServers.add(status.serverId);
+                reauthenticationPrompts.delete(status.serverId);
+            }
+            if (!reachable) {
+                unreachableServers.add(status.serverId);
+            } else if (unreachableServers.delete(status.serverId)) {
+                reconnected = true;
+            }
+        }
+        if (reconnected) {
+            plansProvider.refresh();
+            projectsProvider.refresh();
+            resourcesProvider?.refresh();
+            void dashboardProvider.refreshData().catch(() => undefined);
+            PlanDetailPanel.scheduleRefreshForAllOpenPanels();
+        }
+    });
+    context.subscriptions.push({ dispose: disposeCircuitListener });
+    // Menu entries stay visible while the first connections are still being made.
+    updateCapabilityContextKeys();
+
     function applyConnectionSettings(newUrl: string, proxyBypass?: boolean): void {
         currentServerUrl = newUrl;
         currentProxyBypass = proxyBypass ?? currentProxyBypass;
-        mcpClient = new HttpMcpClient(newUrl, undefined, currentProxyBypass);
+        mcpClient = new HttpMcpClient(newUrl, undefined, currentProxyBypass, {
+            clientInfo,
+            requestHandlers: createServerRequestHandlers(newUrl),
+            tracer,
+            onSchemaDrift,
+        });
         applyAuthDebugLogging();
         refreshAggregatorAndClients();
         statusProvider.updateClient(mcpClient, newUrl);
@@ -235,7 +449,9 @@ export async function activate(context: vscode.ExtensionContext) {
             connectionManager.configureProfiles(profiles, configuredActiveServerId);
             await hydrateProfileApiKeys(context, profiles);
             await connectionManager.connectAll();
+            void checkTokenExpiries();
             applyAuthDebugLogging();
+            updateCapabilityContextKeys();
 
             let nextActiveServerId: string | undefined = configuredActiveServerId;
             if (!nextActiveServerId || !profiles.some((profile) => profile.id === nextActiveServerId && profile.enabled)) {
@@ -278,7 +494,7 @@ export async function activate(context: vscode.ExtensionContext) {
             profiles.map((profile) => ({
                 label: profile.name,
                 description: profile.url,
-                detail: profile.id,
+                detail: `${profile.id} · ${describeProfileSource(profile)}`,
                 profile,
             })),
             {
@@ -289,6 +505,30 @@ export async function activate(context: vscode.ExtensionContext) {
         return selection?.profile;
     }
 
+    /** The preferred server when it is reachable, the only reachable server, or one the user picks. */
+    async function pickReachableServer(title: string, preferredServerId?: string): Promise<ResourceServer | undefined> {
+        const servers = reachableServers.getServers().filter((server) => server.client);
+        const preferred = servers.find((server) => server.serverId === preferredServerId);
+        if (preferred || servers.length <= 1) {
+            if (!preferred && servers.length === 0) {
+                vscode.window.showWarningMessage('No RiotPlan server is connected.');
+            }
+            return preferred ?? servers[0];
+        }
+        const activeId = connectionManager.getActiveServerId();
+        const selection = await vscode.window.showQuickPick(
+            [...servers]
+                .sort((a, b) => Number(b.serverId === activeId) - Number(a.serverId === activeId))
+                .map((server) => ({
+                    label: server.serverName,
+                    description: server.serverId === activeId ? 'active' : undefined,
+                    server,
+                })),
+            { title, placeHolder: 'Select a server' }
+        );
+        return selection?.server;
+    }
+
     // Register tree views
     const plansTreeView = vscode.window.createTreeView('riotplan-plans', {
         treeDataProvider: plansProvider,
@@ -304,7 +544,38 @@ export async function activate(context: vscode.ExtensionContext) {
         treeDataProvider: projectsProvider,
     });
 
-    context.subscriptions.push(plansTreeView, projectsTreeView, connectionTreeView);
+    const traceTreeView = vscode.window.createTreeView('riotplan-trace', {
+        treeDataProvider: new TraceTreeProvider(tracer),
+    });
+
+    // Servers that are (or are becoming) reachable; a disconnected server keeps its client for retries.
+    const reachableServers: ResourceServerSource = {
+        getServers: () => {
+            const states = new Map(connectionManager.getStatuses().map((status) => [status.serverId, status.state]));
+            return connectionManager.getProfiles()
+                .filter((profile) => profile.enabled && states.get(profile.id) !== 'disconnected')
+                .map((profile) => ({
+                    serverId: profile.id,
+                    serverName: profile.name,
+                    client: connectionManager.getClient(profile.id),
+                }));
+        },
+    };
+    const resourceDocuments = new ResourceDocumentProvider(reachableServers);
+    resourcesProvider = new ResourcesTreeProvider(
+        reachableServers,
+        new ResourceSubscriptionRegistry(),
+        (serverId, uris) => resourceDocuments.notifyUpdated(serverId, uris)
+    );
+    const resourcesTreeView = vscode.window.createTreeView('riotplan-resources', {
+        treeDataProvider: resourcesProvider,
+    });
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(RESOURCE_DOCUMENT_SCHEME, resourceDocuments),
+        { dispose: () => resourcesProvider?.dispose() }
+    );
+
+    context.subscriptions.push(plansTreeView, projectsTreeView, connectionTreeView, traceTreeView, resourcesTreeView);
 
     context.subscriptions.push(
         plansTreeView.onDidChangeSelection((event) => {
@@ -531,11 +802,21 @@ export async function activate(context: vscode.ExtensionContext) {
                     title: 'Create Plan',
                     prompt: 'Enter display name (optional)',
                 });
-                await mcpClient.createPlan({
-                    code: code.trim(),
-                    description: description.trim(),
-                    name: name?.trim() || undefined,
-                });
+                await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Creating plan "${code.trim()}"`,
+                    },
+                    async (progress) => {
+                        const creation = new ProgressForwarder(progress, 100, 'Creating plan');
+                        await mcpClient.createPlan({
+                            code: code.trim(),
+                            description: description.trim(),
+                            name: name?.trim() || undefined,
+                        }, { onProgress: creation.onProgress });
+                        creation.complete();
+                    }
+                );
                 plansProvider.refresh();
                 projectsProvider.refresh();
                 vscode.window.showInformationMessage(`Plan "${code.trim()}" created.`);
@@ -557,15 +838,28 @@ export async function activate(context: vscode.ExtensionContext) {
                     return;
                 }
                 const fileUri = selected[0];
-                const bytes = await vscode.workspace.fs.readFile(fileUri);
                 const fileName = basename(fileUri.fsPath || fileUri.path || 'uploaded.plan');
-                try {
-                    await mcpClient.uploadPlanFile(fileName, Buffer.from(bytes));
-                } catch {
-                    // Backward-compatible fallback for older servers without /plan/upload.
-                    const transfer = await readTransferFile(fileUri);
-                    await importPlanFromTransfer(transfer);
-                }
+                await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Uploading "${fileName}"`,
+                    },
+                    async (progress) => {
+                        const upload = new ProgressForwarder(progress, 100, 'Uploading plan file', 'bytes');
+                        try {
+                            await mcpClient.uploadPlanFromFile(fileUri.fsPath, fileName, { onProgress: upload.onProgress });
+                        } catch (error) {
+                            // Backward-compatible fallback for older servers without /plan/upload.
+                            if (!(error instanceof HttpStatusError && [404, 405, 501].includes(error.statusCode))) {
+                                throw error;
+                            }
+                            progress.report({ message: 'Importing plan contents...' });
+                            const transfer = await readTransferFile(fileUri);
+                            await importPlanFromTransfer(transfer);
+                        }
+                        upload.complete();
+                    }
+                );
                 plansProvider.refresh();
                 projectsProvider.refresh();
                 vscode.window.showInformationMessage(`Uploaded plan "${fileName}".`);
@@ -660,11 +954,16 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.diagnoseConnection', async (serverId?: string) => {
+            await diagnoseConnection(serverId);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('riotplan.configureApiKey', async (serverId?: string) => {
-            const profile = serverId
-                ? connectionManager.getProfiles().find((entry) => entry.id === serverId)
-                : await pickServerProfile('Configure API token');
+            const selected = serverId ? { id: serverId } : await pickServerProfile('Configure API token');
+            const profile = selected && connectionManager.getProfiles().find((entry) => entry.id === selected.id);
             if (!profile) {
                 return;
             }
@@ -682,10 +981,29 @@ export async function activate(context: vscode.ExtensionContext) {
             if (!sanitized) {
                 return;
             }
+            const check = profile.transport === 'stdio' ? undefined : await checkTokenWithProgress(profile, sanitized);
+            if (check && !check.ok) {
+                const choice = await vscode.window.showWarningMessage(
+                    `The token for "${profile.name}" ${describeTokenCheck(check)}. Save it anyway?`,
+                    { modal: true },
+                    'Save Anyway'
+                );
+                if (choice !== 'Save Anyway') {
+                    return;
+                }
+            }
             await context.secrets.store(tokenStorageKey(profile.id), sanitized);
             connectionManager.setClientApiKey(profile.id, sanitized);
+            reauthenticationPrompts.delete(profile.id);
+            if (profile.enabled && connectionManager.getStatus(profile.id)?.state === 'disconnected') {
+                await connectionManager.connect(profile.id);
+            }
             await refreshServerStatuses();
-            vscode.window.showInformationMessage(`Configured token for "${profile.name}".`);
+            const expiresAt = tokenExpiry(sanitized);
+            vscode.window.showInformationMessage(
+                `Configured token for "${profile.name}"${check?.ok ? ', accepted by the server' : ''}.`
+                + (expiresAt ? ` It ${describeTokenExpiry(expiresAt)}.` : '')
+            );
         })
     );
 
@@ -713,6 +1031,433 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.rotateApiKey', async (serverId?: string) => {
+            await rotateApiKey(serverId);
+        })
+    );
+
+    async function checkTokenWithProgress(profile: ServerProfile, token: string): Promise<TokenCheckResult> {
+        return vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Checking token for "${profile.name}"...` },
+            () => connectionManager.checkToken(profile.id, token)
+        );
+    }
+
+    /**
+     * Tests the new token first, then swaps it in and reconnects only this
+     * server. The old token stays stored until the server accepts the new one.
+     */
+    async function rotateApiKey(serverId?: string): Promise<void> {
+        const selected = serverId ? { id: serverId } : await pickServerProfile('Rotate API token');
+        const profile = selected && connectionManager.getProfiles().find((entry) => entry.id === selected.id);
+        if (!profile) {
+            return;
+        }
+        if (profile.authMode === 'oauth') {
+            vscode.window.showWarningMessage(`Server "${profile.name}" uses OAuth sign-in; sign in again to get a new token.`);
+            return;
+        }
+        const previous = sanitizeToken(await context.secrets.get(tokenStorageKey(profile.id)));
+        if (!previous) {
+            await vscode.commands.executeCommand('riotplan.configureApiKey', profile.id);
+            return;
+        }
+        const input = await vscode.window.showInputBox({
+            title: `Rotate API token: ${profile.name}`,
+            prompt: `Enter the new API token. The current token (ending ${tokenLast4(previous)}) stays in use until the new one works.`,
+            ignoreFocusOut: true,
+            password: true,
+            validateInput: (value) => {
+                const trimmed = value.trim();
+                if (!trimmed) {
+                    return 'API token cannot be empty';
+                }
+                return trimmed === previous ? 'This is the current token' : null;
+            },
+        });
+        const next = sanitizeToken(input);
+        if (!next) {
+            return;
+        }
+        if (profile.transport !== 'stdio') {
+            const check = await checkTokenWithProgress(profile, next);
+            if (!check.ok) {
+                const action = await vscode.window.showErrorMessage(
+                    `The new token for "${profile.name}" ${describeTokenCheck(check)}. The current token stays in use.`,
+                    'Try Again'
+                );
+                if (action === 'Try Again') {
+                    await rotateApiKey(profile.id);
+                }
+                return;
+            }
+        }
+
+        await context.secrets.store(tokenStorageKey(profile.id), next);
+        connectionManager.setClientApiKey(profile.id, next);
+        const status = await connectionManager.connect(profile.id);
+        if (status.state === 'disconnected') {
+            await context.secrets.store(tokenStorageKey(profile.id), previous);
+            connectionManager.setClientApiKey(profile.id, previous);
+            await connectionManager.connect(profile.id);
+            await refreshServerStatuses();
+            vscode.window.showErrorMessage(
+                `"${profile.name}" did not reconnect with the new token (${status.lastError || 'unknown error'}). The previous token was restored.`
+            );
+            return;
+        }
+        reauthenticationPrompts.delete(profile.id);
+        await refreshServerStatuses();
+        const expiresAt = tokenExpiry(next);
+        vscode.window.showInformationMessage(
+            `Rotated the API token for "${profile.name}" and reconnected.` + (expiresAt ? ` The new token ${describeTokenExpiry(expiresAt)}.` : '')
+        );
+    }
+
+    /** Warns once per token and state (expiring, expired) about JWT tokens near their `exp`. */
+    async function checkTokenExpiries(): Promise<void> {
+        const warnDays = vscode.workspace.getConfiguration('riotplan').get<number>('tokenExpiryWarningDays', 7);
+        for (const profile of connectionManager.getProfiles()) {
+            if (!profile.enabled || profile.authMode === 'oauth') {
+                continue;
+            }
+            const notice = tokenExpiryNotice(tokenExpiry(sanitizeToken(await context.secrets.get(tokenStorageKey(profile.id)))), warnDays);
+            const key = notice && `${profile.id}:${notice.state}:${notice.expiresAt.getTime()}`;
+            if (!notice || !key || shownExpiryWarnings.has(key)) {
+                continue;
+            }
+            shownExpiryWarnings.add(key);
+            void vscode.window.showWarningMessage(
+                `The API token for "${profile.name}" ${describeTokenExpiry(notice.expiresAt)}.`,
+                'Rotate Token'
+            ).then((action) => {
+                if (action === 'Rotate Token') {
+                    void rotateApiKey(profile.id);
+                }
+            });
+        }
+    }
+    const tokenExpiryTimer = setInterval(() => void checkTokenExpiries(), TOKEN_EXPIRY_CHECK_INTERVAL_MS);
+    context.subscriptions.push({ dispose: () => clearInterval(tokenExpiryTimer) });
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.toggleRequestTracing', async () => {
+            const enable = !tracer.isEnabled();
+            await vscode.workspace.getConfiguration('riotplan').update(
+                'traceRequests',
+                enable,
+                vscode.ConfigurationTarget.Global
+            );
+            tracer.setEnabled(enable);
+            vscode.window.showInformationMessage(enable ? 'RiotPlan request tracing started.' : 'RiotPlan request tracing stopped.');
+        }),
+        vscode.commands.registerCommand('riotplan.clearRequestTrace', () => {
+            tracer.clear();
+        }),
+        vscode.commands.registerCommand('riotplan.showTraceEntry', async (entry?: TraceEntry) => {
+            if (!entry) {
+                return;
+            }
+            const document = await vscode.workspace.openTextDocument({
+                language: 'json',
+                content: JSON.stringify(entry, null, 2),
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        }),
+        vscode.commands.registerCommand('riotplan.refreshResources', (node?: ResourceNode) => {
+            resourcesProvider?.refresh(node?.type === 'server' ? node.server.serverId : undefined);
+        }),
+        vscode.commands.registerCommand('riotplan.openResource', async (node?: ResourceNode) => {
+            if (node?.type !== 'resource') {
+                return;
+            }
+            await openResourceDocument(node.server.serverId, node.server.serverName, node.resource.uri, node.resource.mimeType);
+        }),
+        vscode.commands.registerCommand('riotplan.openResourceTemplate', async (node?: ResourceNode) => {
+            if (node?.type !== 'template') {
+                return;
+            }
+            const values: Record<string, string> = {};
+            for (const variable of templateVariables(node.template.uriTemplate)) {
+                const value = await vscode.window.showInputBox({
+                    title: node.template.title || node.template.name,
+                    prompt: `Value for {${variable}} in ${node.template.uriTemplate}`,
+                });
+                if (value === undefined) {
+                    return;
+                }
+                values[variable] = value.trim();
+            }
+            await openResourceDocument(
+                node.server.serverId,
+                node.server.serverName,
+                expandUriTemplate(node.template.uriTemplate, values),
+                node.template.mimeType
+            );
+        }),
+        vscode.commands.registerCommand('riotplan.subscribeResource', async (node?: ResourceNode) => {
+            if (node?.type !== 'resource' || !resourcesProvider) {
+                return;
+            }
+            try {
+                await resourcesProvider.subscribe(node.server, node.resource.uri);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Could not subscribe to ${node.resource.uri}: ${message}`);
+            }
+        }),
+        vscode.commands.registerCommand('riotplan.unsubscribeResource', async (node?: ResourceNode) => {
+            if (node?.type !== 'resource' || !resourcesProvider) {
+                return;
+            }
+            // The subscription is dropped locally even if the server no longer knows it.
+            await resourcesProvider.unsubscribe(node.server, node.resource.uri).catch(() => undefined);
+        }),
+        vscode.commands.registerCommand('riotplan.runPrompt', async (plan?: PlanSelectionInput) => {
+            const selectedPlan = plan ?? plansTreeView.selection.find((item) => item.contextValue === 'plan');
+            const scopedPlanRef = selectedPlan ? resolvePlanRef(selectedPlan) : undefined;
+            const planTarget = scopedPlanRef ? resolvePlanClientAndRef(scopedPlanRef) : undefined;
+            const server = await pickReachableServer('Run server prompt', planTarget?.serverId);
+            if (!server?.client) {
+                return;
+            }
+            const client = server.client;
+
+            let prompts: McpPrompt[];
+            try {
+                prompts = await client.listPrompts();
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Could not list prompts on ${server.serverName}: ${message}`);
+                return;
+            }
+            if (prompts.length === 0) {
+                vscode.window.showInformationMessage(`${server.serverName} does not offer any prompts.`);
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                prompts.map((prompt) => ({
+                    label: prompt.title || prompt.name,
+                    description: prompt.title ? prompt.name : undefined,
+                    detail: prompt.description,
+                    prompt,
+                })),
+                { title: `Prompts on ${server.serverName}`, placeHolder: 'Select a prompt to run', matchOnDetail: true }
+            );
+            if (!picked) {
+                return;
+            }
+
+            // A selected plan only fills in arguments for a prompt on the plan's own server.
+            const planRef = planTarget && (!planTarget.serverId || planTarget.serverId === server.serverId)
+                ? planTarget.planRef
+                : undefined;
+            const args: Record<string, string> = {};
+            for (const argument of picked.prompt.arguments) {
+                const value = await vscode.window.showInputBox({
+                    title: `${picked.label}: ${argument.name}`,
+                    prompt: argument.description || `Value for ${argument.name}`,
+                    placeHolder: argument.required ? undefined : 'Optional; leave empty to skip',
+                    value: planRef && isPlanArgument(argument.name) ? planRef : undefined,
+                    ignoreFocusOut: true,
+                    validateInput: (input) => (argument.required && !input.trim() ? `${argument.name} is required` : null),
+                });
+                if (value === undefined) {
+                    return;
+                }
+                if (value.trim()) {
+                    args[argument.name] = value.trim();
+                }
+            }
+
+            let content: string;
+            try {
+                content = formatPromptMessages(await client.getPrompt(picked.prompt.name, args));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Prompt ${picked.prompt.name} failed: ${message}`);
+                return;
+            }
+            const action = await vscode.window.showQuickPick(
+                [
+                    { label: 'Open in Editor', action: 'open' as const },
+                    { label: 'Copy to Clipboard', action: 'copy' as const },
+                ],
+                { title: `Prompt ${picked.label}`, placeHolder: 'What should happen with the rendered prompt?' }
+            );
+            if (action?.action === 'copy') {
+                await vscode.env.clipboard.writeText(content);
+                vscode.window.showInformationMessage(`Copied prompt ${picked.label} to the clipboard.`);
+            } else if (action?.action === 'open') {
+                const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+                await vscode.window.showTextDocument(document, { preview: false });
+            }
+        }),
+        vscode.commands.registerCommand('riotplan.exportRequestTrace', async () => {
+            const capture = tracer.toCapture(clientInfo.version);
+            if (capture.entries.length === 0) {
+                vscode.window.showInformationMessage('The request trace is empty. Start tracing and reproduce the problem first.');
+                return;
+            }
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const defaultName = `riotplan-trace-${capture.exportedAt.replace(/[:.]/g, '-')}.json`;
+            const target = await vscode.window.showSaveDialog({
+                saveLabel: 'Export trace',
+                filters: { 'JSON files': ['json'] },
+                defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, defaultName) : undefined,
+            });
+            if (!target) {
+                return;
+            }
+            await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(capture, null, 2), 'utf8'));
+            vscode.window.showInformationMessage(`Exported ${capture.entries.length} trace entries.`);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.configureTlsPassphrase', async (serverId?: string) => {
+            const profile = serverId
+                ? connectionManager.getProfiles().find((entry) => entry.id === serverId)
+                : await pickServerProfile('Set client key passphrase');
+            if (!profile) {
+                return;
+            }
+            const passphrase = await vscode.window.showInputBox({
+                title: `Client key passphrase: ${profile.name}`,
+                prompt: 'Passphrase for the tls.keyFile of this server profile (leave empty to clear)',
+                ignoreFocusOut: true,
+                password: true,
+            });
+            if (passphrase === undefined) {
+                return;
+            }
+            if (passphrase) {
+                await context.secrets.store(tlsPassphraseStorageKey(profile.id), passphrase);
+            } else {
+                await context.secrets.delete(tlsPassphraseStorageKey(profile.id));
+            }
+            await reloadConnectionsFromProfiles();
+            vscode.window.showInformationMessage(
+                passphrase ? `Stored client key passphrase for "${profile.name}".` : `Cleared client key passphrase for "${profile.name}".`
+            );
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.configureHeaderSecret', async (serverId?: string, headerName?: string) => {
+            const selected = serverId ? { id: serverId } : await pickServerProfile('Set secret header value');
+            const profile = selected && connectionManager.getProfiles().find((entry) => entry.id === selected.id);
+            if (!profile) {
+                return;
+            }
+            const secretHeaders = (profile.headers ?? []).filter((header) => header.secret).map((header) => header.name);
+            if (secretHeaders.length === 0) {
+                vscode.window.showWarningMessage(
+                    `Server "${profile.name}" has no secret headers. Add one with "secret": true to its headers in riotplan.serverProfiles.`
+                );
+                return;
+            }
+            const name = headerName && secretHeaders.includes(headerName)
+                ? headerName
+                : secretHeaders.length === 1
+                    ? secretHeaders[0]
+                    : await vscode.window.showQuickPick(secretHeaders, { title: `Secret header: ${profile.name}` });
+            if (!name) {
+                return;
+            }
+            const value = await vscode.window.showInputBox({
+                title: `${name}: ${profile.name}`,
+                prompt: `Value of the ${name} header for this server profile (leave empty to clear)`,
+                ignoreFocusOut: true,
+                password: true,
+            });
+            if (value === undefined) {
+                return;
+            }
+            if (value) {
+                await context.secrets.store(profileHeaderStorageKey(profile.id, name), value);
+            } else {
+                await context.secrets.delete(profileHeaderStorageKey(profile.id, name));
+            }
+            await reloadConnectionsFromProfiles();
+            vscode.window.showInformationMessage(
+                value ? `Stored ${name} header for "${profile.name}".` : `Cleared ${name} header for "${profile.name}".`
+            );
+        })
+    );
+
+    /** Names of the profile's secret headers that have no value in secret storage. */
+    async function missingHeaderSecrets(profile: ServerProfile): Promise<string[]> {
+        const missing: string[] = [];
+        for (const header of profile.headers ?? []) {
+            if (header.secret && !(await context.secrets.get(profileHeaderStorageKey(profile.id, header.name)))) {
+                missing.push(header.name);
+            }
+        }
+        return missing;
+    }
+
+    async function pickOAuthProfile(serverId: string | undefined, title: string): Promise<ServerProfile | undefined> {
+        const selected = serverId ? { id: serverId } : await pickServerProfile(title);
+        if (!selected) {
+            return undefined;
+        }
+        const profile = connectionManager.getProfiles().find((entry) => entry.id === selected.id);
+        if (profile && profile.authMode !== 'oauth') {
+            vscode.window.showWarningMessage(
+                `Server "${profile.name}" uses an API token. Set its authMode to "oauth" in riotplan.serverProfiles to sign in.`
+            );
+            return undefined;
+        }
+        return profile;
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.signIn', async (serverId?: string, wwwAuthenticate?: string) => {
+            const profile = await pickOAuthProfile(serverId, 'Sign in to server');
+            if (!profile) {
+                return;
+            }
+            try {
+                const tokens = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Signing in to "${profile.name}" (complete the sign-in in your browser)`,
+                        cancellable: true,
+                    },
+                    (_progress, token) => oauthSessions.signIn(profile, { token, wwwAuthenticate })
+                );
+                connectionManager.setClientApiKey(profile.id, tokens.accessToken);
+                reauthenticationPrompts.delete(profile.id);
+                await reloadConnectionsFromProfiles();
+                vscode.window.showInformationMessage(`Signed in to "${profile.name}".`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Sign-in to "${profile.name}" failed: ${message}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.signOut', async (serverId?: string) => {
+            const profile = await pickOAuthProfile(serverId, 'Sign out of server');
+            if (!profile) {
+                return;
+            }
+            const result = await oauthSessions.signOut(profile);
+            connectionManager.setClientApiKey(profile.id, undefined);
+            await refreshServerStatuses();
+            if (result.error) {
+                vscode.window.showWarningMessage(
+                    `Signed out of "${profile.name}" locally; the server did not confirm token revocation: ${result.error}`
+                );
+            } else {
+                vscode.window.showInformationMessage(`Signed out of "${profile.name}".`);
+            }
+        })
+    );
+
     async function addServerConnection(): Promise<void> {
         const profiles = connectionManager.getProfiles();
         const name = await vscode.window.showInputBox({
@@ -723,18 +1468,27 @@ export async function activate(context: vscode.ExtensionContext) {
         if (!name?.trim()) {
             return;
         }
+        const transportChoice = await vscode.window.showQuickPick(
+            [
+                { label: 'HTTP server', description: 'Connect to a running RiotPlan MCP server URL', value: 'http' as const },
+                { label: 'Local process (stdio)', description: 'Launch a RiotPlan MCP server command', value: 'stdio' as const },
+            ],
+            {
+                title: 'Connection type',
+            }
+        );
+        if (!transportChoice) {
+            return;
+        }
+        if (transportChoice.value === 'stdio') {
+            await addStdioServerConnection(name.trim());
+            return;
+        }
         const url = await vscode.window.showInputBox({
             title: 'Add server connection',
-            prompt: 'Server URL',
+            prompt: 'Server URL (http, https, or unix:/path/to/socket)',
             value: 'http://127.0.0.1:3002',
-            validateInput: (value) => {
-                try {
-                    const parsed = new URL(value.trim());
-                    return /^https?:$/.test(parsed.protocol) ? null : 'URL must use http or https';
-                } catch {
-                    return 'Enter a valid URL';
-                }
-            },
+            validateInput: validateServerUrlInput,
         });
         if (!url?.trim()) {
             return;
@@ -751,19 +1505,69 @@ export async function activate(context: vscode.ExtensionContext) {
         if (!bypassChoice) {
             return;
         }
+        const authChoice = await vscode.window.showQuickPick(
+            [
+                { label: 'API token', description: 'Static token stored in VS Code secrets', value: 'token' as const },
+                { label: 'OAuth sign-in', description: 'Authorize in the browser', value: 'oauth' as const },
+            ],
+            {
+                title: 'Authentication',
+            }
+        );
+        if (!authChoice) {
+            return;
+        }
 
         const timestamp = new Date().toISOString();
+        const id = randomUUID();
         const nextProfiles = [...profiles, {
-            id: randomUUID(),
+            id,
             name: name.trim(),
             url: url.trim(),
             enabled: true,
             proxyBypass: bypassChoice.value,
+            ...(authChoice.value === 'oauth' ? { authMode: authChoice.value } : {}),
             createdAt: timestamp,
             updatedAt: timestamp,
         }];
         await profilesStore.saveProfiles(nextProfiles);
         await reloadConnectionsFromProfiles();
+        if (authChoice.value === 'oauth') {
+            await vscode.commands.executeCommand('riotplan.signIn', id);
+        }
+    }
+
+    async function promptStdioCommandLine(title: string, value?: string): Promise<string[] | undefined> {
+        const commandLine = await vscode.window.showInputBox({
+            title,
+            prompt: 'Command and arguments that start a RiotPlan MCP server on stdio',
+            value,
+            validateInput: (input) => (splitCommandLine(input).length > 0 ? null : 'Command is required'),
+        });
+        const parts = splitCommandLine(commandLine || '');
+        return parts.length > 0 ? parts : undefined;
+    }
+
+    async function addStdioServerConnection(name: string): Promise<void> {
+        const parts = await promptStdioCommandLine('Add server connection');
+        if (!parts) {
+            return;
+        }
+        const [command, ...args] = parts;
+        const stdio = { command, ...(args.length > 0 ? { args } : {}) };
+        const timestamp = new Date().toISOString();
+        await profilesStore.saveProfiles([...connectionManager.getProfiles(), {
+            id: randomUUID(),
+            name,
+            url: stdioServerUrl(stdio),
+            enabled: true,
+            proxyBypass: false,
+            transport: 'stdio',
+            stdio,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+        }]);
+        await reloadConnectionsFromProfiles();
     }
 
     async function switchServerConnection(): Promise<void> {
@@ -791,25 +1595,45 @@ export async function activate(context: vscode.ExtensionContext) {
         if (!selected) {
             return;
         }
-        const secret = await context.secrets.get(tokenStorageKey(selected.id));
-        const tokenState = sanitizeToken(secret) ? 'Configured (secret storage)' : 'Not configured';
+        const secret = sanitizeToken(await context.secrets.get(tokenStorageKey(selected.id)));
+        const secretExpiry = tokenExpiry(secret);
+        const tokenState = secret
+            ? `Configured (secret storage)${secretExpiry ? `, ${describeTokenExpiry(secretExpiry)}` : ''}`
+            : 'Not configured';
         const status = connectionManager.getStatuses().find((entry) => entry.serverId === selected!.id);
         const connectionState = status?.state || 'disconnected';
         const sessionId = status?.sessionId || undefined;
+        const circuitDescription = describeCircuit(status?.circuit);
+        const protocol = connectionManager.getClient(selected.id)?.getProtocolInfo();
+        const serverSoftware = describeServerInfo(protocol?.serverInfo);
+        const selectedProfile = connectionManager.getProfiles().find((p) => p.id === selected!.id);
+        const tlsDescription = describeTlsSettings(selectedProfile?.tls);
+        const authDescription = selectedProfile && !selectedProfile.stdio
+            ? selectedProfile.authMode === 'oauth' ? 'OAuth (Authorization: Bearer)' : describeAuthScheme(selectedProfile.authScheme)
+            : undefined;
+        const headerNames = selectedProfile?.headers?.map((header) => (header.secret ? `${header.name} (secret)` : header.name));
 
         const lines = [
             `Server: ${selected.name}`,
-            `URL: ${selected.url}`,
+            selectedProfile?.stdio ? `Command: ${describeStdioCommand(selectedProfile.stdio)}` : `URL: ${selected.url}`,
             `Status: ${connectionState.charAt(0).toUpperCase() + connectionState.slice(1)}`,
             sessionId ? `Connected Session ID: ${sessionId}` : undefined,
+            protocol ? `MCP Protocol: ${protocol.protocolVersion}` : undefined,
+            serverSoftware ? `Server Software: ${serverSoftware}` : undefined,
             `API Token: ${tokenState}`,
+            authDescription ? `Auth: ${authDescription}` : undefined,
+            headerNames?.length ? `Headers: ${headerNames.join(', ')}` : undefined,
+            selectedProfile ? `Defined in: ${describeProfileSource(selectedProfile)}` : undefined,
+            tlsDescription ? `TLS: ${tlsDescription}` : undefined,
+            circuitDescription ? `Circuit: ${circuitDescription}` : undefined,
             status?.lastError ? `Error: ${status.lastError}` : undefined,
         ].filter(Boolean).join('\n');
 
         const isActive = connectionManager.getActiveServerId() === selected.id;
+        const tokenAction = secret && selectedProfile?.authMode !== 'oauth' ? 'Rotate Token' : 'Configure Token';
         const actions = isActive
-            ? ['Configure Token', 'Reconnect']
-            : ['Switch to this Server', 'Configure Token', 'Reconnect'];
+            ? [tokenAction, 'Reconnect', 'Diagnose']
+            : ['Switch to this Server', tokenAction, 'Reconnect', 'Diagnose'];
 
         const action = await vscode.window.showInformationMessage(
             lines,
@@ -823,9 +1647,13 @@ export async function activate(context: vscode.ExtensionContext) {
             await reloadConnectionsFromProfiles();
             vscode.window.showInformationMessage(`Active server set to "${selected.name}".`);
         } else if (action === 'Configure Token') {
-            await vscode.commands.executeCommand('riotplan.configureApiKey');
+            await vscode.commands.executeCommand('riotplan.configureApiKey', selected.id);
+        } else if (action === 'Rotate Token') {
+            await rotateApiKey(selected.id);
         } else if (action === 'Reconnect') {
             await reloadConnectionsFromProfiles();
+        } else if (action === 'Diagnose') {
+            await diagnoseConnection(selected.id);
         }
     }
 
@@ -854,6 +1682,10 @@ export async function activate(context: vscode.ExtensionContext) {
         authDebugChannel.appendLine(
             `Secret storage token: ${sanitizedSecret ? `present (len=${sanitizedSecret.length}, last4=${tokenLast4(sanitizedSecret)})` : 'missing'}`
         );
+        const secretExpiry = tokenExpiry(sanitizedSecret);
+        if (secretExpiry) {
+            authDebugChannel.appendLine(`Token expiry (JWT exp claim): ${describeTokenExpiry(secretExpiry)}`);
+        }
 
         let client = connectionManager.getClient(selected.id);
         if (!client) {
@@ -873,6 +1705,18 @@ export async function activate(context: vscode.ExtensionContext) {
         authDebugChannel.appendLine(
             `Client token state before probe: present=${before.hasApiKey}, preview=${before.tokenPreview}, len=${before.tokenLength}`
         );
+        authDebugChannel.appendLine(`Auth scheme: ${before.authScheme}`);
+        authDebugChannel.appendLine(before.headers.length > 0 ? 'Headers sent with every request:' : 'Headers sent with every request: none');
+        for (const header of before.headers) {
+            authDebugChannel.appendLine(`  ${header}`);
+        }
+        const profile = connectionManager.getProfiles().find((entry) => entry.id === selected!.id);
+        const missingHeaders = profile ? await missingHeaderSecrets(profile) : [];
+        if (missingHeaders.length > 0) {
+            authDebugChannel.appendLine(
+                `Not sent, no value in secret storage: ${missingHeaders.join(', ')} (set with RiotPlan: Set Secret Header Value)`
+            );
+        }
         authDebugChannel.appendLine(
             `Client session before probe: present=${before.hasSessionId}, preview=${before.sessionIdPreview}`
         );
@@ -907,11 +1751,62 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage(`Auth debug output opened for "${selected.name}".`);
     }
 
+    /** Checks each layer of the connection with a separate client and opens a copyable report. */
+    async function diagnoseConnection(serverId?: string): Promise<void> {
+        const selected = serverId ? { id: serverId } : await pickServerProfile('Diagnose connection');
+        const profile = selected && connectionManager.getProfiles().find((entry) => entry.id === selected.id);
+        if (!profile) {
+            return;
+        }
+        const report = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Diagnosing "${profile.name}"` },
+            (progress) => runConnectionDiagnostics(
+                {
+                    serverName: profile.name,
+                    serverUrl: profile.url,
+                    proxyBypass: profile.proxyBypass,
+                    transport: profile.transport,
+                    // A stdio profile runs one server process, so its connected client is checked in place.
+                    createClient: profile.transport === 'stdio'
+                        ? async () => {
+                            const client = connectionManager.getClient(profile.id);
+                            if (!client) {
+                                throw new Error('The server process is not running');
+                            }
+                            return { client, shared: true };
+                        }
+                        : () => connectionManager.createStandaloneClient(profile.id),
+                },
+                (step) => progress.report({ message: `${step.name}: ${step.status}` })
+            )
+        );
+        const text = formatDiagnosticsReport(report);
+        const document = await vscode.workspace.openTextDocument({ content: text, language: 'plaintext' });
+        await vscode.window.showTextDocument(document, { preview: true });
+        const failed = report.steps.find((step) => step.status === 'fail');
+        const action = await vscode.window.showInformationMessage(
+            failed
+                ? `"${profile.name}" fails at ${failed.name}: ${failed.detail}`
+                : `No connection problems found for "${profile.name}".`,
+            'Copy Report'
+        );
+        if (action === 'Copy Report') {
+            await vscode.env.clipboard.writeText(text);
+        }
+    }
+
     async function removeServerConnection(): Promise<void> {
         const selected = await pickServerProfile('Remove server connection');
         if (!selected) {
             return;
         }
+        const selectedProfile = connectionManager.getProfiles().find((profile) => profile.id === selected.id);
+        if (selectedProfile?.source === 'repository') {
+            vscode.window.showWarningMessage(
+                `"${selected.name}" is defined in ${describeProfileSource(selectedProfile)}. Remove it from that file instead.`
+            );
+            return;
+        }
         const confirmation = await vscode.window.showWarningMessage(
             `Remove server profile "${selected.name}"?`,
             { modal: true },
@@ -924,10 +1819,198 @@ export async function activate(context: vscode.ExtensionContext) {
         const profiles = connectionManager.getProfiles();
         const updatedProfiles = profiles.filter((profile) => profile.id !== selected.id);
         await profilesStore.saveProfiles(updatedProfiles);
-        await context.secrets.delete(tokenStorageKey(selected.id));
+        await forgetStoredCredentials(selected.id, selectedProfile?.headers);
+        await offlineCache?.clear(selected.id).catch(() => undefined);
         await reloadConnectionsFromProfiles();
     }
 
+    /** Tokens and secret header values are stored by profile id; remove the ones a profile leaves behind. */
+    async function forgetStoredCredentials(serverId: string, headers: ServerProfile['headers']): Promise<void> {
+        await context.secrets.delete(tokenStorageKey(serverId));
+        await context.secrets.delete(oauthStorageKey(serverId));
+        for (const header of headers ?? []) {
+            if (header.secret) {
+                await context.secrets.delete(profileHeaderStorageKey(serverId, header.name));
+            }
+        }
+    }
+
+    async function exportServerProfiles(): Promise<void> {
+        const profiles = connectionManager.getProfiles();
+        if (profiles.length === 0) {
+            vscode.window.showWarningMessage('No server profiles are configured.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            profiles.map((profile) => ({
+                label: profile.name,
+                description: profile.url,
+                detail: describeProfileSource(profile),
+                picked: true,
+                profile,
+            })),
+            {
+                title: 'Export server profiles',
+                placeHolder: 'Profiles to include; API tokens are never exported',
+                canPickMany: true,
+            }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            saveLabel: 'Export profiles',
+            filters: { 'JSON files': ['json'] },
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, 'riotplan-servers.json') : undefined,
+        });
+        if (!target) {
+            return;
+        }
+        const bundle = createProfileBundle(picked.map((item) => item.profile));
+        await vscode.workspace.fs.writeFile(target, Buffer.from(`${JSON.stringify(bundle, null, 2)}\n`, 'utf8'));
+        vscode.window.showInformationMessage(
+            `Exported ${picked.length} server profile${picked.length === 1 ? '' : 's'} to ${basename(target.fsPath)}. API tokens are not included.`
+        );
+    }
+
+    async function importServerProfiles(bundleUri?: vscode.Uri): Promise<void> {
+        const source = bundleUri ?? (await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import profiles',
+            filters: { 'JSON files': ['json'] },
+        }))?.[0];
+        if (!source) {
+            return;
+        }
+        const fileName = basename(source.fsPath);
+        let incoming: ServerProfile[];
+        try {
+            const bytes = await vscode.workspace.fs.readFile(source);
+            incoming = parseProfileBundle(JSON.parse(Buffer.from(bytes).toString('utf8')));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Could not import server profiles from ${fileName}: ${message}`);
+            return;
+        }
+
+        const existing = connectionManager.getProfiles();
+        const entries = planProfileImport(existing, incoming);
+        const resolutions = new Map<string, ProfileConflictResolution>();
+        for (const entry of entries) {
+            if (entry.action !== 'conflict') {
+                continue;
+            }
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Keep both', description: `Import "${entry.incoming.name}" as a new profile`, value: 'keepBoth' as const },
+                    {
+                        label: 'Replace',
+                        description: `Overwrite "${entry.existing!.name}" and remove its stored token and secret headers`,
+                        detail: entry.changes.join('; '),
+                        value: 'replace' as const,
+                    },
+                    { label: 'Skip', description: `Leave "${entry.existing!.name}" as it is`, value: 'skip' as const },
+                ],
+                {
+                    title: `Profile id "${entry.incoming.id}" is already used by "${entry.existing!.name}" (${entry.existing!.url})`,
+                    placeHolder: `The bundle points it at ${entry.incoming.url}`,
+                    ignoreFocusOut: true,
+                }
+            );
+            if (!choice) {
+                return;
+            }
+            resolutions.set(entry.incoming.id, choice.value);
+        }
+
+        const changes = resolveProfileImport(entries, (entry) => resolutions.get(entry.incoming.id) ?? 'skip', () => randomUUID());
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage(`Nothing to import: the profiles in ${fileName} are already configured.`);
+            return;
+        }
+        const preview = await vscode.window.showQuickPick(
+            changes.map((change) => ({
+                label: `${change.kind === 'add' ? '$(add)' : '$(edit)'} ${change.profile.name}`,
+                description: change.profile.url,
+                detail: change.kind === 'add'
+                    ? 'New profile'
+                    : [...change.changes, ...(change.dropsCredentials ? ['stored token and secret headers are removed'] : [])].join('; '),
+                picked: true,
+                change,
+            })),
+            {
+                title: `Import server profiles from ${fileName}`,
+                placeHolder: 'Review the changes and choose which to apply',
+                canPickMany: true,
+                ignoreFocusOut: true,
+            }
+        );
+        if (!preview || preview.length === 0) {
+            return;
+        }
+        const applied = preview.map((item) => item.change);
+        for (const change of applied) {
+            if (change.dropsCredentials) {
+                await forgetStoredCredentials(change.profile.id, change.previous?.headers);
+            }
+        }
+        await profilesStore.saveProfiles(mergeImportedProfiles(existing, applied));
+        await reloadConnectionsFromProfiles();
+        await promptForImportedCredentials(applied);
+    }
+
+    /** Imported profiles arrive without tokens; offer to set up the ones that need one. */
+    async function promptForImportedCredentials(changes: ProfileImportChange[]): Promise<void> {
+        const needsToken: ServerProfile[] = [];
+        const needsSignIn: ServerProfile[] = [];
+        const needsHeaders: Array<{ profile: ServerProfile; names: string[] }> = [];
+        for (const { profile } of changes) {
+            if (profile.transport === 'stdio') {
+                continue;
+            }
+            const missingHeaders = await missingHeaderSecrets(profile);
+            if (missingHeaders.length > 0) {
+                needsHeaders.push({ profile, names: missingHeaders });
+            }
+            if (profile.authScheme?.type === 'none' && profile.authMode !== 'oauth') {
+                continue;
+            }
+            if (profile.authMode === 'oauth') {
+                if (!(await oauthSessions.hasSession(profile.id))) {
+                    needsSignIn.push(profile);
+                }
+            } else if (!sanitizeToken(await context.secrets.get(tokenStorageKey(profile.id)))) {
+                needsToken.push(profile);
+            }
+        }
+        const summary = `Imported ${changes.length} server profile${changes.length === 1 ? '' : 's'}.`;
+        if (needsToken.length === 0 && needsSignIn.length === 0 && needsHeaders.length === 0) {
+            vscode.window.showInformationMessage(summary);
+            return;
+        }
+        const pending = [
+            needsToken.length > 0 ? `${needsToken.length} need an API token` : undefined,
+            needsSignIn.length > 0 ? `${needsSignIn.length} need OAuth sign-in` : undefined,
+            needsHeaders.length > 0 ? `${needsHeaders.length} need secret header values` : undefined,
+        ].filter(Boolean).join(', ');
+        const action = await vscode.window.showInformationMessage(`${summary} ${pending}.`, 'Set Up Now', 'Later');
+        if (action !== 'Set Up Now') {
+            return;
+        }
+        for (const profile of needsToken) {
+            await vscode.commands.executeCommand('riotplan.configureApiKey', profile.id);
+        }
+        for (const profile of needsSignIn) {
+            await vscode.commands.executeCommand('riotplan.signIn', profile.id);
+        }
+        for (const { profile, names } of needsHeaders) {
+            for (const name of names) {
+                await vscode.commands.executeCommand('riotplan.configureHeaderSecret', profile.id, name);
+            }
+        }
+    }
+
     function findTargetPlanConflict(plans: any[], candidateCode: string): string | undefined {
         const normalized = candidateCode.toLowerCase();
         for (const plan of plans) {
@@ -977,7 +2060,7 @@ export async function activate(context: vscode.ExtensionContext) {
             candidates.map((profile) => ({
                 label: profile.name,
                 description: profile.url,
-                detail: profile.id,
+                detail: `${profile.id} · ${describeProfileSource(profile)}`,
                 profile,
             })),
             {
@@ -1018,69 +2101,97 @@ export async function activate(context: vscode.ExtensionContext) {
         }
 
         let moveCleanupError: string | undefined;
+        let outcome = 'skipped' as 'transferred' | 'skipped' | 'cancelled';
+        let uploaded = false;
         await vscode.window.withProgress(
             {
                 location: vscode.ProgressLocation.Notification,
                 title: `Transferring "${plan?.label || planRef}"`,
-                cancellable: false,
+                cancellable: true,
             },
-            async (progress) => {
-                progress.report({ message: 'Downloading plan from source...' });
-                const downloaded = await sourceClient.downloadPlanFile(planRef);
-                const candidateCode = sanitizePlanCode(
-                    plan?.label || plan?.name || plan?.code || planRef
-                ) || 'transferred-plan';
-
-                progress.report({ message: 'Checking target conflicts...' });
-                const targetListResponse = await targetClient.listPlans('all');
-                const targetPlans = JSON.parse(String(targetListResponse?.content?.[0]?.text || '{"plans": []}')).plans || [];
-                const conflictingPlanRef = findTargetPlanConflict(targetPlans, candidateCode);
-
-                let targetCode = candidateCode;
-                if (conflictingPlanRef) {
-                    const conflictAction = await vscode.window.showQuickPick(
-                        [
-                            { label: 'Overwrite', value: 'overwrite' as const, description: 'Remove existing target plan then create' },
-                            { label: 'Rename', value: 'rename' as const, description: 'Create with a new plan code' },
-                            { label: 'Skip', value: 'skip' as const, description: 'Cancel transfer for this plan' },
-                        ],
-                        {
-                            title: 'Plan conflict detected',
-                            placeHolder: `A plan with code "${candidateCode}" exists on ${targetProfile.name}.`,
-                            ignoreFocusOut: true,
-                        }
-                    );
-                    if (!conflictAction || conflictAction.value === 'skip') {
-                        return;
-                    }
-                    if (conflictAction.value === 'overwrite') {
-                        progress.report({ message: 'Removing conflicting plan on target...' });
-                        await deletePlanBestEffort(targetClient, conflictingPlanRef);
-                    } else if (conflictAction.value === 'rename') {
-                        const renamed = await vscode.window.showInputBox({
-                            title: 'Rename transferred plan',
-                            prompt: 'Enter a new plan code',
-                            value: `${candidateCode}-copy`,
-                            ignoreFocusOut: true,
-                            validateInput: (value) => (sanitizePlanCode(value).length > 0 ? null : 'Enter a valid name'),
-                        });
-                        if (!renamed?.trim()) {
+            async (progress, token) => {
+                const requestOptions: RequestOptions = { signal: toAbortSignal(token) };
+                // The plan is staged on disk so large plans never sit in memory.
+                const stagingDir = await mkdtemp(join(tmpdir(), 'riotplan-transfer-'));
+                const stagedPlan = join(stagingDir, 'source.plan');
+                try {
+                    progress.report({ message: 'Downloading plan from source...' });
+                    const download = new ProgressForwarder(progress, 45, 'Downloading plan from source', 'bytes');
+                    await sourceClient.downloadPlanToFile(planRef, stagedPlan, {
+                        ...requestOptions,
+                        onProgress: download.onProgress,
+                    });
+                    download.complete();
+                    const candidateCode = sanitizePlanCode(
+                        plan?.label || plan?.name || plan?.code || planRef
+                    ) || 'transferred-plan';
+
+                    progress.report({ message: 'Checking target conflicts...' });
+                    const targetListResponse = await targetClient.listPlans('all', requestOptions);
+                    const targetPlans = JSON.parse(String(targetListResponse?.content?.[0]?.text || '{"plans": []}')).plans || [];
+                    const conflictingPlanRef = findTargetPlanConflict(targetPlans, candidateCode);
+
+                    let targetCode = candidateCode;
+                    if (conflictingPlanRef) {
+                        const conflictAction = await vscode.window.showQuickPick(
+                            [
+                                { label: 'Overwrite', value: 'overwrite' as const, description: 'Remove existing target plan then create' },
+                                { label: 'Rename', value: 'rename' as const, description: 'Create with a new plan code' },
+                                { label: 'Skip', value: 'skip' as const, description: 'Cancel transfer for this plan' },
+                            ],
+                            {
+                                title: 'Plan conflict detected',
+                                placeHolder: `A plan with code "${candidateCode}" exists on ${targetProfile.name}.`,
+                                ignoreFocusOut: true,
+                            },
+                            token
+                        );
+                        if (!conflictAction || conflictAction.value === 'skip') {
                             return;
                         }
-                        targetCode = sanitizePlanCode(renamed);
+                        if (conflictAction.value === 'overwrite') {
+                            progress.report({ message: 'Removing conflicting plan on target...' });
+                            await deletePlanBestEffort(targetClient, conflictingPlanRef, requestOptions);
+                        } else if (conflictAction.value === 'rename') {
+                            const renamed = await vscode.window.showInputBox({
+                                title: 'Rename transferred plan',
+                                prompt: 'Enter a new plan code',
+                                value: `${candidateCode}-copy`,
+                                ignoreFocusOut: true,
+                                validateInput: (value) => (sanitizePlanCode(value).length > 0 ? null : 'Enter a valid name'),
+                            }, token);
+                            if (!renamed?.trim()) {
+                                return;
+                            }
+                            targetCode = sanitizePlanCode(renamed);
+                        }
                     }
-                }
-
-                const uploadFilename = `${sanitizeFileName(targetCode)}.plan`;
-                progress.report({ message: `Uploading plan file to ${targetProfile.name}...` });
-                await targetClient.uploadPlanFile(uploadFilename, downloaded.content);
 
-                if (modeSelection.mode === 'move') {
-                    progress.report({ message: 'Removing source plan...' });
-                    const deleteError = await deletePlanWithReport(sourceClient, planRef);
-                    if (deleteError) {
-                        moveCleanupError = deleteError;
+                    const uploadFilename = `${sanitizeFileName(targetCode)}.plan`;
+                    progress.report({ message: `Uploading plan file to ${targetProfile.name}...` });
+                    const upload = new ProgressForwarder(progress, 45, `Uploading plan file to ${targetProfile.name}`, 'bytes');
+                    await targetClient.uploadPlanFromFile(stagedPlan, uploadFilename, {
+                        ...requestOptions,
+                        onProgress: upload.onProgress,
+                    });
+                    upload.complete();
+                    uploaded = true;
+
+                    if (modeSelection.mode === 'move') {
+                        progress.report({ message: 'Removing source plan...' });
+                        const deleteError = await deletePlanWithReport(sourceClient, planRef, requestOptions);
+                        if (deleteError) {
+                            moveCleanupError = deleteError;
+                        }
+                    }
+                    outcome = 'transferred';
+                } catch (error) {
+                    if (!isCancellationError(error)) {
+                        throw error;
                     }
+                    outcome = 'cancelled';
+                } finally {
+                    await rm(stagingDir, { recursive: true, force: true }).catch(() => undefined);
                 }
             }
         );
@@ -1088,11 +2199,17 @@ export async function activate(context: vscode.ExtensionContext) {
         plansProvider.refresh();
         projectsProvider.refresh();
         await refreshServerStatuses();
-        if (moveCleanupError) {
+        if (outcome === 'cancelled') {
+            vscode.window.showWarningMessage(
+                uploaded
+                    ? `Transfer cancelled after the plan was copied to "${targetProfile.name}"; the source plan was kept.`
+                    : 'Transfer cancelled.'
+            );
+        } else if (outcome === 'transferred' && moveCleanupError) {
             vscode.window.showWarningMessage(
                 `Plan copied to "${targetProfile.name}", but removing source failed: ${moveCleanupError}`
             );
-        } else {
+        } else if (outcome === 'transferred') {
             const modeLabel = modeSelection.mode === 'move' ? 'Moved' : 'Copied';
             vscode.window.showInformationMessage(`${modeLabel} plan to "${targetProfile.name}".`);
         }
@@ -1109,9 +2226,13 @@ export async function activate(context: vscode.ExtensionContext) {
                         { label: 'Add server connection', value: 'add' },
                         { label: 'Switch active server', value: 'switch' },
                         { label: 'Show server connection details', value: 'details' },
-                        { label: 'Edit server URL', value: 'edit' },
+                        { label: 'Diagnose a connection', value: 'diagnose' },
+                        { label: 'Edit server URL or command', value: 'edit' },
                         { label: 'Remove server profile', value: 'remove' },
+                        { label: 'Import server profiles...', value: 'import' },
+                        { label: 'Export server profiles...', value: 'export' },
                         { label: 'Configure API token', value: 'setToken' },
+                        { label: 'Rotate API token', value: 'rotateToken' },
                         { label: 'Clear API token', value: 'clearToken' },
                         { label: 'Reconnect all servers', value: 'reconnect' },
                         { label: 'Open RiotPlan settings (UI)', value: 'settingsUi' },
@@ -1129,6 +2250,10 @@ export async function activate(context: vscode.ExtensionContext) {
                     await vscode.commands.executeCommand('riotplan.configureApiKey');
                     return;
                 }
+                if (action.value === 'rotateToken') {
+                    await rotateApiKey();
+                    return;
+                }
                 if (action.value === 'clearToken') {
                     await vscode.commands.executeCommand('riotplan.clearApiKey');
                     return;
@@ -1149,6 +2274,14 @@ export async function activate(context: vscode.ExtensionContext) {
                     await addServerConnection();
                     return;
                 }
+                if (action.value === 'import') {
+                    await importServerProfiles();
+                    return;
+                }
+                if (action.value === 'export') {
+                    await exportServerProfiles();
+                    return;
+                }
                 if (action.value === 'switch') {
                     await switchServerConnection();
                     return;
@@ -1157,6 +2290,10 @@ export async function activate(context: vscode.ExtensionContext) {
                     await showServerConnectionDetails();
                     return;
                 }
+                if (action.value === 'diagnose') {
+                    await diagnoseConnection();
+                    return;
+                }
                 if (action.value === 'remove') {
                     await removeServerConnection();
                     return;
@@ -1176,17 +2313,29 @@ export async function activate(context: vscode.ExtensionContext) {
                 }
 
                 if (action.value === 'edit') {
+                    const stdio = connectionManager.getProfiles().find((profile) => profile.id === selected.id)?.stdio;
+                    if (stdio) {
+                        const parts = await promptStdioCommandLine(
+                            `Edit server command: ${selected.name}`,
+                            describeStdioCommand(stdio)
+                        );
+                        if (!parts) {
+                            return;
+                        }
+                        const [command, ...args] = parts;
+                        const nextStdio = { ...stdio, command, args };
+                        await profilesStore.saveProfiles(connectionManager.getProfiles().map((profile) => (
+                            profile.id === selected.id
+                                ? { ...profile, url: stdioServerUrl(nextStdio), stdio: nextStdio, updatedAt: new Date().toISOString() }
+                                : profile
+                        )));
+                        await reloadConnectionsFromProfiles();
+                        return;
+                    }
                     const nextUrl = await vscode.window.showInputBox({
                         title: `Edit server URL: ${selected.name}`,
                         value: selected.url,
-                        validateInput: (value) => {
-                            try {
-                                const parsed = new URL(value.trim());
-                                return /^https?:$/.test(parsed.protocol) ? null : 'URL must use http or https';
-                            } catch {
-                                return 'Enter a valid URL';
-                            }
-                        },
+                        validateInput: validateServerUrlInput,
                     });
                     if (!nextUrl?.trim()) {
                         return;
@@ -1237,6 +2386,18 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.exportServerProfiles', async () => {
+            await exportServerProfiles();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('riotplan.importServerProfiles', async (bundleUri?: vscode.Uri) => {
+            await importServerProfiles(bundleUri);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('riotplan.openPlan', (plan: any) => {
             void openPlan(plan);
@@ -1258,8 +2419,7 @@ export async function activate(context: vscode.ExtensionContext) {
                     return;
                 }
                 const { client, planRef } = resolvePlanClientAndRef(scopedPlanRef);
-                const downloaded = await client.downloadPlanFile(planRef);
-                const defaultName = sanitizeFileName(downloaded.filename.replace(/\.plan$/i, '') || sourcePlan.label || 'plan');
+                const defaultName = sanitizeFileName(String(sourcePlan?.label || planRef)) || 'plan';
                 const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
                 const target = await vscode.window.showSaveDialog({
                     saveLabel: 'Download plan',
@@ -1271,9 +2431,28 @@ export async function activate(context: vscode.ExtensionContext) {
                 if (!target) {
                     return;
                 }
-                await vscode.workspace.fs.writeFile(target, downloaded.content);
-                vscode.window.showInformationMessage(`Downloaded ${defaultName}.plan`);
+                const fileName = basename(target.fsPath);
+                await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Downloading "${fileName}"`,
+                        cancellable: true,
+                    },
+                    async (progress, token) => {
+                        const download = new ProgressForwarder(progress, 100, 'Downloading plan file', 'bytes');
+                        await client.downloadPlanToFile(planRef, target.fsPath, {
+                            signal: toAbortSignal(token),
+                            onProgress: download.onProgress,
+                        });
+                        download.complete();
+                    }
+                );
+                vscode.window.showInformationMessage(`Downloaded ${fileName}`);
             } catch (error) {
+                if (isCancellationError(error)) {
+                    vscode.window.showWarningMessage('Plan download cancelled. Download it to the same file again to resume.');
+                    return;
+                }
                 vscode.window.showErrorMessage(`Failed to download plan: ${error instanceof Error ? error.message : String(error)}`);
             }
         })
@@ -1391,6 +2570,14 @@ export async function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
+            const { client: renameClient } = resolvePlanClientAndRef(scopedPlanRef);
+            if (!(await renameClient.supportsOperation('renamePlan'))) {
+                vscode.window.showInformationMessage(
+                    `${describeOperation('renamePlan')} is not supported by the RiotPlan server at ${renameClient.baseUrl}.`
+                );
+                return;
+            }
+
             const initialValue = (typeof currentName === 'string' && currentName.trim())
                 || (typeof plan?.label === 'string' && plan.label.trim())
                 || scopedPlanRef;
@@ -1421,8 +2608,8 @@ export async function activate(context: vscode.ExtensionContext) {
             }
 
             try {
-                const { client, planRef } = resolvePlanClientAndRef(scopedPlanRef);
-                await client.renamePlan(planRef, trimmedName);
+                const { planRef } = resolvePlanClientAndRef(scopedPlanRef);
+                await renameClient.renamePlan(planRef, trimmedName);
                 PlanDetailPanel.applyPlanTitleUpdate(planRef, trimmedName);
                 plansProvider.refresh();
                 vscode.window.showInformationMessage(`Renamed plan to "${trimmedName}".`);
@@ -1455,27 +2642,54 @@ export async function activate(context: vscode.ExtensionContext) {
                 return;
             }
             let deleted = 0;
+            let cancelled = false;
             const failures: string[] = [];
-            for (const item of selectedPlans) {
-                const scopedRef = resolvePlanRef(item);
-                if (!scopedRef) {
-                    continue;
-                }
-                const { client, planRef } = resolvePlanClientAndRef(scopedRef);
-                try {
-                    await client.deletePlan(planRef);
-                    deleted += 1;
-                } catch (error) {
-                    const message = error instanceof Error ? error.message : String(error);
-                    failures.push(`${item?.label || planRef}: ${message}`);
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: selectedPlans.length === 1 ? 'Deleting plan' : `Deleting ${selectedPlans.length} plans`,
+                    cancellable: true,
+                },
+                async (progress, token) => {
+                    const requestOptions: RequestOptions = { signal: toAbortSignal(token) };
+                    for (const item of selectedPlans) {
+                        if (token.isCancellationRequested) {
+                            cancelled = true;
+                            break;
+                        }
+                        const scopedRef = resolvePlanRef(item);
+                        if (!scopedRef) {
+                            continue;
+                        }
+                        const { client, planRef } = resolvePlanClientAndRef(scopedRef);
+                        progress.report({
+                            message: String(item?.label || planRef),
+                            increment: 100 / selectedPlans.length,
+                        });
+                        try {
+                            await client.deletePlan(planRef, requestOptions);
+                            deleted += 1;
+                        } catch (error) {
+                            if (isCancellationError(error)) {
+                                cancelled = true;
+                                break;
+                            }
+                            const message = error instanceof Error ? error.message : String(error);
+                            failures.push(`${item?.label || planRef}: ${message}`);
+                        }
+                    }
                 }
-            }
+            );
             plansProvider.refresh();
             projectsProvider.refresh();
             if (failures.length > 0) {
                 vscode.window.showErrorMessage(
                     `Deleted ${deleted}, failed ${failures.length}: ${failures.join('; ')}`
                 );
+            } else if (cancelled) {
+                vscode.window.showWarningMessage(
+                    `Deletion cancelled after ${deleted} of ${selectedPlans.length} plan${selectedPlans.length === 1 ? '' : 's'}.`
+                );
             } else {
                 vscode.window.showInformationMessage(
                     deleted === 1 ? 'Plan deleted.' : `${deleted} plans deleted.`
@@ -1541,6 +2755,26 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Servers that asked for roots get told when the workspace folders change
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            for (const profile of connectionManager.getProfiles()) {
+                void connectionManager.getClient(profile.id)?.notifyRootsChanged().catch(() => undefined);
+            }
+        })
+    );
+
+    // Profiles checked into a repository follow the workspace: its folders, its trust and the file itself
+    const repositoryProfilesWatcher = vscode.workspace.createFileSystemWatcher(`**/${REPOSITORY_PROFILES_FILE}`);
+    context.subscriptions.push(
+        repositoryProfilesWatcher,
+        repositoryProfilesWatcher.onDidCreate(() => void reloadConnectionsFromProfiles()),
+        repositoryProfilesWatcher.onDidChange(() => void reloadConnectionsFromProfiles()),
+        repositoryProfilesWatcher.onDidDelete(() => void reloadConnectionsFromProfiles()),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => void reloadConnectionsFromProfiles()),
+        vscode.workspace.onDidGrantWorkspaceTrust(() => void reloadConnectionsFromProfiles())
+    );
+
     // Watch for configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration((e) => {
@@ -1561,6 +2795,12 @@ export async function activate(context: vscode.ExtensionContext) {
             if (e.affectsConfiguration('riotplan.debugAuthLogging')) {
                 applyAuthDebugLogging();
             }
+            if (e.affectsConfiguration('riotplan.traceRequests')) {
+                tracer.setEnabled(vscode.workspace.getConfiguration('riotplan').get<boolean>('traceRequests', false));
+            }
+            if (e.affectsConfiguration('riotplan.healthCheckIntervalSeconds')) {
+                applyHealthCheckInterval();
+            }
         })
     );
 
@@ -1573,7 +2813,9 @@ export async function activate(context: vscode.ExtensionContext) {
         connectionManager.configureProfiles(profiles, activeServerId);
         await hydrateProfileApiKeys(context, profiles);
         await connectionManager.connectAll();
+        void checkTokenExpiries();
         applyAuthDebugLogging();
+        updateCapabilityContextKeys();
         refreshAggregatorAndClients();
 
         const activeClient = connectionManager.getActiveClient();
@@ -1611,9 +2853,9 @@ function getConfiguredProxyBypass(): boolean {
 async function openPlan(plan: PlanItem | any): Promise<void> {
     if (typeof plan === 'string' && plan.trim()) {
         const scopedRef = plan.trim();
-        const { client, planRef } = resolvePlanClientAndRef(scopedRef);
+        const { client, planRef, serverId } = resolvePlanClientAndRef(scopedRef);
         await maybeRemapTransferredPlan(scopedRef);
-        PlanDetailPanel.createOrShow(planRef, planRef, client);
+        PlanDetailPanel.createOrShow(planRef, planRef, client, undefined, serverId);
         return;
     }
 
@@ -1622,9 +2864,9 @@ async function openPlan(plan: PlanItem | any): Promise<void> {
     if (!scopedRef || typeof scopedRef !== 'string') {
         return;
     }
-    const { client, planRef } = resolvePlanClientAndRef(scopedRef);
+    const { client, planRef, serverId } = resolvePlanClientAndRef(scopedRef);
     await maybeRemapTransferredPlan(scopedRef);
-    PlanDetailPanel.createOrShow(planRef, planName, client, plan?.project);
+    PlanDetailPanel.createOrShow(planRef, planName, client, plan?.project, serverId);
 }
 
 function resolvePlanRef(plan: PlanItem | any): string | undefined {
@@ -1649,13 +2891,13 @@ function resolvePlanRef(plan: PlanItem | any): string | undefined {
     return ref;
 }
 
-function resolvePlanClientAndRef(scopedPlanRef: string): { client: HttpMcpClient; planRef: string } {
+function resolvePlanClientAndRef(scopedPlanRef: string): { client: HttpMcpClient; planRef: string; serverId?: string } {
     const scoped = fromServerScopedRef(scopedPlanRef);
     if (!scoped) {
         return { client: mcpClient, planRef: scopedPlanRef };
     }
     const client = aggregator.getClientForServer(scoped.serverId) || mcpClient;
-    return { client, planRef: scoped.value };
+    return { client, planRef: scoped.value, serverId: scoped.serverId };
 }
 
 function uniquePlanItems(plan: PlanSelectionInput, selections?: PlanSelectionInput[]): PlanSelectionInput[] {
@@ -1707,6 +2949,28 @@ async function resolveProjectFromSource(
     };
 }
 
+async function openResourceDocument(serverId: string, serverName: string, resourceUri: string, mimeType?: string): Promise<void> {
+    let document = await vscode.workspace.openTextDocument(resourceDocumentUri(serverId, serverName, resourceUri));
+    if (isJsonMimeType(mimeType)) {
+        document = await vscode.languages.setTextDocumentLanguage(document, 'json');
+    } else if (mimeType === 'text/markdown') {
+        document = await vscode.languages.setTextDocumentLanguage(document, 'markdown');
+    }
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
+function validateServerUrlInput(value: string): string | null {
+    if (isUnixSocketUrl(value)) {
+        return unixSocketPath(value) ? null : 'Enter the socket path after unix:';
+    }
+    try {
+        const parsed = new URL(value.trim());
+        return /^https?:$/.test(parsed.protocol) ? null : 'URL must use http, https or unix:';
+    } catch {
+        return 'Enter a valid URL';
+    }
+}
+
 async function checkConnection(serverUrl: string): Promise<void> {
     statusProvider.setConnectionState('checking');
     const result = await mcpClient.verifyRiotPlanServer();
@@ -1720,6 +2984,12 @@ async function checkConnection(serverUrl: string): Promise<void> {
                 `Check riotplan.serverUrl in settings.`
             );
         } else if (result.reason === 'unauthorized') {
+            const activeProfile = connectionManager.getProfiles()
+                .find((profile) => profile.id === connectionManager.getActiveServerId());
+            if (activeProfile) {
+                promptReauthentication(activeProfile);
+                return;
+            }
             const action = await vscode.window.showWarningMessage(
                 `RiotPlan server at ${serverUrl} rejected authentication (HTTP 401). Configure an API token for the active server.`,
                 'Configure API token',
@@ -1731,13 +3001,69 @@ async function checkConnection(serverUrl: string): Promise<void> {
                 await vscode.commands.executeCommand('riotplan.openServerManager');
             }
         } else {
-            vscode.window.showWarningMessage(
-                `RiotPlan server not available at ${serverUrl}. Please start the server and reload the window.`
+            const action = await vscode.window.showWarningMessage(
+                result.reason && result.reason !== 'server_unreachable'
+                    ? `RiotPlan server not available at ${serverUrl}: ${result.reason}`
+                    : `RiotPlan server not available at ${serverUrl}. Please start the server and reload the window.`,
+                'Diagnose Connection'
             );
+            if (action === 'Diagnose Connection') {
+                await vscode.commands.executeCommand('riotplan.diagnoseConnection', connectionManager.getActiveServerId());
+            }
         }
     }
 }
 
+/** OAuth profiles refresh their access token and reconnect; otherwise the user is asked for new credentials. */
+async function recoverRejectedCredentials(profile: ServerProfile): Promise<void> {
+    const token = profile.authMode === 'oauth' ? await oauthSessions.refresh(profile) : undefined;
+    if (!token) {
+        promptReauthentication(profile);
+        return;
+    }
+    connectionManager.setClientApiKey(profile.id, token);
+    await connectionManager.connect(profile.id);
+}
+
+/**
+ * Asks the user to sign in again or replace the token of the profile a server
+ * rejected. Shown once per profile until it gets new credentials or reconnects.
+ * `wwwAuthenticate` is the rejecting 401's challenge, handed on to OAuth sign-in.
+ */
+function promptReauthentication(profile: ServerProfile, wwwAuthenticate?: string): void {
+    if (reauthenticationPrompts.has(profile.id)) {
+        return;
+    }
+    reauthenticationPrompts.add(profile.id);
+    void (async () => {
+        if (profile.authMode === 'oauth') {
+            const action = await vscode.window.showWarningMessage(`RiotPlan server "${profile.name}" requires sign-in.`, 'Sign In');
+            if (action === 'Sign In') {
+                await vscode.commands.executeCommand('riotplan.signIn', profile.id, wwwAuthenticate);
+            }
+            return;
+        }
+        const token = sanitizeToken(await extensionContextRef.secrets.get(tokenStorageKey(profile.id)));
+        const expiresAt = tokenExpiry(token);
+        const problem = !token
+            ? 'needs an API token'
+            : expiresAt && expiresAt.getTime() <= Date.now()
+                ? `rejected its API token, which ${describeTokenExpiry(expiresAt)}`
+                : 'rejected its API token (HTTP 401)';
+        const update = token ? 'Rotate Token' : 'Configure API Token';
+        const action = await vscode.window.showWarningMessage(
+            `RiotPlan server "${profile.name}" ${problem}.`,
+            update,
+            'Manage Servers and Tokens'
+        );
+        if (action === update) {
+            await vscode.commands.executeCommand(token ? 'riotplan.rotateApiKey' : 'riotplan.configureApiKey', profile.id);
+        } else if (action === 'Manage Servers and Tokens') {
+            await vscode.commands.executeCommand('riotplan.openServerManager');
+        }
+    })();
+}
+
 function remapDecisionStorageKey(planRef: string, signature: string): string {
     return `riotplan.remapDecision.${planRef}:${signature}`;
 }
@@ -2081,26 +3407,40 @@ function sanitizePlanCode(input: string): string {
         .replace(/^-|-$/g, '');
 }
 
-async function deletePlanBestEffort(client: HttpMcpClient, planRefOrPath: string): Promise<void> {
+async function deletePlanBestEffort(
+    client: HttpMcpClient,
+    planRefOrPath: string,
+    options?: RequestOptions
+): Promise<void> {
     const candidates = planDeleteCandidates(planRefOrPath);
     for (const id of candidates) {
         try {
-            await client.deletePlan(id);
+            await client.deletePlan(id, options);
             return;
-        } catch {
+        } catch (error) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
             // Try next candidate.
         }
     }
 }
 
-async function deletePlanWithReport(client: HttpMcpClient, planRefOrPath: string): Promise<string | undefined> {
+async function deletePlanWithReport(
+    client: HttpMcpClient,
+    planRefOrPath: string,
+    options?: RequestOptions
+): Promise<string | undefined> {
     const candidates = planDeleteCandidates(planRefOrPath);
     let lastError: string | undefined;
     for (const id of candidates) {
         try {
-            await client.deletePlan(id);
+            await client.deletePlan(id, options);
             return undefined;
         } catch (error) {
+            if (isCancellationError(error)) {
+                throw error;
+            }
             lastError = error instanceof Error ? error.message : String(error);
         }
     }
@@ -2130,8 +3470,12 @@ function tokenLast4(token: string): string {
     return trimmed.slice(-Math.min(4, trimmed.length));
 }
 
-async function hydrateProfileApiKeys(context: vscode.ExtensionContext, profiles: Array<{ id: string }>): Promise<void> {
+async function hydrateProfileApiKeys(context: vscode.ExtensionContext, profiles: ServerProfile[]): Promise<void> {
     await Promise.all(profiles.map(async (profile) => {
+        if (profile.authMode === 'oauth') {
+            connectionManager.setClientApiKey(profile.id, await oauthSessions.getAccessToken(profile));
+            return;
+        }
         const secret = await context.secrets.get(tokenStorageKey(profile.id));
         connectionManager.setClientApiKey(profile.id, sanitizeToken(secret));
     }));
@@ -0,0 +1,155 @@
+/**
+ * Per-profile authentication headers for HttpMcpClient
+ *
+ * A profile picks how its token is sent: `Authorization: Bearer`, a single
+ * API key header with a configurable name, HTTP Basic (the token is the
+ * password), or nothing at all. Without a scheme the token goes out as both
+ * `Authorization: Bearer` and `X-API-Key`, which every RiotPlan server accepts.
+ * Profiles can also add static headers; a header marked `secret` keeps its
+ * value in SecretStorage and only its name in settings.
+ */
+
+import { maskSecret } from './mcp-trace';
+
+export const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+/** How a profile's token is sent; `api-key` uses `X-API-Key` unless `header` names another. */
+export type AuthScheme =
+    | { type: 'bearer' }
+    | { type: 'api-key'; header?: string }
+    | { type: 'basic'; username: string }
+    | { type: 'none' };
+
+/** A static header from a profile's `headers` setting. */
+export interface HeaderSetting {
+    name: string;
+    /** Omitted for secret headers. */
+    value?: string;
+    /** The value lives in SecretStorage (see `profileHeaderStorageKey`). */
+    secret?: boolean;
+}
+
+/** Headers the client manages itself; a profile cannot override them. */
+const RESERVED_HEADERS = new Set([
+    'accept',
+    'connection',
+    'content-length',
+    'content-range',
+    'content-type',
+    'host',
+    'if-range',
+    'last-event-id',
+    'mcp-protocol-version',
+    'mcp-session-id',
+    'range',
+    'transfer-encoding',
+]);
+
+/** RFC 9110 field-name token. */
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+export function isValidHeaderName(name: string): boolean {
+    return HEADER_NAME.test(name) && !RESERVED_HEADERS.has(name.toLowerCase());
+}
+
+export function normalizeAuthScheme(input: unknown): AuthScheme | undefined {
+    const raw = (typeof input === 'string' ? { type: input } : input) as Record<string, unknown> | undefined;
+    if (!raw || typeof raw !== 'object') {
+        return undefined;
+    }
+    switch (raw.type) {
+        case 'bearer':
+        case 'none':
+            return { type: raw.type };
+        case 'api-key': {
+            const header = typeof raw.header === 'string' ? raw.header.trim() : '';
+            return header && isValidHeaderName(header) ? { type: 'api-key', header } : { type: 'api-key' };
+        }
+        case 'basic': {
+            const username = typeof raw.username === 'string' ? raw.username.trim() : '';
+            // RFC 7617 user-ids cannot contain a colon.
+            return username && !username.includes(':') ? { type: 'basic', username } : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/** Drops entries with an invalid or reserved name, a plain header without a value, and repeated names. */
+export function normalizeHeaderSettings(input: unknown): HeaderSetting[] | undefined {
+    if (!Array.isArray(input)) {
+        return undefined;
+    }
+    const seen = new Set<string>();
+    const headers: HeaderSetting[] = [];
+    for (const entry of input) {
+        const raw = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+        const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+        if (!isValidHeaderName(name) || seen.has(name.toLowerCase())) {
+            continue;
+        }
+        if (raw.secret === true) {
+            headers.push({ name, secret: true });
+        } else if (typeof raw.value === 'string') {
+            headers.push({ name, value: raw.value });
+        } else {
+            continue;
+        }
+        seen.add(name.toLowerCase());
+    }
+    return headers.length > 0 ? headers : undefined;
+}
+
+/** Values for a profile's static headers; a secret header whose value is not stored is left out. */
+export async function resolveHeaderSettings(
+    settings: HeaderSetting[],
+    readSecret: (name: string) => Promise<string | undefined>
+): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {};
+    for (const setting of settings) {
+        const value = setting.secret ? await readSecret(setting.name) : setting.value;
+        if (value !== undefined && value !== '') {
+            headers[setting.name] = value;
+        }
+    }
+    return headers;
+}
+
+export function buildAuthHeaders(scheme: AuthScheme | undefined, token: string | undefined): Record<string, string> {
+    if (!token || scheme?.type === 'none') {
+        return {};
+    }
+    switch (scheme?.type) {
+        case 'bearer':
+            return { Authorization: `Bearer ${token}` };
+        case 'api-key':
+            return { [scheme.header || DEFAULT_API_KEY_HEADER]: token };
+        case 'basic':
+            return { Authorization: `Basic ${Buffer.from(`${scheme.username}:${token}`, 'utf8').toString('base64')}` };
+        default:
+            return { Authorization: `Bearer ${token}`, [DEFAULT_API_KEY_HEADER]: token };
+    }
+}
+
+export function describeAuthScheme(scheme: AuthScheme | undefined): string {
+    switch (scheme?.type) {
+        case 'bearer':
+            return 'Authorization: Bearer';
+        case 'api-key':
+            return `${scheme.header || DEFAULT_API_KEY_HEADER} header`;
+        case 'basic':
+            return `HTTP Basic as ${scheme.username}`;
+        case 'none':
+            return 'no credentials';
+        default:
+            return `Authorization: Bearer and ${DEFAULT_API_KEY_HEADER}`;
+    }
+}
+
+/** `Name: <redacted value>` per header; an Authorization scheme word is kept so the format stays visible. */
+export function describeHeaders(headers: Record<string, string>): string[] {
+    return Object.entries(headers).map(([name, value]) => {
+        const scheme = name.toLowerCase() === 'authorization' ? /^(\S+)\s+(.*)$/.exec(value) : null;
+        return scheme ? `${name}: ${scheme[1]} ${maskSecret(scheme[2])}` : `${name}: ${maskSecret(value)}`;
+    });
+}
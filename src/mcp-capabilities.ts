@@ -0,0 +1,204 @@
+/**
+ * Tool capability model for RiotPlan MCP servers
+ *
+ * Built once per session from `tools/list`. Maps each client operation to the
+ * tool (and `action`, for multiplexed tools like `riotplan_plan`) that the
+ * connected server actually exposes, and records which argument names each
+ * tool's input schema accepts (`planId` vs legacy `path`).
+ */
+
+export type RiotPlanOperation =
+    | 'listPlans'
+    | 'createPlan'
+    | 'movePlan'
+    | 'deletePlan'
+    | 'renamePlan'
+    | 'planStatus'
+    | 'readContext'
+    | 'addEvidence'
+    | 'removeEvidence'
+    | 'setIdeaContent'
+    | 'updateStep'
+    | 'bindProject'
+    | 'getProjectBinding'
+    | 'resolveProjectContext'
+    | 'listContextProjects'
+    | 'createContextProject'
+    | 'getContextProject'
+    | 'updateContextProject'
+    | 'upsertContextProject';
+
+export interface ToolRoute {
+    tool: string;
+    action?: string;
+}
+
+export interface ToolCapability {
+    name: string;
+    /** Values of the `action` enum, when the input schema declares one. */
+    actions?: string[];
+    /** Top-level property names of the input schema. */
+    argumentNames: string[];
+}
+
+/**
+ * Candidate routes per operation, in order of preference. The first route the
+ * server supports wins; when the tool list is unknown the first route is used.
+ */
+const OPERATION_ROUTES: Record<RiotPlanOperation, ToolRoute[]> = {
+    listPlans: [
+        { tool: 'riotplan_list_plans' },
+        { tool: 'riotplan_plan', action: 'list' },
+    ],
+    createPlan: [{ tool: 'riotplan_plan', action: 'create' }],
+    movePlan: [{ tool: 'riotplan_plan', action: 'move' }],
+    deletePlan: [
+        { tool: 'riotplan_plan', action: 'delete' },
+        { tool: 'riotplan_delete_plan' },
+    ],
+    renamePlan: [
+        { tool: 'riotplan_plan', action: 'rename' },
+        { tool: 'riotplan_plan', action: 'update' },
+        { tool: 'riotplan_plan', action: 'set_name' },
+        { tool: 'riotplan_rename_plan' },
+        { tool: 'riotplan_update_plan' },
+    ],
+    planStatus: [{ tool: 'riotplan_status' }],
+    readContext: [{ tool: 'riotplan_read_context' }],
+    addEvidence: [{ tool: 'riotplan_idea', action: 'add_evidence' }],
+    removeEvidence: [{ tool: 'riotplan_evidence', action: 'delete' }],
+    setIdeaContent: [{ tool: 'riotplan_idea', action: 'set_content' }],
+    updateStep: [{ tool: 'riotplan_step_update' }],
+    bindProject: [{ tool: 'riotplan_bind_project' }],
+    getProjectBinding: [{ tool: 'riotplan_get_project_binding' }],
+    resolveProjectContext: [{ tool: 'riotplan_resolve_project_context' }],
+    listContextProjects: [{ tool: 'riotplan_context', action: 'list' }],
+    createContextProject: [{ tool: 'riotplan_context', action: 'create' }],
+    getContextProject: [{ tool: 'riotplan_context', action: 'get' }],
+    updateContextProject: [{ tool: 'riotplan_context', action: 'update' }],
+    upsertContextProject: [{ tool: 'riotplan_context', action: 'upsert' }],
+};
+
+/** Human-readable operation names for "not supported" messages. */
+const OPERATION_LABELS: Record<RiotPlanOperation, string> = {
+    listPlans: 'Listing plans',
+    createPlan: 'Creating plans',
+    movePlan: 'Moving plans',
+    deletePlan: 'Deleting plans',
+    renamePlan: 'Renaming plans',
+    planStatus: 'Reading plan status',
+    readContext: 'Reading plan context',
+    addEvidence: 'Adding evidence',
+    removeEvidence: 'Removing evidence',
+    setIdeaContent: 'Editing idea content',
+    updateStep: 'Updating steps',
+    bindProject: 'Changing plan projects',
+    getProjectBinding: 'Reading plan projects',
+    resolveProjectContext: 'Resolving project context',
+    listContextProjects: 'Listing context projects',
+    createContextProject: 'Creating context projects',
+    getContextProject: 'Reading context projects',
+    updateContextProject: 'Updating context projects',
+    upsertContextProject: 'Upserting context projects',
+};
+
+export function describeOperation(operation: RiotPlanOperation): string {
+    return OPERATION_LABELS[operation];
+}
+
+function parseToolCapability(raw: any): ToolCapability | undefined {
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    if (!name) {
+        return undefined;
+    }
+    const properties = raw?.inputSchema?.properties;
+    const argumentNames = properties && typeof properties === 'object' ? Object.keys(properties) : [];
+    const actionEnum = properties?.action?.enum;
+    const actions = Array.isArray(actionEnum)
+        ? actionEnum.filter((value: unknown): value is string => typeof value === 'string')
+        : undefined;
+    return { name, actions, argumentNames };
+}
+
+export class ServerCapabilities {
+    private readonly tools: Map<string, ToolCapability>;
+
+    private constructor(tools: ToolCapability[], readonly known: boolean) {
+        this.tools = new Map(tools.map((tool) => [tool.name, tool]));
+    }
+
+    /** Build from a raw `tools/list` result. */
+    static fromToolsList(result: any): ServerCapabilities {
+        const rawTools = Array.isArray(result?.tools) ? result.tools : [];
+        const tools = rawTools
+            .map((tool: any) => parseToolCapability(tool))
+            .filter((tool: ToolCapability | undefined): tool is ToolCapability => Boolean(tool));
+        return new ServerCapabilities(tools, true);
+    }
+
+    /** Placeholder used when `tools/list` could not be fetched: routes to preferred tools. */
+    static unknown(): ServerCapabilities {
+        return new ServerCapabilities([], false);
+    }
+
+    getToolNames(): string[] {
+        return [...this.tools.keys()];
+    }
+
+    getTool(name: string): ToolCapability | undefined {
+        return this.tools.get(name);
+    }
+
+    hasTool(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    hasRiotPlanTools(): boolean {
+        return this.getToolNames().some((name) => name.startsWith('riotplan_'));
+    }
+
+    supportsRoute(route: ToolRoute): boolean {
+        const tool = this.tools.get(route.tool);
+        if (!tool) {
+            return false;
+        }
+        if (!route.action) {
+            return true;
+        }
+        if (tool.actions) {
+            return tool.actions.includes(route.action);
+        }
+        // No action enum in the schema: trust that an `action` argument takes free-form values.
+        return tool.argumentNames.includes('action');
+    }
+
+    resolve(operation: RiotPlanOperation): ToolRoute | undefined {
+        const routes = OPERATION_ROUTES[operation];
+        if (!this.known) {
+            return routes[0];
+        }
+        return routes.find((route) => this.supportsRoute(route));
+    }
+
+    supports(operation: RiotPlanOperation): boolean {
+        return this.resolve(operation) !== undefined;
+    }
+
+    acceptsArgument(toolName: string, argumentName: string): boolean {
+        const tool = this.tools.get(toolName);
+        if (!tool || tool.argumentNames.length === 0) {
+            // Unknown schema: do not second-guess the caller.
+            return true;
+        }
+        return tool.argumentNames.includes(argumentName);
+    }
+
+    /** Argument name the tool expects for a plan reference (`planId`, or `path` on older servers). */
+    planRefArgument(toolName: string): 'planId' | 'path' {
+        const tool = this.tools.get(toolName);
+        if (tool && !tool.argumentNames.includes('planId') && tool.argumentNames.includes('path')) {
+            return 'path';
+        }
+        return 'planId';
+    }
+}
@@ -4,10 +4,87 @@
  * Implements JSON-RPC 2.0 over HTTP POST to communicate with RiotPlan HTTP MCP server
  */
 
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
 import * as http from 'http';
 import * as https from 'https';
+import { pipeline, Readable, Writable } from 'stream';
 import { URL } from 'url';
 import { getProxyAgent } from './proxyUtils';
+import { AuthScheme, buildAuthHeaders, describeAuthScheme, describeHeaders } from './mcp-auth';
+import { describeOperation, RiotPlanOperation, ServerCapabilities } from './mcp-capabilities';
+import {
+    RequestCancelledError,
+    ProgressUpdate,
+    RequestOptions,
+    RequestTimeoutError,
+    RequestTimeoutPolicy,
+    resolveTimeoutPolicy,
+    TimeoutClass,
+} from './mcp-request';
+import {
+    backoffDelay,
+    CircuitBreaker,
+    DEFAULT_RETRY_POLICY,
+    isServerFailure,
+    isTransientError,
+    isUnsentRequestError,
+    RetryPolicy,
+    waitForRetry,
+} from './mcp-resilience';
+import {
+    ListPage,
+    McpResource,
+    McpResourceContents,
+    McpResourceTemplate,
+    parseResourceContents,
+    parseResourceList,
+    parseResourceTemplateList,
+} from './mcp-resources';
+import { SseConnectionHandlers, SseParser, SseStream, SseStreamHealth } from './mcp-sse';
+import type { StdioServerProcess } from './mcp-stdio';
+import type { TlsRequestOptions } from './mcp-tls';
+import { describeSocketError, unixSocketPath, UnixSocketError } from './mcp-unix-socket';
+import {
+    ContextProject,
+    Decoded,
+    decodeContextProject,
+    decodeContextProjects,
+    decodeHistory,
+    decodePlanContext,
+    decodePlanList,
+    decodePlanStatus,
+    decodeSteps,
+    parseToolPayload,
+    PlanContext,
+    PlanHistory,
+    PlanStatus,
+    SchemaDriftReport,
+    SchemaValidationError,
+    Step,
+} from './mcp-models';
+import { McpPrompt, McpPromptResult, parsePromptList, parsePromptResult } from './mcp-prompts';
+import { maskSecret, RequestTracer, TraceEntryInput } from './mcp-trace';
+import {
+    DEFAULT_UPLOAD_CHUNK_BYTES,
+    discardPartialDownload,
+    dispositionFilename,
+    expectedSha256,
+    parseContentRange,
+    partialDownloadPaths,
+    PlanFileTransfer,
+    PlanIntegrityError,
+    readPartialDownload,
+    sha256File,
+    writePartialDownloadState,
+} from './mcp-transfer';
+import {
+    ClientInfo,
+    LATEST_PROTOCOL_VERSION,
+    NegotiatedProtocol,
+    negotiateProtocol,
+    protocolFeatures,
+    ProtocolFeatures,
+} from './mcp-protocol';
 
 interface McpRequest {
     jsonrpc: '2.0';
@@ -16,6 +93,14 @@ interface McpRequest {
     params?: any;
 }
 
+/** A JSON-RPC request the server sends to the client over the stream. */
+interface McpServerRequest {
+    jsonrpc: '2.0';
+    id: string | number;
+    method: string;
+    params?: any;
+}
+
 interface McpResponse {
     jsonrpc: '2.0';
     id: string | number;
@@ -28,6 +113,10 @@ interface McpResponse {
 }
 
 interface AuthDebugState {
+    /** How the token is sent (see `describeAuthScheme`). */
+    authScheme: string;
+    /** Profile and auth headers sent with every request, values redacted. */
+    headers: string[];
     hasApiKey: boolean;
     tokenLength: number;
     tokenPreview: string;
@@ -44,6 +133,122 @@ export function isUnauthorizedError(error: unknown): boolean {
         || normalized.includes('unauthorized');
 }
 
+/** Non-2xx HTTP answer; keeps the status and headers (e.g. `WWW-Authenticate` on a 401). */
+export class HttpStatusError extends Error {
+    constructor(readonly statusCode: number, readonly body: string, readonly headers: http.IncomingHttpHeaders) {
+        super(`HTTP ${statusCode}: ${body}`);
+        this.name = 'HttpStatusError';
+    }
+}
+
+/** The server handled a request and answered with a JSON-RPC error or a tool error result. */
+export class McpResponseError extends Error {
+    constructor(message: string, readonly code?: number) {
+        super(message);
+        this.name = 'McpResponseError';
+    }
+}
+
+/** Thrown when the connected server exposes no tool for a client operation. */
+export class UnsupportedOperationError extends Error {
+    constructor(readonly operation: RiotPlanOperation, serverUrl: string) {
+        super(`${describeOperation(operation)} is not supported by the connected RiotPlan server at ${serverUrl}.`);
+        this.name = 'UnsupportedOperationError';
+    }
+}
+
+const OPERATION_TIMEOUT_CLASS: Record<RiotPlanOperation, TimeoutClass> = {
+    listPlans: 'list',
+    createPlan: 'write',
+    movePlan: 'write',
+    deletePlan: 'write',
+    renamePlan: 'write',
+    planStatus: 'read',
+    readContext: 'read',
+    addEvidence: 'write',
+    removeEvidence: 'write',
+    setIdeaContent: 'write',
+    updateStep: 'write',
+    bindProject: 'write',
+    getProjectBinding: 'read',
+    resolveProjectContext: 'read',
+    listContextProjects: 'list',
+    createContextProject: 'write',
+    getContextProject: 'read',
+    updateContextProject: 'write',
+    upsertContextProject: 'write',
+};
+
+export interface HttpMcpClientOptions {
+    timeouts?: Partial<RequestTimeoutPolicy>;
+    retryPolicy?: Partial<RetryPolicy>;
+    /** Shared per-server breaker, so circuit state survives client re-creation. */
+    circuitBreaker?: CircuitBreaker;
+    /** Sent as `clientInfo` in `initialize`; the extension passes its own package version. */
+    clientInfo?: ClientInfo;
+    /**
+     * Handlers for server-to-client requests (`roots/list`, `elicitation/create`).
+     * Registered before `initialize` so the matching client capabilities are declared.
+     */
+    requestHandlers?: Record<string, ServerRequestHandler>;
+    /** How the token is sent; unset sends it as both `Authorization: Bearer` and `X-API-Key`. */
+    authScheme?: AuthScheme;
+    /** Static headers sent with every request; auth headers win on a name clash. */
+    headers?: Record<string, string>;
+    /** Called once per request on HTTP 401; a returned token replaces the current one and the request is retried. */
+    onUnauthorized?: (error: unknown) => Promise<string | undefined>;
+    /** CA, client certificate and pinning for https servers (see `loadTlsOptions`). */
+    tls?: TlsRequestOptions;
+    /** Receives structured entries for every message while tracing is enabled. */
+    tracer?: RequestTracer;
+    /** Called when a tool result does not match its model (see `mcp-models`). */
+    onSchemaDrift?: (report: SchemaDriftReport) => void;
+    /**
+     * Speak MCP to this local process instead of POSTing to `serverUrl`. The client
+     * starts it on first use and stops it on dispose.
+     */
+    stdio?: StdioServerProcess;
+    /** Plan files larger than this are uploaded in chunks when the server offers upload sessions. */
+    uploadChunkBytes?: number;
+}
+
+/** Handles one server-to-client request method; the return value becomes the JSON-RPC result. */
+export type ServerRequestHandler = (params: any) => unknown | Promise<unknown>;
+
+/** Thrown by a ServerRequestHandler to answer with a specific JSON-RPC error code. */
+export class JsonRpcError extends Error {
+    constructor(readonly code: number, message: string) {
+        super(message);
+        this.name = 'JsonRpcError';
+    }
+}
+
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INTERNAL_ERROR = -32603;
+
+const MAX_LIST_PAGES = 50;
+/** How long a failed `tools/list` is remembered before operations ask again. */
+const CAPABILITIES_RETRY_MS = 30_000;
+
+const DEFAULT_CLIENT_INFO: ClientInfo = { name: 'riotplan-vscode', version: '0.0.0' };
+
+function parseResourceJson(model: string, text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new SchemaValidationError(model, [{ path: '$', message: 'resource text is not valid JSON' }]);
+    }
+}
+
+function parseUploadResponse(body: Buffer): any {
+    const text = body.toString('utf8');
+    try {
+        return JSON.parse(text);
+    } catch {
+        return { success: true, raw: text };
+    }
+}
+
 function getToolErrorText(result: any): string | null {
     if (!result || !result.isError) {
         return null;
@@ -58,17 +263,82 @@ function getToolErrorText(result: any): string | null {
 export class HttpMcpClient {
     private sessionId?: string;
     private initialized = false;
-    private sseConnection: http.ClientRequest | null = null;
+    private sseStream?: SseStream;
+    private streamHealthListeners: Array<(health: SseStreamHealth) => void> = [];
     private notificationHandlers: Map<string, Array<(data: unknown) => void>> = new Map();
+    private requestHandlers: Map<string, ServerRequestHandler> = new Map();
+    private progressCallbacks: Map<string, (update: ProgressUpdate) => void> = new Map();
     private recoveringSession = false;
     private onSessionRecoveredCallbacks: Array<() => void | Promise<void>> = [];
     private requestDebugLogger?: (line: string) => void;
+    private capabilities?: ServerCapabilities;
+    private capabilitiesPromise?: Promise<ServerCapabilities>;
+    private capabilitiesFailedAt?: number;
+    private capabilitiesListeners: Array<() => void> = [];
+    private timeoutPolicy: RequestTimeoutPolicy;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly circuitBreaker: CircuitBreaker;
+    private readonly clientInfo: ClientInfo;
+    private readonly authScheme?: AuthScheme;
+    private readonly staticHeaders: Record<string, string>;
+    private readonly onUnauthorized?: (error: unknown) => Promise<string | undefined>;
+    private readonly tlsOptions?: TlsRequestOptions;
+    private readonly tracer?: RequestTracer;
+    private readonly onSchemaDrift?: (report: SchemaDriftReport) => void;
+    private readonly stdio?: StdioServerProcess;
+    private readonly uploadChunkBytes: number;
+    /** Whether the server accepts chunked uploads; unknown until the first large upload. */
+    private chunkedUploads?: boolean;
+    private lastHealthError?: Error;
+    private negotiated?: NegotiatedProtocol;
 
     constructor(
         private serverUrl: string,
         private apiKey?: string,
-        private proxyBypass = false
-    ) {}
+        private proxyBypass = false,
+        options: HttpMcpClientOptions = {}
+    ) {
+        this.timeoutPolicy = resolveTimeoutPolicy(options.timeouts);
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+        this.circuitBreaker = options.circuitBreaker ?? new CircuitBreaker();
+        this.clientInfo = options.clientInfo ?? DEFAULT_CLIENT_INFO;
+        this.authScheme = options.authScheme;
+        this.staticHeaders = options.headers ?? {};
+        this.onUnauthorized = options.onUnauthorized;
+        this.tlsOptions = options.tls;
+        this.tracer = options.tracer;
+        this.onSchemaDrift = options.onSchemaDrift;
+        this.uploadChunkBytes = options.uploadChunkBytes ?? DEFAULT_UPLOAD_CHUNK_BYTES;
+        this.requestHandlers.set('ping', () => ({}));
+        for (const [method, handler] of Object.entries(options.requestHandlers ?? {})) {
+            this.requestHandlers.set(method, handler);
+        }
+        this.stdio = options.stdio;
+        if (this.stdio) {
+            this.attachStdio(this.stdio);
+        }
+    }
+
+    /** Server messages arrive on stdout; a restarted process needs a fresh `initialize`. */
+    private attachStdio(stdio: StdioServerProcess): void {
+        stdio.onMessage((message) => {
+            this.trace({ kind: 'server-message', method: message.method, rpcId: message.id, payload: message });
+            this.dispatchIncomingMessage(message);
+        });
+        stdio.onStateChange(() => {
+            const health = this.getStreamHealth();
+            for (const listener of [...this.streamHealthListeners]) {
+                listener(health);
+            }
+        });
+        stdio.onRestart(() => {
+            this.logRequestDebug('server process restarted; re-initializing');
+            this.recoverSession().catch((error) => {
+                const message = error instanceof Error ? error.message : String(error);
+                this.logRequestDebug(`re-initialize after restart failed: ${message}`);
+            });
+        });
+    }
 
     get baseUrl(): string {
         return this.serverUrl;
@@ -76,6 +346,17 @@ export class HttpMcpClient {
 
     setApiKey(apiKey?: string): void {
         this.apiKey = apiKey?.trim() || undefined;
+        // A different token may see a different tool set.
+        this.capabilities = undefined;
+        this.capabilitiesFailedAt = undefined;
+    }
+
+    setTimeoutPolicy(timeouts?: Partial<RequestTimeoutPolicy>): void {
+        this.timeoutPolicy = resolveTimeoutPolicy(timeouts);
+    }
+
+    getTimeoutPolicy(): RequestTimeoutPolicy {
+        return { ...this.timeoutPolicy };
     }
 
     setRequestDebugLogger(logger?: (line: string) => void): void {
@@ -86,11 +367,13 @@ export class HttpMcpClient {
         const apiKey = this.apiKey?.trim() || '';
         const sessionId = this.sessionId?.trim() || '';
         return {
+            authScheme: describeAuthScheme(this.authScheme),
+            headers: describeHeaders(this.getAuthHeaders()),
             hasApiKey: Boolean(apiKey),
             tokenLength: apiKey.length,
-            tokenPreview: this.maskSecret(apiKey),
+            tokenPreview: maskSecret(apiKey),
             hasSessionId: Boolean(sessionId),
-            sessionIdPreview: this.maskSecret(sessionId),
+            sessionIdPreview: maskSecret(sessionId),
         };
     }
 
@@ -104,14 +387,158 @@ export class HttpMcpClient {
         };
     }
 
-    async sendRequest(method: string, params?: any): Promise<any> {
-        return this.sendRequestInternal(method, params, true);
+    /**
+     * Capability model for the current session, fetched from `tools/list` on first use.
+     * Falls back to an "unknown" model (preferred routes) when the tool list cannot be read;
+     * a failed read is not repeated for `CAPABILITIES_RETRY_MS` unless refreshed explicitly.
+     */
+    async getCapabilities(): Promise<ServerCapabilities> {
+        if (this.capabilities) {
+            return this.capabilities;
+        }
+        if (this.capabilitiesFailedAt !== undefined && Date.now() - this.capabilitiesFailedAt < CAPABILITIES_RETRY_MS) {
+            return ServerCapabilities.unknown();
+        }
+        try {
+            return await this.refreshCapabilities();
+        } catch {
+            return ServerCapabilities.unknown();
+        }
     }
 
-    private async sendRequestInternal(method: string, params: any, retryOnSessionError: boolean): Promise<any> {
+    /** Last fetched capability model, without triggering a request. */
+    getCachedCapabilities(): ServerCapabilities | undefined {
+        return this.capabilities;
+    }
+
+    async refreshCapabilities(): Promise<ServerCapabilities> {
+        if (!this.capabilitiesPromise) {
+            this.capabilitiesPromise = this.sendRequest('tools/list')
+                .then((result) => {
+                    this.capabilities = ServerCapabilities.fromToolsList(result);
+                    this.capabilitiesFailedAt = undefined;
+                    return this.capabilities;
+                }, (error) => {
+                    this.capabilitiesFailedAt = Date.now();
+                    throw error;
+                })
+                .finally(() => {
+                    this.notifyCapabilitiesChanged();
+                    this.capabilitiesPromise = undefined;
+                });
+        }
+        return this.capabilitiesPromise;
+    }
+
+    /** Called after every `tools/list` refresh and when the server announces a changed tool list. */
+    onCapabilitiesChanged(listener: () => void): () => void {
+        this.capabilitiesListeners.push(listener);
+        return () => {
+            const idx = this.capabilitiesListeners.indexOf(listener);
+            if (idx >= 0) {
+                this.capabilitiesListeners.splice(idx, 1);
+            }
+        };
+    }
+
+    private notifyCapabilitiesChanged(): void {
+        for (const listener of [...this.capabilitiesListeners]) {
+            listener();
+        }
+    }
+
+    async supportsOperation(operation: RiotPlanOperation): Promise<boolean> {
+        return (await this.getCapabilities()).supports(operation);
+    }
+
+    /** `tools/call` may change data, so it is only retried when the request was never sent. */
+    async sendRequest(method: string, params?: any, options?: RequestOptions): Promise<any> {
+        return this.sendRequestWithRetry(method, params, options, method !== 'tools/call');
+    }
+
+    private async sendRequestWithRetry(method: string, params: any, options: RequestOptions | undefined, idempotent: boolean): Promise<any> {
+        const onProgress = options?.onProgress;
+        if (!onProgress) {
+            return this.withRetry(() => this.sendRequestInternal(method, params, true, options), options, idempotent);
+        }
+        const progressToken = `progress-${Math.random().toString(36).substring(2)}`;
+        const paramsWithToken = {
+            ...(params || {}),
+            _meta: { ...(params?._meta || {}), progressToken },
+        };
+        this.progressCallbacks.set(progressToken, onProgress);
+        try {
+            return await this.withRetry(
+                () => this.sendRequestInternal(method, paramsWithToken, true, options),
+                options,
+                idempotent
+            );
+        } finally {
+            this.progressCallbacks.delete(progressToken);
+        }
+    }
+
+    getCircuitBreaker(): CircuitBreaker {
+        return this.circuitBreaker;
+    }
+
+    /**
+     * Run a request under the retry policy and the server's circuit breaker.
+     * Only connection failures and 5xx responses count against the circuit;
+     * any other answer from the server proves it is reachable. Requests that are
+     * not `idempotent` are only retried when they never reached the server.
+     */
+    private async withRetry<T>(run: () => Promise<T>, options?: RequestOptions, idempotent = true): Promise<T> {
+        let authRetried = false;
+        for (let attempt = 1; ; attempt += 1) {
+            this.circuitBreaker.assertCanRequest();
+            try {
+                const result = await run();
+                this.circuitBreaker.recordSuccess();
+                return result;
+            } catch (error) {
+                if (error instanceof RequestCancelledError) {
+                    this.circuitBreaker.recordNeutral();
+                    throw error;
+                }
+                if (!authRetried && this.onUnauthorized && isUnauthorizedError(error)) {
+                    authRetried = true;
+                    this.circuitBreaker.recordNeutral();
+                    const token = await this.onUnauthorized(error).catch(() => undefined);
+                    if (token) {
+                        this.apiKey = token;
+                        attempt -= 1;
+                        continue;
+                    }
+                    throw error;
+                }
+                if (isServerFailure(error)) {
+                    this.circuitBreaker.recordFailure();
+                } else {
+                    this.circuitBreaker.recordSuccess();
+                }
+                const circuitOpen = this.circuitBreaker.getSnapshot().state === 'open';
+                const retryable = idempotent ? isTransientError(error) : isUnsentRequestError(error);
+                if (circuitOpen || attempt >= this.retryPolicy.maxAttempts || !retryable) {
+                    throw error;
+                }
+                const delayMs = backoffDelay(attempt - 1, this.retryPolicy);
+                const reason = error instanceof Error ? error.message : String(error);
+                this.logRequestDebug(`retry ${attempt} in ${delayMs}ms after: ${reason}`);
+                await waitForRetry(delayMs, options?.signal);
+            }
+        }
+    }
+
+    private async sendRequestInternal(
+        method: string,
+        params: any,
+        retryOnSessionError: boolean,
+        options?: RequestOptions
+    ): Promise<any> {
         // MCP protocol requires initialize handshake before any other requests
         if (!this.initialized && method !== 'initialize') {
-            await this.initialize();
+            await this.initialize(options);
         }
 
         const request: McpRequest = {
@@ -122,7 +549,7 @@ export class HttpMcpClient {
         };
 
         try {
-            const response = await this.httpPost('/mcp', request);
+            const response = await this.httpPost('/mcp', request, options);
 
             // Update session ID from response headers
             if (response.headers['mcp-session-id']) {
@@ -138,83 +565,160 @@ export class HttpMcpClient {
             if (response.data.error) {
                 if (retryOnSessionError && this.isSessionError(undefined, response.data.error.message || '')) {
                     await this.recoverSession();
-                    return this.sendRequestInternal(method, params, false);
+                    return this.sendRequestInternal(method, params, false, options);
                 }
-                throw new Error(response.data.error.message || 'MCP request failed');
+                throw new McpResponseError(response.data.error.message || 'MCP request failed', response.data.error.code);
             }
 
             const toolError = getToolErrorText(response.data.result);
             if (toolError) {
-                throw new Error(toolError);
+                throw new McpResponseError(toolError);
             }
 
             return response.data.result;
         } catch (error) {
             if (retryOnSessionError && this.isSessionError(error)) {
                 await this.recoverSession();
-                return this.sendRequestInternal(method, params, false);
+                return this.sendRequestInternal(method, params, false, options);
             }
             throw error;
         }
     }
 
-    private async initialize(): Promise<void> {
+    private async initialize(options?: RequestOptions): Promise<void> {
         const request: McpRequest = {
             jsonrpc: '2.0',
             id: 'init-1',
             method: 'initialize',
             params: {
-                protocolVersion: '2024-11-05',
-                capabilities: {},
-                clientInfo: { name: 'riotplan-vscode', version: '1.0.0' },
+                protocolVersion: LATEST_PROTOCOL_VERSION,
+                capabilities: this.getClientCapabilities(),
+                clientInfo: this.clientInfo,
             },
         };
 
-        const response = await this.httpPost('/mcp', request);
+        const response = await this.httpPost('/mcp', request, options);
+
+        if (response.data.error) {
+            throw new Error(`MCP initialization failed: ${response.data.error.message}`);
+        }
+
+        // Throws for a revision we do not speak; the session is never used in that case.
+        this.negotiated = negotiateProtocol(response.data.result);
+        this.logRequestDebug(`negotiated MCP protocol ${this.negotiated.protocolVersion}`);
 
         if (response.headers['mcp-session-id']) {
             this.sessionId = response.headers['mcp-session-id'];
             this.startSSEConnection();
         }
 
-        if (response.data.error) {
-            throw new Error(`MCP initialization failed: ${response.data.error.message}`);
+        this.initialized = true;
+        await this.sendNotification('notifications/initialized', {}, options);
+    }
+
+    /** Runs the `initialize` handshake unless this client already has a session. */
+    async ensureInitialized(options?: RequestOptions): Promise<NegotiatedProtocol | undefined> {
+        if (!this.initialized) {
+            await this.initialize(options);
         }
+        return this.negotiated;
+    }
 
-        this.initialized = true;
-        await this.sendNotification('notifications/initialized', {});
+    private getClientCapabilities(): Record<string, unknown> {
+        return {
+            ...(this.requestHandlers.has('roots/list') ? { roots: { listChanged: true } } : {}),
+            ...(this.requestHandlers.has('elicitation/create') ? { elicitation: {} } : {}),
+        };
     }
 
-    private parseSSEResponse(sseText: string): McpResponse {
-        const dataLines: string[] = [];
-        for (const line of sseText.split('\n')) {
-            if (line.startsWith('data:')) {
-                dataLines.push(line.substring(5).trim());
-            }
+    /** Tell the server the `roots/list` answer changed (e.g. workspace folders were added). */
+    async notifyRootsChanged(options?: RequestOptions): Promise<void> {
+        if (!this.initialized || !this.requestHandlers.has('roots/list')) {
+            return;
+        }
+        await this.sendNotification('notifications/roots/list_changed', {}, options);
+    }
+
+    /** Protocol revision and server details from the last successful `initialize`. */
+    getProtocolInfo(): NegotiatedProtocol | undefined {
+        return this.negotiated;
+    }
+
+    private getProtocolFeatures(): ProtocolFeatures | undefined {
+        return this.negotiated ? protocolFeatures(this.negotiated.protocolVersion) : undefined;
+    }
+
+    private getProtocolHeaders(): Record<string, string> {
+        if (!this.negotiated || !this.getProtocolFeatures()?.protocolVersionHeader) {
+            return {};
+        }
+        return { 'MCP-Protocol-Version': this.negotiated.protocolVersion };
+    }
+
+    /** Resolve the effective signal and timeout for a request of the given class. */
+    private requestScope(timeoutClass: TimeoutClass, options?: RequestOptions): RequestOptions & { timeoutMs: number } {
+        return {
+            signal: options?.signal,
+            timeoutMs: options?.timeoutMs ?? this.timeoutPolicy[timeoutClass],
+            onProgress: options?.onProgress,
+        };
+    }
+
+    /**
+     * Apply the overall timeout and abort signal to an outgoing request.
+     * Returns a cleanup function to call once the response has been consumed.
+     */
+    private bindRequestLifecycle(
+        req: http.ClientRequest,
+        description: string,
+        scope: RequestOptions & { timeoutMs: number; idleTimeout?: boolean },
+        fail: (error: Error) => void
+    ): () => void {
+        const abortWith = (error: Error) => {
+            fail(error);
+            req.destroy(error);
+        };
+        // Streamed transfers may run long; they only time out when the socket goes quiet.
+        const timer = scope.idleTimeout
+            ? undefined
+            : setTimeout(() => abortWith(new RequestTimeoutError(description, scope.timeoutMs)), scope.timeoutMs);
+        if (scope.idleTimeout) {
+            req.setTimeout(scope.timeoutMs, () => abortWith(new RequestTimeoutError(`${description} (idle)`, scope.timeoutMs)));
         }
-        if (dataLines.length === 0) {
-            throw new Error(`No data lines found in SSE response: ${sseText.substring(0, 200)}`);
+        const onAbort = () => abortWith(new RequestCancelledError(`${description} cancelled`));
+        if (scope.signal?.aborted) {
+            onAbort();
+        } else {
+            scope.signal?.addEventListener('abort', onAbort, { once: true });
         }
-        return JSON.parse(dataLines.join(''));
+        return () => {
+            clearTimeout(timer);
+            scope.signal?.removeEventListener('abort', onAbort);
+        };
     }
 
-    private async httpPost(path: string, body: any): Promise<{ data: McpResponse; headers: any }> {
+    private async httpPost(
+        path: string,
+        body: any,
+        options?: RequestOptions
+    ): Promise<{ data: McpResponse; headers: any }> {
+        if (this.stdio) {
+            return this.postStdio(this.stdio, body, options);
+        }
         return new Promise((resolve, reject) => {
-            const url = new URL(this.serverUrl + path);
-            const isHttps = url.protocol === 'https:';
-            const client = isHttps ? https : http;
+            const { url, client, target } = this.endpoint(path);
 
             const postData = JSON.stringify(body);
-            const proxyAgent = getProxyAgent(url.toString(), this.proxyBypass);
+            const startedAt = Date.now();
+            const traced = { method: body?.method, rpcId: body?.id };
+            this.trace({ kind: 'request', ...traced, payload: body });
             const authHeaders = this.getAuthHeaders();
             this.logRequestDebug(
-                `HTTP POST ${url.pathname} auth=${this.describeAuthHeaders(authHeaders)} session=${this.maskSecret(this.sessionId)}`
+                `HTTP POST ${url.pathname} auth=${this.describeAuthHeaders(authHeaders)} session=${maskSecret(this.sessionId)}`
             );
 
-            const options: http.RequestOptions = {
-                hostname: url.hostname,
-                port: url.port || (isHttps ? 443 : 80),
-                path: url.pathname,
+            const requestOptions: http.RequestOptions = {
+                ...target,
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -222,19 +726,37 @@ export class HttpMcpClient {
                     'Accept': 'application/json, text/event-stream',
                     'Content-Length': Buffer.byteLength(postData),
                     ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+                    ...this.getProtocolHeaders(),
                     ...authHeaders,
                 },
-                ...(proxyAgent ? { agent: proxyAgent } : {}),
             };
 
-            const req = client.request(options, (res) => {
+            const scope = this.requestScope('default', options);
+            const req = client.request(requestOptions, (res) => {
+                const isStream = String(res.headers['content-type'] || '').includes('text/event-stream')
+                    && res.statusCode === 200;
+                if (isStream) {
+                    this.readStreamedResponse(res, body.id, url.pathname, release, resolve, reject, startedAt, traced.method);
+                    return;
+                }
                 let data = '';
 
                 res.on('data', (chunk) => {
                     data += chunk;
                 });
 
+                res.on('error', (error) => reject(error));
+
                 res.on('end', () => {
+                    release();
+                    const statusCode = res.statusCode || 0;
+                    this.trace({
+                        kind: statusCode >= 200 && statusCode < 300 ? 'response' : 'error',
+                        ...traced,
+                        statusCode,
+                        durationMs: Date.now() - startedAt,
+                        ...(data ? { payload: this.parseJsonMessage(data) ?? data } : {}),
+                    });
                     try {
                         this.logRequestDebug(`HTTP POST ${url.pathname} -> ${res.statusCode || 0}`);
                         if (res.statusCode === 202) {
@@ -242,22 +764,23 @@ export class HttpMcpClient {
                             return;
                         }
                         if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
-                            reject(new Error(`HTTP ${res.statusCode}: ${data}`));
+                            reject(new HttpStatusError(res.statusCode || 0, data, res.headers));
                             return;
                         }
-                        const contentType = String(res.headers['content-type'] || '');
-                        const parsed = contentType.includes('text/event-stream')
-                            ? this.parseSSEResponse(data)
-                            : JSON.parse(data);
-                        resolve({ data: parsed, headers: res.headers });
+                        resolve({ data: JSON.parse(data), headers: res.headers });
                     } catch (error) {
                         reject(new Error(`Failed to parse response: ${error}`));
                     }
                 });
             });
 
-            req.on('error', (error) => {
+            const release = this.bindRequestLifecycle(req, `MCP ${String(body?.method || 'request')}`, scope, reject);
+
+            req.on('error', (cause) => {
+                const error = this.connectionError(cause);
+                release();
                 this.logRequestDebug(`HTTP POST ${url.pathname} error=${error.message}`);
+                this.trace({ kind: 'error', ...traced, durationMs: Date.now() - startedAt, error: error.message });
                 reject(error);
             });
 
@@ -266,60 +789,217 @@ export class HttpMcpClient {
         });
     }
 
+    /** `httpPost` for stdio profiles: notifications and replies to server requests get no answer. */
+    private async postStdio(
+        stdio: StdioServerProcess,
+        body: any,
+        options?: RequestOptions
+    ): Promise<{ data: McpResponse; headers: any }> {
+        const startedAt = Date.now();
+        const traced = { method: body?.method, rpcId: body?.id };
+        this.trace({ kind: 'request', ...traced, payload: body });
+        this.logRequestDebug(`stdio ${String(body?.method || 'reply')}`);
+        try {
+            await stdio.start();
+            if (typeof body?.method !== 'string' || body.id === undefined || body.id === null) {
+                stdio.notify(body);
+                return { data: { jsonrpc: '2.0', id: body?.id, result: {} }, headers: {} };
+            }
+            const data = await stdio.request(body, {
+                ...this.requestScope('default', options),
+                description: `MCP ${String(body.method)}`,
+            });
+            this.trace({ kind: 'response', ...traced, durationMs: Date.now() - startedAt, payload: data });
+            return { data, headers: {} };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logRequestDebug(`stdio ${String(body?.method || 'reply')} error=${message}`);
+            this.trace({ kind: 'error', ...traced, durationMs: Date.now() - startedAt, error: message });
+            throw error;
+        }
+    }
+
+    /**
+     * Read an SSE-framed POST response. The server may send its own requests
+     * (e.g. elicitation) on this stream before the response, and waits for our
+     * reply, so messages are dispatched as they arrive rather than at the end.
+     */
+    private readStreamedResponse(
+        res: http.IncomingMessage,
+        requestId: McpRequest['id'],
+        pathname: string,
+        release: () => void,
+        resolve: (value: { data: McpResponse; headers: any }) => void,
+        reject: (error: Error) => void,
+        startedAt: number,
+        method?: string
+    ): void {
+        const parser = new SseParser();
+        let settled = false;
+        res.on('data', (chunk: Buffer) => {
+            for (const event of parser.push(chunk.toString('utf8'))) {
+                const message = this.parseJsonMessage(event.data);
+                if (!message) {
+                    continue;
+                }
+                if (message.method === undefined && message.id === requestId) {
+                    this.trace({
+                        kind: 'response',
+                        method,
+                        rpcId: requestId ?? undefined,
+                        statusCode: res.statusCode || 0,
+                        durationMs: Date.now() - startedAt,
+                        eventId: event.id,
+                        payload: message,
+                    });
+                    if (!settled) {
+                        settled = true;
+                        release();
+                        resolve({ data: message, headers: res.headers });
+                    }
+                } else {
+                    this.trace({ kind: 'server-message', method: message.method, rpcId: message.id, eventId: event.id, payload: message });
+                    this.dispatchIncomingMessage(message);
+                }
+            }
+        });
+        res.on('error', (error) => {
+            release();
+            reject(error);
+        });
+        res.on('end', () => {
+            release();
+            this.logRequestDebug(`HTTP POST ${pathname} -> ${res.statusCode || 0} (stream)`);
+            if (!settled) {
+                settled = true;
+                reject(new Error('Failed to parse response: stream ended without a JSON-RPC response'));
+            }
+        });
+    }
+
     private async httpRequestRaw(
-        method: 'GET' | 'POST',
+        method: 'GET' | 'POST' | 'PUT',
         path: string,
         options?: {
             headers?: Record<string, string | number>;
-            body?: Buffer;
+            /** A stream is piped as it is read; callers create a fresh one for every attempt. */
+            body?: Buffer | Readable;
+            bodyBytes?: number;
+            /** Receives a 2xx response body instead of it being buffered; `body` is then empty. */
+            sink?: (res: http.IncomingMessage) => Writable;
+            idleTimeout?: boolean;
             timeoutMs?: number;
+            signal?: AbortSignal;
+            onProgress?: (update: ProgressUpdate) => void;
         }
     ): Promise<{ statusCode: number; headers: http.IncomingHttpHeaders; body: Buffer }> {
+        if (this.stdio) {
+            throw new Error(`Plan file transfer needs an HTTP server; ${this.serverUrl} runs over stdio.`);
+        }
         return new Promise((resolve, reject) => {
-            const url = new URL(this.serverUrl + path);
-            const isHttps = url.protocol === 'https:';
-            const client = isHttps ? https : http;
-            const proxyAgent = getProxyAgent(url.toString(), this.proxyBypass);
+            const { url, client, target } = this.endpoint(path);
             const authHeaders = this.getAuthHeaders();
+            const startedAt = Date.now();
+            const traceMethod = `HTTP ${method} ${url.pathname}${url.search}`;
+            const sentBytes = options?.body instanceof Readable ? options.bodyBytes : options?.body?.byteLength;
             this.logRequestDebug(
-                `HTTP ${method} ${url.pathname}${url.search} auth=${this.describeAuthHeaders(authHeaders)} session=${this.maskSecret(this.sessionId)}`
+                `HTTP ${method} ${url.pathname}${url.search} auth=${this.describeAuthHeaders(authHeaders)} session=${maskSecret(this.sessionId)}`
             );
             const req = client.request(
                 {
-                    hostname: url.hostname,
-                    port: url.port || (isHttps ? 443 : 80),
-                    path: url.pathname + url.search,
+                    ...target,
                     method,
                     headers: {
                         ...authHeaders,
                         ...(options?.headers || {}),
                     },
-                    ...(proxyAgent ? { agent: proxyAgent } : {}),
                 },
                 (res) => {
-                    const chunks: Buffer[] = [];
-                    res.on('data', (chunk: Buffer) => chunks.push(chunk));
-                    res.on('end', () => {
-                        const body = Buffer.concat(chunks);
-                        const statusCode = res.statusCode || 0;
+                    const statusCode = res.statusCode || 0;
+                    const ok = statusCode >= 200 && statusCode < 300;
+                    const expectedBytes = Number(res.headers['content-length']) || undefined;
+                    let receivedBytes = 0;
+                    const finish = (body: Buffer) => {
+                        release();
                         this.logRequestDebug(`HTTP ${method} ${url.pathname}${url.search} -> ${statusCode}`);
-                        if (statusCode < 200 || statusCode >= 300) {
-                            reject(new Error(`HTTP ${statusCode}: ${body.toString('utf8')}`));
+                        this.trace({
+                            kind: ok ? 'http' : 'error',
+                            method: traceMethod,
+                            statusCode,
+                            durationMs: Date.now() - startedAt,
+                            bytes: method === 'GET' ? receivedBytes : sentBytes,
+                        });
+                        if (!ok) {
+                            reject(new HttpStatusError(statusCode, body.toString('utf8'), res.headers));
                             return;
                         }
                         resolve({ statusCode, headers: res.headers, body });
+                    };
+                    res.on('data', (chunk: Buffer) => {
+                        receivedBytes += chunk.byteLength;
+                        if (method === 'GET' && ok && options?.onProgress) {
+                            options.onProgress({ progress: receivedBytes, total: expectedBytes });
+                        }
                     });
+                    if (ok && options?.sink) {
+                        let sink: Writable;
+                        try {
+                            sink = options.sink(res);
+                        } catch (error) {
+                            release();
+                            req.destroy();
+                            reject(error);
+                            return;
+                        }
+                        pipeline(res, sink, (error) => {
+                            if (error) {
+                                release();
+                                reject(this.connectionError(error));
+                                return;
+                            }
+                            finish(Buffer.alloc(0));
+                        });
+                        return;
+                    }
+                    const chunks: Buffer[] = [];
+                    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                    res.on('error', (error) => reject(error));
+                    res.on('end', () => finish(Buffer.concat(chunks)));
                 }
             );
-            req.on('error', (error) => {
+            const release = this.bindRequestLifecycle(
+                req,
+                `HTTP ${method} ${path}`,
+                { ...this.requestScope('default', options), idleTimeout: options?.idleTimeout },
+                reject
+            );
+            req.on('error', (cause) => {
+                const error = this.connectionError(cause);
+                release();
                 this.logRequestDebug(`HTTP ${method} ${url.pathname}${url.search} error=${error.message}`);
+                this.trace({ kind: 'error', method: traceMethod, durationMs: Date.now() - startedAt, error: error.message });
                 reject(error);
             });
-            req.setTimeout(options?.timeoutMs ?? 30000, () => {
-                req.destroy(new Error(`HTTP ${method} ${path} timed out`));
-            });
-            if (options?.body) {
-                req.write(options.body);
+            const body = options?.body;
+            if (body instanceof Readable) {
+                if (options?.onProgress) {
+                    let sent = 0;
+                    body.on('data', (chunk: Buffer) => {
+                        sent += chunk.byteLength;
+                        options.onProgress?.({ progress: sent, total: options.bodyBytes });
+                    });
+                }
+                // Ends the request once the body is drained; a failed read aborts it.
+                pipeline(body, req, (error) => {
+                    if (error) {
+                        release();
+                        reject(this.connectionError(error));
+                    }
+                });
+                return;
+            }
+            if (body) {
+                req.write(body);
             }
             req.end();
         });
@@ -341,6 +1021,9 @@ export class HttpMcpClient {
         try {
             this.sessionId = undefined;
             this.initialized = false;
+            this.capabilities = undefined;
+            this.capabilitiesFailedAt = undefined;
+            this.negotiated = undefined;
             this.stopSSEConnection();
             await this.initialize();
             for (const cb of this.onSessionRecoveredCallbacks) {
@@ -351,76 +1034,64 @@ export class HttpMcpClient {
         }
     }
 
-    private async sendNotification(method: string, params?: unknown): Promise<void> {
+    private async sendNotification(method: string, params?: unknown, options?: RequestOptions): Promise<void> {
         const request: McpRequest = {
             jsonrpc: '2.0',
             id: null,
             method,
             params,
         };
-        await this.httpPost('/mcp', request);
+        await this.httpPost('/mcp', request, options);
     }
 
-    async listPlans(filter?: 'all' | 'active' | 'done' | 'hold'): Promise<any> {
-        return await this.listPlansWithWorkspace(filter, undefined);
+    async listPlans(filter?: 'all' | 'active' | 'done' | 'hold', options?: RequestOptions): Promise<any> {
+        return await this.listPlansWithWorkspace(filter, undefined, options);
     }
 
     async listPlansWithWorkspace(
         filter?: 'all' | 'active' | 'done' | 'hold',
-        workspaceId?: string
+        workspaceId?: string,
+        options?: RequestOptions
     ): Promise<any> {
         const args = {
             ...(filter ? { filter } : {}),
             ...(workspaceId ? { workspaceId } : {}),
         };
-        try {
-            return await this.sendRequest('tools/call', {
-                name: 'riotplan_list_plans',
-                arguments: args,
-            });
-        } catch (error) {
-            const message = error instanceof Error ? error.message : String(error);
-            const isUnknownListTool = message.toLowerCase().includes('unknown tool')
-                && message.toLowerCase().includes('riotplan_list_plans');
-            if (!isUnknownListTool) {
-                throw error;
-            }
-
-            // Compatibility fallback for old RiotPlan servers.
-            try {
-                return await this.sendRequest('tools/call', {
-                    name: 'riotplan_plan',
-                    arguments: { action: 'list', ...args },
-                });
-            } catch {
-                const toolNames = await this.listAvailableToolNamesSafe();
-                throw new Error(
-                    `Connected MCP server at ${this.baseUrl} does not expose RiotPlan plan-list tools. ` +
-                        `Expected 'riotplan_list_plans'. ` +
-                        `Available tools: ${toolNames.length > 0 ? toolNames.slice(0, 10).join(', ') : '(none)'}`
-                );
-            }
+        const capabilities = await this.getCapabilities();
+        if (!capabilities.supports('listPlans')) {
+            const toolNames = capabilities.getToolNames();
+            throw new Error(
+                `Connected MCP server at ${this.baseUrl} does not expose RiotPlan plan-list tools. ` +
+                    `Expected 'riotplan_list_plans'. ` +
+                    `Available tools: ${toolNames.length > 0 ? toolNames.slice(0, 10).join(', ') : '(none)'}`
+            );
+        }
+        const result = await this.callOperation('listPlans', args, undefined, options);
+        // Callers keep reading the raw text (the aggregator rewrites plan refs in it);
+        // decoding here reports drift once, at the boundary.
+        if (result?.content?.[0]?.type === 'text') {
+            this.decodeResult('listPlans', decodePlanList, () => parseToolPayload('Plan list', result), { plans: [] });
         }
+        return result;
     }
 
     async listPlansFiltered(
         filter?: 'all' | 'active' | 'done' | 'hold',
-        workspaceId?: string
+        workspaceId?: string,
+        options?: RequestOptions
     ): Promise<any> {
-        return this.listPlansWithWorkspace(filter, workspaceId);
+        return this.listPlansWithWorkspace(filter, workspaceId, options);
     }
 
     async movePlan(
         planId: string,
-        target: 'active' | 'done' | 'hold'
+        target: 'active' | 'done' | 'hold',
+        options?: RequestOptions
     ): Promise<any> {
-        return await this.sendRequest('tools/call', {
-            name: 'riotplan_plan',
-            arguments: { action: 'move', planId, target },
-        });
+        return await this.callOperation('movePlan', { target }, planId, options);
     }
 
-    async deletePlan(planPathOrId: string): Promise<any> {
+    async deletePlan(planPathOrId: string, options?: RequestOptions): Promise<any> {
         const trimmed = planPathOrId.trim();
         if (!trimmed) {
             throw new Error('Plan identifier is required to delete a plan.');
@@ -428,38 +1099,15 @@ export class HttpMcpClient {
 
         const identifiers = this.planIdentifierCandidates(trimmed);
         let lastError: unknown;
-
-        // Try riotplan_plan delete first (permanently removes the .plan file).
         for (const id of identifiers) {
             try {
-                const result = await this.sendRequest('tools/call', {
-                    name: 'riotplan_plan',
-                    arguments: { action: 'delete', planId: id, confirm: true },
-                });
-                const toolError = getToolErrorText(result);
-                if (toolError) {
-                    throw new Error(toolError);
-                }
-                return result;
+                return await this.callOperation('deletePlan', { confirm: true }, id, options);
             } catch (error) {
-                lastError = error;
-            }
-        }
-
-        // Fallback: try the standalone riotplan_delete_plan tool.
-        for (const id of identifiers) {
-            try {
-                const result = await this.sendRequest('tools/call', {
-                    name: 'riotplan_delete_plan',
-                    arguments: { planId: id, confirm: true },
-                });
-                const toolError = getToolErrorText(result);
-                if (toolError) {
-                    throw new Error(toolError);
+                // Only a server that rejected this identifier gets the next one; after a timeout the delete may have happened.
+                if (!(error instanceof McpResponseError)) {
+                    throw error;
                 }
-                return result;
-            } catch {
-                // Try next candidate.
+                lastError = error;
             }
         }
 
@@ -473,17 +1121,13 @@ export class HttpMcpClient {
         description: string;
         name?: string;
         steps?: number;
-    }): Promise<any> {
-        const result = await this.sendRequest('tools/call', {
-            name: 'riotplan_plan',
-            arguments: {
-                action: 'create',
-                code: args.code,
-                description: args.description,
-                ...(args.name ? { name: args.name } : {}),
-                ...(typeof args.steps === 'number' ? { steps: args.steps } : {}),
-            },
-        });
+    }, options?: RequestOptions): Promise<any> {
+        const result = await this.callOperation('createPlan', {
+            code: args.code,
+            description: args.description,
+            ...(args.name ? { name: args.name } : {}),
+            ...(typeof args.steps === 'number' ? { steps: args.steps } : {}),
+        }, undefined, options);
         if (result?.content?.[0]?.type === 'text') {
             try {
                 return JSON.parse(result.content[0].text);
@@ -494,19 +1138,111 @@ export class HttpMcpClient {
         return result;
     }
 
-    async downloadPlanFile(planId: string): Promise<{ filename: string; content: Buffer }> {
-        const response = await this.httpRequestRaw('GET', `/plan/${encodeURIComponent(planId)}`, {
-            headers: { Accept: 'application/octet-stream' },
-            timeoutMs: 120000,
-        });
-        const disposition = String(response.headers['content-disposition'] || '');
-        const match = disposition.match(/filename="?([^";]+)"?/i);
-        const filename = match?.[1] || `${planId}.plan`;
-        return { filename, content: response.body };
+    /**
+     * Streams a plan's `.plan` file to `targetPath`. An interrupted download
+     * leaves `<targetPath>.part`, which retries and later calls resume.
+     */
+    async downloadPlanToFile(planId: string, targetPath: string, options?: RequestOptions): Promise<PlanFileTransfer> {
+        const { partPath } = partialDownloadPaths(targetPath);
+        let resumedFrom = 0;
+        const attempt = async (): Promise<{ headers: http.IncomingHttpHeaders }> => {
+            const partial = await readPartialDownload(targetPath, planId);
+            const offset = partial?.bytes ?? 0;
+            let base = 0;
+            let expectedTotal: number | undefined;
+            let validator: { etag?: string; lastModified?: string } | undefined;
+            try {
+                const response = await this.httpRequestRaw('GET', `/plan/${encodeURIComponent(planId)}`, {
+                    headers: {
+                        Accept: 'application/octet-stream',
+                        ...(partial
+                            ? { Range: `bytes=${offset}-`, 'If-Range': (partial.state.etag ?? partial.state.lastModified)! }
+                            : {}),
+                    },
+                    ...this.requestScope('transfer', options),
+                    idleTimeout: true,
+                    onProgress: options?.onProgress && ((update) => options.onProgress?.({
+                        progress: base + update.progress,
+                        total: expectedTotal ?? (update.total === undefined ? undefined : base + update.total),
+                    })),
+                    sink: (res) => {
+                        const range = res.statusCode === 206 ? parseContentRange(res.headers['content-range']) : undefined;
+                        if (res.statusCode === 206 && range?.start !== offset) {
+                            throw new Error(`Plan download resumed at an unexpected byte range (${res.headers['content-range']})`);
+                        }
+                        // A 200 means the plan changed (or ranges are unsupported): start over.
+                        base = range ? offset : 0;
+                        resumedFrom = base;
+                        expectedTotal = range?.total ?? (Number(res.headers['content-length']) || undefined);
+                        validator = {
+                            etag: res.headers.etag,
+                            lastModified: res.headers['last-modified'],
+                        };
+                        return createWriteStream(partPath, { flags: range ? 'a' : 'w' });
+                    },
+                });
+                const { size } = await fs.stat(partPath);
+                if (expectedTotal !== undefined && size < expectedTotal) {
+                    throw Object.assign(new Error(`Plan download ended after ${size} of ${expectedTotal} bytes`), {
+                        code: 'ECONNRESET',
+                    });
+                }
+                return response;
+            } catch (error) {
+                if (error instanceof HttpStatusError && error.statusCode === 416 && partial) {
+                    await discardPartialDownload(targetPath);
+                    return attempt();
+                }
+                if (validator) {
+                    await writePartialDownloadState(targetPath, { planId, ...validator }).catch(() => undefined);
+                }
+                throw error;
+            }
+        };
+
+        const response = await this.withRetry(attempt, options);
+        const filename = dispositionFilename(response.headers) || `${planId}.plan`;
+        const sha256 = await sha256File(partPath);
+        const expected = expectedSha256(response.headers);
+        if (expected && expected !== sha256) {
+            await discardPartialDownload(targetPath);
+            throw new PlanIntegrityError(expected, sha256, filename);
+        }
+        await fs.rename(partPath, targetPath);
+        await discardPartialDownload(targetPath);
+        const { size } = await fs.stat(targetPath);
+        return { filename, bytes: size, sha256, resumedFrom };
     }
 
-    async uploadPlanFile(filename: string, content: Buffer): Promise<any> {
+    /**
+     * Streams a `.plan` file to the server with its SHA-256 in `X-Checksum-Sha256`.
+     * Large files go up in resumable chunks when the server offers upload sessions.
+     */
+    async uploadPlanFromFile(filePath: string, filename: string, options?: RequestOptions): Promise<any> {
         const safeFilename = this.sanitizeUploadFilename(filename);
+        const { size } = await fs.stat(filePath);
+        const sha256 = await sha256File(filePath);
+
+        let result: any;
+        if (size > this.uploadChunkBytes && this.chunkedUploads !== false) {
+            result = await this.uploadPlanInChunks(filePath, safeFilename, size, sha256, options);
+        }
+        if (result === undefined) {
+            result = await this.uploadPlanMultipart(filePath, safeFilename, size, sha256, options);
+        }
+        if (typeof result?.sha256 === 'string' && result.sha256.toLowerCase() !== sha256) {
+            throw new PlanIntegrityError(sha256, result.sha256.toLowerCase(), safeFilename);
+        }
+        return result;
+    }
+
+    private async uploadPlanMultipart(
+        filePath: string,
+        safeFilename: string,
+        size: number,
+        sha256: string,
+        options?: RequestOptions
+    ): Promise<any> {
         const boundary = `----riotplan-vscode-${Date.now().toString(16)}`;
         const preamble = Buffer.from(
             `--${boundary}\r\n` +
@@ -515,26 +1251,100 @@ export class HttpMcpClient {
             'utf8'
         );
         const epilogue = Buffer.from(`\r\n--${boundary}--\r\n`, 'utf8');
-        const body = Buffer.concat([preamble, content, epilogue]);
+        const bodyBytes = preamble.byteLength + size + epilogue.byteLength;
+        async function* multipartBody(): AsyncGenerator<Buffer> {
+            yield preamble;
+            for await (const chunk of createReadStream(filePath)) {
+                yield chunk as Buffer;
+            }
+            yield epilogue;
+        }
 
-        const response = await this.httpRequestRaw('POST', '/plan/upload', {
+        const response = await this.withRetry(() => this.httpRequestRaw('POST', '/plan/upload', {
             headers: {
                 'Content-Type': `multipart/form-data; boundary=${boundary}`,
-                'Content-Length': body.byteLength,
+                'Content-Length': bodyBytes,
+                'X-Checksum-Sha256': sha256,
                 Accept: 'application/json',
             },
-            body,
-            timeoutMs: 120000,
-        });
-
-        const text = response.body.toString('utf8');
+            body: Readable.from(multipartBody()),
+            bodyBytes,
+            ...this.requestScope('transfer', options),
+            idleTimeout: true,
+        }), options, false);
+        return parseUploadResponse(response.body);
+    }
+
+    /** Returns undefined when the server has no upload sessions, so the caller falls back to multipart. */
+    private async uploadPlanInChunks(
+        filePath: string,
+        safeFilename: string,
+        size: number,
+        sha256: string,
+        options?: RequestOptions
+    ): Promise<any> {
+        let session: any;
         try {
-            return JSON.parse(text);
-        } catch {
-            return { success: true, raw: text };
+            const response = await this.withRetry(() => this.httpRequestRaw('POST', '/plan/upload/sessions', {
+                headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+                body: Buffer.from(JSON.stringify({ filename: safeFilename, size, sha256 }), 'utf8'),
+                ...this.requestScope('write', options),
+            }), options);
+            session = parseUploadResponse(response.body);
+        } catch (error) {
+            if (error instanceof HttpStatusError && [404, 405, 501].includes(error.statusCode)) {
+                this.chunkedUploads = false;
+                return undefined;
+            }
+            throw error;
         }
-    }
+        this.chunkedUploads = true;
+        const uploadId = typeof session?.uploadId === 'string' ? session.uploadId : '';
+        if (!uploadId) {
+            throw new Error('Server did not return an upload session id.');
+        }
+        const chunkBytes = Number(session.chunkSize) > 0 ? Number(session.chunkSize) : this.uploadChunkBytes;
+        let offset = Number(session.offset) > 0 ? Math.min(Number(session.offset), size) : 0;
 
+        for (;;) {
+            const start = offset;
+            const end = Math.min(start + chunkBytes, size);
+            let reply: any;
+            try {
+                const response = await this.withRetry(() => this.httpRequestRaw('PUT', `/plan/upload/sessions/${encodeURIComponent(uploadId)}`, {
+                    headers: {
+                        'Content-Type': 'application/octet-stream',
+                        'Content-Length': end - start,
+                        'Content-Range': `bytes ${start}-${end - 1}/${size}`,
+                        Accept: 'application/json',
+                    },
+                    body: createReadStream(filePath, { start, end: end - 1 }),
+                    bodyBytes: end - start,
+                    ...this.requestScope('transfer', options),
+                    idleTimeout: true,
+                    onProgress: options?.onProgress && ((update) => options.onProgress?.({ progress: start + update.progress, total: size })),
+                }), options);
+                reply = parseUploadResponse(response.body);
+            } catch (error) {
+                // 409: the server holds a different number of bytes; continue from its offset.
+                const serverOffset = error instanceof HttpStatusError && error.statusCode === 409
+                    ? Number(parseUploadResponse(Buffer.from(error.body, 'utf8'))?.offset)
+                    : NaN;
+                if (!Number.isInteger(serverOffset) || serverOffset < 0 || serverOffset === start || serverOffset > size) {
+                    throw error;
+                }
+                offset = serverOffset;
+                continue;
+            }
+            offset = typeof reply?.offset === 'number' ? reply.offset : end;
+            if (offset >= size) {
+                return reply?.result ?? reply;
+            }
+            if (offset <= start) {
+                throw new Error(`Server did not accept plan bytes ${start}-${end - 1} of upload ${uploadId}.`);
+            }
+        }
+    }
 
     private planIdentifierCandidates(value: string): string[] {
         const candidates: string[] = [];
@@ -566,151 +1376,141 @@ export class HttpMcpClient {
         return cleaned.toLowerCase().endsWith('.plan') ? cleaned : `${cleaned}.plan`;
     }
 
-    private async callToolWithArgFallback(
-        name: string,
-        primaryArgs: Record<string, unknown>,
-        fallbackArgs: Record<string, unknown>
+    /**
+     * Call the tool the connected server exposes for `operation`. The plan reference is sent
+     * under whichever argument name (`planId` or `path`) the tool's input schema declares.
+     */
+    private async callOperation(
+        operation: RiotPlanOperation,
+        args: Record<string, unknown>,
+        planRef?: string,
+        options?: RequestOptions
     ): Promise<any> {
+        const capabilities = await this.getCapabilities();
+        const route = capabilities.resolve(operation);
+        if (!route) {
+            throw new UnsupportedOperationError(operation, this.baseUrl);
+        }
+        const timeoutClass = OPERATION_TIMEOUT_CLASS[operation];
+        return await this.sendRequestWithRetry('tools/call', {
+            name: route.tool,
+            arguments: {
+                ...(route.action ? { action: route.action } : {}),
+                ...(planRef !== undefined ? { [capabilities.planRefArgument(route.tool)]: planRef } : {}),
+                ...args,
+            },
+        }, this.requestScope(timeoutClass, options), timeoutClass !== 'write');
+    }
+
+    /**
+     * Run a decoder over a tool payload and report any drift. A rejected payload
+     * throws `SchemaValidationError` unless `fallback` is given.
+     */
+    private decodeResult<T>(
+        operation: string,
+        decode: (raw: unknown) => Decoded<T>,
+        read: () => unknown,
+        fallback?: T
+    ): T {
         try {
-            return await this.sendRequest('tools/call', {
-                name,
-                arguments: primaryArgs,
-            });
-        } catch (primaryError) {
-            try {
-                return await this.sendRequest('tools/call', {
-                    name,
-                    arguments: fallbackArgs,
+            const decoded = decode(read());
+            if (decoded.issues.length > 0) {
+                this.onSchemaDrift?.({
+                    serverUrl: this.serverUrl,
+                    operation,
+                    model: decoded.model,
+                    issues: decoded.issues,
+                    rejected: false,
                 });
-            } catch {
-                throw primaryError;
             }
+            return decoded.value;
+        } catch (error) {
+            if (!(error instanceof SchemaValidationError)) {
+                throw error;
+            }
+            this.onSchemaDrift?.({
+                serverUrl: this.serverUrl,
+                operation,
+                model: error.model,
+                issues: error.issues,
+                rejected: true,
+            });
+            if (fallback !== undefined) {
+                return fallback;
+            }
+            throw error;
         }
     }
 
-    async getPlanStatus(planPathOrId: string): Promise<any> {
-        const result = await this.callToolWithArgFallback(
-            'riotplan_status',
-            { planId: planPathOrId, verbose: true },
-            { path: planPathOrId, verbose: true }
-        );
-        if (result?.content?.[0]?.type === 'text') {
-            return JSON.parse(result.content[0].text);
-        }
-        return result;
+    async getPlanStatus(planPathOrId: string, options?: RequestOptions): Promise<PlanStatus> {
+        const result = await this.callOperation('planStatus', { verbose: true }, planPathOrId, options);
+        return this.decodeResult('getPlanStatus', decodePlanStatus, () => parseToolPayload('Plan status', result));
     }
 
-    async bindProject(planId: string, project: Record<string, unknown>): Promise<any> {
-        return await this.sendRequest('tools/call', {
-            name: 'riotplan_bind_project',
-            arguments: { planId, project },
-        });
+    async bindProject(planId: string, project: Record<string, unknown>, options?: RequestOptions): Promise<any> {
+        return await this.callOperation('bindProject', { project }, planId, options);
     }
 
-    async getProjectBinding(planId: string): Promise<any> {
-        const result = await this.sendRequest('tools/call', {
-            name: 'riotplan_get_project_binding',
-            arguments: { planId },
-        });
+    async getProjectBinding(planId: string, options?: RequestOptions): Promise<any> {
+        const result = await this.callOperation('getProjectBinding', {}, planId, options);
         if (result?.content?.[0]?.type === 'text') {
             return JSON.parse(result.content[0].text);
         }
         return result;
     }
 
-    async resolveProjectContext(planId: string, cwd?: string): Promise<any> {
-        const result = await this.sendRequest('tools/call', {
-            name: 'riotplan_resolve_project_context',
-            arguments: {
-                planId,
-                ...(cwd ? { cwd } : {}),
-            },
-        });
+    async resolveProjectContext(planId: string, cwd?: string, options?: RequestOptions): Promise<any> {
+        const result = await this.callOperation('resolveProjectContext', cwd ? { cwd } : {}, planId, options);
         if (result?.content?.[0]?.type === 'text') {
             return JSON.parse(result.content[0].text);
         }
         return result;
     }
 
-    async listContextProjects(includeInactive = true): Promise<any[]> {
-        const result = await this.sendRequest('tools/call', {
-            name: 'riotplan_context',
-            arguments: {
-                action: 'list',
-                entityType: 'project',
-                includeInactive,
-            },
-        });
-        if (result?.content?.[0]?.type === 'text') {
-            const data = JSON.parse(result.content[0].text);
-            if (Array.isArray(data?.entities)) {
-                return data.entities;
-            }
-            // Backward/variant compatibility: some builds return projects directly or nested in data.
-            if (Array.isArray(data?.projects)) {
-                return data.projects;
-            }
-            if (Array.isArray(data?.data?.entities)) {
-                return data.data.entities;
-            }
-            if (Array.isArray(data?.data?.projects)) {
-                return data.data.projects;
-            }
-            if (Array.isArray(data)) {
-                return data;
-            }
+    async listContextProjects(includeInactive = true, options?: RequestOptions): Promise<ContextProject[]> {
+        const result = await this.callOperation('listContextProjects', {
+            entityType: 'project',
+            includeInactive,
+        }, undefined, options);
+        if (result?.content?.[0]?.type !== 'text') {
             return [];
         }
-        return [];
+        return this.decodeResult(
+            'listContextProjects',
+            decodeContextProjects,
+            () => parseToolPayload('Context project list', result),
+            []
+        );
     }
 
-    async createContextProject(entity: Record<string, unknown>): Promise<any> {
-        const result = await this.sendRequest('tools/call', {
-            name: 'riotplan_context',
-            arguments: {
-                action: 'create',
-                entityType: 'project',
-                entity,
-            },
-        });
+    async createContextProject(entity: Record<string, unknown>, options?: RequestOptions): Promise<any> {
+        const result = await this.callOperation('createContextProject', {
+            entityType: 'project',
+            entity,
+        }, undefined, options);
         if (result?.content?.[0]?.type === 'text') {
             return JSON.parse(result.content[0].text);
         }
         return result;
     }
 
-    async getContextProject(id: string): Promise<any | null> {
-        const result = await this.sendRequest('tools/call', {
-            name: 'riotplan_context',
-            arguments: {
-                action: 'get',
-                entityType: 'project',
-                id,
-            },
-        });
-        if (result?.content?.[0]?.type === 'text') {
-            const data = JSON.parse(result.content[0].text);
-            if (data?.entity) {
-                return data.entity;
-            }
-            if (data?.data?.entity) {
-                return data.data.entity;
-            }
+    async getContextProject(id: string, options?: RequestOptions): Promise<ContextProject | null> {
+        const result = await this.callOperation('getContextProject', {
+            entityType: 'project',
+            id,
+        }, undefined, options);
+        if (result?.content?.[0]?.type !== 'text') {
             return null;
         }
-        return null;
+        return this.decodeResult('getContextProject', decodeContextProject, () => parseToolPayload('Context project', result));
     }
 
-    async updateContextProject(id: string, changes: Record<string, unknown>): Promise<any> {
-        const result = await this.sendRequest('tools/call', {
-            name: 'riotplan_context',
-            arguments: {
-                action: 'update',
-                entityType: 'project',
-                id,
-                changes,
-            },
-        });
+    async updateContextProject(id: string, changes: Record<string, unknown>, options?: RequestOptions): Promise<any> {
+        const result = await this.callOperation('updateContextProject', {
+            entityType: 'project',
+            id,
+            changes,
+        }, undefined, options);
         if (result?.content?.[0]?.type === 'text') {
             return JSON.parse(result.content[0].text);
         }
@@ -719,102 +1519,114 @@ export class HttpMcpClient {
 
     /**
      * Create or replace a project by UUID (requires server with riotplan_context upsert).
-     * Falls back to create / update on older servers.
+     * Servers without the upsert action get a get + update / create sequence instead.
      */
-    async upsertContextProject(entity: Record<string, unknown>): Promise<any> {
+    async upsertContextProject(entity: Record<string, unknown>, options?: RequestOptions): Promise<any> {
         const id = typeof entity.id === 'string' ? entity.id.trim() : '';
-        try {
-            const result = await this.sendRequest('tools/call', {
-                name: 'riotplan_context',
-                arguments: {
-                    action: 'upsert',
-                    entityType: 'project',
-                    entity,
-                },
-            });
+        const capabilities = await this.getCapabilities();
+        if (capabilities.supports('upsertContextProject') || !id) {
+            const result = await this.callOperation('upsertContextProject', {
+                entityType: 'project',
+                entity,
+            }, undefined, options);
             if (result?.content?.[0]?.type === 'text') {
                 return JSON.parse(result.content[0].text);
             }
             return result;
-        } catch (e) {
-            const errText = e instanceof Error ? e.message : String(e);
-            const legacy = /invalid|unknown|upsert|enum|unrecognized|parse/i.test(errText);
-            if (!legacy || !id) {
-                throw e;
-            }
-            const existing = await this.getContextProject(id).catch(() => null);
-            if (existing) {
-                const rest = { ...(entity as Record<string, unknown>) };
-                delete rest.id;
-                delete rest.type;
-                return await this.updateContextProject(id, rest);
-            }
-            return await this.createContextProject(entity);
         }
+        const existing = await this.getContextProject(id, options).catch(() => null);
+        if (existing) {
+            const rest = { ...(entity as Record<string, unknown>) };
+            delete rest.id;
+            delete rest.type;
+            return await this.updateContextProject(id, rest, options);
+        }
+        return await this.createContextProject(entity, options);
     }
 
-    async readContext(planPath: string): Promise<any> {
-        const result = await this.callToolWithArgFallback(
-            'riotplan_read_context',
-            { planId: planPath, depth: 'full' },
-            { path: planPath, depth: 'full' }
-        );
-        if (result?.content?.[0]?.type === 'text') {
-            return JSON.parse(result.content[0].text);
-        }
-        return result;
+    async readContext(planPath: string, options?: RequestOptions): Promise<PlanContext> {
+        const result = await this.callOperation('readContext', { depth: 'full' }, planPath, options);
+        return this.decodeResult('readContext', decodePlanContext, () => parseToolPayload('Plan context', result));
     }
 
-    async listSteps(planPathOrId: string): Promise<Array<{
-        number: number;
-        title: string;
-        status: string;
-        file?: string;
-        startedAt?: string;
-        completedAt?: string;
-    }>> {
+    /** Empty when the server has no steps resource; malformed entries are reported and skipped. */
+    async listSteps(planPathOrId: string, options?: RequestOptions): Promise<Step[]> {
+        let resource: string;
         try {
-            const resource = await this.readResource(`riotplan://steps/${planPathOrId}`);
-            const parsed = JSON.parse(resource);
-            const rawSteps = Array.isArray(parsed)
-                ? parsed
-                : Array.isArray(parsed?.steps)
-                    ? parsed.steps
-                    : [];
-
-            return rawSteps
-                .map((step: any) => ({
-                    number: Number(step?.number ?? 0),
-                    title: String(step?.title ?? ''),
-                    status: String(step?.status ?? 'pending'),
-                    file: typeof step?.file === 'string' ? step.file : undefined,
-                    startedAt: typeof step?.startedAt === 'string' ? step.startedAt : undefined,
-                    completedAt: typeof step?.completedAt === 'string' ? step.completedAt : undefined,
-                }))
-                .filter((step: { number: number; title: string }) => Number.isFinite(step.number) && step.number > 0 && step.title.length > 0);
+            resource = await this.readResource(`riotplan://steps/${planPathOrId}`, options);
         } catch {
             return [];
         }
+        if (!resource.trim()) {
+            return [];
+        }
+        return this.decodeResult('listSteps', decodeSteps, () => parseResourceJson('Step list', resource), []);
     }
 
-    async updateStep(planId: string, step: number, status: string): Promise<any> {
-        return await this.sendRequest('tools/call', {
-            name: 'riotplan_step_update',
-            arguments: { planId, step, status },
-        });
+    async updateStep(planId: string, step: number, status: string, options?: RequestOptions): Promise<any> {
+        return await this.callOperation('updateStep', { step, status }, planId, options);
     }
 
-    async readResource(uri: string): Promise<string> {
-        const result = await this.sendRequest('resources/read', { uri });
+    async readResource(uri: string, options?: RequestOptions): Promise<string> {
+        const result = await this.sendRequest('resources/read', { uri }, this.requestScope('read', options));
         if (result?.contents?.[0]?.text) {
             return result.contents[0].text;
         }
         return '';
     }
 
-    async getPlanResource(planPathOrId: string): Promise<any | null> {
+    /** Every entry of `resources/list`, following `nextCursor` pages. */
+    async listResources(options?: RequestOptions): Promise<McpResource[]> {
+        return this.listAllPages('resources/list', parseResourceList, options);
+    }
+
+    async listResourceTemplates(options?: RequestOptions): Promise<McpResourceTemplate[]> {
+        return this.listAllPages('resources/templates/list', parseResourceTemplateList, options);
+    }
+
+    /** All contents of a resource with their MIME types; `readResource` returns only the first text. */
+    async readResourceContents(uri: string, options?: RequestOptions): Promise<McpResourceContents[]> {
+        const result = await this.sendRequest('resources/read', { uri }, this.requestScope('read', options));
+        return parseResourceContents(result);
+    }
+
+    /** Every entry of `prompts/list`, following `nextCursor` pages. */
+    async listPrompts(options?: RequestOptions): Promise<McpPrompt[]> {
+        return this.listAllPages('prompts/list', parsePromptList, options);
+    }
+
+    /** Renders a prompt; argument values are strings per the MCP spec. */
+    async getPrompt(name: string, args: Record<string, string>, options?: RequestOptions): Promise<McpPromptResult> {
+        const result = await this.sendRequest('prompts/get', { name, arguments: args }, this.requestScope('read', options));
+        return parsePromptResult(result);
+    }
+
+    private async listAllPages<T>(
+        method: string,
+        parse: (result: unknown) => ListPage<T>,
+        options?: RequestOptions
+    ): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        // A server that keeps returning cursors must not keep the view loading forever.
+        for (let page = 0; page < MAX_LIST_PAGES; page += 1) {
+            const result = parse(await this.sendRequest(
+                method,
+                cursor ? { cursor } : {},
+                this.requestScope('list', options)
+            ));
+            items.push(...result.items);
+            if (!result.nextCursor || result.nextCursor === cursor) {
+                break;
+            }
+            cursor = result.nextCursor;
+        }
+        return items;
+    }
+
+    async getPlanResource(planPathOrId: string, options?: RequestOptions): Promise<any | null> {
         try {
-            const content = await this.readResource(`riotplan://plan/${planPathOrId}`);
+            const content = await this.readResource(`riotplan://plan/${planPathOrId}`, options);
             if (!content) {
                 return null;
             }
@@ -829,17 +1641,14 @@ export class HttpMcpClient {
         description: string,
         source: string,
         summary: string,
-        content: string
+        content: string,
+        options?: RequestOptions
     ): Promise<any> {
-        const args: any = { planId: planPath, description, gatheringMethod: 'manual' };
+        const args: any = { description, gatheringMethod: 'manual' };
         if (source) { args.source = source; }
         if (summary) { args.summary = summary; }
         if (content) { args.content = content; }
-        const result = await this.callToolWithArgFallback(
-            'riotplan_idea',
-            { action: 'add_evidence', ...args },
-            { action: 'add_evidence', ...args, path: planPath, planId: undefined }
-        );
+        const result = await this.callOperation('addEvidence', args, planPath, options);
         if (result?.content?.[0]?.type === 'text') {
             try { return JSON.parse(result.content[0].text); } catch { return result.content[0].text; }
         }
@@ -857,23 +1666,7 @@ export class HttpMcpClient {
         return result;
     }
 
-    private async sleep(ms: number): Promise<void> {
-        await new Promise((resolve) => setTimeout(resolve, ms));
-    }
-
-    private isTransientEvidenceDeleteError(error: unknown): boolean {
-        const message = String(error || '').toLowerCase();
-        const isSyncIndexTmpRace =
-            message.includes('enoent')
-            && message.includes('sync-index')
-            && message.includes('.tmp');
-        return isSyncIndexTmpRace
-            || message.includes('sqlite_busy')
-            || message.includes('database is locked')
-            || message.includes('resource temporarily unavailable');
-    }
-
-    async removeEvidence(planPathOrId: string, evidenceRefValue: string): Promise<any> {
+    async removeEvidence(planPathOrId: string, evidenceRefValue: string, options?: RequestOptions): Promise<any> {
         const trimmedRef = typeof evidenceRefValue === 'string' ? evidenceRefValue.trim() : '';
         if (!trimmedRef) {
             throw new Error('Missing evidence reference');
@@ -887,39 +1680,27 @@ export class HttpMcpClient {
 
         let lastError: unknown;
         for (const attempt of deleteAttempts) {
-            for (let retry = 0; retry < 3; retry += 1) {
-                try {
-                    const result = await this.callToolWithArgFallback(
-                        'riotplan_evidence',
-                        {
-                            action: 'delete',
-                            planId: planPathOrId,
-                            ...attempt,
-                            confirm: true,
-                        },
-                        {
-                            action: 'delete',
-                            path: planPathOrId,
-                            ...attempt,
-                            confirm: true,
-                        }
-                    );
-                    return this.parseToolTextResult(result);
-                } catch (error) {
-                    lastError = error;
-                    const shouldRetry = this.isTransientEvidenceDeleteError(error) && retry < 2;
-                    if (!shouldRetry) {
-                        break;
-                    }
-                    await this.sleep(200 * (retry + 1));
+            try {
+                const result = await this.callOperation(
+                    'removeEvidence',
+                    { ...attempt, confirm: true },
+                    planPathOrId,
+                    options
+                );
+                return this.parseToolTextResult(result);
+            } catch (error) {
+                // Only a rejected reference shape moves on; a timed-out removal may already have been applied.
+                if (!(error instanceof McpResponseError)) {
+                    throw error;
                 }
+                lastError = error;
             }
         }
 
         throw lastError ?? new Error(`Failed to remove evidence: ${trimmedRef}`);
     }
 
-    async renamePlan(planId: string, name: string): Promise<any> {
+    async renamePlan(planId: string, name: string, options?: RequestOptions): Promise<any> {
         const trimmedPlanId = typeof planId === 'string' ? planId.trim() : '';
         const trimmedName = typeof name === 'string' ? name.trim() : '';
         if (!trimmedPlanId) {
@@ -929,39 +1710,12 @@ export class HttpMcpClient {
             throw new Error('Plan name cannot be empty');
         }
 
-        const attempts: Array<{ tool: string; args: Record<string, unknown> }> = [
-            { tool: 'riotplan_plan', args: { action: 'rename', planId: trimmedPlanId, name: trimmedName } },
-            { tool: 'riotplan_plan', args: { action: 'update', planId: trimmedPlanId, name: trimmedName } },
-            { tool: 'riotplan_plan', args: { action: 'set_name', planId: trimmedPlanId, name: trimmedName } },
-            { tool: 'riotplan_rename_plan', args: { planId: trimmedPlanId, name: trimmedName } },
-            { tool: 'riotplan_update_plan', args: { planId: trimmedPlanId, name: trimmedName } },
-        ];
-
-        let firstError: unknown;
-        for (const attempt of attempts) {
-            try {
-                const result = await this.sendRequest('tools/call', {
-                    name: attempt.tool,
-                    arguments: attempt.args,
-                });
-                return this.parseToolTextResult(result);
-            } catch (error) {
-                if (firstError === undefined) {
-                    firstError = error;
-                }
-            }
-        }
-
-        void firstError;
-        throw new Error('Renaming plans is not supported by the connected RiotPlan server yet.');
+        const result = await this.callOperation('renamePlan', { name: trimmedName }, trimmedPlanId, options);
+        return this.parseToolTextResult(result);
     }
 
-    async setIdeaContent(planPathOrId: string, content: string): Promise<any> {
-        const result = await this.callToolWithArgFallback(
-            'riotplan_idea',
-            { action: 'set_content', planId: planPathOrId, content },
-            { action: 'set_content', path: planPathOrId, content }
-        );
+    async setIdeaContent(planPathOrId: string, content: string, options?: RequestOptions): Promise<any> {
+        const result = await this.callOperation('setIdeaContent', { content }, planPathOrId, options);
         if (result?.content?.[0]?.type === 'text') {
             try {
                 return JSON.parse(result.content[0].text);
@@ -972,32 +1726,40 @@ export class HttpMcpClient {
         return result;
     }
 
-    async healthCheck(): Promise<boolean> {
-        const statusCode = await this.healthCheckStatus();
+    async healthCheck(options?: RequestOptions): Promise<boolean> {
+        const statusCode = await this.healthCheckStatus(options);
         return statusCode === 200;
     }
 
-    private async healthCheckStatus(): Promise<number | undefined> {
+    /** Status code of `GET /health`; undefined when no response arrived (see `getLastHealthError`). */
+    async healthCheckStatus(options?: RequestOptions): Promise<number | undefined> {
+        if (this.stdio) {
+            // No /health endpoint; a running process is the equivalent of a 200.
+            return this.stdio.start().then(() => 200, () => undefined);
+        }
+        this.lastHealthError = undefined;
         try {
-            const url = new URL(this.serverUrl + '/health');
-            const isHttps = url.protocol === 'https:';
-            const client = isHttps ? https : http;
-            const proxyAgent = getProxyAgent(url.toString(), this.proxyBypass);
+            const { client, target } = this.endpoint('/health');
 
-            return new Promise((resolve) => {
-                const req = client.get(url, {
+            return await new Promise((resolve) => {
+                const req = client.get({
+                    ...target,
                     headers: this.getAuthHeaders(),
-                    ...(proxyAgent ? { agent: proxyAgent } : {}),
                 }, (res) => {
+                    release();
+                    res.resume();
                     resolve(res.statusCode);
                 });
+                const release = this.bindRequestLifecycle(
+                    req,
+                    'HTTP GET /health',
+                    this.requestScope('health', options),
+                    () => resolve(undefined)
+                );
 
-                req.on('error', () => {
-                    resolve(undefined);
-                });
-
-                req.setTimeout(5000, () => {
-                    req.destroy();
+                req.on('error', (error) => {
+                    release();
+                    this.lastHealthError = this.connectionError(error);
                     resolve(undefined);
                 });
             });
@@ -1006,54 +1768,45 @@ export class HttpMcpClient {
         }
     }
 
-    async verifyRiotPlanServer(): Promise<{ ok: boolean; reason?: string }> {
-        const healthStatus = await this.healthCheckStatus();
+    /** Why the last health check got no response, if it failed at the connection level. */
+    getLastHealthError(): Error | undefined {
+        return this.lastHealthError;
+    }
+
+    async verifyRiotPlanServer(options?: RequestOptions): Promise<{ ok: boolean; reason?: string }> {
+        if (this.stdio) {
+            try {
+                await this.stdio.start();
+            } catch (error) {
+                return { ok: false, reason: error instanceof Error ? error.message : String(error) };
+            }
+        }
+        const healthStatus = await this.healthCheckStatus(options);
         if (healthStatus === 401) {
             return { ok: false, reason: 'unauthorized' };
         }
         if (healthStatus !== 200) {
-            return { ok: false, reason: 'server_unreachable' };
-        }
-        const tools = await this.listAvailableToolNamesForVerification();
-        if (tools === null) {
-            return { ok: false, reason: 'unauthorized' };
-        }
-        const hasRiotPlanTool = tools.some((name) => name.startsWith('riotplan_'));
-        if (!hasRiotPlanTool) {
-            return { ok: false, reason: 'missing_riotplan_tools' };
+            // Socket problems (missing file, permissions) are worth spelling out; the rest is just "unreachable".
+            const socketError = this.lastHealthError instanceof UnixSocketError ? this.lastHealthError : undefined;
+            return { ok: false, reason: socketError?.message ?? 'server_unreachable' };
         }
-        return { ok: true };
-    }
-
-    private async listAvailableToolNamesForVerification(): Promise<string[] | null> {
+        let capabilities: ServerCapabilities;
         try {
-            const result = await this.sendRequest('tools/list');
-            const rawTools = Array.isArray(result?.tools) ? result.tools : [];
-            return rawTools
-                .map((tool: any) => (typeof tool?.name === 'string' ? tool.name : ''))
-                .filter((name: string) => Boolean(name));
+            capabilities = await this.refreshCapabilities();
         } catch (error) {
             if (isUnauthorizedError(error)) {
-                return null;
+                return { ok: false, reason: 'unauthorized' };
             }
-            return [];
+            return { ok: false, reason: 'missing_riotplan_tools' };
         }
-    }
-
-    private async listAvailableToolNamesSafe(): Promise<string[]> {
-        try {
-            const result = await this.sendRequest('tools/list');
-            const rawTools = Array.isArray(result?.tools) ? result.tools : [];
-            return rawTools
-                .map((tool: any) => (typeof tool?.name === 'string' ? tool.name : ''))
-                .filter((name: string) => Boolean(name));
-        } catch {
-            return [];
+        if (!capabilities.hasRiotPlanTools()) {
+            return { ok: false, reason: 'missing_riotplan_tools' };
         }
+        return { ok: true };
     }
 
-    async getStepContent(planPathOrId: string, stepNumber: number): Promise<string> {
-        const resource = await this.readResource(`riotplan://step/${planPathOrId}?number=${stepNumber}`);
+    async getStepContent(planPathOrId: string, stepNumber: number, options?: RequestOptions): Promise<string> {
+        const resource = await this.readResource(`riotplan://step/${planPathOrId}?number=${stepNumber}`, options);
         try {
             const parsed = JSON.parse(resource);
             return parsed.content || '';
@@ -1062,8 +1815,8 @@ export class HttpMcpClient {
         }
     }
 
-    async getEvidenceContent(planPathOrId: string, filename: string): Promise<string> {
-        const resource = await this.readResource(`riotplan://evidence-file/${planPathOrId}?file=${encodeURIComponent(filename)}`);
+    async getEvidenceContent(planPathOrId: string, filename: string, options?: RequestOptions): Promise<string> {
+        const resource = await this.readResource(`riotplan://evidence-file/${planPathOrId}?file=${encodeURIComponent(filename)}`, options);
         try {
             const parsed = JSON.parse(resource);
             return parsed.content || '';
@@ -1072,8 +1825,12 @@ export class HttpMcpClient {
         }
     }
 
-    async getArtifact(planPathOrId: string, type: string): Promise<{ type: string; filename: string; content: string | null; updatedAt?: string }> {
-        const resource = await this.readResource(`riotplan://artifact/${planPathOrId}?type=${encodeURIComponent(type)}`);
+    async getArtifact(
+        planPathOrId: string,
+        type: string,
+        options?: RequestOptions
+    ): Promise<{ type: string; filename: string; content: string | null; updatedAt?: string }> {
+        const resource = await this.readResource(`riotplan://artifact/${planPathOrId}?type=${encodeURIComponent(type)}`, options);
         try {
             return JSON.parse(resource);
         } catch {
@@ -1081,8 +1838,8 @@ export class HttpMcpClient {
         }
     }
 
-    async getShaping(planPathOrId: string): Promise<any> {
-        const resource = await this.readResource(`riotplan://shaping/${planPathOrId}`);
+    async getShaping(planPathOrId: string, options?: RequestOptions): Promise<any> {
+        const resource = await this.readResource(`riotplan://shaping/${planPathOrId}`, options);
         try {
             return JSON.parse(resource);
         } catch {
@@ -1090,17 +1847,24 @@ export class HttpMcpClient {
         }
     }
 
-    async getExecutionPlan(planPathOrId: string): Promise<{ type: string; filename: string; content: string | null; updatedAt?: string }> {
-        return this.getArtifact(planPathOrId, 'execution_plan');
+    async getExecutionPlan(
+        planPathOrId: string,
+        options?: RequestOptions
+    ): Promise<{ type: string; filename: string; content: string | null; updatedAt?: string }> {
+        return this.getArtifact(planPathOrId, 'execution_plan', options);
     }
 
-    async getHistory(planPathOrId: string): Promise<any> {
-        const resource = await this.readResource(`riotplan://history/${planPathOrId}`);
-        try {
-            return JSON.parse(resource);
-        } catch {
+    async getHistory(planPathOrId: string, options?: RequestOptions): Promise<PlanHistory> {
+        const resource = await this.readResource(`riotplan://history/${planPathOrId}`, options);
+        if (!resource.trim()) {
             return { events: [] };
         }
+        return this.decodeResult(
+            'getHistory',
+            decodeHistory,
+            () => parseResourceJson('Plan history', resource),
+            { events: [] }
+        );
     }
 
     onNotification(method: string, handler: (data: unknown) => void): () => void {
@@ -1120,12 +1884,32 @@ export class HttpMcpClient {
         };
     }
 
-    async subscribeToResource(uri: string): Promise<void> {
-        await this.sendRequest('resources/subscribe', { uri });
+    async subscribeToResource(uri: string, options?: RequestOptions): Promise<void> {
+        await this.sendRequest('resources/subscribe', { uri }, this.requestScope('default', options));
+    }
+
+    async unsubscribeFromResource(uri: string, options?: RequestOptions): Promise<void> {
+        await this.sendRequest('resources/unsubscribe', { uri }, this.requestScope('default', options));
+    }
+
+    getStreamHealth(): SseStreamHealth {
+        if (this.stdio) {
+            // The process's stdout is the notification channel.
+            const state = this.stdio.getState();
+            return state === 'running' ? 'open' : state === 'starting' ? 'connecting' : state === 'restarting' ? 'reconnecting' : 'stopped';
+        }
+        return this.sseStream?.getHealth() ?? 'stopped';
     }
 
-    async unsubscribeFromResource(uri: string): Promise<void> {
-        await this.sendRequest('resources/unsubscribe', { uri });
+    /** Notified when the notification stream opens, drops, reconnects or stops. */
+    onStreamHealthChange(listener: (health: SseStreamHealth) => void): () => void {
+        this.streamHealthListeners.push(listener);
+        return () => {
+            const idx = this.streamHealthListeners.indexOf(listener);
+            if (idx >= 0) {
+                this.streamHealthListeners.splice(idx, 1);
+            }
+        };
     }
 
     private startSSEConnection(): void {
@@ -1133,120 +1917,226 @@ export class HttpMcpClient {
             return;
         }
         this.stopSSEConnection();
-        const url = new URL(`${this.serverUrl}/mcp`);
-        const isHttps = url.protocol === 'https:';
-        const client = isHttps ? https : http;
-        const proxyAgent = getProxyAgent(url.toString(), this.proxyBypass);
+        const stream = new SseStream(
+            (lastEventId, handlers) => this.openSSERequest(lastEventId, handlers),
+            (event) => this.handleSSEMessage(event.data, event.id)
+        );
+        stream.onHealthChange((health) => {
+            for (const listener of [...this.streamHealthListeners]) {
+                listener(health);
+            }
+        });
+        this.sseStream = stream;
+        stream.start();
+    }
+
+    private openSSERequest(lastEventId: string | undefined, handlers: SseConnectionHandlers): () => void {
+        const { url, client, target } = this.endpoint('/mcp');
         const authHeaders = this.getAuthHeaders();
+        // 2024-11-05 streams carry no resumable event ids.
+        const resumeFrom = this.getProtocolFeatures()?.resumableStreams ? lastEventId : undefined;
         this.logRequestDebug(
-            `SSE GET ${url.pathname} auth=${this.describeAuthHeaders(authHeaders)} session=${this.maskSecret(this.sessionId)}`
+            `SSE GET ${url.pathname} auth=${this.describeAuthHeaders(authHeaders)} session=${maskSecret(this.sessionId)} lastEventId=${resumeFrom || 'none'}`
         );
         const req = client.request(
             {
-                hostname: url.hostname,
-                port: url.port || (isHttps ? 443 : 80),
-                path: url.pathname,
+                ...target,
                 method: 'GET',
                 headers: {
                     Accept: 'text/event-stream',
                     'Cache-Control': 'no-cache',
                     'Mcp-Session-Id': this.sessionId,
+                    ...(resumeFrom ? { 'Last-Event-ID': resumeFrom } : {}),
+                    ...this.getProtocolHeaders(),
                     ...authHeaders,
                 },
-                ...(proxyAgent ? { agent: proxyAgent } : {}),
             },
             (res) => {
-                this.logRequestDebug(`SSE GET ${url.pathname} -> ${res.statusCode || 0}`);
-                if (res.statusCode !== 200) {
-                    if (res.statusCode === 404) {
+                const statusCode = res.statusCode || 0;
+                this.logRequestDebug(`SSE GET ${url.pathname} -> ${statusCode}`);
+                this.trace({ kind: 'sse', method: `SSE GET ${url.pathname}`, statusCode, eventId: resumeFrom });
+                if (statusCode !== 200) {
+                    res.resume();
+                    const error = new Error(`HTTP ${statusCode}`);
+                    if (statusCode === 404) {
+                        // Session expired; recovery starts a fresh stream for the new session.
+                        handlers.onClose(error, false);
                         void this.recoverSession();
+                        return;
                     }
+                    // 401/403: wrong token; 405: server offers no GET stream. Retrying will not help.
+                    handlers.onClose(error, statusCode >= 500 || statusCode === 429);
                     return;
                 }
-                let buffer = '';
-                res.on('data', (chunk: Buffer) => {
-                    buffer += chunk.toString();
-                    while (buffer.includes('\n\n')) {
-                        const eventEnd = buffer.indexOf('\n\n');
-                        const eventText = buffer.substring(0, eventEnd);
-                        buffer = buffer.substring(eventEnd + 2);
-                        this.handleSSEEvent(eventText);
-                    }
-                });
+                handlers.onOpen();
+                res.on('data', (chunk: Buffer) => handlers.onChunk(chunk.toString('utf8')));
                 res.on('end', () => {
-                    this.sseConnection = null;
-                    setTimeout(() => {
-                        if (this.sessionId) {
-                            this.startSSEConnection();
-                        }
-                    }, 3000);
+                    this.trace({ kind: 'sse', method: `SSE GET ${url.pathname}`, error: 'stream ended' });
+                    handlers.onClose();
+                });
+                res.on('error', (error) => {
+                    this.trace({ kind: 'sse', method: `SSE GET ${url.pathname}`, error: error.message });
+                    handlers.onClose(error);
                 });
             }
         );
-        req.on('error', (error) => {
+        req.on('error', (cause) => {
+            const error = this.connectionError(cause);
             this.logRequestDebug(`SSE GET ${url.pathname} error=${error.message}`);
-            this.sseConnection = null;
+            this.trace({ kind: 'sse', method: `SSE GET ${url.pathname}`, error: error.message });
+            handlers.onClose(error);
         });
         req.end();
-        this.sseConnection = req;
+        return () => req.destroy();
     }
 
     private stopSSEConnection(): void {
-        if (this.sseConnection) {
-            this.sseConnection.destroy();
-            this.sseConnection = null;
+        if (this.sseStream) {
+            this.sseStream.stop();
+            this.sseStream = undefined;
         }
     }
 
-    private handleSSEEvent(eventText: string): void {
-        let dataPayload = '';
-        for (const line of eventText.split('\n')) {
-            if (line.startsWith('data:')) {
-                dataPayload += line.substring(5).trim();
-            }
+    private handleSSEMessage(dataPayload: string, eventId?: string): void {
+        const message = this.parseJsonMessage(dataPayload);
+        if (message) {
+            this.trace({ kind: 'server-message', method: message.method, rpcId: message.id, eventId, payload: message });
+            this.dispatchIncomingMessage(message);
         }
-        if (!dataPayload) {
-            return;
+    }
+
+    private parseJsonMessage(dataPayload: string): any | undefined {
+        if (!dataPayload.trim()) {
+            return undefined;
         }
         try {
-            const notification = JSON.parse(dataPayload);
-            const method = notification.method;
-            if (!method) {
-                return;
-            }
-            const handlers = this.notificationHandlers.get(method) || [];
-            for (const handler of handlers) {
-                handler(notification.params || {});
-            }
+            const message = JSON.parse(dataPayload);
+            return message && typeof message === 'object' ? message : undefined;
         } catch {
-            // Ignore non-JSON ping/comment payloads
+            // Ignore non-JSON payloads
+            return undefined;
         }
     }
 
-    private getAuthHeaders(): Record<string, string> {
-        if (!this.apiKey) {
-            return {};
+    /** Route a server-sent message: requests carry an `id`, notifications do not. */
+    private dispatchIncomingMessage(message: any): void {
+        const method = message.method;
+        if (typeof method !== 'string' || !method) {
+            return;
+        }
+        if (message.id !== undefined && message.id !== null) {
+            void this.handleServerRequest(message as McpServerRequest);
+            return;
+        }
+        if (method === 'notifications/tools/list_changed') {
+            this.capabilities = undefined;
+            this.capabilitiesFailedAt = undefined;
+            // Refetch now so listeners (e.g. command visibility) see the new tool set.
+            void this.refreshCapabilities().catch(() => undefined);
+        }
+        if (method === 'notifications/progress') {
+            this.handleProgressNotification(message.params);
+        }
+        const handlers = this.notificationHandlers.get(method) || [];
+        for (const handler of handlers) {
+            handler(message.params || {});
+        }
+    }
+
+    private handleProgressNotification(params: any): void {
+        const callback = this.progressCallbacks.get(String(params?.progressToken ?? ''));
+        const progress = Number(params?.progress);
+        if (!callback || !Number.isFinite(progress)) {
+            return;
+        }
+        const total = Number(params?.total);
+        callback({
+            progress,
+            ...(Number.isFinite(total) && total > 0 ? { total } : {}),
+            ...(typeof params?.message === 'string' && params.message.trim() ? { message: params.message.trim() } : {}),
+        });
+    }
+
+    private async handleServerRequest(request: McpServerRequest): Promise<void> {
+        const handler = this.requestHandlers.get(request.method);
+        let reply: Record<string, unknown>;
+        if (!handler) {
+            reply = { error: { code: JSON_RPC_METHOD_NOT_FOUND, message: `Method not found: ${request.method}` } };
+        } else {
+            try {
+                reply = { result: (await handler(request.params || {})) ?? {} };
+            } catch (error) {
+                const code = error instanceof JsonRpcError ? error.code : JSON_RPC_INTERNAL_ERROR;
+                const message = error instanceof Error ? error.message : String(error);
+                reply = { error: { code, message } };
+            }
+        }
+        this.logRequestDebug(`server request ${request.method} -> ${'error' in reply ? 'error' : 'result'}`);
+        try {
+            await this.httpPost('/mcp', { jsonrpc: '2.0', id: request.id, ...reply });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logRequestDebug(`reply to ${request.method} failed: ${message}`);
+        }
+    }
+
+    /**
+     * Host, port and path for a request to `path`, or the socket for a `unix:` URL.
+     * Shared by POST, raw transfer, SSE, health and DELETE requests.
+     */
+    private endpoint(path: string): { url: URL; client: typeof http | typeof https; target: https.RequestOptions } {
+        const socketPath = unixSocketPath(this.serverUrl);
+        if (socketPath) {
+            // Plain HTTP on the socket: no TLS and no proxy; the Host header is a placeholder.
+            const url = new URL(path, 'http://localhost');
+            return { url, client: http, target: { socketPath, path: url.pathname + url.search } };
         }
+        const url = new URL(this.serverUrl + path);
+        const isHttps = url.protocol === 'https:';
+        return {
+            url,
+            client: isHttps ? https : http,
+            target: {
+                hostname: url.hostname,
+                port: url.port || (isHttps ? 443 : 80),
+                path: url.pathname + url.search,
+                ...this.connectionOptions(url),
+            },
+        };
+    }
+
+    /** Rewords socket errors (missing file, permissions) for `unix:` URLs. */
+    private connectionError(error: Error): Error {
+        const socketPath = unixSocketPath(this.serverUrl);
+        return socketPath ? describeSocketError(error, socketPath) : error;
+    }
+
+    /** Proxy agent plus the profile's TLS options for TCP endpoints. */
+    private connectionOptions(url: URL): https.RequestOptions {
+        const proxyAgent = getProxyAgent(url.toString(), this.proxyBypass);
         return {
-            Authorization: `Bearer ${this.apiKey}`,
-            'X-API-Key': this.apiKey,
+            ...(proxyAgent ? { agent: proxyAgent } : {}),
+            ...(url.protocol === 'https:' ? this.tlsOptions : {}),
         };
     }
 
+    /** The profile's static headers followed by the auth scheme's headers for the current token. */
+    private getAuthHeaders(): Record<string, string> {
+        return { ...this.staticHeaders, ...buildAuthHeaders(this.authScheme, this.apiKey) };
+    }
+
     private describeAuthHeaders(headers: Record<string, string>): string {
-        const authorization = headers.Authorization || '';
-        const xApiKey = headers['X-API-Key'] || '';
-        return `Authorization:${authorization ? 'yes' : 'no'}(${this.maskSecret(authorization.replace(/^Bearer\s+/i, ''))}), X-API-Key:${xApiKey ? 'yes' : 'no'}(${this.maskSecret(xApiKey)})`;
+        return `[${describeHeaders(headers).join(', ') || 'none'}]`;
     }
 
-    private maskSecret(value?: string): string {
-        const trimmed = value?.trim() || '';
-        if (!trimmed) {
-            return 'none';
+    private trace(input: TraceEntryInput): void {
+        if (!this.tracer?.isEnabled()) {
+            return;
         }
-        const suffixLength = Math.min(4, trimmed.length);
-        const suffix = trimmed.slice(-suffixLength);
-        return `***${suffix} (len=${trimmed.length})`;
+        this.tracer.record(this.serverUrl, {
+            ...(this.sessionId ? { sessionId: maskSecret(this.sessionId) } : {}),
+            ...input,
+        });
     }
 
     private logRequestDebug(line: string): void {
@@ -1256,8 +2146,43 @@ export class HttpMcpClient {
         this.requestDebugLogger(`[${new Date().toISOString()}] [${this.serverUrl}] ${line}`);
     }
 
+    /** Tell the server the session is over (2025-03-26+). Best effort: a 405 or network error is ignored. */
+    private terminateSession(): void {
+        const sessionId = this.sessionId;
+        if (!sessionId || !this.getProtocolFeatures()?.sessionTermination) {
+            return;
+        }
+        const { url, client, target } = this.endpoint('/mcp');
+        const req = client.request(
+            {
+                ...target,
+                method: 'DELETE',
+                headers: {
+                    'Mcp-Session-Id': sessionId,
+                    ...this.getProtocolHeaders(),
+                    ...this.getAuthHeaders(),
+                },
+                timeout: this.timeoutPolicy.health,
+            },
+            (res) => {
+                this.logRequestDebug(`HTTP DELETE ${url.pathname} -> ${res.statusCode || 0}`);
+                this.trace({ kind: 'http', method: `HTTP DELETE ${url.pathname}`, statusCode: res.statusCode || 0 });
+                res.resume();
+            }
+        );
+        req.on('timeout', () => req.destroy());
+        req.on('error', (error) => this.logRequestDebug(`HTTP DELETE ${url.pathname} error=${error.message}`));
+        req.end();
+    }
+
     dispose(): void {
+        this.terminateSession();
+        this.sessionId = undefined;
+        this.initialized = false;
+        this.negotiated = undefined;
         this.stopSSEConnection();
+        this.stdio?.stop();
         this.notificationHandlers.clear();
+        this.streamHealthListeners = [];
     }
 }
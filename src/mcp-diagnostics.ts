@@ -0,0 +1,597 @@
+/**
+ * Layer-by-layer connection diagnostics for one server profile
+ *
+ * Each layer a request passes through is checked on its own: URL, proxy
+ * decision, DNS, TCP (or the unix socket), TLS handshake and certificate
+ * chain, `GET /health`, the MCP `initialize` handshake, the notification
+ * stream, `tools/list` and one authenticated tool call. Every step records
+ * pass/fail, its duration and a suggested fix. Once a layer fails, the layers
+ * that depend on it are skipped rather than reported as failing too.
+ */
+
+import { promises as dns } from 'dns';
+import { connect as netConnect, isIP, NetConnectOpts } from 'net';
+import * as tls from 'tls';
+import { URL } from 'url';
+import { HttpMcpClient, isUnauthorizedError } from './mcp-client';
+import type { TlsRequestOptions } from './mcp-tls';
+import { getProxyAgent, getProxyUrl, isProxyBypassed } from './proxyUtils';
+import { unixSocketPath } from './mcp-unix-socket';
+
+/** Per-step limit for the network checks this module makes itself. */
+const NETWORK_STEP_TIMEOUT_MS = 5000;
+/** How long to wait for the notification stream to open after `initialize`. */
+const STREAM_OPEN_TIMEOUT_MS = 5000;
+/** A server certificate expiring sooner than this is reported as a warning. */
+const CERTIFICATE_EXPIRY_WARNING_DAYS = 14;
+
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface DiagnosticStep {
+    name: string;
+    status: DiagnosticStatus;
+    durationMs: number;
+    detail: string;
+    /** What to change when the step did not pass. */
+    fix?: string;
+}
+
+export interface ConnectionDiagnosticsReport {
+    serverName: string;
+    serverUrl: string;
+    startedAt: string;
+    steps: DiagnosticStep[];
+}
+
+export interface DiagnosticsTarget {
+    serverName: string;
+    serverUrl: string;
+    proxyBypass: boolean;
+    transport?: 'http' | 'stdio';
+    /**
+     * Builds the client used from `/health` on, configured like the connected one;
+     * rejects when the profile's settings cannot be loaded. It is disposed afterwards
+     * unless `shared`, as for a stdio profile's connected client.
+     */
+    createClient: () => Promise<{ client: HttpMcpClient; tls?: TlsRequestOptions; shared?: boolean }>;
+}
+
+interface StepOutcome {
+    status: Exclude<DiagnosticStatus, 'skip'>;
+    detail: string;
+    fix?: string;
+}
+
+type Endpoint =
+    | { kind: 'tcp'; url: URL; host: string; port: number; secure: boolean }
+    | { kind: 'unix'; socketPath: string }
+    | { kind: 'stdio' };
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function errorCode(error: unknown): string | undefined {
+    return (error as NodeJS.ErrnoException | undefined)?.code;
+}
+
+/** Proxy URL without credentials, for the report. */
+function redactProxyUrl(proxyUrl: string): string {
+    try {
+        const url = new URL(proxyUrl);
+        url.username = '';
+        url.password = '';
+        return url.toString().replace(/\/$/, '');
+    } catch {
+        return proxyUrl;
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(Object.assign(new Error(message), { code: 'ETIMEDOUT' })), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function parseEndpoint(serverUrl: string, transport: DiagnosticsTarget['transport']): Endpoint | StepOutcome {
+    if (transport === 'stdio') {
+        return { kind: 'stdio' };
+    }
+    const socketPath = unixSocketPath(serverUrl);
+    if (socketPath) {
+        return { kind: 'unix', socketPath };
+    }
+    let url: URL;
+    try {
+        url = new URL(serverUrl);
+    } catch {
+        return {
+            status: 'fail',
+            detail: `"${serverUrl}" is not a valid URL`,
+            fix: 'Use a full URL such as http://127.0.0.1:3002, https://plans.example.com or unix:/path/to/socket.',
+        };
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return {
+            status: 'fail',
+            detail: `Unsupported scheme ${url.protocol}`,
+            fix: 'Use an http://, https:// or unix: URL.',
+        };
+    }
+    const secure = url.protocol === 'https:';
+    return { kind: 'tcp', url, host: url.hostname.replace(/^\[|\]$/g, ''), port: Number(url.port) || (secure ? 443 : 80), secure };
+}
+
+function describeEndpoint(endpoint: Endpoint): string {
+    switch (endpoint.kind) {
+        case 'tcp':
+            return `${endpoint.url.protocol}//${endpoint.url.host}${endpoint.url.pathname === '/' ? '' : endpoint.url.pathname}`
+                + `, port ${endpoint.port}${endpoint.secure ? ', TLS' : ''}`;
+        case 'unix':
+            return `Unix socket ${endpoint.socketPath}`;
+        default:
+            return 'Local server process (stdio)';
+    }
+}
+
+/** Mirrors `getProxyAgent`: the profile's bypass flag, then the configured proxy, then NO_PROXY. */
+function proxyDecision(serverUrl: string, proxyBypass: boolean): { proxy?: URL; outcome: StepOutcome } {
+    const proxyUrl = getProxyUrl();
+    const proxied = Boolean(getProxyAgent(serverUrl, proxyBypass)) && !proxyBypass;
+    if (proxyBypass) {
+        return { outcome: { status: 'pass', detail: 'Direct: the profile bypasses the proxy (proxyBypass)' } };
+    }
+    if (!proxyUrl || !proxied) {
+        return {
+            outcome: {
+                status: 'pass',
+                detail: !proxyUrl
+                    ? 'Direct: no proxy configured (http.proxy, HTTPS_PROXY, HTTP_PROXY)'
+                    : isProxyBypassed(serverUrl)
+                        ? `Direct: NO_PROXY matches ${new URL(serverUrl).hostname}`
+                        : 'Direct',
+            },
+        };
+    }
+    try {
+        return { proxy: new URL(proxyUrl), outcome: { status: 'pass', detail: `Through proxy ${redactProxyUrl(proxyUrl)}` } };
+    } catch {
+        return {
+            outcome: {
+                status: 'fail',
+                detail: `The proxy URL "${redactProxyUrl(proxyUrl)}" is not valid`,
+                fix: 'Fix http.proxy or the HTTPS_PROXY / HTTP_PROXY environment variables, or set proxyBypass on the profile.',
+            },
+        };
+    }
+}
+
+async function checkDns(host: string, through: string): Promise<StepOutcome> {
+    if (isIP(host)) {
+        return { status: 'pass', detail: `${host} is an IP address${through}` };
+    }
+    try {
+        const addresses = await withTimeout(dns.lookup(host, { all: true }), NETWORK_STEP_TIMEOUT_MS, `DNS lookup of ${host} timed out`);
+        return { status: 'pass', detail: `${host} resolves to ${addresses.map((entry) => entry.address).join(', ')}${through}` };
+    } catch (error) {
+        return {
+            status: 'fail',
+            detail: `Cannot resolve ${host}${through}: ${errorCode(error) ?? errorMessage(error)}`,
+            fix: 'Check the host name, and whether it needs a VPN or a corporate DNS server.',
+        };
+    }
+}
+
+async function checkSocket(options: { host: string; port: number } | { path: string }, label: string): Promise<StepOutcome> {
+    try {
+        await withTimeout(new Promise<void>((resolve, reject) => {
+            const socket = netConnect(options as NetConnectOpts);
+            socket.once('connect', () => {
+                socket.destroy();
+                resolve();
+            });
+            socket.once('error', (error) => {
+                socket.destroy();
+                reject(error);
+            });
+            setTimeout(() => socket.destroy(), NETWORK_STEP_TIMEOUT_MS).unref();
+        }), NETWORK_STEP_TIMEOUT_MS, `Connecting to ${label} timed out`);
+        return { status: 'pass', detail: `Connected to ${label}` };
+    } catch (error) {
+        const code = errorCode(error);
+        const fixes: Record<string, string> = {
+            ECONNREFUSED: 'path' in options
+                ? 'Nothing is listening on the socket. Start the server.'
+                : `Nothing accepts connections on ${label}. Start the server or check the port in the URL.`,
+            ETIMEDOUT: `${label} did not answer. A firewall, VPN or security group may be blocking it.`,
+            EHOSTUNREACH: 'There is no route to the host. Check your network or VPN connection.',
+            ENETUNREACH: 'There is no route to the host. Check your network or VPN connection.',
+            ENOENT: 'The socket file does not exist. Start the server, or check the path in the URL.',
+            EACCES: 'Your user needs read and write access to the socket file and its directory.',
+            EPERM: 'Your user needs read and write access to the socket file and its directory.',
+        };
+        return {
+            status: 'fail',
+            detail: `Cannot connect to ${label}: ${code ?? errorMessage(error)}`,
+            fix: (code && fixes[code]) || 'Check that the server is running and reachable from this machine.',
+        };
+    }
+}
+
+function certificateName(cert: tls.PeerCertificate): string {
+    const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+    return first(cert.subject?.CN) || first(cert.subject?.O) || cert.fingerprint256 || 'unnamed certificate';
+}
+
+function certificateChain(leaf: tls.DetailedPeerCertificate): string[] {
+    const chain: string[] = [];
+    const seen = new Set<tls.PeerCertificate>();
+    let current: tls.DetailedPeerCertificate | undefined = leaf;
+    while (current && current.raw && !seen.has(current)) {
+        seen.add(current);
+        chain.push(certificateName(current));
+        current = current.issuerCertificate;
+    }
+    return chain;
+}
+
+function tlsFix(authorizationError: string): string {
+    if (/SELF_SIGNED|UNABLE_TO_(VERIFY_LEAF_SIGNATURE|GET_ISSUER_CERT)/.test(authorizationError)) {
+        return 'The server certificate is not signed by a trusted CA. Add the issuing CA with tls.caFile, or pin it with tls.allowedFingerprints.';
+    }
+    if (authorizationError.includes('CERT_HAS_EXPIRED')) {
+        return 'The server certificate has expired; it has to be renewed on the server.';
+    }
+    if (authorizationError.includes('CERT_NOT_YET_VALID')) {
+        return 'The server certificate is not valid yet. Check this machine\'s clock.';
+    }
+    if (/ALTNAME|does not match certificate/i.test(authorizationError)) {
+        return 'The host name in the URL is not one of the certificate\'s names. Use a name the certificate lists.';
+    }
+    if (authorizationError.includes('pinned fingerprint')) {
+        return 'The server certificate changed. Update tls.allowedFingerprints if the new certificate is expected.';
+    }
+    return 'Check the server\'s TLS configuration and the profile\'s tls settings.';
+}
+
+async function checkTls(host: string, port: number, options: TlsRequestOptions | undefined, now: number): Promise<StepOutcome> {
+    const verify = options?.rejectUnauthorized !== false;
+    try {
+        const socket = await withTimeout(new Promise<tls.TLSSocket>((resolve, reject) => {
+            // Verification is judged below so a failing chain can still be shown.
+            const connection = tls.connect({
+                host,
+                port,
+                servername: isIP(host) ? undefined : host,
+                ...options,
+                rejectUnauthorized: false,
+            });
+            connection.once('secureConnect', () => resolve(connection));
+            connection.once('error', (error) => {
+                connection.destroy();
+                reject(error);
+            });
+            setTimeout(() => connection.destroy(), NETWORK_STEP_TIMEOUT_MS).unref();
+        }), NETWORK_STEP_TIMEOUT_MS, `TLS handshake with ${host}:${port} timed out`);
+        const leaf = socket.getPeerCertificate(true);
+        const protocol = socket.getProtocol();
+        const authorizationError = socket.authorized ? undefined : String(socket.authorizationError || 'not trusted');
+        socket.destroy();
+
+        const chain = leaf?.raw ? certificateChain(leaf) : [];
+        const validTo = leaf?.valid_to ? new Date(leaf.valid_to) : undefined;
+        const daysLeft = validTo ? Math.floor((validTo.getTime() - now) / (24 * 60 * 60 * 1000)) : undefined;
+        const detail = [
+            protocol ?? 'TLS',
+            chain.length > 0 ? `chain: ${chain.join(' <- ')}` : 'no certificate',
+            validTo ? `valid until ${validTo.toISOString().slice(0, 10)}` : undefined,
+        ].filter(Boolean).join(', ');
+
+        if (!verify) {
+            return {
+                status: 'warn',
+                detail: `${detail}; verification is disabled (insecureSkipVerify)`,
+                fix: 'Trust the server\'s CA with tls.caFile instead of skipping verification outside local development.',
+            };
+        }
+        if (authorizationError) {
+            return { status: 'fail', detail: `${detail}; not trusted: ${authorizationError}`, fix: tlsFix(authorizationError) };
+        }
+        if (daysLeft !== undefined && daysLeft < CERTIFICATE_EXPIRY_WARNING_DAYS) {
+            return {
+                status: 'warn',
+                detail: `${detail}; the certificate expires in ${Math.max(daysLeft, 0)} days`,
+                fix: 'Renew the server certificate before it expires.',
+            };
+        }
+        return { status: 'pass', detail };
+    } catch (error) {
+        const message = errorMessage(error);
+        return {
+            status: 'fail',
+            detail: `TLS handshake failed: ${message}`,
+            fix: /wrong version number|packet length too long/i.test(message)
+                ? 'The port does not speak TLS. Use an http:// URL or the server\'s TLS port.'
+                : tlsFix(message),
+        };
+    }
+}
+
+function clientSetupFix(message: string, transport: DiagnosticsTarget['transport']): string | undefined {
+    if (message.startsWith('TLS')) {
+        return 'Fix the files named in the profile\'s tls settings, or their passphrase (RiotPlan: Set Client Key Passphrase).';
+    }
+    if (message.startsWith('Headers')) {
+        return 'Set the values of the profile\'s secret headers (RiotPlan: Set Secret Header Value).';
+    }
+    return transport === 'stdio' ? 'Connect the server, then run the diagnosis again.' : undefined;
+}
+
+function authFix(): string {
+    return 'Configure or rotate the API token (RiotPlan: Rotate API Token), or sign in again for OAuth profiles. '
+        + 'Check the profile\'s authScheme if the server expects a different header.';
+}
+
+async function waitForStreamOpen(client: HttpMcpClient): Promise<string> {
+    const health = client.getStreamHealth();
+    if (health === 'open') {
+        return health;
+    }
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+            unsubscribe();
+            resolve(client.getStreamHealth());
+        }, STREAM_OPEN_TIMEOUT_MS);
+        const unsubscribe = client.onStreamHealthChange((next) => {
+            if (next === 'open' || next === 'stopped') {
+                clearTimeout(timer);
+                unsubscribe();
+                resolve(next);
+            }
+        });
+    });
+}
+
+export async function runConnectionDiagnostics(
+    target: DiagnosticsTarget,
+    onStep?: (step: DiagnosticStep) => void,
+    now: () => number = Date.now
+): Promise<ConnectionDiagnosticsReport> {
+    const report: ConnectionDiagnosticsReport = {
+        serverName: target.serverName,
+        serverUrl: target.serverUrl,
+        startedAt: new Date(now()).toISOString(),
+        steps: [],
+    };
+    let blockedBy: string | undefined;
+
+    const record = (step: DiagnosticStep) => {
+        report.steps.push(step);
+        onStep?.(step);
+    };
+    const skip = (name: string, detail: string) => record({ name, status: 'skip', durationMs: 0, detail });
+    /** Runs a step unless an earlier layer failed; a `fail` blocks the steps after it when `blocking`. */
+    const step = async (name: string, run: () => Promise<StepOutcome> | StepOutcome, blocking = true): Promise<StepOutcome | undefined> => {
+        if (blockedBy) {
+            skip(name, `Skipped: ${blockedBy} failed`);
+            return undefined;
+        }
+        const startedAt = now();
+        let outcome: StepOutcome;
+        try {
+            outcome = await run();
+        } catch (error) {
+            outcome = { status: 'fail', detail: errorMessage(error) };
+        }
+        record({ name, durationMs: now() - startedAt, ...outcome });
+        if (outcome.status === 'fail' && blocking) {
+            blockedBy = name;
+        }
+        return outcome;
+    };
+
+    let endpoint: Endpoint | undefined;
+    await step('URL', () => {
+        const parsed = parseEndpoint(target.serverUrl, target.transport);
+        if ('status' in parsed) {
+            return parsed;
+        }
+        endpoint = parsed;
+        return { status: 'pass', detail: describeEndpoint(parsed) };
+    });
+
+    let proxy: URL | undefined;
+    if (endpoint?.kind === 'tcp') {
+        await step('Proxy', () => {
+            const decision = proxyDecision(target.serverUrl, target.proxyBypass);
+            proxy = decision.proxy;
+            return decision.outcome;
+        });
+        const tcp = endpoint;
+        const dnsHost = proxy?.hostname.replace(/^\[|\]$/g, '') ?? tcp.host;
+        const dnsPort = proxy ? Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80) : tcp.port;
+        const through = proxy ? ' (the proxy)' : '';
+        await step('DNS', () => checkDns(dnsHost, through));
+        await step('TCP connect', () => checkSocket({ host: dnsHost, port: dnsPort }, `${dnsHost}:${dnsPort}${through}`));
+    } else if (endpoint?.kind === 'unix') {
+        const socketPath = endpoint.socketPath;
+        await step('Socket connect', () => checkSocket({ path: socketPath }, `socket ${socketPath}`));
+    }
+
+    let client: HttpMcpClient | undefined;
+    let clientTls: TlsRequestOptions | undefined;
+    let clientShared = false;
+    let clientFailed = false;
+    const secure = endpoint?.kind === 'tcp' && endpoint.secure;
+    if (!blockedBy) {
+        try {
+            ({ client, tls: clientTls, shared: clientShared = false } = await target.createClient());
+        } catch (error) {
+            clientFailed = true;
+            const message = errorMessage(error);
+            await step(secure && message.startsWith('TLS') ? 'TLS handshake' : 'Client setup', () => ({
+                status: 'fail',
+                detail: message,
+                fix: clientSetupFix(message, target.transport),
+            }));
+        }
+    }
+
+    try {
+        if (endpoint?.kind === 'tcp' && endpoint.secure && !clientFailed) {
+            const tcp = endpoint;
+            if (proxy && !blockedBy) {
+                skip('TLS handshake', 'Checked as part of the /health request: TLS runs inside the proxy tunnel');
+            } else {
+                await step('TLS handshake', () => checkTls(tcp.host, tcp.port, clientTls, now()));
+            }
+        }
+
+        const healthStep = target.transport === 'stdio' ? 'Server process' : 'Health (/health)';
+        let tokenRejected = false;
+        const health = await step(healthStep, async () => {
+            const status = await client!.healthCheckStatus();
+            if (target.transport === 'stdio') {
+                return status === 200
+                    ? { status: 'pass', detail: 'The server process started' }
+                    : {
+                        status: 'fail',
+                        detail: 'The server process did not start',
+                        fix: 'Check the command and the RiotPlan Server Processes output channel.',
+                    };
+            }
+            if (status === 200) {
+                return { status: 'pass', detail: 'HTTP 200' };
+            }
+            if (status === 401 || status === 403) {
+                tokenRejected = true;
+                return { status: 'fail', detail: `HTTP ${status}: the token was rejected`, fix: authFix() };
+            }
+            if (status === undefined) {
+                return {
+                    status: 'fail',
+                    detail: `No response: ${client!.getLastHealthError()?.message ?? 'the request failed or timed out'}`,
+                    fix: proxy
+                        ? 'The proxy could not reach the server. Check the proxy, or set proxyBypass on the profile.'
+                        : 'The server accepted the connection but did not answer over HTTP. Check that the URL points at the RiotPlan server.',
+                };
+            }
+            return {
+                status: 'warn',
+                detail: `HTTP ${status}`,
+                fix: 'The server has no working /health endpoint, so the connection is reported as unreachable. Check the URL path or update the server.',
+            };
+        }, false);
+        // A rejected token still lets the MCP steps show which requests it affects.
+        if (health?.status === 'fail' && !tokenRejected) {
+            blockedBy = healthStep;
+        }
+
+        let sessionStarted = false;
+        await step('MCP initialize', async () => {
+            try {
+                const protocol = await client!.ensureInitialized();
+                sessionStarted = client!.getAuthDebugState().hasSessionId;
+                const server = protocol?.serverInfo ? `, server ${protocol.serverInfo.name} ${protocol.serverInfo.version ?? ''}`.trimEnd() : '';
+                return {
+                    status: 'pass',
+                    detail: `Protocol ${protocol?.protocolVersion ?? 'unknown'}${server}${sessionStarted ? '' : ', no session id (stateless server)'}`,
+                };
+            } catch (error) {
+                if (isUnauthorizedError(error)) {
+                    return { status: 'fail', detail: errorMessage(error), fix: authFix() };
+                }
+                return {
+                    status: 'fail',
+                    detail: errorMessage(error),
+                    fix: /protocol/i.test(errorMessage(error))
+                        ? 'The server speaks an MCP revision this extension does not support. Update the server or the extension.'
+                        : 'Check that the URL points at a RiotPlan MCP server (its /mcp endpoint).',
+                };
+            }
+        });
+
+        if (target.transport === 'stdio') {
+            skip('Notification stream', 'Notifications arrive on the process\'s stdout');
+        } else if (!blockedBy && !sessionStarted) {
+            skip('Notification stream', 'The server did not start a session, so there is no stream to open');
+        } else {
+            await step('Notification stream', async () => {
+                const health = await waitForStreamOpen(client!);
+                return health === 'open'
+                    ? { status: 'pass', detail: 'SSE stream open' }
+                    : {
+                        status: 'warn',
+                        detail: `SSE stream ${health}`,
+                        fix: 'Live updates will not arrive. Proxies that buffer responses break SSE; try proxyBypass or check the server logs.',
+                    };
+            }, false);
+        }
+
+        await step('tools/list', async () => {
+            try {
+                const capabilities = await client!.refreshCapabilities();
+                const tools = capabilities.getToolNames();
+                return capabilities.hasRiotPlanTools()
+                    ? { status: 'pass', detail: `${tools.length} tool${tools.length === 1 ? '' : 's'}` }
+                    : {
+                        status: 'fail',
+                        detail: `${tools.length} tools, none named riotplan_*`,
+                        fix: 'This MCP server is not a RiotPlan server. Check the URL.',
+                    };
+            } catch (error) {
+                return { status: 'fail', detail: errorMessage(error), fix: isUnauthorizedError(error) ? authFix() : undefined };
+            }
+        });
+
+        await step('Authenticated tool call', async () => {
+            try {
+                // The hold list is usually the shortest one a server can return.
+                await client!.listPlans('hold');
+                return { status: 'pass', detail: 'riotplan_list_plans answered' };
+            } catch (error) {
+                return {
+                    status: 'fail',
+                    detail: errorMessage(error),
+                    fix: isUnauthorizedError(error)
+                        ? authFix()
+                        : 'The server rejected the call. Check the server logs; the token may lack permission to list plans.',
+                };
+            }
+        });
+    } finally {
+        if (!clientShared) {
+            client?.dispose();
+        }
+    }
+    return report;
+}
+
+const STATUS_LABELS: Record<DiagnosticStatus, string> = {
+    pass: 'PASS',
+    warn: 'WARN',
+    fail: 'FAIL',
+    skip: 'SKIP',
+};
+
+/** Plain-text report for the clipboard or an issue. */
+export function formatDiagnosticsReport(report: ConnectionDiagnosticsReport): string {
+    const lines = [
+        `RiotPlan connection diagnostics: ${report.serverName}`,
+        `URL: ${report.serverUrl}`,
+        `Run at: ${report.startedAt}`,
+        '',
+    ];
+    for (const entry of report.steps) {
+        const timing = entry.status === 'skip' ? '' : ` (${entry.durationMs} ms)`;
+        lines.push(`[${STATUS_LABELS[entry.status]}] ${entry.name}${timing}: ${entry.detail}`);
+        if (entry.fix && entry.status !== 'pass') {
+            lines.push(`       Fix: ${entry.fix}`);
+        }
+    }
+    const failed = report.steps.find((entry) => entry.status === 'fail');
+    lines.push('', failed ? `First failure: ${failed.name}` : 'No failures.');
+    return lines.join('\n');
+}
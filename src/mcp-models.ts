@@ -0,0 +1,581 @@
+/**
+ * Typed models for RiotPlan tool results
+ *
+ * Tool results arrive as JSON text. The decoders here check each payload at the
+ * client boundary, fold the field-name variants older servers use into one
+ * shape, and collect a `SchemaIssue` for anything that does not fit. A payload
+ * without its required fields is rejected with `SchemaValidationError`; smaller
+ * drift drops the offending field or entry, so views only see validated data.
+ */
+
+export interface PlanProgress {
+    completed: number;
+    total: number;
+    percentage: number;
+}
+
+export interface ProjectRef {
+    id?: string;
+    name?: string;
+    [key: string]: unknown;
+}
+
+/** One entry of `riotplan_list_plans`. At least one identifier is always set. */
+export interface Plan {
+    uuid?: string;
+    id?: string;
+    path?: string;
+    code?: string;
+    name?: string;
+    title?: string;
+    stage?: string;
+    status?: string;
+    category?: string;
+    progress?: PlanProgress;
+    lastUpdated?: string;
+    project?: ProjectRef;
+    serverId?: string;
+    serverName?: string;
+    /** Set by the aggregator on rows served from the offline cache. */
+    stale?: boolean;
+    syncedAt?: string;
+}
+
+export interface PlanList {
+    plans: Plan[];
+}
+
+export interface PlanStatus {
+    name?: string;
+    code?: string;
+    status?: string;
+    stage?: string;
+    progress?: PlanProgress;
+    currentStep?: number | string;
+    lastUpdated?: string;
+    lastCompleted?: string;
+}
+
+export interface Step {
+    number: number;
+    title: string;
+    status: string;
+    file?: string;
+    startedAt?: string;
+    completedAt?: string;
+}
+
+export interface EvidenceFile {
+    name: string;
+    title?: string;
+    preview: string;
+    size: number;
+    createdAt?: string;
+}
+
+export interface HistoryEvent {
+    type: string;
+    timestamp?: string;
+    summary?: string;
+}
+
+export interface PlanHistory {
+    events: HistoryEvent[];
+}
+
+/** `riotplan_read_context` with `depth: 'full'`. */
+export interface PlanContext {
+    stage?: string;
+    idea?: { content?: string };
+    shaping?: { content?: string; selectedApproach?: string };
+    constraints: string[];
+    questions: string[];
+    evidence: { files: EvidenceFile[] };
+    history: { recentEvents: HistoryEvent[] };
+}
+
+/** Context entities carry free-form metadata; only the fields the extension reads are typed. */
+export interface ContextProject {
+    id?: string;
+    name?: string;
+    active?: boolean;
+    serverName?: string;
+    stale?: boolean;
+    syncedAt?: string;
+    [key: string]: unknown;
+}
+
+export interface SchemaIssue {
+    /** JSON path into the payload, e.g. `$.plans[3].progress`. */
+    path: string;
+    message: string;
+}
+
+export interface Decoded<T> {
+    model: string;
+    value: T;
+    issues: SchemaIssue[];
+}
+
+export interface SchemaDriftReport {
+    serverUrl: string;
+    /** Client method that received the payload. */
+    operation: string;
+    model: string;
+    issues: SchemaIssue[];
+    /** True when the payload was rejected rather than repaired. */
+    rejected: boolean;
+}
+
+export class SchemaValidationError extends Error {
+    constructor(readonly model: string, readonly issues: SchemaIssue[]) {
+        super(`${model} payload does not match the expected schema: ${summarizeIssues(issues)}`);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+function summarizeIssues(issues: SchemaIssue[]): string {
+    const shown = issues.slice(0, 3).map((issue) => `${issue.path} ${issue.message}`);
+    return issues.length > shown.length
+        ? `${shown.join('; ')} (+${issues.length - shown.length} more)`
+        : shown.join('; ');
+}
+
+export function formatSchemaDrift(report: SchemaDriftReport): string {
+    const lines = [
+        `${report.model} from ${report.serverUrl} (${report.operation}) ` +
+            `${report.rejected ? 'was rejected' : 'was repaired'}: ${report.issues.length} issue(s)`,
+    ];
+    for (const issue of report.issues) {
+        lines.push(`  ${issue.path}: ${issue.message}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Writes each distinct drift once per session. Servers are polled, so the same
+ * mismatch would otherwise be logged on every refresh.
+ */
+export class SchemaDriftLog {
+    private readonly seen = new Set<string>();
+
+    constructor(
+        private readonly write: (message: string) => void,
+        private readonly now: () => Date = () => new Date()
+    ) {}
+
+    report(report: SchemaDriftReport): boolean {
+        const key = [
+            report.serverUrl,
+            report.operation,
+            ...report.issues.map((issue) => `${issue.path}:${issue.message}`),
+        ].join('|');
+        if (this.seen.has(key)) {
+            return false;
+        }
+        this.seen.add(key);
+        this.write(`[${this.now().toISOString()}] ${formatSchemaDrift(report)}`);
+        return true;
+    }
+
+    reset(): void {
+        this.seen.clear();
+    }
+}
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+class IssueCollector {
+    readonly issues: SchemaIssue[] = [];
+
+    add(path: string, message: string): void {
+        this.issues.push({ path, message });
+    }
+
+    /** Missing and null are both treated as absent. */
+    string(record: JsonRecord, key: string, path: string): string | undefined {
+        const value = record[key];
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        if (typeof value !== 'string') {
+            this.add(`${path}.${key}`, `expected string, got ${describeType(value)}`);
+            return undefined;
+        }
+        return value;
+    }
+
+    number(record: JsonRecord, key: string, path: string): number | undefined {
+        const value = record[key];
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            this.add(`${path}.${key}`, `expected number, got ${describeType(value)}`);
+            return undefined;
+        }
+        return value;
+    }
+
+    /** First of several alias keys that holds a string. */
+    alias(record: JsonRecord, keys: string[], path: string): string | undefined {
+        for (const key of keys) {
+            const value = this.string(record, key, path);
+            if (value !== undefined) {
+                return value;
+            }
+        }
+        return undefined;
+    }
+
+    record(record: JsonRecord, key: string, path: string): JsonRecord | undefined {
+        const value = record[key];
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        if (!isRecord(value)) {
+            this.add(`${path}.${key}`, `expected object, got ${describeType(value)}`);
+            return undefined;
+        }
+        return value;
+    }
+
+    array(record: JsonRecord, key: string, path: string): unknown[] {
+        const value = record[key];
+        if (value === undefined || value === null) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            this.add(`${path}.${key}`, `expected array, got ${describeType(value)}`);
+            return [];
+        }
+        return value;
+    }
+
+    strings(record: JsonRecord, key: string, path: string): string[] {
+        const result: string[] = [];
+        this.array(record, key, path).forEach((entry, index) => {
+            if (typeof entry === 'string') {
+                result.push(entry);
+            } else {
+                this.add(`${path}.${key}[${index}]`, `expected string, got ${describeType(entry)}`);
+            }
+        });
+        return result;
+    }
+}
+
+function requireRecord(model: string, raw: unknown): JsonRecord {
+    if (!isRecord(raw)) {
+        throw new SchemaValidationError(model, [{ path: '$', message: `expected object, got ${describeType(raw)}` }]);
+    }
+    return raw;
+}
+
+/**
+ * Parses the text of a tool result. Results without text content are returned
+ * as is; text that is not JSON is a schema error.
+ */
+export function parseToolPayload(model: string, result: any): unknown {
+    const content = result?.content?.[0];
+    if (content?.type !== 'text') {
+        return result;
+    }
+    try {
+        return JSON.parse(content.text);
+    } catch {
+        throw new SchemaValidationError(model, [{ path: '$', message: 'text content is not valid JSON' }]);
+    }
+}
+
+function decodeProgress(collect: IssueCollector, record: JsonRecord, path: string): PlanProgress | undefined {
+    const raw = collect.record(record, 'progress', path);
+    if (!raw) {
+        return undefined;
+    }
+    const progressPath = `${path}.progress`;
+    const completed = collect.number(raw, 'completed', progressPath);
+    const total = collect.number(raw, 'total', progressPath);
+    if (completed === undefined || total === undefined) {
+        collect.add(progressPath, 'requires numeric completed and total');
+        return undefined;
+    }
+    const percentage = collect.number(raw, 'percentage', progressPath)
+        ?? (total > 0 ? Math.round((completed / total) * 100) : 0);
+    return { completed, total, percentage };
+}
+
+function decodeHistoryEvents(collect: IssueCollector, entries: unknown[], path: string): HistoryEvent[] {
+    const events: HistoryEvent[] = [];
+    entries.forEach((entry, index) => {
+        const entryPath = `${path}[${index}]`;
+        if (!isRecord(entry)) {
+            collect.add(entryPath, `expected object, got ${describeType(entry)}`);
+            return;
+        }
+        const type = collect.string(entry, 'type', entryPath);
+        if (!type) {
+            collect.add(`${entryPath}.type`, 'missing');
+            return;
+        }
+        events.push({
+            type,
+            timestamp: collect.string(entry, 'timestamp', entryPath),
+            summary: collect.string(entry, 'summary', entryPath),
+        });
+    });
+    return events;
+}
+
+function decodePlan(collect: IssueCollector, entry: unknown, path: string): Plan | undefined {
+    if (!isRecord(entry)) {
+        collect.add(path, `expected object, got ${describeType(entry)}`);
+        return undefined;
+    }
+    const plan: Plan = {
+        uuid: collect.string(entry, 'uuid', path),
+        id: collect.string(entry, 'id', path),
+        path: collect.string(entry, 'path', path),
+        code: collect.string(entry, 'code', path),
+        name: collect.string(entry, 'name', path),
+        title: collect.string(entry, 'title', path),
+        stage: collect.string(entry, 'stage', path),
+        status: collect.string(entry, 'status', path),
+        category: collect.string(entry, 'category', path),
+        progress: decodeProgress(collect, entry, path),
+        lastUpdated: collect.alias(entry, ['lastUpdated', 'updatedAt', 'createdAt'], path),
+        project: collect.record(entry, 'project', path) as ProjectRef | undefined,
+        serverId: collect.string(entry, 'serverId', path),
+        serverName: collect.string(entry, 'serverName', path),
+        stale: entry.stale === true ? true : undefined,
+        syncedAt: collect.string(entry, 'syncedAt', path),
+    };
+    if (!plan.uuid && !plan.id && !plan.path && !plan.code && !plan.name) {
+        collect.add(path, 'has no uuid, id, path, code or name');
+        return undefined;
+    }
+    return plan;
+}
+
+/** Preferred reference for opening a plan: uuid, then id, path, code, name. */
+export function planRef(plan: Plan): string {
+    return plan.uuid || plan.id || plan.path || plan.code || plan.name || '';
+}
+
+export function decodePlanList(raw: unknown): Decoded<PlanList> {
+    const model = 'Plan list';
+    const record = requireRecord(model, raw);
+    if (!Array.isArray(record.plans)) {
+        throw new SchemaValidationError(model, [{ path: '$.plans', message: `expected array, got ${describeType(record.plans)}` }]);
+    }
+    const collect = new IssueCollector();
+    const plans: Plan[] = [];
+    record.plans.forEach((entry, index) => {
+        const plan = decodePlan(collect, entry, `$.plans[${index}]`);
+        if (plan) {
+            plans.push(plan);
+        }
+    });
+    return { model, value: { plans }, issues: collect.issues };
+}
+
+export function decodePlanStatus(raw: unknown): Decoded<PlanStatus> {
+    const model = 'Plan status';
+    const record = requireRecord(model, raw);
+    const collect = new IssueCollector();
+    const status: PlanStatus = {
+        name: collect.alias(record, ['name', 'title'], '$'),
+        code: collect.string(record, 'code', '$'),
+        status: collect.string(record, 'status', '$'),
+        stage: collect.string(record, 'stage', '$'),
+        progress: decodeProgress(collect, record, '$'),
+        lastUpdated: collect.alias(record, ['lastUpdated', 'updatedAt'], '$'),
+    };
+    if (!status.name && !status.code) {
+        throw new SchemaValidationError(model, [...collect.issues, { path: '$', message: 'has neither name nor code' }]);
+    }
+    const stepValue = (key: 'currentStep' | 'lastCompleted'): number | string | undefined => {
+        const value = record[key];
+        if (typeof value === 'number' || typeof value === 'string') {
+            return value;
+        }
+        if (value !== undefined && value !== null) {
+            collect.add(`$.${key}`, `expected number or string, got ${describeType(value)}`);
+        }
+        return undefined;
+    };
+    status.currentStep = stepValue('currentStep');
+    const lastCompleted = stepValue('lastCompleted');
+    status.lastCompleted = lastCompleted === undefined ? undefined : String(lastCompleted);
+    return { model, value: status, issues: collect.issues };
+}
+
+export function decodePlanContext(raw: unknown): Decoded<PlanContext> {
+    const model = 'Plan context';
+    const record = requireRecord(model, raw);
+    const collect = new IssueCollector();
+    const idea = collect.record(record, 'idea', '$');
+    const shaping = collect.record(record, 'shaping', '$');
+    const evidence = collect.record(record, 'evidence', '$');
+    const history = collect.record(record, 'history', '$');
+
+    const files: EvidenceFile[] = [];
+    if (evidence) {
+        collect.array(evidence, 'files', '$.evidence').forEach((entry, index) => {
+            const path = `$.evidence.files[${index}]`;
+            if (!isRecord(entry)) {
+                collect.add(path, `expected object, got ${describeType(entry)}`);
+                return;
+            }
+            const name = collect.string(entry, 'name', path);
+            if (!name) {
+                collect.add(`${path}.name`, 'missing');
+                return;
+            }
+            files.push({
+                name,
+                title: collect.string(entry, 'title', path),
+                preview: collect.string(entry, 'preview', path) ?? '',
+                size: collect.number(entry, 'size', path) ?? 0,
+                createdAt: collect.string(entry, 'createdAt', path),
+            });
+        });
+    }
+
+    return {
+        model,
+        value: {
+            stage: collect.string(record, 'stage', '$'),
+            idea: idea ? { content: collect.string(idea, 'content', '$.idea') } : undefined,
+            shaping: shaping
+                ? {
+                    content: collect.string(shaping, 'content', '$.shaping'),
+                    selectedApproach: collect.string(shaping, 'selectedApproach', '$.shaping'),
+                }
+                : undefined,
+            constraints: collect.strings(record, 'constraints', '$'),
+            questions: collect.strings(record, 'questions', '$'),
+            evidence: { files },
+            history: {
+                recentEvents: history
+                    ? decodeHistoryEvents(collect, collect.array(history, 'recentEvents', '$.history'), '$.history.recentEvents')
+                    : [],
+            },
+        },
+        issues: collect.issues,
+    };
+}
+
+/** `riotplan://steps/<plan>`: an array, or an object with a `steps` array. */
+export function decodeSteps(raw: unknown): Decoded<Step[]> {
+    const model = 'Step list';
+    const entries = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.steps) ? raw.steps : undefined;
+    if (!entries) {
+        throw new SchemaValidationError(model, [{ path: '$', message: 'expected an array or an object with a steps array' }]);
+    }
+    const collect = new IssueCollector();
+    const steps: Step[] = [];
+    entries.forEach((entry, index) => {
+        const path = `$[${index}]`;
+        if (!isRecord(entry)) {
+            collect.add(path, `expected object, got ${describeType(entry)}`);
+            return;
+        }
+        const number = collect.number(entry, 'number', path);
+        const title = collect.string(entry, 'title', path);
+        if (number === undefined || number <= 0 || !title) {
+            collect.add(path, 'requires a positive number and a title');
+            return;
+        }
+        steps.push({
+            number,
+            title,
+            status: collect.string(entry, 'status', path) ?? 'pending',
+            file: collect.string(entry, 'file', path),
+            startedAt: collect.string(entry, 'startedAt', path),
+            completedAt: collect.string(entry, 'completedAt', path),
+        });
+    });
+    return { model, value: steps, issues: collect.issues };
+}
+
+/** `riotplan://history/<plan>`: an object with `events`, or the bare array. */
+export function decodeHistory(raw: unknown): Decoded<PlanHistory> {
+    const model = 'Plan history';
+    const entries = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.events) ? raw.events : undefined;
+    if (!entries) {
+        throw new SchemaValidationError(model, [{ path: '$', message: 'expected an array or an object with an events array' }]);
+    }
+    const collect = new IssueCollector();
+    return { model, value: { events: decodeHistoryEvents(collect, entries, '$.events') }, issues: collect.issues };
+}
+
+function decodeContextProjectEntry(collect: IssueCollector, entry: unknown, path: string): ContextProject | undefined {
+    if (!isRecord(entry)) {
+        collect.add(path, `expected object, got ${describeType(entry)}`);
+        return undefined;
+    }
+    const project: ContextProject = { ...entry };
+    for (const key of ['id', 'name'] as const) {
+        if (project[key] !== undefined && typeof project[key] !== 'string') {
+            collect.add(`${path}.${key}`, `expected string, got ${describeType(project[key])}`);
+            delete project[key];
+        }
+    }
+    if (project.active !== undefined && typeof project.active !== 'boolean') {
+        collect.add(`${path}.active`, `expected boolean, got ${describeType(project.active)}`);
+        delete project.active;
+    }
+    return project;
+}
+
+/**
+ * `riotplan_context` list results. Builds differ in where the array lives:
+ * `entities`, `projects`, either of those under `data`, or the bare array.
+ */
+export function decodeContextProjects(raw: unknown): Decoded<ContextProject[]> {
+    const model = 'Context project list';
+    const data = isRecord(raw) && isRecord(raw.data) ? raw.data : undefined;
+    const entries = Array.isArray(raw)
+        ? raw
+        : [
+            isRecord(raw) ? raw.entities : undefined,
+            isRecord(raw) ? raw.projects : undefined,
+            data?.entities,
+            data?.projects,
+        ].find(Array.isArray);
+    if (!entries) {
+        throw new SchemaValidationError(model, [{ path: '$', message: 'has no entities or projects array' }]);
+    }
+    const collect = new IssueCollector();
+    const projects: ContextProject[] = [];
+    entries.forEach((entry, index) => {
+        const project = decodeContextProjectEntry(collect, entry, `$[${index}]`);
+        if (project) {
+            projects.push(project);
+        }
+    });
+    return { model, value: projects, issues: collect.issues };
+}
+
+/** `riotplan_context` get results: `entity` or `data.entity`; null when absent. */
+export function decodeContextProject(raw: unknown): Decoded<ContextProject | null> {
+    const model = 'Context project';
+    const collect = new IssueCollector();
+    const entity = isRecord(raw) ? raw.entity ?? (isRecord(raw.data) ? raw.data.entity : undefined) : undefined;
+    if (entity === undefined || entity === null) {
+        return { model, value: null, issues: [] };
+    }
+    return { model, value: decodeContextProjectEntry(collect, entity, '$.entity') ?? null, issues: collect.issues };
+}
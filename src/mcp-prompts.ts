@@ -0,0 +1,140 @@
+/**
+ * MCP prompts
+ *
+ * Parses `prompts/list` and `prompts/get` results and renders a prompt's
+ * messages as Markdown for an editor or the clipboard.
+ */
+
+import { ListPage } from './mcp-resources';
+
+export interface McpPromptArgument {
+    name: string;
+    description?: string;
+    required: boolean;
+}
+
+export interface McpPrompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments: McpPromptArgument[];
+}
+
+/** One block of a prompt message; only the fields of its `type` are set. */
+export interface McpPromptContent {
+    type: string;
+    text?: string;
+    mimeType?: string;
+    uri?: string;
+    data?: string;
+}
+
+export interface McpPromptMessage {
+    role: string;
+    content: McpPromptContent[];
+}
+
+export interface McpPromptResult {
+    description?: string;
+    messages: McpPromptMessage[];
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function records(value: unknown): Array<Record<string, unknown>> {
+    return Array.isArray(value)
+        ? value.filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+        : [];
+}
+
+/** Entries without a name are dropped, as are arguments without a name. */
+export function parsePromptList(result: unknown): ListPage<McpPrompt> {
+    const body = result as Record<string, unknown> | undefined;
+    const items = records(body?.prompts).flatMap((entry) => {
+        const name = optionalString(entry.name);
+        if (!name) {
+            return [];
+        }
+        const prompt: McpPrompt = {
+            name,
+            title: optionalString(entry.title),
+            description: optionalString(entry.description),
+            arguments: records(entry.arguments).flatMap((argument) => {
+                const argumentName = optionalString(argument.name);
+                return argumentName
+                    ? [{ name: argumentName, description: optionalString(argument.description), required: argument.required === true }]
+                    : [];
+            }),
+        };
+        return [prompt];
+    });
+    return { items, nextCursor: optionalString(body?.nextCursor) };
+}
+
+function parseContent(value: unknown): McpPromptContent | undefined {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+    const content = value as Record<string, unknown>;
+    const type = optionalString(content.type) ?? 'text';
+    if (type === 'resource') {
+        // Embedded resources nest their text or blob under `resource`.
+        const resource = (content.resource ?? {}) as Record<string, unknown>;
+        return {
+            type,
+            uri: optionalString(resource.uri),
+            mimeType: optionalString(resource.mimeType),
+            text: typeof resource.text === 'string' ? resource.text : undefined,
+            data: typeof resource.blob === 'string' ? resource.blob : undefined,
+        };
+    }
+    return {
+        type,
+        text: typeof content.text === 'string' ? content.text : undefined,
+        mimeType: optionalString(content.mimeType),
+        uri: optionalString(content.uri),
+        data: typeof content.data === 'string' ? content.data : undefined,
+    };
+}
+
+/** Accepts a single content object or an array of them per message. */
+export function parsePromptResult(result: unknown): McpPromptResult {
+    const body = result as Record<string, unknown> | undefined;
+    const messages = records(body?.messages).map((message) => {
+        const rawContent = Array.isArray(message.content) ? message.content : [message.content];
+        return {
+            role: optionalString(message.role) ?? 'user',
+            content: rawContent
+                .map(parseContent)
+                .filter((content): content is McpPromptContent => content !== undefined),
+        };
+    });
+    return { description: optionalString(body?.description), messages };
+}
+
+function renderContent(content: McpPromptContent): string {
+    if (content.text !== undefined) {
+        return content.uri && content.type !== 'text' ? `<!-- ${content.uri} -->\n${content.text}` : content.text;
+    }
+    if (content.type === 'resource_link' || (content.uri && !content.data)) {
+        return `[${content.uri ?? 'resource'}](${content.uri ?? ''})`;
+    }
+    const bytes = content.data ? Buffer.from(content.data, 'base64').byteLength : 0;
+    return `[${content.type} ${content.mimeType || 'content'}, ${bytes} bytes]`;
+}
+
+/** Markdown with one `## role` section per message; a single user message is rendered bare. */
+export function formatPromptMessages(result: McpPromptResult): string {
+    const bodies = result.messages.map((message) => message.content.map(renderContent).join('\n\n'));
+    if (result.messages.length === 1 && result.messages[0].role === 'user') {
+        return bodies[0];
+    }
+    return result.messages.map((message, index) => `## ${message.role}\n\n${bodies[index]}`).join('\n\n');
+}
+
+/** Arguments a selected plan can fill in (`planId`, `plan_ref`, `plan`, ...). */
+export function isPlanArgument(name: string): boolean {
+    return /^plan([_-]?(id|ref|path|uuid))?$/i.test(name);
+}
@@ -0,0 +1,102 @@
+/**
+ * MCP protocol version negotiation
+ *
+ * The client offers the newest revision it implements in `initialize` and
+ * accepts any revision from `SUPPORTED_PROTOCOL_VERSIONS` that the server
+ * answers with. Transport behaviour that differs between revisions is looked
+ * up through `protocolFeatures`.
+ */
+
+/** Protocol revisions this client speaks, newest first. */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+export type ProtocolVersion = (typeof SUPPORTED_PROTOCOL_VERSIONS)[number];
+
+export const LATEST_PROTOCOL_VERSION: ProtocolVersion = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+export interface ClientInfo {
+    name: string;
+    version: string;
+}
+
+export interface ServerInfo {
+    name: string;
+    version: string;
+    title?: string;
+}
+
+/** What `initialize` settled on for the current session. */
+export interface NegotiatedProtocol {
+    protocolVersion: ProtocolVersion;
+    serverInfo?: ServerInfo;
+    /** Raw `capabilities` object from the initialize result. */
+    serverCapabilities: Record<string, unknown>;
+    instructions?: string;
+}
+
+export interface ProtocolFeatures {
+    /** Send `MCP-Protocol-Version` on every request after initialization. */
+    protocolVersionHeader: boolean;
+    /** Streams carry event ids and can be resumed with `Last-Event-ID`. */
+    resumableStreams: boolean;
+    /** Sessions are ended explicitly with HTTP DELETE. */
+    sessionTermination: boolean;
+}
+
+export class UnsupportedProtocolVersionError extends Error {
+    constructor(readonly serverVersion: string) {
+        super(
+            `RiotPlan server requires MCP protocol version ${serverVersion || '(none)'}; `
+            + `this extension supports ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}.`
+        );
+        this.name = 'UnsupportedProtocolVersionError';
+    }
+}
+
+export function isSupportedProtocolVersion(version: unknown): version is ProtocolVersion {
+    return typeof version === 'string' && (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(version);
+}
+
+export function protocolFeatures(version: ProtocolVersion): ProtocolFeatures {
+    // Revisions are ISO dates, so string comparison orders them.
+    return {
+        protocolVersionHeader: version >= '2025-06-18',
+        resumableStreams: version >= '2025-03-26',
+        sessionTermination: version >= '2025-03-26',
+    };
+}
+
+function parseServerInfo(raw: any): ServerInfo | undefined {
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    if (!name) {
+        return undefined;
+    }
+    const version = typeof raw?.version === 'string' ? raw.version.trim() : '';
+    const title = typeof raw?.title === 'string' && raw.title.trim() ? raw.title.trim() : undefined;
+    return { name, version, ...(title ? { title } : {}) };
+}
+
+/** Validate an `initialize` result; throws UnsupportedProtocolVersionError for unknown revisions. */
+export function negotiateProtocol(result: any): NegotiatedProtocol {
+    const version = result?.protocolVersion;
+    if (!isSupportedProtocolVersion(version)) {
+        throw new UnsupportedProtocolVersionError(typeof version === 'string' ? version : '');
+    }
+    const capabilities = result?.capabilities;
+    return {
+        protocolVersion: version,
+        serverInfo: parseServerInfo(result?.serverInfo),
+        serverCapabilities: capabilities && typeof capabilities === 'object' ? capabilities : {},
+        ...(typeof result?.instructions === 'string' && result.instructions.trim()
+            ? { instructions: result.instructions.trim() }
+            : {}),
+    };
+}
+
+export function describeServerInfo(info?: ServerInfo): string | undefined {
+    if (!info) {
+        return undefined;
+    }
+    const name = info.title || info.name;
+    return info.version ? `${name} ${info.version}` : name;
+}
@@ -0,0 +1,106 @@
+/**
+ * Per-request options for HttpMcpClient: cancellation and timeout policy
+ *
+ * Every public client method takes an optional `RequestOptions`. Timeouts are
+ * looked up by request class, with defaults that a server profile can override.
+ * Progress callbacks receive the server's `notifications/progress` for the call.
+ */
+
+export type TimeoutClass = 'default' | 'list' | 'read' | 'write' | 'transfer' | 'health';
+
+/** Timeout in milliseconds for each request class. */
+export type RequestTimeoutPolicy = Record<TimeoutClass, number>;
+
+export const DEFAULT_TIMEOUT_POLICY: RequestTimeoutPolicy = {
+    default: 30000,
+    list: 30000,
+    read: 30000,
+    write: 60000,
+    transfer: 120000,
+    health: 5000,
+};
+
+const TIMEOUT_CLASSES = Object.keys(DEFAULT_TIMEOUT_POLICY) as TimeoutClass[];
+
+/** A `notifications/progress` update from the server, or byte counts for raw plan transfers. */
+export interface ProgressUpdate {
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+export interface RequestOptions {
+    /** Aborts the in-flight HTTP request(s) when signalled. */
+    signal?: AbortSignal;
+    /** Overrides the policy timeout for this call. */
+    timeoutMs?: number;
+    /** Attaches a `progressToken` to the request and receives the server's progress notifications. */
+    onProgress?: (update: ProgressUpdate) => void;
+}
+
+/** Structural subset of `vscode.CancellationToken`, so this module stays free of the vscode API. */
+export interface CancellationTokenLike {
+    isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export class RequestCancelledError extends Error {
+    constructor(message = 'Request cancelled') {
+        super(message);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+export class RequestTimeoutError extends Error {
+    constructor(readonly description: string, readonly timeoutMs: number) {
+        super(`${description} timed out after ${timeoutMs}ms`);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+export function isCancellationError(error: unknown): boolean {
+    return error instanceof RequestCancelledError;
+}
+
+export function toAbortSignal(token: CancellationTokenLike): AbortSignal {
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+        return controller.signal;
+    }
+    const subscription = token.onCancellationRequested(() => {
+        subscription.dispose();
+        controller.abort();
+    });
+    return controller.signal;
+}
+
+/** Merge profile overrides over the defaults, ignoring non-positive or non-numeric values. */
+export function resolveTimeoutPolicy(overrides?: Partial<RequestTimeoutPolicy>): RequestTimeoutPolicy {
+    const policy = { ...DEFAULT_TIMEOUT_POLICY };
+    if (!overrides) {
+        return policy;
+    }
+    for (const key of TIMEOUT_CLASSES) {
+        const value = Number(overrides[key]);
+        if (Number.isFinite(value) && value > 0) {
+            policy[key] = value;
+        }
+    }
+    return policy;
+}
+
+/** Keep only recognised, positive timeout overrides (for persisted profile settings). */
+export function normalizeTimeoutOverrides(input: unknown): Partial<RequestTimeoutPolicy> | undefined {
+    if (!input || typeof input !== 'object') {
+        return undefined;
+    }
+    const result: Partial<RequestTimeoutPolicy> = {};
+    for (const key of TIMEOUT_CLASSES) {
+        const value = Number((input as Record<string, unknown>)[key]);
+        if (Number.isFinite(value) && value > 0) {
+            result[key] = value;
+        }
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+}
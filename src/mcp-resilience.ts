@@ -0,0 +1,238 @@
+/**
+ * Retry and circuit-breaker policy for the MCP transport
+ *
+ * Transient failures (connection resets, gateway errors, busy SQLite stores)
+ * are retried with jittered exponential backoff. Repeated server failures trip
+ * a per-server circuit breaker so a dead server fails fast instead of being
+ * hit on every tree refresh.
+ */
+
+import { RequestCancelledError, RequestTimeoutError } from './mcp-request';
+
+export interface RetryPolicy {
+    /** Total attempts including the first one. */
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 2000,
+};
+
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
+const UNSENT_REQUEST_CODES = ['ECONNREFUSED', 'EAI_AGAIN'];
+const TRANSIENT_HTTP_STATUS = /\bHTTP (502|503|504)\b/;
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error || '');
+}
+
+function errorCode(error: unknown): string {
+    const code = (error as NodeJS.ErrnoException | undefined)?.code;
+    return typeof code === 'string' ? code : '';
+}
+
+/** Connection-level failure or 5xx from the server itself (counts against the circuit). */
+export function isServerFailure(error: unknown): boolean {
+    if (error instanceof RequestCancelledError) {
+        return false;
+    }
+    if (error instanceof RequestTimeoutError) {
+        return true;
+    }
+    const code = errorCode(error);
+    if (code && (TRANSIENT_NETWORK_CODES.includes(code) || code === 'ECONNREFUSED' || code === 'EHOSTUNREACH')) {
+        return true;
+    }
+    return /\bHTTP 5\d\d\b/.test(errorMessage(error));
+}
+
+/** Failures worth retrying: network blips, gateway errors and lock contention in tool results. */
+export function isTransientError(error: unknown): boolean {
+    if (error instanceof RequestCancelledError || error instanceof RequestTimeoutError) {
+        return false;
+    }
+    if (TRANSIENT_NETWORK_CODES.includes(errorCode(error))) {
+        return true;
+    }
+    const message = errorMessage(error);
+    if (TRANSIENT_HTTP_STATUS.test(message)) {
+        return true;
+    }
+    const normalized = message.toLowerCase();
+    const isSyncIndexTmpRace =
+        normalized.includes('enoent')
+        && normalized.includes('sync-index')
+        && normalized.includes('.tmp');
+    return isSyncIndexTmpRace
+        || normalized.includes('sqlite_busy')
+        || normalized.includes('database is locked')
+        || normalized.includes('resource temporarily unavailable');
+}
+
+/**
+ * Failures that happen before the request reaches the server. Only these are
+ * retried for writes: after a reset, a timeout or a gateway error the server
+ * may already have applied the change.
+ */
+export function isUnsentRequestError(error: unknown): boolean {
+    return UNSENT_REQUEST_CODES.includes(errorCode(error));
+}
+
+/** Full-jitter exponential backoff for the given zero-based retry number. */
+export function backoffDelay(
+    retry: number,
+    policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>,
+    random: () => number = Math.random
+): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+    return Math.round(random() * ceiling);
+}
+
+/** Sleep that rejects with RequestCancelledError when the signal aborts. */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestCancelledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitSnapshot {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** When an open circuit lets the next trial request through (epoch ms). */
+    retryAt?: number;
+}
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+    now?: () => number;
+}
+
+/** Short user-facing description of a non-closed circuit, e.g. for status tooltips. */
+export function describeCircuit(snapshot?: CircuitSnapshot): string | undefined {
+    if (!snapshot || snapshot.state === 'closed') {
+        return undefined;
+    }
+    if (snapshot.state === 'half-open') {
+        return 'Half-open (testing whether the server has recovered)';
+    }
+    const until = snapshot.retryAt ? ` until ${new Date(snapshot.retryAt).toLocaleTimeString()}` : '';
+    return `Open after ${snapshot.consecutiveFailures} failures (requests paused${until})`;
+}
+
+export class CircuitOpenError extends Error {
+    constructor(readonly retryAt: number) {
+        super(`Server circuit is open after repeated failures; next attempt after ${new Date(retryAt).toISOString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private trialInFlight = false;
+    private listeners: Array<(snapshot: CircuitSnapshot) => void> = [];
+    private readonly failureThreshold: number;
+    private readonly resetTimeoutMs: number;
+    private readonly now: () => number;
+
+    constructor(options?: Partial<CircuitBreakerOptions>) {
+        this.failureThreshold = options?.failureThreshold ?? 5;
+        this.resetTimeoutMs = options?.resetTimeoutMs ?? 30000;
+        this.now = options?.now ?? Date.now;
+    }
+
+    getSnapshot(): CircuitSnapshot {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            ...(this.state === 'open' ? { retryAt: this.openedAt + this.resetTimeoutMs } : {}),
+        };
+    }
+
+    onStateChange(listener: (snapshot: CircuitSnapshot) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const idx = this.listeners.indexOf(listener);
+            if (idx >= 0) {
+                this.listeners.splice(idx, 1);
+            }
+        };
+    }
+
+    /** Throws CircuitOpenError while open; moves to half-open once the reset timeout has elapsed. */
+    assertCanRequest(): void {
+        if (this.state === 'closed') {
+            return;
+        }
+        if (this.state === 'open') {
+            const retryAt = this.openedAt + this.resetTimeoutMs;
+            if (this.now() < retryAt) {
+                throw new CircuitOpenError(retryAt);
+            }
+            this.transition('half-open');
+        }
+        // Half-open: one trial request at a time.
+        if (this.trialInFlight) {
+            throw new CircuitOpenError(this.now() + this.resetTimeoutMs);
+        }
+        this.trialInFlight = true;
+    }
+
+    recordSuccess(): void {
+        this.trialInFlight = false;
+        this.consecutiveFailures = 0;
+        if (this.state !== 'closed') {
+            this.transition('closed');
+        }
+    }
+
+    recordFailure(): void {
+        this.trialInFlight = false;
+        this.consecutiveFailures += 1;
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+            this.openedAt = this.now();
+            this.transition('open');
+        }
+    }
+
+    /** Release a half-open trial slot without counting a result (e.g. the caller cancelled). */
+    recordNeutral(): void {
+        this.trialInFlight = false;
+    }
+
+    reset(): void {
+        this.consecutiveFailures = 0;
+        this.trialInFlight = false;
+        if (this.state !== 'closed') {
+            this.transition('closed');
+        }
+    }
+
+    private transition(next: CircuitState): void {
+        this.state = next;
+        const snapshot = this.getSnapshot();
+        for (const listener of [...this.listeners]) {
+            listener(snapshot);
+        }
+    }
+}
@@ -0,0 +1,270 @@
+/**
+ * MCP resource listings and subscription state
+ *
+ * Parses `resources/list`, `resources/templates/list` and `resources/read`
+ * results, expands simple URI templates, and tracks which resources the
+ * Resources view has subscribed to on each server.
+ */
+
+export interface McpResource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    size?: number;
+}
+
+export interface McpResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+}
+
+/** One entry of a `resources/read` result; binary contents arrive base64-encoded in `blob`. */
+export interface McpResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+}
+
+/** Result of a paginated list method (`nextCursor` asks for the next page). */
+export interface ListPage<T> {
+    items: T[];
+    nextCursor?: string;
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function entries(result: unknown, key: string): Array<Record<string, unknown>> {
+    const list = (result as Record<string, unknown> | undefined)?.[key];
+    return Array.isArray(list) ? list.filter((entry) => entry && typeof entry === 'object') : [];
+}
+
+function nextCursor(result: unknown): string | undefined {
+    return optionalString((result as Record<string, unknown> | undefined)?.nextCursor);
+}
+
+/** Entries without a URI are dropped; a missing name falls back to the URI. */
+export function parseResourceList(result: unknown): ListPage<McpResource> {
+    const items = entries(result, 'resources').flatMap((entry) => {
+        const uri = optionalString(entry.uri);
+        if (!uri) {
+            return [];
+        }
+        const resource: McpResource = {
+            uri,
+            name: optionalString(entry.name) ?? uri,
+            title: optionalString(entry.title),
+            description: optionalString(entry.description),
+            mimeType: optionalString(entry.mimeType),
+            size: typeof entry.size === 'number' && Number.isFinite(entry.size) ? entry.size : undefined,
+        };
+        return [resource];
+    });
+    return { items, nextCursor: nextCursor(result) };
+}
+
+export function parseResourceTemplateList(result: unknown): ListPage<McpResourceTemplate> {
+    const items = entries(result, 'resourceTemplates').flatMap((entry) => {
+        const uriTemplate = optionalString(entry.uriTemplate);
+        if (!uriTemplate) {
+            return [];
+        }
+        const template: McpResourceTemplate = {
+            uriTemplate,
+            name: optionalString(entry.name) ?? uriTemplate,
+            title: optionalString(entry.title),
+            description: optionalString(entry.description),
+            mimeType: optionalString(entry.mimeType),
+        };
+        return [template];
+    });
+    return { items, nextCursor: nextCursor(result) };
+}
+
+export function parseResourceContents(result: unknown): McpResourceContents[] {
+    return entries(result, 'contents').flatMap((entry) => {
+        const uri = optionalString(entry.uri);
+        if (!uri) {
+            return [];
+        }
+        return [{
+            uri,
+            mimeType: optionalString(entry.mimeType),
+            text: typeof entry.text === 'string' ? entry.text : undefined,
+            blob: typeof entry.blob === 'string' ? entry.blob : undefined,
+        }];
+    });
+}
+
+/** Text of a read result as shown in an editor; JSON is pretty-printed and binary parts are summarized. */
+export function formatResourceContents(contents: McpResourceContents[]): string {
+    const parts = contents.map((entry) => {
+        if (entry.text === undefined) {
+            const bytes = entry.blob ? Buffer.from(entry.blob, 'base64').byteLength : 0;
+            return `[binary ${entry.mimeType || 'content'}, ${bytes} bytes]`;
+        }
+        if (isJsonMimeType(entry.mimeType) || (!entry.mimeType && /^\s*[[{]/.test(entry.text))) {
+            try {
+                return JSON.stringify(JSON.parse(entry.text), null, 2);
+            } catch {
+                return entry.text;
+            }
+        }
+        return entry.text;
+    });
+    if (parts.length <= 1) {
+        return parts[0] ?? '';
+    }
+    return contents.map((entry, index) => `--- ${entry.uri}\n${parts[index]}`).join('\n\n');
+}
+
+export function isJsonMimeType(mimeType?: string): boolean {
+    return Boolean(mimeType && /[/+]json\b/i.test(mimeType));
+}
+
+/** Groups `riotplan://plan/x` under `plan`; other schemes group by scheme. */
+export function resourceGroup(uri: string): string {
+    const match = /^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)/i.exec(uri);
+    if (!match) {
+        return uri.split(':')[0] || uri;
+    }
+    return match[1].toLowerCase() === 'riotplan' ? match[2] || 'riotplan' : match[1].toLowerCase();
+}
+
+const TEMPLATE_EXPRESSION = /\{([?&]?)([^}]+)\}/g;
+
+/** Variable names of a URI template, in order of first appearance. */
+export function templateVariables(uriTemplate: string): string[] {
+    const names: string[] = [];
+    for (const match of uriTemplate.matchAll(TEMPLATE_EXPRESSION)) {
+        for (const name of match[2].split(',').map((part) => part.trim().replace(/\*$/, ''))) {
+            if (name && !names.includes(name)) {
+                names.push(name);
+            }
+        }
+    }
+    return names;
+}
+
+/**
+ * Expands `{name}` path expressions and `{?a,b}` / `{&a,b}` query expressions
+ * (the subset RiotPlan's templates use). Empty query values are left out.
+ */
+export function expandUriTemplate(uriTemplate: string, values: Record<string, string>): string {
+    return uriTemplate.replace(TEMPLATE_EXPRESSION, (_expression, operator: string, body: string) => {
+        const names = body.split(',').map((part) => part.trim().replace(/\*$/, ''));
+        if (!operator) {
+            return names.map((name) => encodeURIComponent(values[name] ?? '')).join(',');
+        }
+        const pairs = names
+            .filter((name) => values[name])
+            .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(values[name])}`);
+        return pairs.length > 0 ? `${operator}${pairs.join('&')}` : '';
+    });
+}
+
+/** Resource URIs named by a `resources/updated` or `resource_changed` notification. */
+export function notificationResourceUris(data: unknown): string[] {
+    const params = data as {
+        uri?: unknown;
+        resource?: { uri?: unknown };
+        resources?: Array<{ uri?: unknown }>;
+        uris?: unknown[];
+    };
+    const values: unknown[] = [
+        params?.uri,
+        params?.resource?.uri,
+        ...(Array.isArray(params?.resources) ? params.resources.map((resource) => resource?.uri) : []),
+        ...(Array.isArray(params?.uris) ? params.uris : []),
+    ];
+    return values.filter((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+export type SubscriptionState = 'subscribing' | 'subscribed' | 'failed';
+
+export interface ResourceSubscription {
+    state: SubscriptionState;
+    /** Why the last subscribe attempt failed. */
+    error?: string;
+    /** When the server last reported the resource as updated (epoch ms). */
+    updatedAt?: number;
+}
+
+/** Subscriptions made from the Resources view, per server and resource URI. */
+export class ResourceSubscriptionRegistry {
+    private readonly subscriptions = new Map<string, Map<string, ResourceSubscription>>();
+    private readonly listeners: Array<() => void> = [];
+
+    constructor(private readonly now: () => number = Date.now) {}
+
+    get(serverId: string, uri: string): ResourceSubscription | undefined {
+        return this.subscriptions.get(serverId)?.get(uri);
+    }
+
+    /** URIs that should be (re)subscribed, e.g. after the server's session was recovered. */
+    getUris(serverId: string): string[] {
+        return [...(this.subscriptions.get(serverId)?.keys() ?? [])];
+    }
+
+    set(serverId: string, uri: string, state: SubscriptionState, error?: string): void {
+        let server = this.subscriptions.get(serverId);
+        if (!server) {
+            server = new Map();
+            this.subscriptions.set(serverId, server);
+        }
+        const previous = server.get(uri);
+        server.set(uri, { state, ...(error ? { error } : {}), ...(previous?.updatedAt ? { updatedAt: previous.updatedAt } : {}) });
+        this.notify();
+    }
+
+    delete(serverId: string, uri: string): void {
+        if (this.subscriptions.get(serverId)?.delete(uri)) {
+            this.notify();
+        }
+    }
+
+    /** Records an update for subscribed URIs; returns the ones that matched. */
+    markUpdated(serverId: string, uris: string[]): string[] {
+        const server = this.subscriptions.get(serverId);
+        const matched = uris.filter((uri) => server?.has(uri));
+        for (const uri of matched) {
+            server!.set(uri, { ...server!.get(uri)!, updatedAt: this.now() });
+        }
+        if (matched.length > 0) {
+            this.notify();
+        }
+        return matched;
+    }
+
+    clear(serverId?: string): void {
+        if (serverId === undefined) {
+            this.subscriptions.clear();
+        } else {
+            this.subscriptions.delete(serverId);
+        }
+        this.notify();
+    }
+
+    onDidChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const idx = this.listeners.indexOf(listener);
+            if (idx >= 0) {
+                this.listeners.splice(idx, 1);
+            }
+        };
+    }
+
+    private notify(): void {
+        for (const listener of [...this.listeners]) {
+            listener();
+        }
+    }
+}
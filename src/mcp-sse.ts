@@ -0,0 +1,273 @@
+/**
+ * Server-sent event stream for MCP notifications
+ *
+ * Parses the `text/event-stream` wire format, remembers the last event id and
+ * sends it back as `Last-Event-ID` when reconnecting so the server can replay
+ * what was missed. Reconnects with jittered backoff, and treats a stream that
+ * has been silent longer than the heartbeat timeout as dead.
+ */
+
+import { backoffDelay } from './mcp-resilience';
+
+export interface SseEvent {
+    id?: string;
+    event: string;
+    data: string;
+}
+
+/** Incremental parser for the `text/event-stream` format. */
+export class SseParser {
+    private buffer = '';
+    private dataLines: string[] = [];
+    private eventType = '';
+    /** Last `id:` seen on the stream; persists across events as the spec requires. */
+    lastEventId?: string;
+    /** Reconnection delay requested by the server via `retry:`. */
+    retryMs?: number;
+
+    push(chunk: string): SseEvent[] {
+        this.buffer += chunk;
+        const events: SseEvent[] = [];
+        for (;;) {
+            const lf = this.buffer.indexOf('\n');
+            const cr = this.buffer.indexOf('\r');
+            const end = lf >= 0 && (cr < 0 || lf < cr) ? lf : cr;
+            if (end < 0) {
+                break;
+            }
+            let next = end + 1;
+            if (end === cr) {
+                if (end === this.buffer.length - 1) {
+                    // Might be the first half of CRLF split across chunks.
+                    break;
+                }
+                if (this.buffer[end + 1] === '\n') {
+                    next = end + 2;
+                }
+            }
+            const line = this.buffer.substring(0, end);
+            this.buffer = this.buffer.substring(next);
+            const event = this.processLine(line);
+            if (event) {
+                events.push(event);
+            }
+        }
+        return events;
+    }
+
+    /** Drop any partially received event (the connection it belonged to is gone). */
+    resetPending(): void {
+        this.buffer = '';
+        this.dataLines = [];
+        this.eventType = '';
+    }
+
+    private processLine(line: string): SseEvent | undefined {
+        if (line === '') {
+            return this.dispatch();
+        }
+        if (line.startsWith(':')) {
+            return undefined;
+        }
+        const colon = line.indexOf(':');
+        const field = colon >= 0 ? line.substring(0, colon) : line;
+        let value = colon >= 0 ? line.substring(colon + 1) : '';
+        if (value.startsWith(' ')) {
+            value = value.substring(1);
+        }
+        if (field === 'data') {
+            this.dataLines.push(value);
+        } else if (field === 'event') {
+            this.eventType = value;
+        } else if (field === 'id' && !value.includes('\0')) {
+            this.lastEventId = value;
+        } else if (field === 'retry' && /^\d+$/.test(value)) {
+            this.retryMs = Number(value);
+        }
+        return undefined;
+    }
+
+    private dispatch(): SseEvent | undefined {
+        const dataLines = this.dataLines;
+        const eventType = this.eventType;
+        this.dataLines = [];
+        this.eventType = '';
+        if (dataLines.length === 0) {
+            return undefined;
+        }
+        return {
+            ...(this.lastEventId ? { id: this.lastEventId } : {}),
+            event: eventType || 'message',
+            data: dataLines.join('\n'),
+        };
+    }
+}
+
+export type SseStreamHealth = 'connecting' | 'open' | 'reconnecting' | 'stopped';
+
+export interface SseConnectionHandlers {
+    /** The server accepted the stream (HTTP 200). */
+    onOpen(): void;
+    onChunk(chunk: string): void;
+    /** The stream ended or failed. Pass `retry: false` for answers that will not change (401, 405). */
+    onClose(error?: Error, retry?: boolean): void;
+}
+
+/** Opens one HTTP stream and returns a function that aborts it. */
+export type SseConnect = (lastEventId: string | undefined, handlers: SseConnectionHandlers) => () => void;
+
+export interface SseStreamOptions {
+    /** A stream that delivers nothing (not even a comment ping) for this long is reconnected. */
+    heartbeatTimeoutMs: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_SSE_OPTIONS: SseStreamOptions = {
+    heartbeatTimeoutMs: 90000,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+export class SseStream {
+    private readonly parser = new SseParser();
+    private readonly options: SseStreamOptions;
+    private health: SseStreamHealth = 'stopped';
+    private healthListeners: Array<(health: SseStreamHealth) => void> = [];
+    private abortConnection?: () => void;
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private heartbeatTimer?: ReturnType<typeof setTimeout>;
+    private consecutiveFailures = 0;
+    /** Incremented per connection so callbacks from an abandoned connection are ignored. */
+    private generation = 0;
+
+    constructor(
+        private readonly connect: SseConnect,
+        private readonly onEvent: (event: SseEvent) => void,
+        options?: Partial<SseStreamOptions>,
+        private readonly random: () => number = Math.random
+    ) {
+        this.options = { ...DEFAULT_SSE_OPTIONS, ...options };
+    }
+
+    getHealth(): SseStreamHealth {
+        return this.health;
+    }
+
+    getLastEventId(): string | undefined {
+        return this.parser.lastEventId;
+    }
+
+    onHealthChange(listener: (health: SseStreamHealth) => void): () => void {
+        this.healthListeners.push(listener);
+        return () => {
+            const idx = this.healthListeners.indexOf(listener);
+            if (idx >= 0) {
+                this.healthListeners.splice(idx, 1);
+            }
+        };
+    }
+
+    start(): void {
+        if (this.health !== 'stopped') {
+            return;
+        }
+        this.consecutiveFailures = 0;
+        this.open();
+    }
+
+    stop(): void {
+        this.generation += 1;
+        this.clearTimers();
+        this.abortConnection?.();
+        this.abortConnection = undefined;
+        this.setHealth('stopped');
+    }
+
+    private open(): void {
+        const generation = ++this.generation;
+        this.parser.resetPending();
+        this.setHealth(this.consecutiveFailures === 0 ? 'connecting' : 'reconnecting');
+        const isCurrent = () => generation === this.generation;
+        this.abortConnection = this.connect(this.parser.lastEventId, {
+            onOpen: () => {
+                if (!isCurrent()) {
+                    return;
+                }
+                this.consecutiveFailures = 0;
+                this.setHealth('open');
+                this.armHeartbeat();
+            },
+            onChunk: (chunk) => {
+                if (!isCurrent()) {
+                    return;
+                }
+                this.armHeartbeat();
+                for (const event of this.parser.push(chunk)) {
+                    this.onEvent(event);
+                }
+            },
+            onClose: (_error, retry = true) => {
+                if (!isCurrent()) {
+                    return;
+                }
+                this.generation += 1;
+                this.abortConnection = undefined;
+                this.clearTimers();
+                if (retry) {
+                    this.scheduleReconnect();
+                } else {
+                    this.setHealth('stopped');
+                }
+            },
+        });
+    }
+
+    private scheduleReconnect(): void {
+        this.consecutiveFailures += 1;
+        this.setHealth('reconnecting');
+        const delayMs = backoffDelay(this.consecutiveFailures - 1, {
+            baseDelayMs: this.parser.retryMs ?? this.options.baseDelayMs,
+            maxDelayMs: this.options.maxDelayMs,
+        }, this.random);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.open();
+        }, delayMs);
+    }
+
+    private armHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+        }
+        this.heartbeatTimer = setTimeout(() => {
+            this.heartbeatTimer = undefined;
+            // Silent stream: the connection is probably dead without a FIN; drop it and resume.
+            this.generation += 1;
+            this.abortConnection?.();
+            this.abortConnection = undefined;
+            this.scheduleReconnect();
+        }, this.options.heartbeatTimeoutMs);
+    }
+
+    private clearTimers(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+            this.heartbeatTimer = undefined;
+        }
+    }
+
+    private setHealth(health: SseStreamHealth): void {
+        if (this.health === health) {
+            return;
+        }
+        this.health = health;
+        for (const listener of [...this.healthListeners]) {
+            listener(health);
+        }
+    }
+}
@@ -0,0 +1,408 @@
+/**
+ * stdio transport for HttpMcpClient
+ *
+ * A stdio server profile names a command (e.g. a local RiotPlan server binary)
+ * that is spawned and spoken to with newline-delimited JSON-RPC on its stdin and
+ * stdout. The process is supervised: a crash rejects in-flight requests and the
+ * process is restarted with backoff until it crashes too often in a short window.
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import { RequestCancelledError, RequestOptions, RequestTimeoutError } from './mcp-request';
+import { backoffDelay } from './mcp-resilience';
+import { resolveTlsPath } from './mcp-tls';
+
+/** stdio section of a server profile as configured in settings. */
+export interface StdioServerSettings {
+    command: string;
+    args?: string[];
+    /** Added to the extension host environment. */
+    env?: Record<string, string>;
+    /** Working directory; relative paths resolve against the first workspace folder. */
+    cwd?: string;
+}
+
+export interface StdioRestartPolicy {
+    /** Crashes tolerated within `windowMs` before the supervisor gives up. */
+    maxRestarts: number;
+    windowMs: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_STDIO_RESTART_POLICY: StdioRestartPolicy = {
+    maxRestarts: 5,
+    windowMs: 60000,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+};
+
+export type StdioProcessState = 'stopped' | 'starting' | 'running' | 'restarting' | 'failed';
+
+/**
+ * Process-level failure. The `code` mirrors the socket error a dropped (`ECONNRESET`)
+ * or refused (`ECONNREFUSED`) HTTP connection would carry, so the retry policy and
+ * circuit breaker classify a crashed server the same way.
+ */
+export class StdioProcessError extends Error {
+    constructor(message: string, readonly code: 'ECONNRESET' | 'ECONNREFUSED') {
+        super(message);
+        this.name = 'StdioProcessError';
+    }
+}
+
+export function normalizeStdioSettings(input: unknown): StdioServerSettings | undefined {
+    if (!input || typeof input !== 'object') {
+        return undefined;
+    }
+    const raw = input as Record<string, unknown>;
+    const command = typeof raw.command === 'string' ? raw.command.trim() : '';
+    if (!command) {
+        return undefined;
+    }
+    const args = Array.isArray(raw.args) ? raw.args.filter((arg): arg is string => typeof arg === 'string') : [];
+    const env = raw.env && typeof raw.env === 'object'
+        ? Object.entries(raw.env as Record<string, unknown>).filter(
+            (entry): entry is [string, string] => typeof entry[1] === 'string'
+        )
+        : [];
+    const cwd = typeof raw.cwd === 'string' && raw.cwd.trim() ? raw.cwd.trim() : undefined;
+    return {
+        command,
+        ...(args.length > 0 ? { args } : {}),
+        ...(env.length > 0 ? { env: Object.fromEntries(env) } : {}),
+        ...(cwd ? { cwd } : {}),
+    };
+}
+
+/** Placeholder `url` of a stdio profile; shown wherever an HTTP profile shows its URL. */
+export function stdioServerUrl(settings: StdioServerSettings): string {
+    return `stdio:${settings.command}`;
+}
+
+/** Command line as typed by a user: whitespace-separated, with single or double quotes grouping. */
+export function splitCommandLine(commandLine: string): string[] {
+    const parts: string[] = [];
+    const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(commandLine)) !== null) {
+        parts.push(match[1] ?? match[2] ?? match[3]);
+    }
+    return parts;
+}
+
+/** `command arg1 "arg 2"`, for details views and logs. */
+export function describeStdioCommand(settings: StdioServerSettings): string {
+    return [settings.command, ...(settings.args ?? [])]
+        .map((part) => (/[\s"']/.test(part) || !part ? JSON.stringify(part) : part))
+        .join(' ');
+}
+
+function describeExit(code: number | null, signal: NodeJS.Signals | null): string {
+    return signal ? `was killed by ${signal}` : `exited with code ${code ?? 'unknown'}`;
+}
+
+interface PendingRequest {
+    resolve: (message: any) => void;
+    reject: (error: Error) => void;
+    cleanup: () => void;
+}
+
+export interface StdioServerProcessOptions {
+    restartPolicy?: Partial<StdioRestartPolicy>;
+    /** Resolves a relative `cwd`. */
+    baseDir?: string;
+    /** Receives each stderr line, and stdout lines that are not JSON-RPC messages. */
+    onStderr?: (line: string) => void;
+    now?: () => number;
+}
+
+/** One supervised server process and the JSON-RPC framing on its stdio. */
+export class StdioServerProcess {
+    private child?: ChildProcess;
+    private state: StdioProcessState = 'stopped';
+    private starting?: Promise<void>;
+    private stopRequested = false;
+    private restartTimer?: ReturnType<typeof setTimeout>;
+    private crashTimes: number[] = [];
+    private lastExit?: string;
+    private readonly pending = new Map<string, PendingRequest>();
+    private readonly messageListeners: Array<(message: any) => void> = [];
+    private readonly stateListeners: Array<(state: StdioProcessState, detail?: string) => void> = [];
+    private readonly restartListeners: Array<() => void> = [];
+    private readonly restartPolicy: StdioRestartPolicy;
+    private readonly now: () => number;
+
+    constructor(private readonly settings: StdioServerSettings, private readonly options: StdioServerProcessOptions = {}) {
+        this.restartPolicy = { ...DEFAULT_STDIO_RESTART_POLICY, ...options.restartPolicy };
+        this.now = options.now ?? Date.now;
+    }
+
+    getState(): StdioProcessState {
+        return this.state;
+    }
+
+    /** How the last process ended, e.g. `exited with code 1`. */
+    getLastExit(): string | undefined {
+        return this.lastExit;
+    }
+
+    /** Spawns the process on first use; resolves once it is running. */
+    start(): Promise<void> {
+        if (this.state === 'running') {
+            return Promise.resolve();
+        }
+        if (this.starting) {
+            return this.starting;
+        }
+        if (this.stopRequested || this.state !== 'stopped') {
+            return Promise.reject(this.notRunningError());
+        }
+        return this.spawnProcess();
+    }
+
+    /** Sends a JSON-RPC request and resolves with the response carrying its id. */
+    request(
+        message: { id: string | number; method: string },
+        scope: RequestOptions & { timeoutMs: number; description: string }
+    ): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const key = String(message.id);
+            const fail = (error: Error) => {
+                if (this.pending.get(key)) {
+                    this.pending.delete(key);
+                    cleanup();
+                    reject(error);
+                }
+            };
+            const timer = setTimeout(() => fail(new RequestTimeoutError(scope.description, scope.timeoutMs)), scope.timeoutMs);
+            const onAbort = () => fail(new RequestCancelledError(`${scope.description} cancelled`));
+            const cleanup = () => {
+                clearTimeout(timer);
+                scope.signal?.removeEventListener('abort', onAbort);
+            };
+            this.pending.set(key, { resolve, reject, cleanup });
+            if (scope.signal?.aborted) {
+                onAbort();
+                return;
+            }
+            scope.signal?.addEventListener('abort', onAbort, { once: true });
+            try {
+                this.write(message);
+            } catch (error) {
+                fail(error as Error);
+            }
+        });
+    }
+
+    /** Sends a notification or a reply to a server request; nothing comes back. */
+    notify(message: unknown): void {
+        this.write(message);
+    }
+
+    /** Server-to-client requests and notifications. */
+    onMessage(listener: (message: any) => void): () => void {
+        return subscribe(this.messageListeners, listener);
+    }
+
+    /** `detail` describes the exit on `restarting` and `failed`. */
+    onStateChange(listener: (state: StdioProcessState, detail?: string) => void): () => void {
+        return subscribe(this.stateListeners, listener);
+    }
+
+    /** A crashed process is running again; its MCP session starts from scratch. */
+    onRestart(listener: () => void): () => void {
+        return subscribe(this.restartListeners, listener);
+    }
+
+    stop(): void {
+        this.stopRequested = true;
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = undefined;
+        }
+        this.rejectPending(new StdioProcessError('RiotPlan server process was stopped', 'ECONNRESET'));
+        const child = this.child;
+        this.child = undefined;
+        child?.stdin?.end();
+        child?.kill();
+        this.setState('stopped');
+    }
+
+    private spawnProcess(): Promise<void> {
+        this.setState(this.crashTimes.length > 0 ? 'restarting' : 'starting');
+        const starting = new Promise<void>((resolve, reject) => {
+            let child: ChildProcess;
+            try {
+                child = spawn(this.settings.command, this.settings.args ?? [], {
+                    cwd: this.settings.cwd ? resolveTlsPath(this.settings.cwd, this.options.baseDir) : this.options.baseDir,
+                    env: { ...process.env, ...this.settings.env },
+                    stdio: ['pipe', 'pipe', 'pipe'],
+                    windowsHide: true,
+                });
+            } catch (error) {
+                reject(this.spawnFailed(error));
+                return;
+            }
+            this.child = child;
+            let spawned = false;
+            child.once('spawn', () => {
+                spawned = true;
+                const restarted = this.crashTimes.length > 0;
+                this.setState('running');
+                resolve();
+                if (restarted) {
+                    for (const listener of [...this.restartListeners]) {
+                        listener();
+                    }
+                }
+            });
+            child.once('error', (error) => {
+                // Raised without an exit when the command cannot be started (ENOENT, EACCES).
+                if (!spawned && this.child === child) {
+                    this.child = undefined;
+                    reject(this.spawnFailed(error));
+                }
+            });
+            child.once('exit', (code, signal) => {
+                if (this.child === child) {
+                    this.handleExit(code, signal);
+                }
+            });
+            child.stdin?.on('error', () => undefined);
+            readLines(child.stdout, (line) => this.handleStdoutLine(line));
+            readLines(child.stderr, (line) => this.options.onStderr?.(line));
+        });
+        this.starting = starting;
+        const clear = () => {
+            if (this.starting === starting) {
+                this.starting = undefined;
+            }
+        };
+        starting.then(clear, clear);
+        return starting;
+    }
+
+    private spawnFailed(error: unknown): StdioProcessError {
+        const message = error instanceof Error ? error.message : String(error);
+        this.lastExit = `could not be started: ${message}`;
+        this.setState('failed', this.lastExit);
+        return new StdioProcessError(`RiotPlan server command "${this.settings.command}" ${this.lastExit}`, 'ECONNREFUSED');
+    }
+
+    private handleExit(code: number | null, signal: NodeJS.Signals | null): void {
+        this.child = undefined;
+        this.lastExit = describeExit(code, signal);
+        this.rejectPending(new StdioProcessError(`RiotPlan server process ${this.lastExit}`, 'ECONNRESET'));
+        if (this.stopRequested) {
+            return;
+        }
+        const now = this.now();
+        this.crashTimes = [...this.crashTimes.filter((time) => now - time < this.restartPolicy.windowMs), now];
+        if (this.crashTimes.length > this.restartPolicy.maxRestarts) {
+            this.setState('failed', `${this.lastExit}; gave up after ${this.restartPolicy.maxRestarts} restarts`);
+            return;
+        }
+        const delayMs = backoffDelay(this.crashTimes.length - 1, this.restartPolicy);
+        this.setState('restarting', `${this.lastExit}; restarting in ${delayMs}ms`);
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = undefined;
+            this.spawnProcess().catch(() => undefined);
+        }, delayMs);
+    }
+
+    private handleStdoutLine(line: string): void {
+        let message: any;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            this.options.onStderr?.(`(stdout) ${line}`);
+            return;
+        }
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+        const pending = message.method === undefined ? this.pending.get(String(message.id)) : undefined;
+        if (pending) {
+            this.pending.delete(String(message.id));
+            pending.cleanup();
+            pending.resolve(message);
+            return;
+        }
+        for (const listener of [...this.messageListeners]) {
+            listener(message);
+        }
+    }
+
+    private write(message: unknown): void {
+        const stdin = this.child?.stdin;
+        if (this.state !== 'running' || !stdin?.writable) {
+            throw this.notRunningError();
+        }
+        stdin.write(`${JSON.stringify(message)}\n`);
+    }
+
+    private notRunningError(): StdioProcessError {
+        const detail = this.state === 'restarting'
+            ? 'is restarting'
+            : this.state === 'failed'
+                ? this.lastExit ?? 'has stopped'
+                : 'is not running';
+        return new StdioProcessError(`RiotPlan server process ${detail}`, 'ECONNREFUSED');
+    }
+
+    private rejectPending(error: Error): void {
+        const pending = [...this.pending.values()];
+        this.pending.clear();
+        for (const entry of pending) {
+            entry.cleanup();
+            entry.reject(error);
+        }
+    }
+
+    private setState(state: StdioProcessState, detail?: string): void {
+        if (this.state === state && !detail) {
+            return;
+        }
+        this.state = state;
+        for (const listener of [...this.stateListeners]) {
+            listener(state, detail);
+        }
+    }
+}
+
+function subscribe<T>(listeners: T[], listener: T): () => void {
+    listeners.push(listener);
+    return () => {
+        const idx = listeners.indexOf(listener);
+        if (idx >= 0) {
+            listeners.splice(idx, 1);
+        }
+    };
+}
+
+function readLines(stream: NodeJS.ReadableStream | null, onLine: (line: string) => void): void {
+    if (!stream) {
+        return;
+    }
+    let buffered = '';
+    stream.setEncoding('utf8');
+    stream.on('data', (chunk: string) => {
+        buffered += chunk;
+        let newline = buffered.indexOf('\n');
+        while (newline >= 0) {
+            const line = buffered.slice(0, newline).replace(/\r$/, '');
+            buffered = buffered.slice(newline + 1);
+            if (line.trim()) {
+                onLine(line);
+            }
+            newline = buffered.indexOf('\n');
+        }
+    });
+    stream.on('end', () => {
+        if (buffered.trim()) {
+            onLine(buffered);
+        }
+        buffered = '';
+    });
+}
@@ -0,0 +1,167 @@
+/**
+ * Per-profile TLS settings for HttpMcpClient
+ *
+ * A profile can trust a private CA, present a client certificate (mTLS), pin
+ * the server certificate by SHA-256 fingerprint, or skip verification for
+ * local development. Settings name files; `loadTlsOptions` reads them into the
+ * options every POST, raw transfer and SSE request is made with.
+ */
+
+import * as tls from 'tls';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** TLS section of a server profile as configured in settings. */
+export interface TlsSettings {
+    /** PEM bundle of additional CA certificates to trust. */
+    caFile?: string;
+    /** PEM client certificate for mutual TLS. */
+    certFile?: string;
+    /** PEM private key for `certFile`; its passphrase lives in SecretStorage. */
+    keyFile?: string;
+    /** SHA-256 fingerprints; one certificate in the server's chain must match. */
+    allowedFingerprints?: string[];
+    /** Accept any server certificate. Development only. */
+    insecureSkipVerify?: boolean;
+}
+
+/** Resolved options spread into https request options. */
+export interface TlsRequestOptions {
+    ca?: Array<string | Buffer>;
+    cert?: Buffer;
+    key?: Buffer;
+    passphrase?: string;
+    rejectUnauthorized?: boolean;
+    checkServerIdentity?: (hostname: string, cert: tls.PeerCertificate) => Error | undefined;
+}
+
+export class TlsConfigurationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TlsConfigurationError';
+    }
+}
+
+/** Uppercase colon-separated form used by `PeerCertificate.fingerprint256`, or undefined if not a SHA-256 digest. */
+export function normalizeFingerprint(value: string): string | undefined {
+    const hex = String(value || '').trim().replace(/^sha256[:/]/i, '').replace(/[:\s]/g, '').toUpperCase();
+    if (!/^[0-9A-F]{64}$/.test(hex)) {
+        return undefined;
+    }
+    return hex.match(/.{2}/g)!.join(':');
+}
+
+export function normalizeTlsSettings(input: unknown): TlsSettings | undefined {
+    if (!input || typeof input !== 'object') {
+        return undefined;
+    }
+    const raw = input as Record<string, unknown>;
+    const file = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    const fingerprints = Array.isArray(raw.allowedFingerprints)
+        ? raw.allowedFingerprints.filter((entry): entry is string => typeof entry === 'string' && Boolean(entry.trim()))
+        : [];
+    const settings: TlsSettings = {
+        ...(file(raw.caFile) ? { caFile: file(raw.caFile) } : {}),
+        ...(file(raw.certFile) ? { certFile: file(raw.certFile) } : {}),
+        ...(file(raw.keyFile) ? { keyFile: file(raw.keyFile) } : {}),
+        ...(fingerprints.length > 0 ? { allowedFingerprints: fingerprints } : {}),
+        ...(raw.insecureSkipVerify === true ? { insecureSkipVerify: true } : {}),
+    };
+    return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/** Expand a leading `~` and resolve relative paths against `baseDir` (the workspace folder, when there is one). */
+export function resolveTlsPath(file: string, baseDir?: string): string {
+    const expanded = file === '~' || file.startsWith('~/') || file.startsWith('~\\')
+        ? path.join(os.homedir(), file.slice(1))
+        : file;
+    return path.isAbsolute(expanded) || !baseDir ? path.resolve(expanded) : path.resolve(baseDir, expanded);
+}
+
+/**
+ * Host name check plus fingerprint pinning. Pins match any certificate in the
+ * presented chain, so pinning an intermediate survives leaf renewals.
+ */
+export function pinnedServerIdentity(fingerprints: string[]): TlsRequestOptions['checkServerIdentity'] {
+    const pins = new Set(fingerprints.map(normalizeFingerprint).filter((pin): pin is string => Boolean(pin)));
+    return (hostname, cert) => {
+        const identityError = tls.checkServerIdentity(hostname, cert);
+        if (identityError) {
+            return identityError;
+        }
+        const seen = new Set<tls.PeerCertificate>();
+        let current: tls.DetailedPeerCertificate | undefined = cert as tls.DetailedPeerCertificate;
+        while (current && !seen.has(current)) {
+            if (current.fingerprint256 && pins.has(current.fingerprint256.toUpperCase())) {
+                return undefined;
+            }
+            seen.add(current);
+            current = current.issuerCertificate;
+        }
+        return new Error(
+            `Certificate for ${hostname} does not match any pinned fingerprint (got ${cert.fingerprint256 || 'none'})`
+        );
+    };
+}
+
+export async function loadTlsOptions(
+    settings: TlsSettings,
+    options: { passphrase?: string; baseDir?: string } = {}
+): Promise<TlsRequestOptions> {
+    const fingerprints = settings.allowedFingerprints || [];
+    const invalid = fingerprints.filter((entry) => !normalizeFingerprint(entry));
+    if (invalid.length > 0) {
+        throw new TlsConfigurationError(`Not a SHA-256 fingerprint: ${invalid.join(', ')}`);
+    }
+    if (settings.insecureSkipVerify && fingerprints.length > 0) {
+        // Node skips identity checks once verification is off, so pins would be silently ignored.
+        throw new TlsConfigurationError('allowedFingerprints cannot be combined with insecureSkipVerify');
+    }
+    if (Boolean(settings.certFile) !== Boolean(settings.keyFile)) {
+        throw new TlsConfigurationError('certFile and keyFile must be configured together');
+    }
+
+    const read = async (label: string, file?: string): Promise<Buffer | undefined> => {
+        if (!file) {
+            return undefined;
+        }
+        const resolved = resolveTlsPath(file, options.baseDir);
+        try {
+            return await fs.readFile(resolved);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new TlsConfigurationError(`Cannot read ${label} ${resolved}: ${reason}`);
+        }
+    };
+    const [ca, cert, key] = await Promise.all([
+        read('CA file', settings.caFile),
+        read('client certificate', settings.certFile),
+        read('client key', settings.keyFile),
+    ]);
+
+    return {
+        // Setting `ca` replaces Node's bundled roots; keep them so the file only adds trust.
+        ...(ca ? { ca: [...tls.rootCertificates, ca] } : {}),
+        ...(cert ? { cert } : {}),
+        ...(key ? { key } : {}),
+        ...(key && options.passphrase ? { passphrase: options.passphrase } : {}),
+        ...(settings.insecureSkipVerify ? { rejectUnauthorized: false } : {}),
+        ...(fingerprints.length > 0 ? { checkServerIdentity: pinnedServerIdentity(fingerprints) } : {}),
+    };
+}
+
+export function describeTlsSettings(settings?: TlsSettings): string | undefined {
+    if (!settings) {
+        return undefined;
+    }
+    const parts = [
+        settings.insecureSkipVerify ? 'verification disabled (insecure)' : undefined,
+        settings.caFile ? 'custom CA' : undefined,
+        settings.certFile ? 'client certificate' : undefined,
+        settings.allowedFingerprints?.length
+            ? `${settings.allowedFingerprints.length} pinned fingerprint${settings.allowedFingerprints.length === 1 ? '' : 's'}`
+            : undefined,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
@@ -0,0 +1,184 @@
+/**
+ * Structured request tracing for HttpMcpClient
+ *
+ * While enabled, clients record every JSON-RPC message they send or receive,
+ * raw HTTP transfers, and notification-stream events as `TraceEntry` objects
+ * in a shared, bounded `RequestTracer`. Credentials are masked before an entry
+ * is stored, so a capture can be exported and attached to a bug report as is.
+ */
+
+export type TraceEntryKind =
+    /** JSON-RPC message POSTed by the client (requests, notifications, replies to server requests). */
+    | 'request'
+    /** JSON-RPC response to a client request. */
+    | 'response'
+    /** Request or notification pushed by the server (POST stream or notification stream). */
+    | 'server-message'
+    /** Non-JSON-RPC HTTP exchange: plan transfers, health checks, session termination. */
+    | 'http'
+    /** Notification stream connect / disconnect. */
+    | 'sse'
+    | 'error';
+
+export interface TraceEntry {
+    seq: number;
+    timestamp: string;
+    serverUrl: string;
+    kind: TraceEntryKind;
+    /** JSON-RPC method, or `HTTP <verb> <path>` for raw exchanges. */
+    method?: string;
+    rpcId?: string | number;
+    statusCode?: number;
+    durationMs?: number;
+    /** Masked with the same rules as the auth debug log. */
+    sessionId?: string;
+    eventId?: string;
+    bytes?: number;
+    error?: string;
+    payload?: unknown;
+}
+
+export type TraceEntryInput = Omit<TraceEntry, 'seq' | 'timestamp' | 'serverUrl'>;
+
+export interface TraceCapture {
+    format: 'riotplan-trace';
+    version: 1;
+    exportedAt: string;
+    extensionVersion?: string;
+    servers: string[];
+    entries: TraceEntry[];
+}
+
+export const DEFAULT_TRACE_CAPACITY = 2000;
+
+/** Same format as the auth debug log: last four characters and the length. */
+export function maskSecret(value?: string): string {
+    const trimmed = value?.trim() || '';
+    if (!trimmed) {
+        return 'none';
+    }
+    const suffixLength = Math.min(4, trimmed.length);
+    const suffix = trimmed.slice(-suffixLength);
+    return `***${suffix} (len=${trimmed.length})`;
+}
+
+const SECRET_KEYS = new Set([
+    'authorization',
+    'x-api-key',
+    'apikey',
+    'api_key',
+    'token',
+    'access_token',
+    'accesstoken',
+    'refresh_token',
+    'refreshtoken',
+    'id_token',
+    'client_secret',
+    'password',
+    'passphrase',
+    'secret',
+    'code_verifier',
+    'cookie',
+    'set-cookie',
+    'mcp-session-id',
+]);
+
+/** Deep copy of `value` with credential-like fields masked. */
+export function redactTracePayload(value: unknown, depth = 0): unknown {
+    if (depth > 32 || value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map((entry) => redactTracePayload(entry, depth + 1));
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+        result[key] = SECRET_KEYS.has(key.toLowerCase()) && (typeof entry === 'string' || typeof entry === 'number')
+            ? maskSecret(String(entry))
+            : redactTracePayload(entry, depth + 1);
+    }
+    return result;
+}
+
+/** Shared by every client; oldest entries are dropped past `capacity`. */
+export class RequestTracer {
+    private entries: TraceEntry[] = [];
+    private nextSeq = 1;
+    private enabled = false;
+    private readonly listeners: Array<() => void> = [];
+
+    constructor(
+        private readonly capacity = DEFAULT_TRACE_CAPACITY,
+        private readonly now: () => Date = () => new Date()
+    ) {}
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    setEnabled(enabled: boolean): void {
+        if (this.enabled === enabled) {
+            return;
+        }
+        this.enabled = enabled;
+        this.notify();
+    }
+
+    record(serverUrl: string, input: TraceEntryInput): void {
+        if (!this.enabled) {
+            return;
+        }
+        const entry: TraceEntry = {
+            seq: this.nextSeq++,
+            timestamp: this.now().toISOString(),
+            serverUrl,
+            ...input,
+            ...(input.payload !== undefined ? { payload: redactTracePayload(input.payload) } : {}),
+        };
+        this.entries.push(entry);
+        if (this.entries.length > this.capacity) {
+            this.entries.splice(0, this.entries.length - this.capacity);
+        }
+        this.notify();
+    }
+
+    getEntries(serverUrl?: string): TraceEntry[] {
+        return serverUrl ? this.entries.filter((entry) => entry.serverUrl === serverUrl) : [...this.entries];
+    }
+
+    getServers(): string[] {
+        return [...new Set(this.entries.map((entry) => entry.serverUrl))];
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.notify();
+    }
+
+    toCapture(extensionVersion?: string): TraceCapture {
+        return {
+            format: 'riotplan-trace',
+            version: 1,
+            exportedAt: this.now().toISOString(),
+            ...(extensionVersion ? { extensionVersion } : {}),
+            servers: this.getServers(),
+            entries: this.getEntries(),
+        };
+    }
+
+    onDidChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index >= 0) {
+                this.listeners.splice(index, 1);
+            }
+        };
+    }
+
+    private notify(): void {
+        for (const listener of [...this.listeners]) {
+            listener();
+        }
+    }
+}
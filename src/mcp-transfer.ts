@@ -0,0 +1,125 @@
+/**
+ * Streaming plan file transfers
+ *
+ * Downloads stream into `<target>.part` and resume with a `Range` request
+ * guarded by `If-Range`, so a dropped connection or a later retry continues
+ * where it stopped. Both directions are checked with SHA-256: downloads
+ * against the server's `Repr-Digest` (or `Digest` / `X-Checksum-Sha256`),
+ * uploads by sending the file's digest in `X-Checksum-Sha256`.
+ *
+ * Servers that accept chunked uploads expose upload sessions:
+ *
+ *     POST /plan/upload/sessions      {filename, size, sha256} -> {uploadId, chunkSize?, offset?}
+ *     PUT  /plan/upload/sessions/<id> Content-Range: bytes a-b/size -> {offset, result?}
+ *
+ * A 409 answer carries the server's `offset` to continue from; the response
+ * to the final chunk carries the same `result` as `POST /plan/upload`.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import type { IncomingHttpHeaders } from 'http';
+
+/** Files at most this large are uploaded in one multipart request. */
+export const DEFAULT_UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+
+export interface PlanFileTransfer {
+    /** Server-suggested file name (`Content-Disposition`), or `<planId>.plan`. */
+    filename: string;
+    bytes: number;
+    /** Hex SHA-256 of the transferred file. */
+    sha256: string;
+    /** Bytes a download resumed from, 0 when it started fresh. */
+    resumedFrom: number;
+}
+
+export class PlanIntegrityError extends Error {
+    constructor(readonly expected: string, readonly actual: string, readonly filename: string) {
+        super(`Checksum mismatch for ${filename}: expected sha256 ${expected}, got ${actual}`);
+        this.name = 'PlanIntegrityError';
+    }
+}
+
+/** Validator saved beside a `.part` file so a later resume only appends to the same representation. */
+export interface PartialDownloadState {
+    planId: string;
+    etag?: string;
+    lastModified?: string;
+}
+
+export function partialDownloadPaths(targetPath: string): { partPath: string; statePath: string } {
+    return { partPath: `${targetPath}.part`, statePath: `${targetPath}.part.json` };
+}
+
+export async function readPartialDownload(
+    targetPath: string,
+    planId: string
+): Promise<{ bytes: number; state: PartialDownloadState } | undefined> {
+    const { partPath, statePath } = partialDownloadPaths(targetPath);
+    try {
+        const state = JSON.parse(await fs.readFile(statePath, 'utf8')) as PartialDownloadState;
+        const { size } = await fs.stat(partPath);
+        // Without a validator the server could send a different plan's tail.
+        if (state?.planId !== planId || (!state.etag && !state.lastModified) || size === 0) {
+            return undefined;
+        }
+        return { bytes: size, state };
+    } catch {
+        return undefined;
+    }
+}
+
+export async function writePartialDownloadState(targetPath: string, state: PartialDownloadState): Promise<void> {
+    await fs.writeFile(partialDownloadPaths(targetPath).statePath, JSON.stringify(state), 'utf8');
+}
+
+export async function discardPartialDownload(targetPath: string): Promise<void> {
+    const { partPath, statePath } = partialDownloadPaths(targetPath);
+    await Promise.all([fs.rm(partPath, { force: true }), fs.rm(statePath, { force: true })]);
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+        hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+}
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Hex SHA-256 of the full representation, from `Repr-Digest: sha-256=:<b64>:`,
+ * `Digest: SHA-256=<b64>` or `X-Checksum-Sha256: <hex>`.
+ */
+export function expectedSha256(headers: IncomingHttpHeaders): string | undefined {
+    const structured = /(?:^|,)\s*sha-256=:([A-Za-z0-9+/=]+):/i.exec(header(headers, 'repr-digest') ?? '');
+    const legacy = /(?:^|,)\s*sha-256=([A-Za-z0-9+/=]+)/i.exec(header(headers, 'digest') ?? '');
+    const base64 = structured?.[1] ?? legacy?.[1];
+    if (base64) {
+        return Buffer.from(base64, 'base64').toString('hex');
+    }
+    const hex = header(headers, 'x-checksum-sha256')?.trim().toLowerCase();
+    return hex && /^[0-9a-f]{64}$/.test(hex) ? hex : undefined;
+}
+
+/** Parses `Content-Range: bytes <start>-<end>/<total|*>`. */
+export function parseContentRange(value: string | undefined): { start: number; end: number; total?: number } | undefined {
+    const match = /^bytes\s+(\d+)-(\d+)\/(\d+|\*)$/i.exec(value?.trim() ?? '');
+    if (!match) {
+        return undefined;
+    }
+    return {
+        start: Number(match[1]),
+        end: Number(match[2]),
+        total: match[3] === '*' ? undefined : Number(match[3]),
+    };
+}
+
+export function dispositionFilename(headers: IncomingHttpHeaders): string | undefined {
+    const match = /filename="?([^";]+)"?/i.exec(header(headers, 'content-disposition') ?? '');
+    return match?.[1];
+}
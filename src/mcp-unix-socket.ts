@@ -0,0 +1,58 @@
+/**
+ * Unix domain socket server URLs
+ *
+ * A profile URL of `unix:/run/riotplan/mcp.sock` (or `unix:///run/...`) sends
+ * every HTTP request to that socket instead of a TCP host and port, so a local
+ * server needs no open port. Access is governed by the socket file's owner,
+ * group and mode, which is why permission errors get their own message.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+
+const UNIX_SOCKET_PREFIX = 'unix:';
+
+export function isUnixSocketUrl(serverUrl: string): boolean {
+    return serverUrl.trim().toLowerCase().startsWith(UNIX_SOCKET_PREFIX);
+}
+
+/** Socket file of a `unix:` URL with `~` expanded, or undefined for any other URL. */
+export function unixSocketPath(serverUrl: string): string | undefined {
+    if (!isUnixSocketUrl(serverUrl)) {
+        return undefined;
+    }
+    const raw = serverUrl.trim().slice(UNIX_SOCKET_PREFIX.length).replace(/^\/\/(?=\/)/, '');
+    if (!raw) {
+        return undefined;
+    }
+    return raw === '~' || raw.startsWith('~/') ? path.join(os.homedir(), raw.slice(1)) : raw;
+}
+
+/** A failure to reach the socket, reworded for the connection status; keeps the system error `code`. */
+export class UnixSocketError extends Error {
+    constructor(message: string, readonly code: string | undefined, readonly socketPath: string) {
+        super(message);
+        this.name = 'UnixSocketError';
+    }
+}
+
+/** Wraps connection errors on `socketPath` whose code has a clearer explanation; other errors pass through. */
+export function describeSocketError(error: Error, socketPath: string): Error {
+    const code = (error as NodeJS.ErrnoException).code;
+    switch (code) {
+        case 'EACCES':
+        case 'EPERM':
+            return new UnixSocketError(
+                `Permission denied on socket ${socketPath}: your user needs read and write access to it ` +
+                    '(check the owner, group and mode of the socket and its directory)',
+                code,
+                socketPath
+            );
+        case 'ENOENT':
+            return new UnixSocketError(`Socket ${socketPath} does not exist; is the RiotPlan server running?`, code, socketPath);
+        case 'ECONNREFUSED':
+            return new UnixSocketError(`Nothing is listening on socket ${socketPath}`, code, socketPath);
+        default:
+            return error;
+    }
+}
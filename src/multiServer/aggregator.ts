@@ -1,16 +1,93 @@
-import { HttpMcpClient } from '../mcp-client';
+import { HttpMcpClient, isUnauthorizedError } from '../mcp-client';
+import { isCancellationError, RequestOptions } from '../mcp-request';
 import { MultiServerConnectionManager } from './connectionManager';
 import {
     isCatalogProjectUuid,
     pickWinningCatalogEntity,
 } from './contextCatalogSync';
-import { fromServerScopedRef, toServerScopedRef } from './types';
+import { CachedSnapshot, OfflineCache } from './offlineCache';
+import { fromServerScopedRef, ServerProfile, toServerScopedRef } from './types';
 
 export interface MultiServerAggregatorOptions {
     /** One tree row per global catalog UUID (replicated context projects). */
     dedupeContextProjectsByCatalogId?: boolean;
     /** Used for scoped plan-like ids in the UI when deduping; falls back to first connected profile. */
     preferredServerIdForContextUi?: string;
+    /** Serves the last synced lists for servers that cannot be reached; rows are marked `stale`. */
+    offlineCache?: OfflineCache;
+}
+
+/** Rows served from the offline cache carry these fields. */
+interface StaleMarker {
+    stale?: true;
+    syncedAt?: string;
+}
+
+/**
+ * How one server answered an aggregated list call. The rows themselves are in
+ * the merged list, tagged with `serverId`.
+ */
+export interface ServerListOutcome {
+    serverId: string;
+    serverName: string;
+    itemCount: number;
+    /** Why the live request failed; with `fromCache` the rows are the last synced copy. */
+    error?: string;
+    /** Round trip of the live request, when one was made. */
+    latencyMs?: number;
+    fromCache: boolean;
+    syncedAt?: string;
+}
+
+/** `listPlans` text payload: the server's `{plans}` shape plus one outcome per server. */
+export interface AggregatedPlanList {
+    plans: any[];
+    servers: ServerListOutcome[];
+}
+
+export interface AggregatedProjectList {
+    projects: any[];
+    servers: ServerListOutcome[];
+}
+
+/** Common shape of what the views read from: one server's client, or the aggregator. */
+export interface SnapshotSource {
+    /** Only the aggregator shares a list snapshot across views; dropping it makes the next read fetch again. */
+    invalidateSnapshot?(): void;
+}
+
+interface ServerFetch<T> {
+    data?: T;
+    marker?: StaleMarker;
+    outcome: ServerListOutcome;
+}
+
+/** Servers that failed and had nothing cached to show instead. */
+export function unavailableServers(servers: readonly ServerListOutcome[] | undefined): ServerListOutcome[] {
+    return (servers ?? []).filter((server) => server.error && !server.fromCache);
+}
+
+/** Reads the `servers` outcomes from a `listPlans` payload; plain server payloads have none. */
+export function readServerOutcomes(payload: unknown): ServerListOutcome[] {
+    const servers = (payload as { servers?: unknown } | undefined)?.servers;
+    if (!Array.isArray(servers)) {
+        return [];
+    }
+    return servers.filter((server): server is ServerListOutcome =>
+        typeof server?.serverId === 'string' && typeof server?.serverName === 'string'
+    );
+}
+
+export function describeUnavailableServer(server: ServerListOutcome): string {
+    return `${server.serverName} unavailable: ${server.error}`;
+}
+
+function describeFailure(error: unknown): string {
+    if (isUnauthorizedError(error)) {
+        return 'unauthorized';
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return message.split('\n')[0].trim().slice(0, 200) || 'request failed';
 }
 
 interface ServerPlanShape {
@@ -52,6 +129,13 @@ function resolvePlanRef(plan: ServerPlanShape): string | undefined {
 
 export class MultiServerAggregator {
     private readonly options: MultiServerAggregatorOptions;
+    /**
+     * Shared plan-list and project-list results, keyed by call. Every view renders
+     * from the same snapshot until `invalidateSnapshot()`, so one refresh costs one
+     * request per server however many tree nodes, panels and pickers ask.
+     */
+    private readonly snapshot = new Map<string, Promise<unknown>>();
+    private readonly notificationSubscriptions = new Map<HttpMcpClient, () => void>();
 
     constructor(
         private readonly manager: MultiServerConnectionManager,
@@ -60,20 +144,72 @@ export class MultiServerAggregator {
         this.options = options || {};
     }
 
-    async listPlans(filter?: 'all' | 'active' | 'done' | 'hold'): Promise<any> {
+    /** Drops the shared snapshot; the next list call asks every server again. */
+    invalidateSnapshot(): void {
+        this.snapshot.clear();
+    }
+
+    dispose(): void {
+        for (const unsubscribe of this.notificationSubscriptions.values()) {
+            unsubscribe();
+        }
+        this.notificationSubscriptions.clear();
+        this.snapshot.clear();
+    }
+
+    /**
+     * Calls with request options (cancellation, progress) bypass the snapshot:
+     * their caller owns the request. A rejected load is not kept; a server that
+     * failed within a load stays reported in it until the next refresh.
+     */
+    private coalesced<T>(key: string, options: RequestOptions | undefined, load: () => Promise<T>): Promise<T> {
+        if (options) {
+            return load();
+        }
+        const existing = this.snapshot.get(key) as Promise<T> | undefined;
+        if (existing) {
+            return existing;
+        }
+        const pending = load();
+        this.snapshot.set(key, pending);
+        pending.catch(() => {
+            if (this.snapshot.get(key) === pending) {
+                this.snapshot.delete(key);
+            }
+        });
+        return pending;
+    }
+
+    /** A server's `resource_changed` notification makes the snapshot stale. */
+    private watchForChanges(client: HttpMcpClient): void {
+        if (this.notificationSubscriptions.has(client) || typeof client.onNotification !== 'function') {
+            return;
+        }
+        this.notificationSubscriptions.set(
+            client,
+            client.onNotification('notifications/resource_changed', () => this.invalidateSnapshot())
+        );
+    }
+
+    async listPlans(filter?: 'all' | 'active' | 'done' | 'hold', options?: RequestOptions): Promise<any> {
+        return this.coalesced(`plans:${filter || 'all'}`, options, () => this.fetchPlans(filter, options));
+    }
+
+    private async fetchPlans(filter?: 'all' | 'active' | 'done' | 'hold', options?: RequestOptions): Promise<any> {
         const merged: any[] = [];
         const profiles = this.manager.getProfiles().filter((profile) => profile.enabled);
-        await Promise.all(profiles.map(async (profile) => {
-            const client = this.manager.getClient(profile.id);
-            if (!client) {
-                return;
-            }
-            const result = await client.listPlans(filter);
-            const plans = parsePlansResult(result);
-            for (const plan of plans) {
+        const servers = await Promise.all(profiles.map(async (profile) => {
+            const fetched = await this.fetchWithOfflineFallback<unknown[]>(
+                profile,
+                async (client) => parsePlansResult(await client.listPlans(filter, options)),
+                (cache) => cache.getPlans(profile.id, filter),
+                (cache, plans) => cache.setPlans(profile.id, filter, plans)
+            );
+            for (const plan of (fetched.data ?? []) as ServerPlanShape[]) {
                 const ref = resolvePlanRef(plan);
                 merged.push({
                     ...plan,
+                    ...fetched.marker,
                     serverId: profile.id,
                     serverName: profile.name,
                     sourceRef: ref,
@@ -82,36 +218,64 @@ export class MultiServerAggregator {
                     id: ref ? toServerScopedRef(profile.id, ref) : undefined,
                 });
             }
+            return fetched.outcome;
         }));
+        const payload: AggregatedPlanList = { plans: merged, servers };
         return {
             content: [
                 {
                     type: 'text',
-                    text: JSON.stringify({ plans: merged }),
+                    text: JSON.stringify(payload),
                 },
             ],
         };
     }
 
-    async listContextProjects(includeInactive = true): Promise<any[]> {
+    async listContextProjects(includeInactive = true, options?: RequestOptions): Promise<any[]> {
+        return (await this.aggregateContextProjects(includeInactive, options)).projects;
+    }
+
+    /** Like `listContextProjects`, with how each server answered. */
+    async aggregateContextProjects(includeInactive = true, options?: RequestOptions): Promise<AggregatedProjectList> {
+        return this.coalesced(`projects:${includeInactive}`, options, () => this.fetchContextProjects(includeInactive, options));
+    }
+
+    private async fetchContextProjects(includeInactive: boolean, options?: RequestOptions): Promise<AggregatedProjectList> {
         const merged: any[] = [];
         const profiles = this.manager.getProfiles().filter((profile) => profile.enabled);
-        await Promise.all(profiles.map(async (profile) => {
-            const client = this.manager.getClient(profile.id);
-            if (!client) {
-                return;
-            }
-            const projects = parseProjectsResult(await client.listContextProjects(includeInactive));
-            for (const project of projects) {
+        const servers = await Promise.all(profiles.map(async (profile) => {
+            // Only the full catalog is cached; inactive rows are filtered locally when serving it.
+            const fetched = await this.fetchWithOfflineFallback(
+                profile,
+                async (client) => parseProjectsResult(await client.listContextProjects(includeInactive, options)),
+                (cache) => cache.getProjects(profile.id),
+                async (cache, projects) => {
+                    if (includeInactive) {
+                        await cache.setProjects(profile.id, projects);
+                    }
+                }
+            );
+            let itemCount = 0;
+            for (const project of fetched.data ?? []) {
+                if (!includeInactive && project?.active === false) {
+                    continue;
+                }
+                itemCount += 1;
                 merged.push({
                     ...project,
+                    ...fetched.marker,
                     serverId: profile.id,
                     serverName: profile.name,
                     id: project?.id ? toServerScopedRef(profile.id, String(project.id)) : undefined,
                 });
             }
+            return { ...fetched.outcome, itemCount };
         }));
 
+        return { projects: this.dedupeContextProjects(merged), servers };
+    }
+
+    private dedupeContextProjects(merged: any[]): any[] {
         if (!this.options.dedupeContextProjectsByCatalogId || merged.length === 0) {
             return merged;
         }
@@ -168,6 +332,57 @@ export class MultiServerAggregator {
         return [...passthrough, ...reScoped];
     }
 
+    /**
+     * Live data when the server answers (and the cache is refreshed), otherwise the
+     * last synced copy. A server that fails is reported in the outcome rather than
+     * failing the whole list; auth failures skip the cache so a bad token is not
+     * hidden behind old data. Only cancellation propagates.
+     */
+    private async fetchWithOfflineFallback<T extends unknown[]>(
+        profile: ServerProfile,
+        fetch: (client: HttpMcpClient) => Promise<T>,
+        read: (cache: OfflineCache) => Promise<CachedSnapshot<T> | undefined>,
+        write: (cache: OfflineCache, data: T) => Promise<void>
+    ): Promise<ServerFetch<T>> {
+        const cache = this.options.offlineCache;
+        const client = this.manager.getClient(profile.id);
+        const outcome: ServerListOutcome = { serverId: profile.id, serverName: profile.name, itemCount: 0, fromCache: false };
+        if (client) {
+            this.watchForChanges(client);
+            const startedAt = Date.now();
+            try {
+                const data = await fetch(client);
+                if (cache) {
+                    void write(cache, data).catch((error) => {
+                        console.warn(`RiotPlan: failed to update offline cache for ${profile.name}:`, error);
+                    });
+                }
+                return { data, outcome: { ...outcome, itemCount: data.length, latencyMs: Date.now() - startedAt } };
+            } catch (error) {
+                if (isCancellationError(error)) {
+                    throw error;
+                }
+                outcome.latencyMs = Date.now() - startedAt;
+                outcome.error = describeFailure(error);
+                if (isUnauthorizedError(error)) {
+                    return { outcome };
+                }
+            }
+        } else {
+            const status = this.manager.getStatus(profile.id);
+            outcome.error = status?.lastError || (status?.state === 'connecting' ? 'connecting' : 'not connected');
+        }
+        const cached = cache ? await read(cache) : undefined;
+        if (cached) {
+            return {
+                data: cached.data,
+                marker: { stale: true, syncedAt: cached.syncedAt },
+                outcome: { ...outcome, itemCount: cached.data.length, fromCache: true, syncedAt: cached.syncedAt },
+            };
+        }
+        return { outcome };
+    }
+
     getClientForServer(serverId: string): HttpMcpClient | undefined {
         return this.manager.getClient(serverId);
     }
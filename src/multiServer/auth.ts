@@ -1,11 +1,29 @@
 import { ServerProfile } from './types';
 
 const TOKEN_KEY_PREFIX = 'riotplan.apiKey.server.';
+const OAUTH_KEY_PREFIX = 'riotplan.oauth.server.';
+const TLS_PASSPHRASE_KEY_PREFIX = 'riotplan.tlsPassphrase.server.';
+const HEADER_KEY_PREFIX = 'riotplan.header.server.';
 
 export function tokenStorageKey(serverId: string): string {
     return `${TOKEN_KEY_PREFIX}${serverId}`;
 }
 
+/** Secret holding the profile's OAuth registration and tokens (JSON `OAuthProfileState`). */
+export function oauthStorageKey(serverId: string): string {
+    return `${OAUTH_KEY_PREFIX}${serverId}`;
+}
+
+/** Secret holding the passphrase for the profile's `tls.keyFile`. */
+export function tlsPassphraseStorageKey(serverId: string): string {
+    return `${TLS_PASSPHRASE_KEY_PREFIX}${serverId}`;
+}
+
+/** Secret holding the value of a profile header marked `secret`; header names are case-insensitive. */
+export function profileHeaderStorageKey(serverId: string, headerName: string): string {
+    return `${HEADER_KEY_PREFIX}${serverId}.${headerName.toLowerCase()}`;
+}
+
 export function sanitizeToken(token: string | undefined): string | undefined {
     const trimmed = String(token || '').trim();
     return trimmed || undefined;
@@ -1,13 +1,55 @@
-import { HttpMcpClient } from '../mcp-client';
+import { AuthScheme, resolveHeaderSettings } from '../mcp-auth';
+import { ServerCapabilities, type RiotPlanOperation } from '../mcp-capabilities';
+import { HttpMcpClient, isUnauthorizedError, ServerRequestHandler } from '../mcp-client';
+import type { ClientInfo } from '../mcp-protocol';
+import { CircuitBreaker } from '../mcp-resilience';
+import type { SseStreamHealth } from '../mcp-sse';
+import type { SchemaDriftReport } from '../mcp-models';
+import { StdioProcessState, StdioRestartPolicy, StdioServerProcess } from '../mcp-stdio';
+import type { TlsRequestOptions } from '../mcp-tls';
+import type { RequestTracer } from '../mcp-trace';
+import type { ServerProbe } from './healthMonitor';
+import type { TokenCheckResult } from './tokenLifecycle';
 import { ServerProfile, ServerRuntimeStatus } from './types';
 
+export interface ConnectionManagerOptions {
+    clientInfo?: ClientInfo;
+    /** Server-to-client request handlers for each profile's client (elicitation prompts name the server). */
+    requestHandlers?: (profile: ServerProfile) => Record<string, ServerRequestHandler>;
+    /** Supplies a fresh access token after a 401 (OAuth refresh); undefined leaves the request failed. */
+    onUnauthorized?: (profile: ServerProfile, error: unknown) => Promise<string | undefined>;
+    /** Loads the files and passphrase named by `profile.tls`; a rejection leaves the server disconnected. */
+    resolveTls?: (profile: ServerProfile) => Promise<TlsRequestOptions | undefined>;
+    /** Value of a `profile.headers` entry marked secret; a missing value leaves the header out. */
+    readHeaderSecret?: (profile: ServerProfile, headerName: string) => Promise<string | undefined>;
+    /** Shared trace sink for every profile's client. */
+    tracer?: RequestTracer;
+    /** Receives tool results that do not match their model. */
+    onSchemaDrift?: (report: SchemaDriftReport) => void;
+    /** Working directory that relative `stdio.cwd` settings resolve against. */
+    stdioBaseDir?: () => string | undefined;
+    stdioRestartPolicy?: Partial<StdioRestartPolicy>;
+    /** Each stderr line of a stdio profile's server process. */
+    onServerOutput?: (profile: ServerProfile, line: string) => void;
+    /** A stdio profile's server process started, exited, is restarting or was given up on. */
+    onServerProcessState?: (profile: ServerProfile, state: StdioProcessState, detail?: string) => void;
+}
+
 export class MultiServerConnectionManager {
     private readonly clients = new Map<string, HttpMcpClient>();
     private readonly statuses = new Map<string, ServerRuntimeStatus>();
     private readonly apiKeys = new Map<string, string | undefined>();
+    private readonly circuitBreakers = new Map<string, CircuitBreaker>();
+    private readonly statusListeners: Array<() => void> = [];
+    /** Servers whose notification stream (or stdio process) is currently reconnecting. */
+    private readonly interruptedStreams = new Set<string>();
+    /** Why the last health check degraded a server; cleared by a healthy probe or a reconnect. */
+    private readonly probeErrors = new Map<string, string>();
     private profiles: ServerProfile[] = [];
     private activeServerId?: string;
 
+    constructor(private readonly options: ConnectionManagerOptions = {}) {}
+
     configureProfiles(profiles: ServerProfile[], activeServerId?: string): void {
         this.profiles = profiles;
         this.activeServerId = activeServerId;
@@ -56,8 +98,41 @@ export class MultiServerConnectionManager {
         client.setApiKey(apiKey);
     }
 
+    getStatus(serverId: string): ServerRuntimeStatus | undefined {
+        return this.statuses.get(serverId);
+    }
+
     getStatuses(): ServerRuntimeStatus[] {
-        return [...this.statuses.values()];
+        return [...this.statuses.values()].map((status) => {
+            const breaker = this.circuitBreakers.get(status.serverId);
+            return breaker ? { ...status, circuit: breaker.getSnapshot() } : status;
+        });
+    }
+
+    /**
+     * Whether any connected server can perform the operation. A server whose tool list has not
+     * been read counts as supporting the preferred route, which is what its client would call;
+     * with no server connected nothing is ruled out.
+     */
+    supportsOperation(operation: RiotPlanOperation): boolean {
+        const capabilities = [...this.clients.entries()]
+            .filter(([serverId]) => {
+                const state = this.statuses.get(serverId)?.state;
+                return state === 'connected' || state === 'degraded';
+            })
+            .map(([, client]) => client.getCachedCapabilities() ?? ServerCapabilities.unknown());
+        return capabilities.length === 0 || capabilities.some((entry) => entry.supports(operation));
+    }
+
+    /** Notified when a server's connection state, health, circuit breaker or notification stream changes. */
+    onStatusChange(listener: () => void): () => void {
+        this.statusListeners.push(listener);
+        return () => {
+            const idx = this.statusListeners.indexOf(listener);
+            if (idx >= 0) {
+                this.statusListeners.splice(idx, 1);
+            }
+        };
     }
 
     async connectAll(): Promise<Map<string, ServerRuntimeStatus>> {
@@ -71,6 +146,107 @@ export class MultiServerConnectionManager {
     }
 
     async connect(serverId: string): Promise<ServerRuntimeStatus> {
+        const status = await this.connectProfile(serverId);
+        this.notifyStatusChange();
+        return status;
+    }
+
+    /**
+     * Tries `token` against an HTTP server with a throwaway client built from the
+     * profile's settings: the server must list its RiotPlan tools and answer a
+     * cheap authenticated tool call. The connected client and its token are left alone.
+     */
+    async checkToken(serverId: string, token: string): Promise<TokenCheckResult> {
+        let client: HttpMcpClient;
+        try {
+            ({ client } = await this.createStandaloneClient(serverId, token));
+        } catch (error) {
+            return { ok: false, reason: error instanceof Error ? error.message : String(error) };
+        }
+        try {
+            const verification = await client.verifyRiotPlanServer();
+            if (!verification.ok) {
+                return verification;
+            }
+            // The hold list is usually the shortest one a server can return.
+            await client.listPlans('hold');
+            return { ok: true };
+        } catch (error) {
+            return {
+                ok: false,
+                reason: isUnauthorizedError(error) ? 'unauthorized' : error instanceof Error ? error.message : String(error),
+            };
+        } finally {
+            client.dispose();
+        }
+    }
+
+    /**
+     * A client with the profile's settings that the manager does not track, plus
+     * the TLS options it was given; the caller disposes it. Stdio profiles are
+     * rejected: a second client would need a second server process. Also rejects
+     * when the profile's TLS files or secret headers cannot be loaded.
+     */
+    async createStandaloneClient(
+        serverId: string,
+        token: string | undefined = this.apiKeys.get(serverId)
+    ): Promise<{ client: HttpMcpClient; tls?: TlsRequestOptions }> {
+        const profile = this.getProfile(serverId);
+        if (!profile) {
+            throw new Error('Unknown server profile');
+        }
+        if (profile.transport === 'stdio') {
+            throw new Error('Stdio profiles only run one server process; use the connected client');
+        }
+        let tls: TlsRequestOptions | undefined;
+        try {
+            tls = profile.tls ? await this.options.resolveTls?.(profile) : undefined;
+        } catch (error) {
+            throw new Error(`TLS configuration: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        let headers: Record<string, string> | undefined;
+        try {
+            headers = await this.resolveHeaders(profile);
+        } catch (error) {
+            throw new Error(`Headers: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        const client = new HttpMcpClient(profile.url, token, profile.proxyBypass, {
+            timeouts: profile.timeouts,
+            clientInfo: this.options.clientInfo,
+            authScheme: this.authSchemeFor(profile),
+            headers,
+            tls,
+            tracer: this.options.tracer,
+        });
+        return { client, tls };
+    }
+
+    private authSchemeFor(profile: ServerProfile): AuthScheme | undefined {
+        return profile.authMode === 'oauth' ? { type: 'bearer' } : profile.authScheme;
+    }
+
+    private async resolveHeaders(profile: ServerProfile): Promise<Record<string, string> | undefined> {
+        return profile.headers
+            ? resolveHeaderSettings(profile.headers, async (name) => this.options.readHeaderSecret?.(profile, name))
+            : undefined;
+    }
+
+    /** A profile whose settings cannot be loaded stays disconnected without a client. */
+    private failConfiguration(profile: ServerProfile, label: string, error: unknown): ServerRuntimeStatus {
+        const message = error instanceof Error ? error.message : String(error);
+        this.clients.get(profile.id)?.dispose();
+        this.clients.delete(profile.id);
+        const status: ServerRuntimeStatus = {
+            serverId: profile.id,
+            state: 'disconnected',
+            serverUrl: profile.url,
+            lastError: `${label}: ${message}`,
+        };
+        this.statuses.set(profile.id, status);
+        return status;
+    }
+
+    private async connectProfile(serverId: string): Promise<ServerRuntimeStatus> {
         const profile = this.getProfile(serverId);
         if (!profile) {
             const status: ServerRuntimeStatus = {
@@ -88,8 +264,70 @@ export class MultiServerConnectionManager {
             state: 'connecting',
             serverUrl: profile.url,
         });
+        this.interruptedStreams.delete(serverId);
+        this.probeErrors.delete(serverId);
 
-        const client = new HttpMcpClient(profile.url, this.apiKeys.get(serverId), profile.proxyBypass);
+        let tls: TlsRequestOptions | undefined;
+        try {
+            tls = profile.tls ? await this.options.resolveTls?.(profile) : undefined;
+        } catch (error) {
+            // Never fall back to default TLS verification for a profile that asked for something else.
+            return this.failConfiguration(profile, 'TLS configuration', error);
+        }
+
+        let headers: Record<string, string> | undefined;
+        try {
+            headers = await this.resolveHeaders(profile);
+        } catch (error) {
+            return this.failConfiguration(profile, 'Headers', error);
+        }
+
+        // An explicit (re)connect always gets a fresh chance at the server.
+        const circuitBreaker = this.getCircuitBreaker(serverId);
+        circuitBreaker.reset();
+        const stdio = profile.transport === 'stdio' && profile.stdio ? this.createServerProcess(profile) : undefined;
+        const client = new HttpMcpClient(
+            profile.url,
+            this.apiKeys.get(serverId),
+            profile.proxyBypass,
+            {
+                timeouts: profile.timeouts,
+                circuitBreaker,
+                clientInfo: this.options.clientInfo,
+                requestHandlers: this.options.requestHandlers?.(profile),
+                authScheme: this.authSchemeFor(profile),
+                headers,
+                onUnauthorized: this.options.onUnauthorized
+                    ? async (error) => {
+                        const token = await this.options.onUnauthorized!(profile, error);
+                        if (token) {
+                            this.apiKeys.set(serverId, token);
+                        }
+                        return token;
+                    }
+                    : undefined,
+                tls,
+                tracer: this.options.tracer,
+                onSchemaDrift: this.options.onSchemaDrift,
+                stdio,
+            }
+        );
+        client.onStreamHealthChange((health) => {
+            if (this.clients.get(serverId) === client) {
+                this.applyStreamHealth(serverId, health);
+            }
+        });
+        // Listeners read capabilities through getClient(); a refreshed tool list counts as a status change.
+        client.onCapabilitiesChanged(() => {
+            if (this.clients.get(serverId) === client) {
+                this.notifyStatusChange();
+            }
+        });
+        stdio?.onStateChange((state, detail) => {
+            if (state === 'failed' && this.clients.get(serverId) === client) {
+                this.markProcessFailed(serverId, detail || stdio.getLastExit());
+            }
+        });
         try {
             const verification = await client.verifyRiotPlanServer();
             const status: ServerRuntimeStatus = {
@@ -98,9 +336,12 @@ export class MultiServerConnectionManager {
                 serverUrl: profile.url,
                 lastError: verification.ok ? undefined : verification.reason || 'Connection check failed',
             };
-            this.clients.set(serverId, client);
+            this.replaceClient(serverId, client);
             this.statuses.set(serverId, status);
-            return status;
+            if (verification.ok) {
+                this.applyStreamHealth(serverId, client.getStreamHealth());
+            }
+            return this.statuses.get(serverId)!;
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             const status: ServerRuntimeStatus = {
@@ -110,12 +351,38 @@ export class MultiServerConnectionManager {
                 lastError: message || 'Connection check failed',
             };
             // Keep client available for future retries and token updates.
-            this.clients.set(serverId, client);
+            this.replaceClient(serverId, client);
             this.statuses.set(serverId, status);
             return status;
         }
     }
 
+    /**
+     * Applies a health monitor probe. A server that answers its health check is
+     * still degraded while its notification stream is reconnecting.
+     */
+    applyProbe(serverId: string, probe: ServerProbe): void {
+        const status = this.statuses.get(serverId);
+        if (!status || status.state === 'connecting' || status.state === 'disconnected') {
+            return;
+        }
+        if (probe.error) {
+            this.probeErrors.set(serverId, probe.error);
+        } else {
+            this.probeErrors.delete(serverId);
+        }
+        const streamInterrupted = probe.state === 'connected' && this.interruptedStreams.has(serverId);
+        this.statuses.set(serverId, {
+            ...status,
+            state: streamInterrupted ? 'degraded' : probe.state,
+            lastError: streamInterrupted ? this.describeInterruption(serverId) : probe.error,
+            latencyMs: probe.latencyMs ?? status.latencyMs,
+            consecutiveFailures: probe.consecutiveFailures,
+            lastCheckedAt: probe.checkedAt,
+        });
+        this.notifyStatusChange();
+    }
+
     async disconnect(serverId: string): Promise<void> {
         const client = this.clients.get(serverId);
         if (client) {
@@ -137,6 +404,88 @@ export class MultiServerConnectionManager {
         this.clients.clear();
     }
 
+    private replaceClient(serverId: string, client: HttpMcpClient): void {
+        const previous = this.clients.get(serverId);
+        if (previous && previous !== client) {
+            // Stops the old client's notification stream from reconnecting in the background.
+            previous.dispose();
+        }
+        this.clients.set(serverId, client);
+    }
+
+    private createServerProcess(profile: ServerProfile): StdioServerProcess {
+        const stdio = new StdioServerProcess(profile.stdio!, {
+            restartPolicy: this.options.stdioRestartPolicy,
+            baseDir: this.options.stdioBaseDir?.(),
+            onStderr: (line) => this.options.onServerOutput?.(profile, line),
+        });
+        stdio.onStateChange((state, detail) => this.options.onServerProcessState?.(profile, state, detail));
+        return stdio;
+    }
+
+    /** A connected server whose notification stream (or stdio process) is down is reported as degraded. */
+    private applyStreamHealth(serverId: string, health: SseStreamHealth): void {
+        const status = this.statuses.get(serverId);
+        if (!status || (status.state !== 'connected' && status.state !== 'degraded')) {
+            return;
+        }
+        const degraded = health === 'reconnecting';
+        if (degraded) {
+            this.interruptedStreams.add(serverId);
+        } else {
+            this.interruptedStreams.delete(serverId);
+        }
+        // A failing or slow health check keeps the server degraded after its stream recovers.
+        const probeError = this.probeErrors.get(serverId);
+        const state = degraded || probeError ? 'degraded' : 'connected';
+        const lastError = degraded ? this.describeInterruption(serverId) : probeError;
+        if (status.state === state && status.lastError === lastError) {
+            return;
+        }
+        this.statuses.set(serverId, {
+            ...status,
+            state,
+            lastError,
+        });
+        this.notifyStatusChange();
+    }
+
+    private describeInterruption(serverId: string): string {
+        return this.getProfile(serverId)?.transport === 'stdio'
+            ? 'Server process exited; restarting'
+            : 'Notification stream interrupted; reconnecting';
+    }
+
+    /** The supervisor stopped restarting the process; only an explicit reconnect starts it again. */
+    private markProcessFailed(serverId: string, detail?: string): void {
+        const status = this.statuses.get(serverId);
+        if (!status || status.state === 'disconnected') {
+            return;
+        }
+        this.statuses.set(serverId, {
+            ...status,
+            state: 'disconnected',
+            lastError: `Server process ${detail || 'stopped'}`,
+        });
+        this.notifyStatusChange();
+    }
+
+    private notifyStatusChange(): void {
+        for (const listener of [...this.statusListeners]) {
+            listener();
+        }
+    }
+
+    private getCircuitBreaker(serverId: string): CircuitBreaker {
+        let breaker = this.circuitBreakers.get(serverId);
+        if (!breaker) {
+            breaker = new CircuitBreaker();
+            breaker.onStateChange(() => this.notifyStatusChange());
+            this.circuitBreakers.set(serverId, breaker);
+        }
+        return breaker;
+    }
+
     private getProfile(serverId: string): ServerProfile | undefined {
         return this.profiles.find((profile) => profile.id === serverId);
     }
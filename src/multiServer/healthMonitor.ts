@@ -0,0 +1,204 @@
+import type { MultiServerConnectionManager } from './connectionManager';
+import { ServerConnectionState } from './types';
+
+export interface HealthMonitorPolicy {
+    intervalMs: number;
+    /** A successful probe slower than this marks the server degraded. */
+    slowProbeMs: number;
+    /** Consecutive failed probes before a server is reported disconnected. */
+    failureThreshold: number;
+    /** Reconnect attempts back off from `intervalMs` up to this delay. */
+    maxReconnectDelayMs: number;
+}
+
+export const DEFAULT_HEALTH_MONITOR_POLICY: HealthMonitorPolicy = {
+    intervalMs: 30000,
+    slowProbeMs: 2000,
+    failureThreshold: 3,
+    maxReconnectDelayMs: 10 * 60 * 1000,
+};
+
+/** Outcome of one health probe, applied to the server's runtime status. */
+export interface ServerProbe {
+    state: Exclude<ServerConnectionState, 'connecting'>;
+    checkedAt: number;
+    /** Round-trip time of the last successful probe. */
+    latencyMs?: number;
+    consecutiveFailures: number;
+    error?: string;
+}
+
+export type HealthMonitorTarget = Pick<
+    MultiServerConnectionManager,
+    'getProfiles' | 'getStatus' | 'getClient' | 'connect' | 'applyProbe'
+>;
+
+interface ServerHealthTrack {
+    consecutiveFailures: number;
+    reconnectAttempts: number;
+    nextReconnectAt?: number;
+}
+
+/** Disconnect reasons a retry cannot fix; the user has to act (sign in, fix settings). */
+const NON_RETRYABLE_ERROR = /^(unauthorized|missing_riotplan_tools|TLS configuration:|Headers:|Unknown server profile)/;
+
+/**
+ * Every `intervalMs` each connected or degraded HTTP server is probed with
+ * `GET /health`. Slow or failed probes degrade it; `failureThreshold` failures
+ * in a row disconnect it; a rejected token (401/403) disconnects it at once
+ * as `unauthorized`. Other disconnected servers are reconnected with
+ * exponential backoff. Stdio profiles are left to their process supervisor.
+ */
+export class ServerHealthMonitor {
+    private readonly policy: HealthMonitorPolicy;
+    private readonly tracks = new Map<string, ServerHealthTrack>();
+    private timer?: ReturnType<typeof setTimeout>;
+    private checking?: Promise<void>;
+
+    constructor(
+        private readonly target: HealthMonitorTarget,
+        policy: Partial<HealthMonitorPolicy> = {},
+        private readonly now: () => number = Date.now
+    ) {
+        this.policy = { ...DEFAULT_HEALTH_MONITOR_POLICY, ...policy };
+    }
+
+    start(): void {
+        this.stop();
+        this.schedule();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    isRunning(): boolean {
+        return this.timer !== undefined;
+    }
+
+    /** Probe every server now; overlapping calls share one round. */
+    checkAll(): Promise<void> {
+        if (!this.checking) {
+            this.checking = this.runRound().finally(() => {
+                this.checking = undefined;
+            });
+        }
+        return this.checking;
+    }
+
+    /** When the next automatic reconnect of a disconnected server is due (epoch ms). */
+    getNextReconnectAt(serverId: string): number | undefined {
+        return this.tracks.get(serverId)?.nextReconnectAt;
+    }
+
+    private schedule(): void {
+        this.timer = setTimeout(() => {
+            void this.checkAll().finally(() => {
+                if (this.timer) {
+                    this.schedule();
+                }
+            });
+        }, this.policy.intervalMs);
+    }
+
+    private async runRound(): Promise<void> {
+        const profiles = this.target.getProfiles().filter((profile) => profile.enabled && profile.transport !== 'stdio');
+        for (const serverId of [...this.tracks.keys()]) {
+            if (!profiles.some((profile) => profile.id === serverId)) {
+                this.tracks.delete(serverId);
+            }
+        }
+        await Promise.all(profiles.map(async (profile) => {
+            const status = this.target.getStatus(profile.id);
+            if (!status || status.state === 'connecting') {
+                return;
+            }
+            if (status.state === 'disconnected') {
+                await this.maybeReconnect(profile.id, status.lastError);
+                return;
+            }
+            await this.probe(profile.id);
+        }));
+    }
+
+    private async probe(serverId: string): Promise<void> {
+        const client = this.target.getClient(serverId);
+        if (!client) {
+            return;
+        }
+        const track = this.getTrack(serverId);
+        const startedAt = this.now();
+        const statusCode = await client.healthCheckStatus().catch(() => undefined);
+        const healthy = statusCode === 200;
+        const latencyMs = this.now() - startedAt;
+        track.consecutiveFailures = healthy ? 0 : track.consecutiveFailures + 1;
+
+        let probe: ServerProbe;
+        if (statusCode === 401 || statusCode === 403) {
+            // Retrying will not help; the user has to replace the token or sign in again.
+            probe = {
+                state: 'disconnected',
+                checkedAt: startedAt,
+                consecutiveFailures: track.consecutiveFailures,
+                error: 'unauthorized',
+            };
+        } else if (healthy) {
+            const slow = latencyMs > this.policy.slowProbeMs;
+            probe = {
+                state: slow ? 'degraded' : 'connected',
+                checkedAt: startedAt,
+                latencyMs,
+                consecutiveFailures: 0,
+                error: slow ? `Slow health check (${latencyMs} ms)` : undefined,
+            };
+        } else if (track.consecutiveFailures >= this.policy.failureThreshold) {
+            probe = {
+                state: 'disconnected',
+                checkedAt: startedAt,
+                consecutiveFailures: track.consecutiveFailures,
+                error: `Unreachable: ${track.consecutiveFailures} health checks failed in a row`,
+            };
+            track.reconnectAttempts = 0;
+            track.nextReconnectAt = startedAt + this.policy.intervalMs;
+        } else {
+            probe = {
+                state: 'degraded',
+                checkedAt: startedAt,
+                consecutiveFailures: track.consecutiveFailures,
+                error: `Health check failed (${track.consecutiveFailures} of ${this.policy.failureThreshold})`,
+            };
+        }
+        this.target.applyProbe(serverId, probe);
+    }
+
+    private async maybeReconnect(serverId: string, lastError?: string): Promise<void> {
+        // No error means the server was never tried or was disconnected on purpose.
+        if (!lastError || NON_RETRYABLE_ERROR.test(lastError)) {
+            return;
+        }
+        const track = this.getTrack(serverId);
+        if (track.nextReconnectAt !== undefined && this.now() < track.nextReconnectAt) {
+            return;
+        }
+        const status = await this.target.connect(serverId);
+        if (status.state === 'connected' || status.state === 'degraded') {
+            this.tracks.delete(serverId);
+            return;
+        }
+        track.reconnectAttempts += 1;
+        const delayMs = Math.min(this.policy.maxReconnectDelayMs, this.policy.intervalMs * 2 ** track.reconnectAttempts);
+        track.nextReconnectAt = this.now() + delayMs;
+    }
+
+    private getTrack(serverId: string): ServerHealthTrack {
+        let track = this.tracks.get(serverId);
+        if (!track) {
+            track = { consecutiveFailures: 0, reconnectAttempts: 0 };
+            this.tracks.set(serverId, track);
+        }
+        return track;
+    }
+}
@@ -0,0 +1,368 @@
+/**
+ * OAuth 2.1 pieces of the MCP authorization flow
+ *
+ * Discovery follows the MCP authorization spec: protected-resource metadata
+ * (RFC 9728, located via the `WWW-Authenticate` header of a 401 or the
+ * well-known path), then authorization-server metadata (RFC 8414 / OIDC).
+ * Clients register dynamically (RFC 7591) when the server allows it, and
+ * every authorization uses PKCE with S256 plus the RFC 8707 `resource`.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { createHash, randomBytes } from 'crypto';
+import { URL, URLSearchParams } from 'url';
+import { getProxyAgent } from '../proxyUtils';
+
+export interface ProtectedResourceMetadata {
+    resource?: string;
+    authorizationServers: string[];
+    scopesSupported?: string[];
+}
+
+export interface AuthorizationServerMetadata {
+    issuer: string;
+    authorizationEndpoint: string;
+    tokenEndpoint: string;
+    registrationEndpoint?: string;
+    revocationEndpoint?: string;
+    codeChallengeMethodsSupported?: string[];
+    scopesSupported?: string[];
+}
+
+export interface OAuthClientRegistration {
+    clientId: string;
+    clientSecret?: string;
+    /** Redirect URI the registration was made for; a different one needs a new registration. */
+    redirectUri: string;
+}
+
+export interface OAuthTokenSet {
+    accessToken: string;
+    tokenType: string;
+    refreshToken?: string;
+    /** Epoch milliseconds. */
+    expiresAt?: number;
+    scope?: string;
+}
+
+/** Everything persisted per profile (in SecretStorage) to refresh and revoke without rediscovery. */
+export interface OAuthProfileState {
+    resource: string;
+    server: AuthorizationServerMetadata;
+    client: OAuthClientRegistration;
+    scope?: string;
+    tokens?: OAuthTokenSet;
+}
+
+export interface PkcePair {
+    verifier: string;
+    challenge: string;
+    method: 'S256';
+}
+
+export class OAuthError extends Error {
+    constructor(message: string, readonly code?: string) {
+        super(message);
+        this.name = 'OAuthError';
+    }
+}
+
+function base64Url(buffer: Buffer): string {
+    return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function createPkcePair(): PkcePair {
+    const verifier = base64Url(randomBytes(32));
+    const challenge = base64Url(createHash('sha256').update(verifier).digest());
+    return { verifier, challenge, method: 'S256' };
+}
+
+export function createOAuthState(): string {
+    return base64Url(randomBytes(16));
+}
+
+/** RFC 8707 resource indicator for a profile: its MCP endpoint. */
+export function canonicalResourceUri(serverUrl: string): string {
+    return `${serverUrl.trim().replace(/\/+$/, '')}/mcp`;
+}
+
+/** `resource_metadata` parameter of a `WWW-Authenticate: Bearer ...` challenge. */
+export function parseResourceMetadataUrl(wwwAuthenticate?: string): string | undefined {
+    const match = String(wwwAuthenticate || '').match(/resource_metadata\s*=\s*"([^"]+)"/i);
+    return match?.[1];
+}
+
+export function protectedResourceMetadataUrls(serverUrl: string): string[] {
+    const url = new URL(canonicalResourceUri(serverUrl));
+    const path = url.pathname.replace(/\/+$/, '');
+    return [...new Set([
+        `${url.origin}/.well-known/oauth-protected-resource${path}`,
+        `${url.origin}/.well-known/oauth-protected-resource`,
+    ])];
+}
+
+export function authorizationServerMetadataUrls(issuer: string): string[] {
+    const url = new URL(issuer);
+    const path = url.pathname.replace(/\/+$/, '');
+    return [...new Set([
+        `${url.origin}/.well-known/oauth-authorization-server${path}`,
+        `${url.origin}/.well-known/openid-configuration${path}`,
+        `${url.origin}${path}/.well-known/openid-configuration`,
+    ])];
+}
+
+export function buildAuthorizationUrl(params: {
+    server: AuthorizationServerMetadata;
+    clientId: string;
+    redirectUri: string;
+    pkce: PkcePair;
+    state: string;
+    resource: string;
+    scope?: string;
+}): string {
+    const url = new URL(params.server.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', params.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('code_challenge', params.pkce.challenge);
+    url.searchParams.set('code_challenge_method', params.pkce.method);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('resource', params.resource);
+    if (params.scope) {
+        url.searchParams.set('scope', params.scope);
+    }
+    return url.toString();
+}
+
+function stringArray(value: unknown): string[] | undefined {
+    return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : undefined;
+}
+
+function parseTokenResponse(body: any, previous?: OAuthTokenSet, now = Date.now()): OAuthTokenSet {
+    const accessToken = typeof body?.access_token === 'string' ? body.access_token : '';
+    if (!accessToken) {
+        throw new OAuthError('Token response did not include an access_token');
+    }
+    const expiresIn = Number(body.expires_in);
+    return {
+        accessToken,
+        tokenType: typeof body.token_type === 'string' ? body.token_type : 'Bearer',
+        // Servers may omit the refresh token on refresh; keep using the old one.
+        refreshToken: typeof body.refresh_token === 'string' ? body.refresh_token : previous?.refreshToken,
+        ...(Number.isFinite(expiresIn) && expiresIn > 0 ? { expiresAt: now + expiresIn * 1000 } : {}),
+        ...(typeof body.scope === 'string' ? { scope: body.scope } : {}),
+    };
+}
+
+interface OAuthHttpResponse {
+    statusCode: number;
+    body: any;
+}
+
+/** HTTP side of the flow; honours the profile's proxy setting like HttpMcpClient. */
+export class OAuthHttpClient {
+    constructor(private readonly proxyBypass = false, private readonly timeoutMs = 15000) {}
+
+    async discoverProtectedResource(serverUrl: string, wwwAuthenticate?: string): Promise<ProtectedResourceMetadata> {
+        const hinted = parseResourceMetadataUrl(wwwAuthenticate);
+        const candidates = hinted ? [hinted] : protectedResourceMetadataUrls(serverUrl);
+        for (const candidate of candidates) {
+            const response = await this.request('GET', candidate).catch(() => undefined);
+            const servers = stringArray(response?.body?.authorization_servers);
+            if (response?.statusCode === 200 && servers && servers.length > 0) {
+                return {
+                    resource: typeof response.body.resource === 'string' ? response.body.resource : undefined,
+                    authorizationServers: servers,
+                    scopesSupported: stringArray(response.body.scopes_supported),
+                };
+            }
+        }
+        throw new OAuthError(`No OAuth protected-resource metadata found for ${serverUrl}`);
+    }
+
+    async discoverAuthorizationServer(issuer: string): Promise<AuthorizationServerMetadata> {
+        for (const candidate of authorizationServerMetadataUrls(issuer)) {
+            const response = await this.request('GET', candidate).catch(() => undefined);
+            const body = response?.body;
+            if (response?.statusCode !== 200 || !body?.authorization_endpoint || !body?.token_endpoint) {
+                continue;
+            }
+            const methods = stringArray(body.code_challenge_methods_supported);
+            if (methods && !methods.includes('S256')) {
+                throw new OAuthError(`Authorization server ${issuer} does not support PKCE S256`);
+            }
+            return {
+                issuer: typeof body.issuer === 'string' ? body.issuer : issuer,
+                authorizationEndpoint: body.authorization_endpoint,
+                tokenEndpoint: body.token_endpoint,
+                ...(body.registration_endpoint ? { registrationEndpoint: body.registration_endpoint } : {}),
+                ...(body.revocation_endpoint ? { revocationEndpoint: body.revocation_endpoint } : {}),
+                ...(methods ? { codeChallengeMethodsSupported: methods } : {}),
+                ...(stringArray(body.scopes_supported) ? { scopesSupported: stringArray(body.scopes_supported) } : {}),
+            };
+        }
+        throw new OAuthError(`No OAuth authorization server metadata found for ${issuer}`);
+    }
+
+    async registerClient(
+        server: AuthorizationServerMetadata,
+        redirectUri: string,
+        clientName: string
+    ): Promise<OAuthClientRegistration> {
+        if (!server.registrationEndpoint) {
+            throw new OAuthError(
+                `Authorization server ${server.issuer} does not support dynamic client registration`,
+                'registration_unsupported'
+            );
+        }
+        const response = await this.request('POST', server.registrationEndpoint, {
+            json: {
+                client_name: clientName,
+                redirect_uris: [redirectUri],
+                grant_types: ['authorization_code', 'refresh_token'],
+                response_types: ['code'],
+                token_endpoint_auth_method: 'none',
+            },
+        });
+        const clientId = response.body?.client_id;
+        if (response.statusCode < 200 || response.statusCode >= 300 || typeof clientId !== 'string') {
+            throw this.errorFrom(response, 'Client registration failed');
+        }
+        return {
+            clientId,
+            ...(typeof response.body.client_secret === 'string' ? { clientSecret: response.body.client_secret } : {}),
+            redirectUri,
+        };
+    }
+
+    async exchangeCode(state: OAuthProfileState, code: string, verifier: string): Promise<OAuthTokenSet> {
+        const response = await this.request('POST', state.server.tokenEndpoint, {
+            form: {
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: state.client.redirectUri,
+                code_verifier: verifier,
+                resource: state.resource,
+                ...this.clientCredentials(state),
+            },
+        });
+        if (response.statusCode !== 200) {
+            throw this.errorFrom(response, 'Authorization code exchange failed');
+        }
+        return parseTokenResponse(response.body);
+    }
+
+    async refresh(state: OAuthProfileState): Promise<OAuthTokenSet> {
+        const refreshToken = state.tokens?.refreshToken;
+        if (!refreshToken) {
+            throw new OAuthError('No refresh token available', 'invalid_grant');
+        }
+        const response = await this.request('POST', state.server.tokenEndpoint, {
+            form: {
+                grant_type: 'refresh_token',
+                refresh_token: refreshToken,
+                resource: state.resource,
+                ...this.clientCredentials(state),
+            },
+        });
+        if (response.statusCode !== 200) {
+            throw this.errorFrom(response, 'Token refresh failed');
+        }
+        return parseTokenResponse(response.body, state.tokens);
+    }
+
+    /** RFC 7009 revocation of both tokens; servers without a revocation endpoint are skipped. */
+    async revoke(state: OAuthProfileState): Promise<void> {
+        const endpoint = state.server.revocationEndpoint;
+        if (!endpoint || !state.tokens) {
+            return;
+        }
+        const tokens: Array<[string, string | undefined]> = [
+            ['refresh_token', state.tokens.refreshToken],
+            ['access_token', state.tokens.accessToken],
+        ];
+        for (const [hint, token] of tokens) {
+            if (!token) {
+                continue;
+            }
+            const response = await this.request('POST', endpoint, {
+                form: { token, token_type_hint: hint, ...this.clientCredentials(state) },
+            });
+            if (response.statusCode !== 200) {
+                throw this.errorFrom(response, 'Token revocation failed');
+            }
+        }
+    }
+
+    private clientCredentials(state: OAuthProfileState): Record<string, string> {
+        return {
+            client_id: state.client.clientId,
+            ...(state.client.clientSecret ? { client_secret: state.client.clientSecret } : {}),
+        };
+    }
+
+    private errorFrom(response: OAuthHttpResponse, prefix: string): OAuthError {
+        const code = typeof response.body?.error === 'string' ? response.body.error : undefined;
+        const description = typeof response.body?.error_description === 'string' ? response.body.error_description : '';
+        const detail = [code, description].filter(Boolean).join(': ') || `HTTP ${response.statusCode}`;
+        return new OAuthError(`${prefix} (${detail})`, code);
+    }
+
+    private request(
+        method: 'GET' | 'POST',
+        target: string,
+        payload?: { form?: Record<string, string>; json?: unknown }
+    ): Promise<OAuthHttpResponse> {
+        return new Promise((resolve, reject) => {
+            const url = new URL(target);
+            const isHttps = url.protocol === 'https:';
+            const client = isHttps ? https : http;
+            const proxyAgent = getProxyAgent(url.toString(), this.proxyBypass);
+            const body = payload?.form
+                ? new URLSearchParams(payload.form).toString()
+                : payload?.json !== undefined ? JSON.stringify(payload.json) : undefined;
+            const req = client.request(
+                {
+                    hostname: url.hostname,
+                    port: url.port || (isHttps ? 443 : 80),
+                    path: url.pathname + url.search,
+                    method,
+                    headers: {
+                        Accept: 'application/json',
+                        ...(body !== undefined
+                            ? {
+                                'Content-Type': payload?.form ? 'application/x-www-form-urlencoded' : 'application/json',
+                                'Content-Length': Buffer.byteLength(body),
+                            }
+                            : {}),
+                    },
+                    timeout: this.timeoutMs,
+                    ...(proxyAgent ? { agent: proxyAgent } : {}),
+                },
+                (res) => {
+                    let data = '';
+                    res.on('data', (chunk) => {
+                        data += chunk;
+                    });
+                    res.on('error', reject);
+                    res.on('end', () => {
+                        let parsed: any;
+                        try {
+                            parsed = data ? JSON.parse(data) : undefined;
+                        } catch {
+                            parsed = undefined;
+                        }
+                        resolve({ statusCode: res.statusCode || 0, body: parsed });
+                    });
+                }
+            );
+            req.on('timeout', () => req.destroy(new OAuthError(`${method} ${url.origin}${url.pathname} timed out`)));
+            req.on('error', reject);
+            if (body !== undefined) {
+                req.write(body);
+            }
+            req.end();
+        });
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * Per-profile OAuth sessions: browser sign-in, token storage, refresh, revocation
+ *
+ * Sign-in opens the authorization URL externally and waits for the redirect
+ * back into VS Code through the extension's URI handler
+ * (`vscode://<extension-id>/oauth/callback`). Registration and tokens are kept
+ * in SecretStorage under `oauthStorageKey(profile.id)`.
+ */
+
+import * as vscode from 'vscode';
+import { oauthStorageKey } from './auth';
+import {
+    buildAuthorizationUrl,
+    canonicalResourceUri,
+    createOAuthState,
+    createPkcePair,
+    OAuthError,
+    OAuthHttpClient,
+    OAuthProfileState,
+    OAuthTokenSet,
+} from './oauth';
+import { ServerProfile } from './types';
+
+const CALLBACK_PATH = '/oauth/callback';
+const SIGN_IN_TIMEOUT_MS = 5 * 60 * 1000;
+/** Refresh this long before the server-declared expiry. */
+const EXPIRY_SKEW_MS = 60 * 1000;
+const CLIENT_NAME = 'RiotPlan for VS Code';
+
+interface PendingAuthorization {
+    resolve: (code: string) => void;
+    reject: (error: Error) => void;
+}
+
+function defaultHttpClient(profile: ServerProfile): OAuthHttpClient {
+    return new OAuthHttpClient(profile.proxyBypass);
+}
+
+export class OAuthSessionManager implements vscode.UriHandler {
+    private readonly pending = new Map<string, PendingAuthorization>();
+    private readonly refreshes = new Map<string, Promise<string | undefined>>();
+
+    constructor(
+        private readonly secrets: vscode.SecretStorage,
+        private readonly extensionId: string,
+        private readonly httpClientFor: (profile: ServerProfile) => OAuthHttpClient = defaultHttpClient
+    ) {}
+
+    handleUri(uri: vscode.Uri): void {
+        if (uri.path !== CALLBACK_PATH) {
+            return;
+        }
+        const query = new URLSearchParams(uri.query);
+        const state = query.get('state') || '';
+        const pending = this.pending.get(state);
+        if (!pending) {
+            return;
+        }
+        this.pending.delete(state);
+        const error = query.get('error');
+        const code = query.get('code');
+        if (error) {
+            const description = query.get('error_description');
+            pending.reject(new OAuthError(`Authorization was not granted (${description || error})`, error));
+        } else if (code) {
+            pending.resolve(code);
+        } else {
+            pending.reject(new OAuthError('Authorization callback did not include a code'));
+        }
+    }
+
+    async hasSession(profileId: string): Promise<boolean> {
+        return Boolean((await this.loadState(profileId))?.tokens);
+    }
+
+    /**
+     * Run discovery, (re)registration and the authorization-code + PKCE flow.
+     * `wwwAuthenticate` is the header of the 401 that prompted sign-in, if any.
+     */
+    async signIn(
+        profile: ServerProfile,
+        options?: { wwwAuthenticate?: string; token?: vscode.CancellationToken }
+    ): Promise<OAuthTokenSet> {
+        const oauth = this.httpClientFor(profile);
+        const resourceMetadata = await oauth.discoverProtectedResource(profile.url, options?.wwwAuthenticate);
+        const server = await oauth.discoverAuthorizationServer(resourceMetadata.authorizationServers[0]);
+        const redirectUri = await this.getRedirectUri();
+
+        const previous = await this.loadState(profile.id);
+        const client = previous
+            && previous.server.issuer === server.issuer
+            && previous.client.redirectUri === redirectUri
+            ? previous.client
+            : await oauth.registerClient(server, redirectUri, CLIENT_NAME);
+
+        const state: OAuthProfileState = {
+            resource: resourceMetadata.resource || canonicalResourceUri(profile.url),
+            server,
+            client,
+            ...(resourceMetadata.scopesSupported?.length ? { scope: resourceMetadata.scopesSupported.join(' ') } : {}),
+        };
+        const pkce = createPkcePair();
+        const oauthState = createOAuthState();
+        const code = this.waitForCallback(oauthState, options?.token);
+        const authorizationUrl = buildAuthorizationUrl({
+            server,
+            clientId: client.clientId,
+            redirectUri,
+            pkce,
+            state: oauthState,
+            resource: state.resource,
+            scope: state.scope,
+        });
+        const opened = await vscode.env.openExternal(vscode.Uri.parse(authorizationUrl, true));
+        if (!opened) {
+            this.pending.get(oauthState)?.reject(new OAuthError('Could not open the browser for sign-in'));
+            this.pending.delete(oauthState);
+        }
+
+        const tokens = await oauth.exchangeCode(state, await code, pkce.verifier);
+        await this.saveState(profile.id, { ...state, tokens });
+        return tokens;
+    }
+
+    /** Current access token, refreshed first when it is about to expire. */
+    async getAccessToken(profile: ServerProfile): Promise<string | undefined> {
+        const state = await this.loadState(profile.id);
+        const tokens = state?.tokens;
+        if (!tokens) {
+            return undefined;
+        }
+        if (tokens.expiresAt !== undefined && tokens.expiresAt - EXPIRY_SKEW_MS <= Date.now()) {
+            return tokens.refreshToken ? this.refresh(profile) : undefined;
+        }
+        return tokens.accessToken;
+    }
+
+    /** Refresh once per profile at a time; a rejected refresh token ends the session. */
+    refresh(profile: ServerProfile): Promise<string | undefined> {
+        const inFlight = this.refreshes.get(profile.id);
+        if (inFlight) {
+            return inFlight;
+        }
+        const run = (async () => {
+            const state = await this.loadState(profile.id);
+            if (!state?.tokens?.refreshToken) {
+                return undefined;
+            }
+            try {
+                const tokens = await this.httpClientFor(profile).refresh(state);
+                await this.saveState(profile.id, { ...state, tokens });
+                return tokens.accessToken;
+            } catch (error) {
+                if (error instanceof OAuthError && error.code === 'invalid_grant') {
+                    // Keep the client registration; only the tokens are dead.
+                    await this.saveState(profile.id, { ...state, tokens: undefined });
+                }
+                return undefined;
+            }
+        })();
+        this.refreshes.set(profile.id, run);
+        return run.finally(() => this.refreshes.delete(profile.id));
+    }
+
+    /** Revoke and forget the profile's tokens. Local tokens are removed even if revocation fails. */
+    async signOut(profile: ServerProfile): Promise<{ revoked: boolean; error?: string }> {
+        const state = await this.loadState(profile.id);
+        await this.secrets.delete(oauthStorageKey(profile.id));
+        if (!state?.tokens) {
+            return { revoked: false };
+        }
+        try {
+            await this.httpClientFor(profile).revoke(state);
+            return { revoked: Boolean(state.server.revocationEndpoint) };
+        } catch (error) {
+            return { revoked: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private async getRedirectUri(): Promise<string> {
+        const callback = vscode.Uri.parse(`${vscode.env.uriScheme}://${this.extensionId}${CALLBACK_PATH}`);
+        return (await vscode.env.asExternalUri(callback)).toString(true);
+    }
+
+    private waitForCallback(state: string, token?: vscode.CancellationToken): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timer);
+                subscription?.dispose();
+            };
+            const timer = setTimeout(() => {
+                this.pending.delete(state);
+                cleanup();
+                reject(new OAuthError('Sign-in timed out waiting for the browser redirect'));
+            }, SIGN_IN_TIMEOUT_MS);
+            const subscription = token?.onCancellationRequested(() => {
+                this.pending.delete(state);
+                cleanup();
+                reject(new OAuthError('Sign-in cancelled', 'cancelled'));
+            });
+            this.pending.set(state, {
+                resolve: (code) => {
+                    cleanup();
+                    resolve(code);
+                },
+                reject: (error) => {
+                    cleanup();
+                    reject(error);
+                },
+            });
+        });
+    }
+
+    private async loadState(profileId: string): Promise<OAuthProfileState | undefined> {
+        const raw = await this.secrets.get(oauthStorageKey(profileId));
+        if (!raw) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(raw) as OAuthProfileState;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async saveState(profileId: string, state: OAuthProfileState): Promise<void> {
+        await this.secrets.store(oauthStorageKey(profileId), JSON.stringify(state));
+    }
+}
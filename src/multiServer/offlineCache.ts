@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ContextProject, PlanContext, PlanStatus, Step } from '../mcp-models';
+
+/** Newest plan-detail snapshots kept per server; older ones are dropped on write. */
+export const MAX_PLAN_DETAIL_SNAPSHOTS = 50;
+
+export interface CachedSnapshot<T> {
+    /** ISO-8601 time the data was last read from the server. */
+    syncedAt: string;
+    data: T;
+}
+
+export interface PlanDetailSnapshot {
+    status: PlanStatus;
+    context: PlanContext | null;
+    steps: Step[];
+    /** Contents of the summary and execution plan artifacts. */
+    summary?: string | null;
+    executionPlan?: string | null;
+}
+
+interface ServerCacheFile {
+    version: 1;
+    /** Raw plan list entries keyed by list filter (`all`, `active`, ...). */
+    plans: Record<string, CachedSnapshot<unknown[]>>;
+    projects?: CachedSnapshot<ContextProject[]>;
+    planDetails: Record<string, CachedSnapshot<PlanDetailSnapshot>>;
+}
+
+function emptyCacheFile(): ServerCacheFile {
+    return { version: 1, plans: {}, planDetails: {} };
+}
+
+/** `last synced <local time>`, for stale tree rows, dashboard rows and panels. */
+export function describeLastSynced(syncedAt: string): string {
+    const date = new Date(syncedAt);
+    return Number.isNaN(date.getTime()) ? 'last synced at an unknown time' : `last synced ${date.toLocaleString()}`;
+}
+
+/**
+ * Last-known plan lists, project catalog and plan details, one JSON file per
+ * server profile under the extension's global storage. Views fall back to it
+ * while a server is unreachable and mark what they show as stale.
+ */
+export class OfflineCache {
+    private readonly files = new Map<string, Promise<ServerCacheFile>>();
+    private readonly writes = new Map<string, Promise<void>>();
+
+    constructor(
+        private readonly directory: string,
+        private readonly now: () => Date = () => new Date()
+    ) {}
+
+    async getPlans(serverId: string, filter = 'all'): Promise<CachedSnapshot<unknown[]> | undefined> {
+        return (await this.load(serverId)).plans[filter];
+    }
+
+    async setPlans(serverId: string, filter: string | undefined, plans: unknown[]): Promise<void> {
+        await this.update(serverId, (file) => {
+            file.plans[filter || 'all'] = this.snapshot(plans);
+        });
+    }
+
+    async getProjects(serverId: string): Promise<CachedSnapshot<ContextProject[]> | undefined> {
+        return (await this.load(serverId)).projects;
+    }
+
+    async setProjects(serverId: string, projects: ContextProject[]): Promise<void> {
+        await this.update(serverId, (file) => {
+            file.projects = this.snapshot(projects);
+        });
+    }
+
+    async getPlanDetail(serverId: string, planRef: string): Promise<CachedSnapshot<PlanDetailSnapshot> | undefined> {
+        return (await this.load(serverId)).planDetails[planRef];
+    }
+
+    async setPlanDetail(serverId: string, planRef: string, detail: PlanDetailSnapshot): Promise<void> {
+        await this.update(serverId, (file) => {
+            file.planDetails[planRef] = this.snapshot(detail);
+            const refs = Object.keys(file.planDetails);
+            if (refs.length <= MAX_PLAN_DETAIL_SNAPSHOTS) {
+                return;
+            }
+            refs.sort((left, right) => file.planDetails[right].syncedAt.localeCompare(file.planDetails[left].syncedAt));
+            for (const ref of refs.slice(MAX_PLAN_DETAIL_SNAPSHOTS)) {
+                delete file.planDetails[ref];
+            }
+        });
+    }
+
+    /** Drops everything cached for a server, e.g. after its profile is removed. */
+    async clear(serverId: string): Promise<void> {
+        this.files.set(serverId, Promise.resolve(emptyCacheFile()));
+        await this.enqueue(serverId, () => fs.rm(this.filePath(serverId), { force: true }));
+    }
+
+    private snapshot<T>(data: T): CachedSnapshot<T> {
+        return { syncedAt: this.now().toISOString(), data };
+    }
+
+    private filePath(serverId: string): string {
+        return path.join(this.directory, `${encodeURIComponent(serverId)}.json`);
+    }
+
+    private load(serverId: string): Promise<ServerCacheFile> {
+        let file = this.files.get(serverId);
+        if (!file) {
+            file = this.read(serverId);
+            this.files.set(serverId, file);
+        }
+        return file;
+    }
+
+    /** A missing or unreadable file is an empty cache; the next write replaces it. */
+    private async read(serverId: string): Promise<ServerCacheFile> {
+        try {
+            const parsed = JSON.parse(await fs.readFile(this.filePath(serverId), 'utf8'));
+            if (parsed?.version !== 1) {
+                return emptyCacheFile();
+            }
+            return {
+                version: 1,
+                plans: parsed.plans && typeof parsed.plans === 'object' ? parsed.plans : {},
+                projects: parsed.projects,
+                planDetails: parsed.planDetails && typeof parsed.planDetails === 'object' ? parsed.planDetails : {},
+            };
+        } catch {
+            return emptyCacheFile();
+        }
+    }
+
+    private async update(serverId: string, mutate: (file: ServerCacheFile) => void): Promise<void> {
+        const file = await this.load(serverId);
+        mutate(file);
+        const content = JSON.stringify(file);
+        await this.enqueue(serverId, async () => {
+            await fs.mkdir(this.directory, { recursive: true });
+            // Write-then-rename so a crash mid-write never leaves a truncated file behind.
+            const target = this.filePath(serverId);
+            const temp = `${target}.${process.pid}.tmp`;
+            await fs.writeFile(temp, content, 'utf8');
+            await fs.rename(temp, target);
+        });
+    }
+
+    /** Serializes file operations per server so writes land in order. */
+    private enqueue(serverId: string, operation: () => Promise<unknown>): Promise<void> {
+        const previous = this.writes.get(serverId) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(async () => {
+            await operation();
+        });
+        this.writes.set(serverId, next);
+        return next;
+    }
+}
@@ -0,0 +1,187 @@
+import { normalizeServerProfile, sameEndpoint } from './profilesStore';
+import { ServerProfile } from './types';
+
+export const PROFILE_BUNDLE_FORMAT = 'riotplan-server-profiles';
+export const PROFILE_BUNDLE_VERSION = 1;
+
+/** A profile as shared in a bundle: no timestamps, no local origin, and never a token. */
+export type BundledServerProfile = Omit<ServerProfile, 'createdAt' | 'updatedAt' | 'source' | 'sourceFolder'>;
+
+export interface ServerProfileBundle {
+    format: typeof PROFILE_BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    profiles: BundledServerProfile[];
+}
+
+export class ProfileBundleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProfileBundleError';
+    }
+}
+
+/** Fields compared and listed in the import preview, in display order. */
+const COMPARED_FIELDS: Array<keyof BundledServerProfile> = [
+    'name', 'url', 'enabled', 'transport', 'stdio', 'proxyBypass', 'authMode', 'authScheme', 'headers', 'timeouts', 'tls',
+];
+
+/**
+ * Tokens live in secret storage and are never part of a profile. Stdio
+ * environment variables often carry credentials too, so they are left out.
+ */
+export function toBundledProfile(profile: ServerProfile): BundledServerProfile {
+    const shared: Partial<ServerProfile> = { ...profile };
+    delete shared.createdAt;
+    delete shared.updatedAt;
+    delete shared.source;
+    delete shared.sourceFolder;
+    if (shared.stdio?.env) {
+        shared.stdio = { ...shared.stdio };
+        delete shared.stdio.env;
+    }
+    return shared as BundledServerProfile;
+}
+
+export function createProfileBundle(profiles: ServerProfile[], now: Date = new Date()): ServerProfileBundle {
+    return {
+        format: PROFILE_BUNDLE_FORMAT,
+        version: PROFILE_BUNDLE_VERSION,
+        exportedAt: now.toISOString(),
+        profiles: profiles.map(toBundledProfile),
+    };
+}
+
+/** Validates a bundle and returns its profiles, stamped `now`. */
+export function parseProfileBundle(raw: unknown, now: Date = new Date()): ServerProfile[] {
+    const record = (raw && typeof raw === 'object' ? raw : undefined) as Partial<ServerProfileBundle> | undefined;
+    if (!record || record.format !== PROFILE_BUNDLE_FORMAT) {
+        throw new ProfileBundleError('Not a RiotPlan server profile bundle');
+    }
+    if (typeof record.version !== 'number' || record.version > PROFILE_BUNDLE_VERSION) {
+        throw new ProfileBundleError(`Unsupported bundle version ${String(record.version)}; update the extension to import it`);
+    }
+    if (!Array.isArray(record.profiles) || record.profiles.length === 0) {
+        throw new ProfileBundleError('The bundle contains no profiles');
+    }
+    const timestamp = now.toISOString();
+    const seen = new Set<string>();
+    return record.profiles.map((entry, index) => {
+        const input = (entry && typeof entry === 'object' ? entry : {}) as Partial<ServerProfile>;
+        const profile = normalizeServerProfile({ ...input, createdAt: timestamp, updatedAt: timestamp });
+        if (!profile) {
+            throw new ProfileBundleError(`Profile ${index + 1} needs an id, a name and a URL or stdio command`);
+        }
+        if (seen.has(profile.id)) {
+            throw new ProfileBundleError(`Profile id "${profile.id}" appears more than once`);
+        }
+        seen.add(profile.id);
+        return profile;
+    });
+}
+
+export type ProfileImportAction = 'add' | 'update' | 'unchanged' | 'conflict';
+
+export interface ProfileImportEntry {
+    /**
+     * `update`: the id is already configured for the same URL. `conflict`: the id
+     * is already used by a different server and the user has to choose.
+     */
+    action: ProfileImportAction;
+    incoming: ServerProfile;
+    existing?: ServerProfile;
+    /** `field: old -> new` for each setting that differs from `existing`. */
+    changes: string[];
+}
+
+export type ProfileConflictResolution = 'replace' | 'keepBoth' | 'skip';
+
+export interface ProfileImportChange {
+    /** `add` includes a conflicting profile kept under a new id. */
+    kind: 'add' | 'update';
+    profile: ServerProfile;
+    previous?: ServerProfile;
+    changes: string[];
+    /**
+     * An update that moves the id to another server. Tokens and secret headers
+     * are stored by id, so the previous server's credentials must be removed.
+     */
+    dropsCredentials?: boolean;
+}
+
+function describeValue(value: unknown): string {
+    return value === undefined ? '(none)' : JSON.stringify(value);
+}
+
+export function describeProfileChanges(existing: ServerProfile, incoming: ServerProfile): string[] {
+    const before = toBundledProfile(existing);
+    const after = toBundledProfile(incoming);
+    return COMPARED_FIELDS
+        .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+        .map((field) => `${field}: ${describeValue(before[field])} -> ${describeValue(after[field])}`);
+}
+
+export function planProfileImport(existing: ServerProfile[], incoming: ServerProfile[]): ProfileImportEntry[] {
+    const byId = new Map(existing.map((profile) => [profile.id, profile]));
+    return incoming.map((profile) => {
+        const current = byId.get(profile.id);
+        if (!current) {
+            return { action: 'add', incoming: profile, changes: [] };
+        }
+        const changes = describeProfileChanges(current, profile);
+        const action = current.url !== profile.url ? 'conflict' : changes.length > 0 ? 'update' : 'unchanged';
+        return { action, incoming: profile, existing: current, changes };
+    });
+}
+
+/**
+ * Turns planned entries into changes. Updates keep the existing profile's
+ * creation time and settings layer, and drop the stored credentials when the
+ * server changes; a conflict kept as both is imported under `newId()` so the
+ * existing profile and its token stay untouched.
+ */
+export function resolveProfileImport(
+    entries: ProfileImportEntry[],
+    resolve: (entry: ProfileImportEntry) => ProfileConflictResolution,
+    newId: () => string
+): ProfileImportChange[] {
+    const changes: ProfileImportChange[] = [];
+    for (const entry of entries) {
+        const resolution = entry.action === 'conflict' ? resolve(entry) : 'replace';
+        if (entry.action === 'unchanged' || resolution === 'skip') {
+            continue;
+        }
+        if (entry.action === 'add') {
+            changes.push({ kind: 'add', profile: entry.incoming, changes: [] });
+        } else if (resolution === 'keepBoth') {
+            changes.push({
+                kind: 'add',
+                profile: { ...entry.incoming, id: newId(), name: `${entry.incoming.name} (imported)` },
+                changes: [],
+            });
+        } else {
+            const previous = entry.existing!;
+            changes.push({
+                kind: 'update',
+                profile: {
+                    ...entry.incoming,
+                    createdAt: previous.createdAt,
+                    ...(previous.source ? { source: previous.source } : {}),
+                    ...(previous.sourceFolder ? { sourceFolder: previous.sourceFolder } : {}),
+                },
+                previous,
+                changes: entry.changes,
+                ...(sameEndpoint(previous, entry.incoming) ? {} : { dropsCredentials: true }),
+            });
+        }
+    }
+    return changes;
+}
+
+export function mergeImportedProfiles(existing: ServerProfile[], changes: ProfileImportChange[]): ServerProfile[] {
+    const updates = new Map(changes.filter((change) => change.kind === 'update').map((change) => [change.profile.id, change.profile]));
+    return [
+        ...existing.map((profile) => updates.get(profile.id) ?? profile),
+        ...changes.filter((change) => change.kind === 'add').map((change) => change.profile),
+    ];
+}
@@ -1,27 +1,59 @@
 import * as vscode from 'vscode';
-import { ServerProfile } from './types';
+import { normalizeAuthScheme, normalizeHeaderSettings } from '../mcp-auth';
+import { normalizeTimeoutOverrides } from '../mcp-request';
+import { normalizeStdioSettings, stdioServerUrl } from '../mcp-stdio';
+import { normalizeTlsSettings } from '../mcp-tls';
+import { ServerProfile, ServerProfileSource } from './types';
 
 const DEFAULT_SERVER_URL = 'http://127.0.0.1:3002';
 const DEFAULT_SERVER_NAME = 'Server';
 const DEFAULT_SERVER_ID = 'default-server';
 
+/** Team server profiles checked into a repository; holds no tokens. */
+export const REPOSITORY_PROFILES_FILE = '.riotplan/servers.json';
+
+interface ProfileLayer {
+    source: ServerProfileSource;
+    folder?: vscode.WorkspaceFolder;
+    entries: unknown[];
+}
+
+/** `.riotplan/servers.json`: `{"servers": [<profile>...], "activeServerId"?: "<id>"}`. */
+interface RepositoryProfiles {
+    folder: vscode.WorkspaceFolder;
+    servers: unknown[];
+    activeServerId?: string;
+}
+
 function nowIso(): string {
     return new Date().toISOString();
 }
 
-function normalizeServerProfile(input: Partial<ServerProfile>): ServerProfile | undefined {
+export function normalizeServerProfile(input: Partial<ServerProfile>): ServerProfile | undefined {
     const id = String(input.id || '').trim();
     const name = String(input.name || '').trim();
-    const url = String(input.url || '').trim();
-    if (!id || !name || !url) {
+    // A stdio profile without a usable command is dropped like an HTTP profile without a URL.
+    const stdio = input.transport === 'stdio' ? normalizeStdioSettings(input.stdio) : undefined;
+    const url = String(input.url || '').trim() || (stdio ? stdioServerUrl(stdio) : '');
+    if (!id || !name || !url || (input.transport === 'stdio' && !stdio)) {
         return undefined;
     }
+    const timeouts = normalizeTimeoutOverrides(input.timeouts);
+    const tls = normalizeTlsSettings(input.tls);
+    const authScheme = normalizeAuthScheme(input.authScheme);
+    const headers = normalizeHeaderSettings(input.headers);
     return {
         id,
         name,
         url,
         enabled: input.enabled !== false,
         proxyBypass: input.proxyBypass === true,
+        ...(stdio ? { transport: 'stdio' as const, stdio } : {}),
+        ...(input.authMode === 'oauth' ? { authMode: 'oauth' as const } : {}),
+        ...(authScheme ? { authScheme } : {}),
+        ...(headers ? { headers } : {}),
+        ...(timeouts ? { timeouts } : {}),
+        ...(tls ? { tls } : {}),
         createdAt: String(input.createdAt || nowIso()),
         updatedAt: String(input.updatedAt || nowIso()),
     };
@@ -31,14 +63,99 @@ function normalizeUrl(url: string): string {
     return url.trim().replace(/\/+$/, '');
 }
 
+function withoutSource(profile: ServerProfile): ServerProfile {
+    const stored = { ...profile };
+    delete stored.source;
+    delete stored.sourceFolder;
+    return stored;
+}
+
+/** Same server: requests and stored credentials for one go to the other. */
+export function sameEndpoint(left: ServerProfile, right: ServerProfile): boolean {
+    return left.url === right.url
+        && left.transport === right.transport
+        && JSON.stringify(left.stdio) === JSON.stringify(right.stdio);
+}
+
+/** Same settings; timestamps are ignored because loading fills in missing ones. */
+function sameProfile(left: ServerProfile | undefined, right: ServerProfile): boolean {
+    const comparable = (profile: ServerProfile) => JSON.stringify({ ...withoutSource(profile), createdAt: '', updatedAt: '' });
+    return left !== undefined && comparable(left) === comparable(right);
+}
+
+function entryId(entry: unknown): string {
+    return String((entry as { id?: unknown } | undefined)?.id || '').trim();
+}
+
+function folderName(folderUri: string | undefined): string {
+    const folder = vscode.workspace.workspaceFolders?.find((candidate) => candidate.uri.toString() === folderUri);
+    return folder?.name ?? 'unknown folder';
+}
+
+/** Where a profile is defined, for pickers and connection details. */
+export function describeProfileSource(profile: ServerProfile): string {
+    switch (profile.source) {
+        case 'repository':
+            return `${REPOSITORY_PROFILES_FILE} (${folderName(profile.sourceFolder)})`;
+        case 'workspace':
+            return 'Workspace settings';
+        case 'workspaceFolder':
+            return `Folder settings (${folderName(profile.sourceFolder)})`;
+        default:
+            return 'User settings';
+    }
+}
+
+/**
+ * Resolves server profiles from user settings, each workspace folder's
+ * `.riotplan/servers.json`, workspace settings and folder settings, later
+ * layers replacing earlier ones by id. A repository entry cannot move a user
+ * profile to another server; it is ignored instead. Saving writes each profile back to the
+ * settings layer it came from; repository files are never written, so an edit
+ * to a repository profile is saved as a workspace override.
+ */
 export class ServerProfilesStore {
-    private readonly configuration = vscode.workspace.getConfiguration('riotplan');
+    /** Repository profiles as last loaded, to tell edited ones from untouched ones. */
+    private repositoryProfiles = new Map<string, ServerProfile>();
+    private repositoryActiveServerId: string | undefined;
+
+    private configuration(folder?: vscode.WorkspaceFolder): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('riotplan', folder?.uri);
+    }
 
     async loadProfiles(legacyServerUrl: string, legacyProxyBypass: boolean): Promise<{ profiles: ServerProfile[]; activeServerId: string }> {
-        const configured = this.configuration.get<unknown[]>('serverProfiles', []);
-        const normalized = configured
-            .map((entry) => normalizeServerProfile((entry || {}) as Partial<ServerProfile>))
-            .filter((entry): entry is ServerProfile => Boolean(entry));
+        const repositories = await this.readRepositoryProfiles();
+        const resolved = new Map<string, ServerProfile>();
+        this.repositoryProfiles = new Map();
+        for (const layer of this.readLayers(repositories)) {
+            for (const entry of layer.entries) {
+                const profile = normalizeServerProfile((entry || {}) as Partial<ServerProfile>);
+                if (!profile) {
+                    continue;
+                }
+                const shadowed = resolved.get(profile.id);
+                // Tokens are keyed by profile id, so a repository must not point a user's profile at another server.
+                if (layer.source === 'repository' && shadowed?.source === 'user' && !sameEndpoint(shadowed, profile)) {
+                    console.warn(
+                        `RiotPlan: ignoring "${profile.id}" in ${REPOSITORY_PROFILES_FILE} (${layer.folder?.name}): `
+                        + `it points your profile at ${profile.url} instead of ${shadowed.url}`
+                    );
+                    continue;
+                }
+                const located: ServerProfile = {
+                    ...profile,
+                    source: layer.source,
+                    ...(layer.folder ? { sourceFolder: layer.folder.uri.toString() } : {}),
+                };
+                resolved.delete(profile.id);
+                resolved.set(profile.id, located);
+                if (layer.source === 'repository') {
+                    this.repositoryProfiles.set(profile.id, located);
+                }
+            }
+        }
+        this.repositoryActiveServerId = repositories.map((repository) => repository.activeServerId).find(Boolean);
+        const normalized = [...resolved.values()];
 
         if (normalized.length > 0) {
             const configuredActive = this.getActiveServerId();
@@ -57,17 +174,69 @@ export class ServerProfilesStore {
         return { profiles: [created], activeServerId: created.id };
     }
 
+    /**
+     * Writes each profile to the layer it was loaded from; new profiles go to user
+     * settings. Unchanged entries and entries a higher layer overrides are kept as
+     * they are; ids missing from `profiles` are removed from every settings layer.
+     */
     async saveProfiles(profiles: ServerProfile[]): Promise<void> {
-        await this.configuration.update('serverProfiles', profiles, vscode.ConfigurationTarget.Global);
+        const ids = new Set(profiles.map((profile) => profile.id));
+        const owned = new Map<string, ServerProfile[]>();
+        for (const profile of profiles) {
+            let { source, sourceFolder } = profile;
+            if (source === 'repository') {
+                if (sameProfile(this.repositoryProfiles.get(profile.id), profile)) {
+                    continue;
+                }
+                source = 'workspace';
+                sourceFolder = undefined;
+            }
+            const key = source === 'workspaceFolder' ? `folder:${sourceFolder}` : source || 'user';
+            owned.set(key, [...(owned.get(key) ?? []), withoutSource(profile)]);
+        }
+
+        for (const layer of this.readLayers([])) {
+            const key = layer.source === 'workspaceFolder' ? `folder:${layer.folder?.uri.toString()}` : layer.source;
+            const mine = new Map((owned.get(key) ?? []).map((profile) => [profile.id, profile]));
+            const next: unknown[] = [];
+            for (const entry of layer.entries) {
+                const id = entryId(entry);
+                const profile = mine.get(id);
+                mine.delete(id);
+                if (profile) {
+                    const current = normalizeServerProfile((entry || {}) as Partial<ServerProfile>);
+                    next.push(sameProfile(current, profile) ? entry : profile);
+                } else if (ids.has(id)) {
+                    next.push(entry);
+                }
+            }
+            next.push(...mine.values());
+            if (JSON.stringify(next) === JSON.stringify(layer.entries)) {
+                continue;
+            }
+            await this.configuration(layer.folder).update('serverProfiles', next.length > 0 ? next : undefined, this.targetOf(layer.source));
+        }
     }
 
+    /** Workspace settings, then the repository file, then user settings. */
     getActiveServerId(): string | undefined {
-        const value = this.configuration.get<string>('activeServerId', '').trim();
+        const inspected = this.configuration().inspect<string>('activeServerId');
+        const value = [inspected?.workspaceValue, this.repositoryActiveServerId, inspected?.globalValue]
+            .map((candidate) => candidate?.trim())
+            .find(Boolean);
         return value || undefined;
     }
 
+    /** Stays in the workspace when the workspace or its repository chose the active server. */
     async setActiveServerId(serverId: string): Promise<void> {
-        await this.configuration.update('activeServerId', serverId, vscode.ConfigurationTarget.Global);
+        const inspected = this.configuration().inspect<string>('activeServerId');
+        const workspaceScoped = Boolean(vscode.workspace.workspaceFolders?.length)
+            && (inspected?.workspaceValue !== undefined || this.repositoryActiveServerId !== undefined);
+        await this.configuration().update(
+            'activeServerId',
+            serverId,
+            workspaceScoped ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global
+        );
     }
 
     createDefaultProfile(legacyServerUrl: string, legacyProxyBypass: boolean): ServerProfile {
@@ -82,4 +251,62 @@ export class ServerProfilesStore {
             updatedAt: timestamp,
         };
     }
+
+    /** Settings layers in precedence order, with repository files after user settings. */
+    private readLayers(repositories: RepositoryProfiles[]): ProfileLayer[] {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const inspected = this.configuration().inspect<unknown[]>('serverProfiles');
+        const layers: ProfileLayer[] = [{ source: 'user', entries: inspected?.globalValue ?? [] }];
+        for (const repository of repositories) {
+            layers.push({ source: 'repository', folder: repository.folder, entries: repository.servers });
+        }
+        if (folders.length > 0) {
+            layers.push({ source: 'workspace', entries: inspected?.workspaceValue ?? [] });
+        }
+        for (const folder of folders) {
+            const folderValue = this.configuration(folder).inspect<unknown[]>('serverProfiles')?.workspaceFolderValue;
+            layers.push({ source: 'workspaceFolder', folder, entries: folderValue ?? [] });
+        }
+        return layers.map((layer) => ({ ...layer, entries: Array.isArray(layer.entries) ? layer.entries : [] }));
+    }
+
+    private targetOf(source: ServerProfileSource): vscode.ConfigurationTarget {
+        switch (source) {
+            case 'workspace':
+                return vscode.ConfigurationTarget.Workspace;
+            case 'workspaceFolder':
+                return vscode.ConfigurationTarget.WorkspaceFolder;
+            default:
+                return vscode.ConfigurationTarget.Global;
+        }
+    }
+
+    /** A repository can name a server to launch, so its file is only read in a trusted workspace. */
+    private async readRepositoryProfiles(): Promise<RepositoryProfiles[]> {
+        if (!vscode.workspace.isTrusted) {
+            return [];
+        }
+        const repositories: RepositoryProfiles[] = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const file = vscode.Uri.joinPath(folder.uri, ...REPOSITORY_PROFILES_FILE.split('/'));
+            let raw: unknown;
+            try {
+                raw = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8'));
+            } catch (error) {
+                if (!(error instanceof vscode.FileSystemError)) {
+                    console.warn(`RiotPlan: ignoring ${REPOSITORY_PROFILES_FILE} in ${folder.name}:`, error);
+                }
+                continue;
+            }
+            const record = (raw && typeof raw === 'object' ? raw : {}) as { servers?: unknown; activeServerId?: unknown };
+            repositories.push({
+                folder,
+                servers: Array.isArray(record.servers) ? record.servers : [],
+                activeServerId: typeof record.activeServerId === 'string' && record.activeServerId.trim()
+                    ? record.activeServerId.trim()
+                    : undefined,
+            });
+        }
+        return repositories;
+    }
 }
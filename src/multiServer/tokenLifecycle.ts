@@ -0,0 +1,79 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Result of trying a token against a server before it is stored or swapped in. */
+export interface TokenCheckResult {
+    ok: boolean;
+    /** `unauthorized`, `server_unreachable`, `missing_riotplan_tools`, or a TLS or socket message. */
+    reason?: string;
+}
+
+export interface TokenExpiryNotice {
+    state: 'expired' | 'expiring';
+    expiresAt: Date;
+    /** Whole days until expiry, rounded up; 0 or less once expired. */
+    daysLeft: number;
+}
+
+function decodeBase64Url(segment: string): string {
+    return Buffer.from(segment.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+}
+
+/**
+ * Expiry from the `exp` claim of a JWT-shaped token. The signature is not
+ * checked; the server decides whether the token is valid, this only feeds
+ * warnings. Opaque tokens and JWTs without `exp` have no known expiry.
+ */
+export function tokenExpiry(token: string | undefined): Date | undefined {
+    const parts = (token || '').trim().split('.');
+    if (parts.length !== 3 || !parts.every((part) => /^[A-Za-z0-9_-]+={0,2}$/.test(part))) {
+        return undefined;
+    }
+    try {
+        const payload = JSON.parse(decodeBase64Url(parts[1])) as { exp?: unknown };
+        return typeof payload?.exp === 'number' && Number.isFinite(payload.exp) ? new Date(payload.exp * 1000) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/** A notice when the token has expired or expires within `warnDays`; `warnDays` 0 turns advance warnings off. */
+export function tokenExpiryNotice(
+    expiresAt: Date | undefined,
+    warnDays: number,
+    now: Date = new Date()
+): TokenExpiryNotice | undefined {
+    if (!expiresAt) {
+        return undefined;
+    }
+    const remainingMs = expiresAt.getTime() - now.getTime();
+    const daysLeft = Math.ceil(remainingMs / DAY_MS);
+    if (remainingMs <= 0) {
+        return { state: 'expired', expiresAt, daysLeft };
+    }
+    return warnDays > 0 && remainingMs <= warnDays * DAY_MS ? { state: 'expiring', expiresAt, daysLeft } : undefined;
+}
+
+export function describeTokenExpiry(expiresAt: Date, now: Date = new Date()): string {
+    const date = expiresAt.toISOString().slice(0, 10);
+    const days = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+    if (days <= 0) {
+        return `expired ${date}`;
+    }
+    return days === 1 ? `expires within a day (${date})` : `expires in ${days} days (${date})`;
+}
+
+export function describeTokenCheck(result: TokenCheckResult): string {
+    if (result.ok) {
+        return 'accepted by the server';
+    }
+    switch (result.reason) {
+        case 'unauthorized':
+            return 'rejected by the server (HTTP 401)';
+        case 'server_unreachable':
+            return 'could not be checked: the server is unreachable';
+        case 'missing_riotplan_tools':
+            return 'could not be checked: the server does not offer RiotPlan tools';
+        default:
+            return `could not be checked: ${result.reason || 'unknown error'}`;
+    }
+}
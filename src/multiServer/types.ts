@@ -1,13 +1,48 @@
+import type { AuthScheme, HeaderSetting } from '../mcp-auth';
+import type { RequestTimeoutPolicy } from '../mcp-request';
+import type { CircuitSnapshot } from '../mcp-resilience';
+import type { StdioServerSettings } from '../mcp-stdio';
+import type { TlsSettings } from '../mcp-tls';
+
+export type ServerAuthMode = 'token' | 'oauth';
+
+/** `http` (default): Streamable HTTP at `url`. `stdio`: a local process launched from `stdio`. */
+export type ServerTransport = 'http' | 'stdio';
+
+/**
+ * Layer an effective profile was resolved from. Later layers win for the same id:
+ * user settings, then `.riotplan/servers.json`, workspace settings, folder settings.
+ */
+export type ServerProfileSource = 'user' | 'repository' | 'workspace' | 'workspaceFolder';
+
 export type ServerConnectionState = 'connected' | 'connecting' | 'degraded' | 'disconnected';
 
 export interface ServerProfile {
     id: string;
     name: string;
+    /** Server URL; `stdio:<command>` for stdio profiles. */
     url: string;
     enabled: boolean;
+    transport?: ServerTransport;
+    /** Command, arguments, environment and working directory of a stdio profile's server. */
+    stdio?: StdioServerSettings;
     proxyBypass: boolean;
+    /** `token` (default): static API token from secret storage. `oauth`: MCP OAuth 2.1 sign-in. */
+    authMode?: ServerAuthMode;
+    /** How a `token` profile sends its token; OAuth profiles always use bearer. */
+    authScheme?: AuthScheme;
+    /** Static headers sent with every request; secret values live in SecretStorage. */
+    headers?: HeaderSetting[];
+    /** Per-request-class timeout overrides in milliseconds. */
+    timeouts?: Partial<RequestTimeoutPolicy>;
+    /** Private CA, client certificate, pinning; applies to https URLs only. */
+    tls?: TlsSettings;
     createdAt: string;
     updatedAt: string;
+    /** Set when profiles are loaded; never persisted. */
+    source?: ServerProfileSource;
+    /** Workspace folder URI of a `repository` or `workspaceFolder` profile. */
+    sourceFolder?: string;
 }
 
 export interface ServerRuntimeStatus {
@@ -16,6 +51,14 @@ export interface ServerRuntimeStatus {
     serverUrl: string;
     sessionId?: string | null;
     lastError?: string;
+    /** Request circuit breaker state; `open` means requests fail fast until `retryAt`. */
+    circuit?: CircuitSnapshot;
+    /** Round-trip time of the last successful health check. */
+    latencyMs?: number;
+    /** Health checks failed in a row since the last success. */
+    consecutiveFailures?: number;
+    /** When the health monitor last probed the server (epoch ms). */
+    lastCheckedAt?: number;
 }
 
 export interface ResolvedServerRef {
@@ -6,11 +6,38 @@
  */
 
 import * as vscode from 'vscode';
-import { HttpMcpClient } from './mcp-client';
+import { HttpMcpClient, isUnauthorizedError } from './mcp-client';
+import { PlanContext, PlanStatus, SchemaValidationError, Step } from './mcp-models';
+import { notificationResourceUris } from './mcp-resources';
+import { describeLastSynced, OfflineCache } from './multiServer/offlineCache';
+import { ProgressForwarder } from './progress-reporting';
+
+type PlanArtifact = { content: string | null } | null;
+
+/** Webview messages that change the plan on the server. */
+const EDIT_COMMANDS = new Set([
+    'saveIdeaContent',
+    'saveEvidenceContent',
+    'addEvidence',
+    'removeEvidence',
+    'changePlanProject',
+    'renamePlan',
+]);
+
+/** Context pieces are optional; a payload that fails validation fails the whole load. */
+function unlessSchemaError<T>(promise: Promise<T>, fallback: T): Promise<T> {
+    return promise.catch((error) => {
+        if (error instanceof SchemaValidationError) {
+            throw error;
+        }
+        return fallback;
+    });
+}
 
 export class PlanDetailPanel {
     public static readonly viewType = 'riotplanDetail';
     public static currentPanels = new Map<string, PlanDetailPanel>();
+    private static offlineCache?: OfflineCache;
 
     private readonly _panel: vscode.WebviewPanel;
     private _disposables: vscode.Disposable[] = [];
@@ -21,12 +48,16 @@ export class PlanDetailPanel {
     private refreshTimer?: ReturnType<typeof setTimeout>;
     private projectMetaRefreshTimer?: ReturnType<typeof setTimeout>;
     private readonly subscribedResourceUris = new Set<string>();
+    /** A cached copy is shown because the server is unreachable; edits are refused. */
+    private showingCachedCopy = false;
 
     private constructor(
         panel: vscode.WebviewPanel,
         private readonly planPath: string,
         mcpClient: HttpMcpClient,
-        private readonly initialProject?: any
+        private readonly initialProject?: any,
+        /** Profile id the plan belongs to; keys its offline snapshot. */
+        private serverId?: string
     ) {
         this._panel = panel;
         this.mcpClient = mcpClient;
@@ -41,6 +72,11 @@ export class PlanDetailPanel {
         this._loadContent();
     }
 
+    /** Panels snapshot what they render here and fall back to it while the server is unreachable. */
+    static setOfflineCache(cache: OfflineCache | undefined): void {
+        PlanDetailPanel.offlineCache = cache;
+    }
+
     static updateClientForAll(mcpClient: HttpMcpClient): void {
         for (const panel of PlanDetailPanel.currentPanels.values()) {
             panel.updateClient(mcpClient);
@@ -77,7 +113,7 @@ export class PlanDetailPanel {
         this.unsubscribeNotification = this.mcpClient.onNotification(
             'notifications/resource_changed',
             async (data: unknown) => {
-                const uris = this.extractNotificationUris(data);
+                const uris = notificationResourceUris(data);
                 const matchingUris = uris.filter((uri) => this.resourceMatchesPlan(uri));
                 if (matchingUris.length === 0) {
                     return;
@@ -116,12 +152,14 @@ export class PlanDetailPanel {
         planPath: string,
         planName: string,
         mcpClient: HttpMcpClient,
-        initialProject?: any
+        initialProject?: any,
+        serverId?: string
     ): void {
         const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One;
 
         const existing = PlanDetailPanel.currentPanels.get(planPath);
         if (existing) {
+            existing.serverId = serverId;
             existing.updateClient(mcpClient);
             existing._panel.reveal(column);
             existing._panel.title = planName;
@@ -137,11 +175,15 @@ export class PlanDetailPanel {
 
         PlanDetailPanel.currentPanels.set(
             planPath,
-            new PlanDetailPanel(panel, planPath, mcpClient, initialProject)
+            new PlanDetailPanel(panel, planPath, mcpClient, initialProject, serverId)
         );
     }
 
     private async _handleMessage(msg: any): Promise<void> {
+        if (this.showingCachedCopy && EDIT_COMMANDS.has(msg.command)) {
+            vscode.window.showWarningMessage('The server is unreachable. Refresh the plan once it is back to make changes.');
+            return;
+        }
         switch (msg.command) {
             case 'refresh':
                 await this._loadContent();
@@ -197,7 +239,7 @@ export class PlanDetailPanel {
         try {
             const [status, context, planResource, projectBinding, summaryArtifact, executionPlanArtifact, steps] = await Promise.all([
                 this.mcpClient.getPlanStatus(this.planPath),
-                this.mcpClient.readContext(this.planPath).catch(() => null),
+                unlessSchemaError<PlanContext | null>(this.mcpClient.readContext(this.planPath), null),
                 this.mcpClient.getPlanResource(this.planPath).catch(() => null),
                 this.mcpClient.getProjectBinding(this.planPath).catch(() => null),
                 this.mcpClient.getArtifact(this.planPath, 'summary').catch(() => null),
@@ -206,15 +248,12 @@ export class PlanDetailPanel {
             ]);
 
             const enrichedContext = {
-                ...context,
+                ...(context || {}),
                 summary: summaryArtifact,
                 executionPlan: executionPlanArtifact,
             };
 
-            const statusWithSteps = {
-                ...(status || {}),
-                steps: Array.isArray(steps) ? steps : [],
-            };
+            const statusWithSteps = { ...status, steps };
 
             const boundProject = projectBinding?.project || null;
             const effectivePlanResource = {
@@ -222,12 +261,51 @@ export class PlanDetailPanel {
                 project: boundProject || planResource?.project || this.initialProject || null,
             };
 
+            this.showingCachedCopy = false;
             this._panel.webview.html = this._getHtml(statusWithSteps, enrichedContext, effectivePlanResource);
+            if (PlanDetailPanel.offlineCache && this.serverId) {
+                void PlanDetailPanel.offlineCache.setPlanDetail(this.serverId, this.planPath, {
+                    status,
+                    context,
+                    steps,
+                    summary: summaryArtifact?.content ?? null,
+                    executionPlan: executionPlanArtifact?.content ?? null,
+                }).catch(() => undefined);
+            }
         } catch (error) {
+            const cached = await this._loadCachedSnapshot(error);
+            if (cached) {
+                const { data, syncedAt } = cached;
+                this.showingCachedCopy = true;
+                this._panel.webview.html = this._getHtml(
+                    { ...data.status, steps: data.steps },
+                    {
+                        ...(data.context || {}),
+                        summary: { content: data.summary ?? null },
+                        executionPlan: { content: data.executionPlan ?? null },
+                    },
+                    { project: this.initialProject || null },
+                    syncedAt
+                );
+                return;
+            }
+            this.showingCachedCopy = false;
             this._panel.webview.html = this._getErrorHtml(String(error));
         }
     }
 
+    /**
+     * Offline snapshot to show instead of `error`. Auth and schema failures are
+     * shown as errors: old data would hide something the user has to fix.
+     */
+    private async _loadCachedSnapshot(error: unknown) {
+        if (!PlanDetailPanel.offlineCache || !this.serverId
+            || isUnauthorizedError(error) || error instanceof SchemaValidationError) {
+            return undefined;
+        }
+        return PlanDetailPanel.offlineCache.getPlanDetail(this.serverId, this.planPath).catch(() => undefined);
+    }
+
     private scheduleRefresh(): void {
         if (this.refreshTimer) {
             clearTimeout(this.refreshTimer);
@@ -293,22 +371,6 @@ export class PlanDetailPanel {
         }
     }
 
-    private extractNotificationUris(data: unknown): string[] {
-        const params = data as {
-            uri?: unknown;
-            resource?: { uri?: unknown };
-            resources?: Array<{ uri?: unknown }>;
-            uris?: unknown[];
-        };
-        const values: unknown[] = [
-            params?.uri,
-            params?.resource?.uri,
-            ...(Array.isArray(params?.resources) ? params.resources.map((resource) => resource?.uri) : []),
-            ...(Array.isArray(params?.uris) ? params.uris : []),
-        ];
-        return values.filter((value): value is string => typeof value === 'string' && value.length > 0);
-    }
-
     private resourceMatchesPlan(uri: string): boolean {
         const normalizedPlanPath = this.planPath.toLowerCase();
         const encodedPlanPath = encodeURIComponent(this.planPath).toLowerCase();
@@ -458,17 +520,18 @@ export class PlanDetailPanel {
                             const currentIndex = nextIndex;
                             nextIndex += 1;
                             const currentFilename = resolvedFilenames[currentIndex];
+                            // Server progress fills this item's slice of the bar as it goes.
+                            const itemProgress = new ProgressForwarder(progress, incrementPerItem, currentFilename);
                             try {
-                                await this.mcpClient.removeEvidence(this.planPath, currentFilename);
+                                await this.mcpClient.removeEvidence(this.planPath, currentFilename, {
+                                    onProgress: itemProgress.onProgress,
+                                });
                                 removed.push(currentFilename);
                             } catch (error) {
                                 failures.push(String(error));
                             }
                             completed += 1;
-                            progress.report({
-                                increment: incrementPerItem,
-                                message: `${completed}/${itemCount}`,
-                            });
+                            itemProgress.complete(`${completed}/${itemCount}`);
                         }
                     };
 
@@ -734,16 +797,21 @@ export class PlanDetailPanel {
 </body></html>`;
     }
 
-    private _getHtml(status: any, context: any, planResource: any): string {
-        const name = this._esc(status?.name || status?.code || 'Unknown Plan');
-        const code = this._esc(status?.code || '');
-        const planStatus = status?.status || context?.stage || 'unknown';
-        const stage = context?.stage || planStatus;
-        const progress = status?.progress ?? { completed: 0, total: 0, percentage: 0 };
-        const steps = (status?.steps || []) as Array<{
-            number: number; title: string; status: string; startedAt?: string; completedAt?: string;
-        }>;
-        const lastUpdated = status?.lastUpdated
+    private _getHtml(
+        status: PlanStatus & { steps: Step[] },
+        context: Partial<PlanContext> & { summary: PlanArtifact; executionPlan: PlanArtifact },
+        planResource: any,
+        staleSyncedAt?: string
+    ): string {
+        const readOnly = Boolean(staleSyncedAt);
+        const disabled = readOnly ? ' disabled' : '';
+        const name = this._esc(status.name || status.code || 'Unknown Plan');
+        const code = this._esc(status.code || '');
+        const planStatus = status.status || context.stage || 'unknown';
+        const stage = context.stage || planStatus;
+        const progress = status.progress ?? { completed: 0, total: 0, percentage: 0 };
+        const steps = status.steps;
+        const lastUpdated = status.lastUpdated
             ? new Date(status.lastUpdated).toLocaleString() : '';
         const projectPath = this._esc(planResource?.metadata?.projectPath || '');
         const project = planResource?.project || this.initialProject || null;
@@ -752,19 +820,15 @@ export class PlanDetailPanel {
         const repoUrl = this._esc(repoUrlRaw);
 
         // Context data
-        const ideaContent = context?.idea?.content || '';
-        const shapingContent = context?.shaping?.content || '';
-        const selectedApproach = context?.shaping?.selectedApproach || '';
-        const summaryContent = context?.summary?.content || '';
-        const executionPlanContent = context?.executionPlan?.content || '';
-        const constraints = (context?.constraints || []) as string[];
-        const questions = (context?.questions || []) as string[];
-        const evidenceFiles = (context?.evidence?.files || []) as Array<{
-            name: string; title?: string; preview: string; size: number; createdAt?: string;
-        }>;
-        const historyEvents = (context?.history?.recentEvents || []) as Array<{
-            type: string; timestamp: string; summary: string;
-        }>;
+        const ideaContent = context.idea?.content || '';
+        const shapingContent = context.shaping?.content || '';
+        const selectedApproach = context.shaping?.selectedApproach || '';
+        const summaryContent = context.summary?.content || '';
+        const executionPlanContent = context.executionPlan?.content || '';
+        const constraints = context.constraints || [];
+        const questions = context.questions || [];
+        const evidenceFiles = context.evidence?.files || [];
+        const historyEvents = context.history?.recentEvents || [];
 
         // Stage/status colors
         const stagePalette: Record<string, { bg: string; text: string }> = {
@@ -961,6 +1025,14 @@ body {
     overflow-x: hidden;
 }
 
+/* ── Offline banner ──────────────────────────────────────────── */
+.stale-banner {
+    padding: 8px 24px;
+    font-size: 12px;
+    background: var(--vscode-inputValidation-warningBackground, rgba(184, 149, 0, 0.15));
+    border-bottom: 1px solid var(--vscode-inputValidation-warningBorder, #b89500);
+}
+
 /* ── Header ──────────────────────────────────────────────────── */
 .header {
     padding: 20px 24px 0;
@@ -1184,6 +1256,12 @@ body {
     background: var(--vscode-toolbar-hoverBackground);
     color: var(--vscode-editor-foreground);
 }
+.action-btn:disabled,
+.evidence-context-item:disabled {
+    opacity: 0.5;
+    cursor: default;
+    pointer-events: none;
+}
 .action-btn.primary {
     background: var(--vscode-button-background, #0e639c);
     border-color: var(--vscode-button-background, #0e639c);
@@ -2005,10 +2083,12 @@ body {
 </head>
 <body>
 
+${staleSyncedAt ? `<div class="stale-banner">Server unreachable: showing a cached copy, ${this._esc(describeLastSynced(staleSyncedAt))}. Editing is unavailable until the server is back.</div>` : ''}
+
 <!-- ── Header ───────────────────────────────────────── -->
 <div class="header">
   <div class="title-row">
-    <h1 class="plan-title editable" id="plan-title-text" title="Click to rename plan">${name}</h1>
+    <h1 class="plan-title${readOnly ? '' : ' editable'}" id="plan-title-text"${readOnly ? '' : ' title="Click to rename plan"'}>${name}</h1>
     <span class="badge" style="background:${stagePal.bg};color:${stagePal.text}">${this._esc(stage)}</span>
     ${planStatus !== stage ? `<span class="badge" style="background:${statusPal.bg};color:${statusPal.text}">${this._esc(planStatus)}</span>` : ''}
     <button class="refresh-btn" onclick="refresh()">↻ Refresh</button>
@@ -2025,7 +2105,7 @@ body {
   <div class="meta-row">
     ${code ? `<span class="meta-item"><span class="label">code:</span> ${code}<button id="copy-plan-id-btn" class="copy-inline-btn" title="Copy plan ID">⧉</button></span>` : ''}
     ${lastUpdated ? `<span class="meta-item"><span class="label">updated:</span> ${this._esc(lastUpdated)}</span>` : ''}
-    ${status?.lastCompleted ? `<span class="meta-item"><span class="label">last step:</span> ${status.lastCompleted}</span>` : ''}
+    ${status.lastCompleted ? `<span class="meta-item"><span class="label">last step:</span> ${this._esc(status.lastCompleted)}</span>` : ''}
     <span class="meta-item" id="project-meta-item"${projectName ? '' : ' style="display:none"'}><span class="label">project:</span> <a href="#" id="open-project-entity-link" class="meta-link">${projectName}</a></span>
     <span class="meta-item" id="project-path-meta-item"${projectPath ? '' : ' style="display:none"'}><span class="label">project path:</span> <span class="mono" id="project-path-meta-value">${projectPath}</span></span>
     <span class="meta-item" id="repo-meta-item"${repoUrl ? '' : ' style="display:none"'}><span class="label">repo:</span> <a class="meta-link" id="repo-meta-link" href="${repoUrl}">${repoUrl}</a></span>
@@ -2059,7 +2139,7 @@ body {
       <div class="quick-stats">
         <div class="stat-item"><span class="stat-label">Stage</span><span class="stat-value">${this._esc(stage)}</span></div>
         <div class="stat-item"><span class="stat-label">Progress</span><span class="stat-value">${progress.completed}/${progress.total} steps (${Math.round(pct)}%)</span></div>
-        ${steps.length > 0 ? `<div class="stat-item"><span class="stat-label">Current Step</span><span class="stat-value">${status?.currentStep || 'N/A'}</span></div>` : ''}
+        ${steps.length > 0 ? `<div class="stat-item"><span class="stat-label">Current Step</span><span class="stat-value">${this._esc(String(status.currentStep || 'N/A'))}</span></div>` : ''}
         ${selectedApproach ? `<div class="stat-item"><span class="stat-label">Approach</span><span class="stat-value">${this._esc(selectedApproach)}</span></div>` : ''}
         <div class="stat-item"><span class="stat-label">Shaping Proposals</span><span class="stat-value">${shapingApproachNames.length}</span></div>
         <div class="stat-item"><span class="stat-label">Evidence</span><span class="stat-value">${evidenceFiles.length}</span></div>
@@ -2073,7 +2153,7 @@ body {
 <!-- ── Idea tab ────────────────────────────────────── -->
 <div id="pane-idea" class="pane">
   <div class="section-toolbar">
-    <button class="action-btn" id="edit-idea-btn">✎ Edit Idea</button>
+    <button class="action-btn" id="edit-idea-btn"${disabled}>✎ Edit Idea</button>
   </div>
   <!-- View mode -->
   <div id="idea-view">
@@ -2095,7 +2175,7 @@ body {
 <!-- ── Evidence tab ─────────────────────────────────── -->
 <div id="pane-evidence" class="pane">
   <div class="section-toolbar">
-    <button class="action-btn" id="add-evidence-toggle" onclick="toggleNewEvidenceForm()">+ Add Evidence</button>
+    <button class="action-btn" id="add-evidence-toggle" onclick="toggleNewEvidenceForm()"${disabled}>+ Add Evidence</button>
   </div>
   <!-- New evidence form -->
   <div id="new-evidence-form" class="evidence-form" style="display:none">
@@ -2146,7 +2226,7 @@ body {
   <div id="evidence-context-menu" class="evidence-context-menu" style="display:none">
     <button class="evidence-context-item" id="evidence-context-copy-url">Copy Evidence URL</button>
     <button class="evidence-context-item" id="evidence-context-copy-content">Copy Evidence Content</button>
-    <button class="evidence-context-item danger" id="evidence-context-remove">Remove Evidence</button>
+    <button class="evidence-context-item danger" id="evidence-context-remove"${disabled}>Remove Evidence</button>
   </div>
 </div>
 
@@ -2199,6 +2279,7 @@ body {
 <script>
 // ── VSCode API + tab state + refresh ────────────────────────
 var vscode = acquireVsCodeApi();
+var readOnly = ${readOnly};
 var webviewState = vscode.getState() || {};
 
 function getActiveTab() {
@@ -2483,7 +2564,7 @@ if (cancelIdeaBtn) { cancelIdeaBtn.addEventListener('click', cancelEditIdea); }
 var copyPlanIdBtn = document.getElementById('copy-plan-id-btn');
 if (copyPlanIdBtn) { copyPlanIdBtn.addEventListener('click', copyPlanId); }
 var planTitleEl = document.getElementById('plan-title-text');
-if (planTitleEl) {
+if (planTitleEl && !readOnly) {
     planTitleEl.addEventListener('click', function() {
         requestPlanRename();
     });
@@ -2492,7 +2573,7 @@ var openProjectEntityLink = document.getElementById('open-project-entity-link');
 if (openProjectEntityLink) {
     openProjectEntityLink.addEventListener('click', function(event) {
         event.preventDefault();
-        changePlanProject();
+        if (!readOnly) { changePlanProject(); }
     });
 }
 
@@ -2711,7 +2792,7 @@ function setEvidenceRemovalPending(pending, filenames) {
     });
     var removeBtn = document.getElementById('evidence-context-remove');
     if (removeBtn) {
-        removeBtn.disabled = !!pending;
+        removeBtn.disabled = readOnly || !!pending;
         removeBtn.textContent = pending ? 'Removing…' : 'Remove Evidence';
     }
 }
@@ -5,7 +5,15 @@
  */
 
 import * as vscode from 'vscode';
-import { HttpMcpClient, isUnauthorizedError } from './mcp-client';
+import { isUnauthorizedError } from './mcp-client';
+import {
+    describeUnavailableServer,
+    readServerOutcomes,
+    ServerListOutcome,
+    SnapshotSource,
+    unavailableServers,
+} from './multiServer/aggregator';
+import { describeLastSynced } from './multiServer/offlineCache';
 
 export type PlanCategory = 'active' | 'done' | 'hold';
 export type PlanSortOrder = 'name-asc' | 'name-desc' | 'stage-asc' | 'progress-desc' | 'progress-asc';
@@ -25,7 +33,9 @@ export class PlanItem extends vscode.TreeItem {
         public readonly progress?: { completed: number; total: number; percentage: number },
         public readonly project?: any,
         public readonly serverName?: string,
-        public readonly itemCount?: number
+        public readonly itemCount?: number,
+        /** Set when the plan comes from the offline cache. */
+        public readonly staleSyncedAt?: string
     ) {
         super(label, collapsibleState);
 
@@ -45,6 +55,10 @@ export class PlanItem extends vscode.TreeItem {
             if (progress) {
                 this.description = `${serverPrefix}${progress.percentage}% · ${projectLabel}`;
             }
+            if (staleSyncedAt) {
+                this.description = `${this.description} · offline`;
+                this.tooltip = `${this.tooltip}\nServer unreachable; ${describeLastSynced(staleSyncedAt)}`;
+            }
         } else if (category && dayKey) {
             this.contextValue = 'plan-day-group';
             this.iconPath = new vscode.ThemeIcon('history');
@@ -58,6 +72,27 @@ export class PlanItem extends vscode.TreeItem {
             }
         }
     }
+
+    /** Stands in for a server whose plans could not be loaded, so its absence is visible. */
+    static serverUnavailable(server: ServerListOutcome): PlanItem {
+        const label = describeUnavailableServer(server);
+        const item = new PlanItem(label, vscode.TreeItemCollapsibleState.None);
+        item.contextValue = 'plan-server-unavailable';
+        item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        item.tooltip = `${label}\nPlans from the other servers are still listed. Refresh to try again.`;
+        item.command = {
+            command: 'riotplan.showServerConnectionDetails',
+            title: 'Show Connection Details',
+            arguments: [server.serverId],
+        };
+        return item;
+    }
+}
+
+/** A single client, or the aggregator with its shared plan-list snapshot. */
+export interface PlanListSource extends SnapshotSource {
+    listPlans(filter?: 'all' | PlanCategory): Promise<any>;
+    movePlan(planId: string, target: PlanCategory): Promise<any>;
 }
 
 export class PlansTreeProvider implements vscode.TreeDataProvider<PlanItem>, vscode.TreeDragAndDropController<PlanItem> {
@@ -73,13 +108,15 @@ export class PlansTreeProvider implements vscode.TreeDataProvider<PlanItem>, vsc
     private visibleCategories: Set<PlanCategory> = new Set(['active', 'done', 'hold']);
     private sortOrder: PlanSortOrder = 'name-asc';
 
-    constructor(private mcpClient: HttpMcpClient) {}
+    constructor(private mcpClient: PlanListSource) {}
 
-    updateClient(client: HttpMcpClient): void {
+    updateClient(client: PlanListSource): void {
         this.mcpClient = client;
     }
 
     refresh(): void {
+        // The aggregator shares one plan-list snapshot across views; a refresh starts the next one.
+        this.mcpClient.invalidateSnapshot?.();
         this._onDidChangeTreeData.fire();
     }
 
@@ -137,16 +174,12 @@ export class PlansTreeProvider implements vscode.TreeDataProvider<PlanItem>, vsc
                 { label: 'Hold', category: 'hold' },
             ];
             const visible = categories.filter((entry) => this.visibleCategories.has(entry.category));
-            if (visible.length === 0) {
-                return [];
-            }
-            const categoryCounts = await Promise.all(
-                visible.map(async (entry) => ({
-                    ...entry,
-                    count: (await this.fetchPlans(entry.category)).length,
-                }))
-            );
-            return categoryCounts.map(
+            // One listing gives every count and the servers that could not be listed.
+            const { plans, servers } = await this.fetchPlanList();
+            const unavailable = unavailableServers(servers)
+                .filter((server) => this.matchesServerFilter(server))
+                .map((server) => PlanItem.serverUnavailable(server));
+            const categoryItems = visible.map(
                 (entry, index) =>
                     new PlanItem(
                         entry.label,
@@ -160,9 +193,10 @@ export class PlansTreeProvider implements vscode.TreeDataProvider<PlanItem>, vsc
                         undefined,
                         undefined,
                         undefined,
-                        entry.count
+                        this.filterPlans(plans, entry.category).length
                     )
             );
+            return [...categoryItems, ...unavailable];
         }
 
         // Day-group level - show plans for the selected day bucket.
@@ -312,17 +346,25 @@ export class PlansTreeProvider implements vscode.TreeDataProvider<PlanItem>, vsc
         }
     }
 
-    private async fetchPlans(category: PlanCategory): Promise<any[]> {
-        const response = await this.mcpClient.listPlans(category);
+    /** Every category and day group filters the same `all` list, so a render costs one list call. */
+    private async fetchPlanList(): Promise<{ plans: any[]; servers: ServerListOutcome[] }> {
+        const response = await this.mcpClient.listPlans('all');
         if (!response?.content?.length) {
-            return [];
+            return { plans: [], servers: [] };
         }
         const content = response.content[0];
         if (content.type !== 'text') {
-            return [];
+            return { plans: [], servers: [] };
         }
         const data = JSON.parse(content.text);
-        const plans = data.plans || [];
+        return { plans: data.plans || [], servers: readServerOutcomes(data) };
+    }
+
+    private async fetchPlans(category: PlanCategory): Promise<any[]> {
+        return this.filterPlans((await this.fetchPlanList()).plans, category);
+    }
+
+    private filterPlans(plans: any[], category: PlanCategory): any[] {
         return plans
             .filter((plan: any) => this.getPlanCategory(plan) === category)
             .filter((plan: any) => this.matchesProjectFilter(plan))
@@ -386,7 +428,9 @@ export class PlansTreeProvider implements vscode.TreeDataProvider<PlanItem>, vsc
             plan.stage,
             plan.progress,
             plan.project,
-            plan.serverName
+            plan.serverName,
+            undefined,
+            plan.stale ? plan.syncedAt : undefined
         );
     }
 
@@ -0,0 +1,73 @@
+/**
+ * Forwards client progress updates into a `vscode.window.withProgress` notification
+ *
+ * VS Code progress is reported in increments, while servers report absolute
+ * positions, so each forwarder tracks how much of its share of the bar it has
+ * already filled. Several forwarders can split one bar (e.g. download + upload).
+ */
+
+import * as vscode from 'vscode';
+import type { ProgressUpdate } from './mcp-request';
+
+type ProgressSink = vscode.Progress<{ message?: string; increment?: number }>;
+
+export class ProgressForwarder {
+    private reported = 0;
+
+    /**
+     * @param share Percentage of the whole bar this step owns.
+     * @param label Message prefix, e.g. "Uploading plan file".
+     * @param unit `bytes` shows byte counts (plan file transfers) instead of a percentage.
+     */
+    constructor(
+        private readonly progress: ProgressSink,
+        private readonly share: number,
+        private readonly label: string,
+        private readonly unit?: 'bytes'
+    ) {}
+
+    /** Pass as `RequestOptions.onProgress`. */
+    readonly onProgress = (update: ProgressUpdate): void => {
+        const fraction = update.total ? Math.min(1, Math.max(0, update.progress / update.total)) : undefined;
+        const target = fraction !== undefined ? fraction * this.share : this.reported;
+        const increment = Math.max(0, target - this.reported);
+        this.reported += increment;
+        const detail = update.message || this.describe(update, fraction);
+        this.progress.report({
+            message: detail ? `${this.label} (${detail})` : this.label,
+            ...(increment > 0 ? { increment } : {}),
+        });
+    };
+
+    private describe(update: ProgressUpdate, fraction: number | undefined): string | undefined {
+        if (this.unit === 'bytes') {
+            const done = formatByteCount(update.progress);
+            return update.total ? `${done} of ${formatByteCount(update.total)}` : done;
+        }
+        return fraction !== undefined ? `${Math.round(fraction * 100)}%` : undefined;
+    }
+
+    /** Fill whatever is left of this step's share. */
+    complete(message?: string): void {
+        const increment = Math.max(0, this.share - this.reported);
+        this.reported = this.share;
+        this.progress.report({
+            ...(message ? { message } : {}),
+            ...(increment > 0 ? { increment } : {}),
+        });
+    }
+}
+
+export function formatByteCount(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit += 1;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
@@ -1,15 +1,16 @@
 import * as vscode from 'vscode';
-import { HttpMcpClient, isUnauthorizedError } from './mcp-client';
+import { isUnauthorizedError } from './mcp-client';
+import { ContextProject } from './mcp-models';
+import {
+    AggregatedProjectList,
+    describeUnavailableServer,
+    ServerListOutcome,
+    SnapshotSource,
+    unavailableServers,
+} from './multiServer/aggregator';
+import { describeLastSynced } from './multiServer/offlineCache';
 import { fromServerScopedRef } from './multiServer/types';
 
-interface ContextProject {
-    id?: string;
-    name?: string;
-    active?: boolean;
-    serverName?: string;
-    [key: string]: unknown;
-}
-
 export class ProjectItem extends vscode.TreeItem {
     constructor(public readonly project: ContextProject) {
         const label = String(project.name || project.id || 'Unnamed project');
@@ -32,6 +33,10 @@ export class ProjectItem extends vscode.TreeItem {
                 : displayId
                     ? `${label} (${displayId})`
                     : label;
+        if (project.stale && project.syncedAt) {
+            this.description = `${this.description} · offline`;
+            this.tooltip = `${this.tooltip}\nServer unreachable; ${describeLastSynced(project.syncedAt)}`;
+        }
         this.contextValue = 'project';
         this.iconPath =
             project.active === false
@@ -45,34 +50,60 @@ export class ProjectItem extends vscode.TreeItem {
     }
 }
 
-export class ProjectsTreeProvider implements vscode.TreeDataProvider<ProjectItem> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<ProjectItem | undefined | null | void>();
+/** Stands in for a server whose projects could not be loaded. */
+export class UnavailableServerItem extends vscode.TreeItem {
+    constructor(public readonly server: ServerListOutcome) {
+        const label = describeUnavailableServer(server);
+        super(label, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'project-server-unavailable';
+        this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        this.tooltip = `${label}\nProjects from the other servers are still listed. Refresh to try again.`;
+        this.command = {
+            command: 'riotplan.showServerConnectionDetails',
+            title: 'Show Connection Details',
+            arguments: [server.serverId],
+        };
+    }
+}
+
+export type ProjectTreeNode = ProjectItem | UnavailableServerItem;
+
+/** The aggregator also reports how each server answered; a single client does not. */
+export interface ProjectListSource extends SnapshotSource {
+    listContextProjects(includeInactive?: boolean): Promise<any[]>;
+    aggregateContextProjects?(includeInactive?: boolean): Promise<AggregatedProjectList>;
+}
+
+export class ProjectsTreeProvider implements vscode.TreeDataProvider<ProjectTreeNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ProjectTreeNode | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-    constructor(private mcpClient: HttpMcpClient) {}
+    constructor(private mcpClient: ProjectListSource) {}
 
-    updateClient(client: HttpMcpClient): void {
+    updateClient(client: ProjectListSource): void {
         this.mcpClient = client;
     }
 
     refresh(): void {
+        this.mcpClient.invalidateSnapshot?.();
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: ProjectItem): vscode.TreeItem {
+    getTreeItem(element: ProjectTreeNode): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(): Promise<ProjectItem[]> {
+    async getChildren(): Promise<ProjectTreeNode[]> {
         try {
-            const projects = await this.mcpClient.listContextProjects(true);
-            return [...projects]
+            const { projects, servers } = await this.fetchProjects();
+            const items = [...projects]
                 .sort((left: ContextProject, right: ContextProject) => {
                     const leftName = String(left?.name || left?.id || '').toLowerCase();
                     const rightName = String(right?.name || right?.id || '').toLowerCase();
                     return leftName.localeCompare(rightName);
                 })
                 .map((project: ContextProject) => new ProjectItem(project));
+            return [...items, ...unavailableServers(servers).map((server) => new UnavailableServerItem(server))];
         } catch (error) {
             if (isUnauthorizedError(error)) {
                 return [];
@@ -81,4 +112,12 @@ export class ProjectsTreeProvider implements vscode.TreeDataProvider<ProjectItem
             return [];
         }
     }
+
+    private async fetchProjects(): Promise<AggregatedProjectList> {
+        const source = this.mcpClient;
+        if (typeof source.aggregateContextProjects === 'function') {
+            return source.aggregateContextProjects(true);
+        }
+        return { projects: await source.listContextProjects(true), servers: [] };
+    }
 }
@@ -14,6 +14,7 @@ import { Agent as HttpAgent } from 'http';
 import { Agent as HttpsAgent } from 'https';
 import { URL } from 'url';
 import { HttpsProxyAgent } from 'https-proxy-agent';
+import { isUnixSocketUrl } from './mcp-unix-socket';
 
 const directHttpAgent = new HttpAgent({ keepAlive: true });
 const directHttpsAgent = new HttpsAgent({ keepAlive: true });
@@ -92,12 +93,16 @@ export function isProxyBypassed(targetUrl: string): boolean {
  * that overrides any proxy injected by VSCode/Cursor's Node.js patching.
  *
  * Otherwise returns an HttpsProxyAgent when a proxy is configured, or
- * undefined to use the default behaviour.
+ * undefined to use the default behaviour. `unix:` socket URLs never get an agent.
  */
 export function getProxyAgent(
     targetUrl: string,
     bypass?: boolean
 ): HttpAgent | HttpsAgent | HttpsProxyAgent<string> | undefined {
+    // A local socket never goes through a proxy.
+    if (isUnixSocketUrl(targetUrl)) {
+        return undefined;
+    }
     if (bypass) {
         try {
             const isHttps = new URL(targetUrl).protocol === 'https:';
@@ -0,0 +1,339 @@
+/**
+ * Resources Tree Provider
+ *
+ * Lists what each connected server exposes through `resources/list` and
+ * `resources/templates/list`, grouped by resource kind (`riotplan://plan/...`
+ * under "plan"). Resources open as read-only documents that reload when a
+ * subscribed resource is reported as updated.
+ */
+
+import * as vscode from 'vscode';
+import { HttpMcpClient } from './mcp-client';
+import {
+    formatResourceContents,
+    McpResource,
+    McpResourceTemplate,
+    notificationResourceUris,
+    resourceGroup,
+    ResourceSubscriptionRegistry,
+} from './mcp-resources';
+
+export const RESOURCE_DOCUMENT_SCHEME = 'riotplan-resource';
+
+const RESOURCE_UPDATE_NOTIFICATIONS = ['notifications/resources/updated', 'notifications/resource_changed'];
+
+export interface ResourceServer {
+    serverId: string;
+    serverName: string;
+    client?: HttpMcpClient;
+}
+
+/** Connected servers to list; the extension backs this with the connection manager. */
+export interface ResourceServerSource {
+    getServers(): ResourceServer[];
+}
+
+interface ServerListing {
+    resources: McpResource[];
+    templates: McpResourceTemplate[];
+    error?: string;
+}
+
+export type ResourceNode =
+    | { type: 'server'; server: ResourceServer }
+    | { type: 'group'; server: ResourceServer; group: string; resources: McpResource[] }
+    | { type: 'templates'; server: ResourceServer; templates: McpResourceTemplate[] }
+    | { type: 'resource'; server: ResourceServer; resource: McpResource }
+    | { type: 'template'; server: ResourceServer; template: McpResourceTemplate }
+    | { type: 'message'; message: string };
+
+/** Document URI for a resource; the path only gives the editor tab a readable title. */
+export function resourceDocumentUri(serverId: string, serverName: string, resourceUri: string): vscode.Uri {
+    const name = resourceUri.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/[?#].*$/, '') || resourceUri;
+    return vscode.Uri.from({
+        scheme: RESOURCE_DOCUMENT_SCHEME,
+        path: `/${serverName}/${name}`,
+        query: new URLSearchParams({ server: serverId, uri: resourceUri }).toString(),
+    });
+}
+
+export function parseResourceDocumentUri(uri: vscode.Uri): { serverId: string; resourceUri: string } | undefined {
+    const query = new URLSearchParams(uri.query);
+    const serverId = query.get('server');
+    const resourceUri = query.get('uri');
+    return serverId && resourceUri ? { serverId, resourceUri } : undefined;
+}
+
+/** A server that does not implement the resources methods answers "method not found". */
+function isMethodNotFound(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /method not found/i.test(message);
+}
+
+function subscriptionDescription(subscription: ReturnType<ResourceSubscriptionRegistry['get']>): string | undefined {
+    if (!subscription) {
+        return undefined;
+    }
+    if (subscription.state === 'subscribing') {
+        return 'subscribing…';
+    }
+    if (subscription.state === 'failed') {
+        return 'subscription failed';
+    }
+    return subscription.updatedAt
+        ? `subscribed · updated ${new Date(subscription.updatedAt).toLocaleTimeString()}`
+        : 'subscribed';
+}
+
+export class ResourcesTreeProvider implements vscode.TreeDataProvider<ResourceNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ResourceNode | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private readonly listings = new Map<string, Promise<ServerListing>>();
+    private readonly watchedClients = new Map<HttpMcpClient, () => void>();
+
+    constructor(
+        private readonly source: ResourceServerSource,
+        private readonly subscriptions: ResourceSubscriptionRegistry,
+        /** Told about updates to subscribed resources, so open documents can reload. */
+        private readonly onResourcesUpdated?: (serverId: string, uris: string[]) => void
+    ) {
+        subscriptions.onDidChange(() => this._onDidChangeTreeData.fire());
+    }
+
+    refresh(serverId?: string): void {
+        if (serverId) {
+            this.listings.delete(serverId);
+        } else {
+            this.listings.clear();
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(node: ResourceNode): vscode.TreeItem {
+        switch (node.type) {
+            case 'server': {
+                const item = new vscode.TreeItem(node.server.serverName, vscode.TreeItemCollapsibleState.Collapsed);
+                item.iconPath = new vscode.ThemeIcon('server');
+                item.contextValue = 'resourceServer';
+                return item;
+            }
+            case 'group': {
+                const item = new vscode.TreeItem(node.group, vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = String(node.resources.length);
+                item.iconPath = new vscode.ThemeIcon('folder');
+                return item;
+            }
+            case 'templates': {
+                const item = new vscode.TreeItem('Templates', vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = String(node.templates.length);
+                item.iconPath = new vscode.ThemeIcon('symbol-snippet');
+                return item;
+            }
+            case 'resource': {
+                const { resource, server } = node;
+                const subscription = this.subscriptions.get(server.serverId, resource.uri);
+                const item = new vscode.TreeItem(resource.title || resource.name, vscode.TreeItemCollapsibleState.None);
+                item.description = subscriptionDescription(subscription) ?? resource.mimeType;
+                item.tooltip = [
+                    resource.uri,
+                    resource.description,
+                    resource.mimeType ? `Type: ${resource.mimeType}` : undefined,
+                    subscription?.error ? `Subscription error: ${subscription.error}` : undefined,
+                ].filter(Boolean).join('\n');
+                item.iconPath = new vscode.ThemeIcon(
+                    subscription?.state === 'failed' ? 'warning' : subscription ? 'eye' : 'file'
+                );
+                item.contextValue = subscription && subscription.state !== 'failed' ? 'resource.subscribed' : 'resource';
+                item.command = { command: 'riotplan.openResource', title: 'Open Resource', arguments: [node] };
+                return item;
+            }
+            case 'template': {
+                const { template } = node;
+                const item = new vscode.TreeItem(template.title || template.name, vscode.TreeItemCollapsibleState.None);
+                item.description = template.uriTemplate;
+                item.tooltip = [template.uriTemplate, template.description].filter(Boolean).join('\n');
+                item.iconPath = new vscode.ThemeIcon('symbol-variable');
+                item.contextValue = 'resourceTemplate';
+                item.command = { command: 'riotplan.openResourceTemplate', title: 'Open Resource from Template', arguments: [node] };
+                return item;
+            }
+            default: {
+                const item = new vscode.TreeItem(node.message, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon('info');
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: ResourceNode): Promise<ResourceNode[]> {
+        if (!node) {
+            const servers = this.source.getServers().filter((server) => server.client);
+            const current = new Set(servers.map((server) => server.client));
+            for (const [client, unwatch] of this.watchedClients) {
+                if (!current.has(client)) {
+                    unwatch();
+                    this.watchedClients.delete(client);
+                }
+            }
+            for (const server of servers) {
+                this.watch(server);
+            }
+            return servers.map((server) => ({ type: 'server', server }));
+        }
+        if (node.type === 'server') {
+            const listing = await this.getListing(node.server);
+            if (listing.error) {
+                return [{ type: 'message', message: listing.error }];
+            }
+            const groups = new Map<string, McpResource[]>();
+            for (const resource of listing.resources) {
+                const group = resourceGroup(resource.uri);
+                groups.set(group, [...(groups.get(group) ?? []), resource]);
+            }
+            const children: ResourceNode[] = [...groups.entries()]
+                .sort(([left], [right]) => left.localeCompare(right))
+                .map(([group, resources]) => ({ type: 'group', server: node.server, group, resources }));
+            if (listing.templates.length > 0) {
+                children.push({ type: 'templates', server: node.server, templates: listing.templates });
+            }
+            return children.length > 0 ? children : [{ type: 'message', message: 'No resources' }];
+        }
+        if (node.type === 'group') {
+            return [...node.resources]
+                .sort((left, right) => (left.title || left.name).localeCompare(right.title || right.name))
+                .map((resource) => ({ type: 'resource', server: node.server, resource }));
+        }
+        if (node.type === 'templates') {
+            return node.templates.map((template) => ({ type: 'template', server: node.server, template }));
+        }
+        return [];
+    }
+
+    async subscribe(server: ResourceServer, uri: string): Promise<void> {
+        if (!server.client) {
+            return;
+        }
+        this.subscriptions.set(server.serverId, uri, 'subscribing');
+        try {
+            await server.client.subscribeToResource(uri);
+            this.subscriptions.set(server.serverId, uri, 'subscribed');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.subscriptions.set(server.serverId, uri, 'failed', message);
+            throw error;
+        }
+    }
+
+    async unsubscribe(server: ResourceServer, uri: string): Promise<void> {
+        this.subscriptions.delete(server.serverId, uri);
+        await server.client?.unsubscribeFromResource(uri);
+    }
+
+    dispose(): void {
+        for (const unsubscribe of this.watchedClients.values()) {
+            unsubscribe();
+        }
+        this.watchedClients.clear();
+    }
+
+    private getListing(server: ResourceServer): Promise<ServerListing> {
+        let listing = this.listings.get(server.serverId);
+        if (!listing) {
+            listing = this.loadListing(server);
+            this.listings.set(server.serverId, listing);
+        }
+        return listing;
+    }
+
+    private async loadListing(server: ResourceServer): Promise<ServerListing> {
+        const client = server.client!;
+        try {
+            const [resources, templates] = await Promise.all([
+                client.listResources(),
+                // Templates are optional; a server may list resources without them.
+                client.listResourceTemplates().catch((error) => {
+                    if (isMethodNotFound(error)) {
+                        return [];
+                    }
+                    throw error;
+                }),
+            ]);
+            return { resources, templates };
+        } catch (error) {
+            // Keep failures out of the cache so the next expand retries.
+            this.listings.delete(server.serverId);
+            if (isMethodNotFound(error)) {
+                return { resources: [], templates: [], error: 'This server does not list resources' };
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            return { resources: [], templates: [], error: `Could not list resources: ${message}` };
+        }
+    }
+
+    /**
+     * Track updates and list changes for a server's current client. A new client
+     * means a new session, so the view's subscriptions are made again.
+     */
+    private watch(server: ResourceServer): void {
+        const client = server.client!;
+        if (this.watchedClients.has(client)) {
+            return;
+        }
+        const { serverId } = server;
+        const onUpdated = (data: unknown) => {
+            const updated = this.subscriptions.markUpdated(serverId, notificationResourceUris(data));
+            if (updated.length > 0) {
+                this.onResourcesUpdated?.(serverId, updated);
+            }
+        };
+        const resubscribe = () => {
+            for (const uri of this.subscriptions.getUris(serverId)) {
+                void this.subscribe(server, uri).catch(() => undefined);
+            }
+        };
+        const disposers = [
+            ...RESOURCE_UPDATE_NOTIFICATIONS.map((method) => client.onNotification(method, onUpdated)),
+            client.onNotification('notifications/resources/list_changed', () => this.refresh(serverId)),
+            client.onSessionRecovered(resubscribe),
+        ];
+        this.watchedClients.set(client, () => disposers.forEach((dispose) => dispose()));
+        resubscribe();
+    }
+}
+
+/** Serves `riotplan-resource:` documents by reading the resource from its server. */
+export class ResourceDocumentProvider implements vscode.TextDocumentContentProvider {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+    private readonly documents = new Map<string, vscode.Uri>();
+
+    constructor(private readonly source: ResourceServerSource) {}
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const target = parseResourceDocumentUri(uri);
+        if (!target) {
+            return '';
+        }
+        this.documents.set(`${target.serverId}\n${target.resourceUri}`, uri);
+        const client = this.source.getServers().find((server) => server.serverId === target.serverId)?.client;
+        if (!client) {
+            return `Server ${target.serverId} is not connected; ${target.resourceUri} cannot be read.`;
+        }
+        try {
+            return formatResourceContents(await client.readResourceContents(target.resourceUri));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return `Could not read ${target.resourceUri}: ${message}`;
+        }
+    }
+
+    /** Reloads open documents for the given resources. */
+    notifyUpdated(serverId: string, uris: string[]): void {
+        for (const uri of uris) {
+            const document = this.documents.get(`${serverId}\n${uri}`);
+            if (document) {
+                this._onDidChange.fire(document);
+            }
+        }
+    }
+}
@@ -0,0 +1,179 @@
+/**
+ * VS Code handlers for server-to-client MCP requests
+ *
+ * `roots/list` answers with the open workspace folders. `elicitation/create`
+ * walks the requested schema field by field with input boxes and quick picks;
+ * escaping any prompt cancels the whole elicitation.
+ */
+
+import * as vscode from 'vscode';
+import type { ServerRequestHandler } from './mcp-client';
+
+type ElicitationAction = 'accept' | 'decline' | 'cancel';
+
+interface ElicitationResult {
+    action: ElicitationAction;
+    content?: Record<string, string | number | boolean>;
+}
+
+/** One primitive field of an elicitation `requestedSchema` (the spec allows no nesting). */
+export interface ElicitationField {
+    name: string;
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    title: string;
+    description?: string;
+    required: boolean;
+    enumValues?: string[];
+    enumNames?: string[];
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    defaultValue?: string | number | boolean;
+}
+
+export function parseElicitationSchema(schema: any): ElicitationField[] {
+    const properties = schema?.properties;
+    if (!properties || typeof properties !== 'object') {
+        return [];
+    }
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    const fields: ElicitationField[] = [];
+    for (const [name, raw] of Object.entries<any>(properties)) {
+        const type = raw?.type;
+        if (type !== 'string' && type !== 'number' && type !== 'integer' && type !== 'boolean') {
+            continue;
+        }
+        const enumValues = Array.isArray(raw.enum) ? raw.enum.map(String) : undefined;
+        const enumNames = Array.isArray(raw.enumNames) ? raw.enumNames.map(String) : undefined;
+        fields.push({
+            name,
+            type,
+            title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : name,
+            description: typeof raw.description === 'string' ? raw.description : undefined,
+            required: required.has(name),
+            enumValues,
+            enumNames,
+            minLength: typeof raw.minLength === 'number' ? raw.minLength : undefined,
+            maxLength: typeof raw.maxLength === 'number' ? raw.maxLength : undefined,
+            minimum: typeof raw.minimum === 'number' ? raw.minimum : undefined,
+            maximum: typeof raw.maximum === 'number' ? raw.maximum : undefined,
+            defaultValue: raw.default,
+        });
+    }
+    return fields;
+}
+
+/** Validation message for a typed value, or undefined when it is acceptable. Empty optional values pass. */
+export function validateElicitationInput(field: ElicitationField, value: string): string | undefined {
+    const trimmed = value.trim();
+    if (!trimmed) {
+        return field.required ? `${field.title} is required` : undefined;
+    }
+    if (field.type === 'string') {
+        if (field.minLength !== undefined && trimmed.length < field.minLength) {
+            return `At least ${field.minLength} characters`;
+        }
+        if (field.maxLength !== undefined && trimmed.length > field.maxLength) {
+            return `At most ${field.maxLength} characters`;
+        }
+        return undefined;
+    }
+    const numeric = Number(trimmed);
+    if (!Number.isFinite(numeric) || (field.type === 'integer' && !Number.isInteger(numeric))) {
+        return field.type === 'integer' ? 'Enter a whole number' : 'Enter a number';
+    }
+    if (field.minimum !== undefined && numeric < field.minimum) {
+        return `Must be at least ${field.minimum}`;
+    }
+    if (field.maximum !== undefined && numeric > field.maximum) {
+        return `Must be at most ${field.maximum}`;
+    }
+    return undefined;
+}
+
+async function promptField(
+    field: ElicitationField,
+    serverName: string
+): Promise<{ cancelled: boolean; value?: string | number | boolean }> {
+    const placeHolder = field.description || field.title;
+    const title = `${serverName}: ${field.title}${field.required ? '' : ' (optional)'}`;
+
+    if (field.type === 'boolean' || field.enumValues) {
+        const items: Array<vscode.QuickPickItem & { value?: string | boolean }> = field.type === 'boolean'
+            ? [{ label: 'Yes', value: true }, { label: 'No', value: false }]
+            : field.enumValues!.map((value, index) => ({ label: field.enumNames?.[index] || value, value }));
+        if (!field.required) {
+            items.push({ label: 'Skip' });
+        }
+        const picked = await vscode.window.showQuickPick(items, { title, placeHolder, ignoreFocusOut: true });
+        if (!picked) {
+            return { cancelled: true };
+        }
+        return { cancelled: false, value: picked.value };
+    }
+
+    const input = await vscode.window.showInputBox({
+        title,
+        prompt: placeHolder,
+        value: field.defaultValue !== undefined ? String(field.defaultValue) : undefined,
+        ignoreFocusOut: true,
+        validateInput: (value) => validateElicitationInput(field, value),
+    });
+    if (input === undefined) {
+        return { cancelled: true };
+    }
+    const trimmed = input.trim();
+    if (!trimmed) {
+        return { cancelled: false };
+    }
+    return { cancelled: false, value: field.type === 'string' ? trimmed : Number(trimmed) };
+}
+
+export async function handleElicitation(params: any, serverName: string): Promise<ElicitationResult> {
+    const message = typeof params?.message === 'string' && params.message.trim()
+        ? params.message.trim()
+        : 'The server is asking for more information.';
+    const fields = parseElicitationSchema(params?.requestedSchema);
+
+    const choice = await vscode.window.showInformationMessage(
+        `RiotPlan server "${serverName}": ${message}`,
+        { modal: true },
+        'Respond',
+        'Decline'
+    );
+    if (choice === 'Decline') {
+        return { action: 'decline' };
+    }
+    if (choice !== 'Respond') {
+        return { action: 'cancel' };
+    }
+
+    const content: Record<string, string | number | boolean> = {};
+    for (const field of fields) {
+        const answer = await promptField(field, serverName);
+        if (answer.cancelled) {
+            return { action: 'cancel' };
+        }
+        if (answer.value !== undefined) {
+            content[field.name] = answer.value;
+        }
+    }
+    return { action: 'accept', content };
+}
+
+export function listWorkspaceRoots(): { roots: Array<{ uri: string; name: string }> } {
+    const folders = vscode.workspace.workspaceFolders || [];
+    return {
+        roots: folders
+            .filter((folder) => folder.uri.scheme === 'file')
+            .map((folder) => ({ uri: folder.uri.toString(), name: folder.name })),
+    };
+}
+
+export function createServerRequestHandlers(serverName: string): Record<string, ServerRequestHandler> {
+    return {
+        'roots/list': () => listWorkspaceRoots(),
+        'elicitation/create': (params) => handleElicitation(params, serverName),
+    };
+}
@@ -8,6 +8,8 @@
 
 import * as vscode from 'vscode';
 import { HttpMcpClient } from './mcp-client';
+import { CircuitSnapshot, describeCircuit } from './mcp-resilience';
+import { describeTokenExpiry } from './multiServer/tokenLifecycle';
 
 type ConnectionState = 'connected' | 'disconnected' | 'checking';
 type PerServerState = 'connected' | 'connecting' | 'degraded' | 'disconnected';
@@ -20,6 +22,13 @@ interface PerServerStatus {
     lastError?: string;
     hasApiKey?: boolean;
     isActive?: boolean;
+    circuit?: CircuitSnapshot;
+    latencyMs?: number;
+    lastCheckedAt?: number;
+    /** Settings layer or repository file the profile comes from. */
+    definedIn?: string;
+    /** `exp` of a JWT API token (epoch ms). */
+    tokenExpiresAt?: number;
 }
 
 class StatusItem extends vscode.TreeItem {
@@ -106,23 +115,37 @@ export class StatusTreeProvider implements vscode.TreeDataProvider<StatusItem> {
                             : status.state === 'degraded' ? 'warning'
                                 : 'circle-filled';
 
+                const circuitState = status.circuit?.state ?? 'closed';
                 const statusColor =
-                    status.state === 'connected'
-                        ? new vscode.ThemeColor('charts.green')
-                        : new vscode.ThemeColor('charts.red');
-
-                const tokenSuffix = status.hasApiKey ? 'token set' : 'no token';
+                    circuitState !== 'closed' || status.state === 'degraded'
+                        ? new vscode.ThemeColor('charts.yellow')
+                        : status.state === 'connected'
+                            ? new vscode.ThemeColor('charts.green')
+                            : new vscode.ThemeColor('charts.red');
+
+                const tokenExpired = status.tokenExpiresAt !== undefined && status.tokenExpiresAt <= Date.now();
+                const tokenSuffix = !status.hasApiKey ? 'no token' : tokenExpired ? 'token expired' : 'token set';
                 const label = `${status.serverName}: ${stateLabel}`;
 
                 const activePrefix = status.isActive ? 'Active - ' : '';
-                const description = `${activePrefix}${status.serverUrl} - ${tokenSuffix}`;
+                const circuitSuffix = circuitState !== 'closed' ? ` - circuit ${circuitState}` : '';
+                const latencySuffix = status.latencyMs !== undefined && status.state !== 'disconnected'
+                    ? ` - ${status.latencyMs} ms`
+                    : '';
+                const description = `${activePrefix}${status.serverUrl} - ${tokenSuffix}${latencySuffix}${circuitSuffix}`;
+                const circuitDescription = describeCircuit(status.circuit);
 
                 const tooltip = [
                     status.serverName,
                     status.serverUrl,
                     `Status: ${stateLabel}`,
-                    `API Token: ${status.hasApiKey ? 'Configured' : 'Not configured'}`,
+                    `API Token: ${status.hasApiKey ? 'Configured' : 'Not configured'}`
+                        + (status.hasApiKey && status.tokenExpiresAt !== undefined ? `, ${describeTokenExpiry(new Date(status.tokenExpiresAt))}` : ''),
                     status.isActive ? 'Active server' : undefined,
+                    status.definedIn ? `Defined in: ${status.definedIn}` : undefined,
+                    circuitDescription ? `Circuit: ${circuitDescription}` : undefined,
+                    status.latencyMs !== undefined ? `Latency: ${status.latencyMs} ms` : undefined,
+                    status.lastCheckedAt ? `Last checked: ${new Date(status.lastCheckedAt).toLocaleTimeString()}` : undefined,
                     status.lastError ? `Error: ${status.lastError}` : undefined,
                 ].filter(Boolean).join('\n');
 
@@ -137,7 +160,7 @@ export class StatusTreeProvider implements vscode.TreeDataProvider<StatusItem> {
                         arguments: [status.serverId],
                     }
                 );
-                item.iconPath = new vscode.ThemeIcon(statusIcon, statusColor);
+                item.iconPath = new vscode.ThemeIcon(circuitState === 'open' ? 'debug-disconnect' : statusIcon, statusColor);
                 item.tooltip = tooltip;
                 items.push(item);
             }
@@ -0,0 +1,87 @@
+/**
+ * Request Trace Tree Provider
+ *
+ * Lists recorded trace entries grouped by server, newest first. Selecting an
+ * entry opens its full (redacted) JSON in an editor.
+ */
+
+import * as vscode from 'vscode';
+import { RequestTracer, TraceEntry } from './mcp-trace';
+
+const KIND_ICONS: Record<TraceEntry['kind'], string> = {
+    request: 'arrow-up',
+    response: 'arrow-down',
+    'server-message': 'arrow-left',
+    http: 'cloud',
+    sse: 'radio-tower',
+    error: 'error',
+};
+
+type TraceNode = { type: 'server'; serverUrl: string } | { type: 'entry'; entry: TraceEntry };
+
+export function describeTraceEntry(entry: TraceEntry): { label: string; description: string } {
+    const label = entry.method
+        || (entry.kind === 'request' ? 'reply' : entry.kind === 'response' ? 'result' : entry.kind);
+    const details = [
+        entry.rpcId !== undefined && entry.rpcId !== null ? `#${entry.rpcId}` : undefined,
+        entry.statusCode ? String(entry.statusCode) : undefined,
+        entry.durationMs !== undefined ? `${entry.durationMs}ms` : undefined,
+        entry.bytes !== undefined ? `${entry.bytes} B` : undefined,
+        entry.error,
+    ].filter(Boolean);
+    return { label, description: details.join(' · ') };
+}
+
+export class TraceTreeProvider implements vscode.TreeDataProvider<TraceNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TraceNode | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private refreshTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(private readonly tracer: RequestTracer) {
+        // Entries arrive in bursts; redraw at most a few times per second.
+        tracer.onDidChange(() => {
+            if (this.refreshTimer) {
+                return;
+            }
+            this.refreshTimer = setTimeout(() => {
+                this.refreshTimer = undefined;
+                this._onDidChangeTreeData.fire();
+            }, 250);
+        });
+    }
+
+    getTreeItem(node: TraceNode): vscode.TreeItem {
+        if (node.type === 'server') {
+            const item = new vscode.TreeItem(node.serverUrl, vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${this.tracer.getEntries(node.serverUrl).length} entries`;
+            item.iconPath = new vscode.ThemeIcon('server');
+            return item;
+        }
+        const { entry } = node;
+        const { label, description } = describeTraceEntry(entry);
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.description = description;
+        item.tooltip = `${entry.timestamp}\n${entry.kind}${entry.sessionId ? `\nSession: ${entry.sessionId}` : ''}`;
+        item.iconPath = new vscode.ThemeIcon(entry.error && entry.kind !== 'sse' ? 'error' : KIND_ICONS[entry.kind]);
+        item.contextValue = 'traceEntry';
+        item.command = {
+            command: 'riotplan.showTraceEntry',
+            title: 'Show Trace Entry',
+            arguments: [entry],
+        };
+        return item;
+    }
+
+    getChildren(node?: TraceNode): TraceNode[] {
+        if (!node) {
+            if (!this.tracer.isEnabled() && this.tracer.getEntries().length === 0) {
+                return [];
+            }
+            return this.tracer.getServers().map((serverUrl) => ({ type: 'server', serverUrl }));
+        }
+        if (node.type === 'server') {
+            return this.tracer.getEntries(node.serverUrl).reverse().map((entry) => ({ type: 'entry', entry }));
+        }
+        return [];
+    }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import {
+    buildAuthHeaders,
+    describeHeaders,
+    normalizeAuthScheme,
+    normalizeHeaderSettings,
+    resolveHeaderSettings,
+} from '../src/mcp-auth';
+import { HttpMcpClient } from '../src/mcp-client';
+
+describe('mcp-auth', () => {
+    it('normalizes auth schemes and drops unusable ones', () => {
+        expect(normalizeAuthScheme('bearer')).toEqual({ type: 'bearer' });
+        expect(normalizeAuthScheme({ type: 'api-key', header: ' X-Gateway-Key ' })).toEqual({ type: 'api-key', header: 'X-Gateway-Key' });
+        expect(normalizeAuthScheme({ type: 'api-key', header: 'Content-Type' })).toEqual({ type: 'api-key' });
+        expect(normalizeAuthScheme({ type: 'basic', username: 'ci' })).toEqual({ type: 'basic', username: 'ci' });
+        expect(normalizeAuthScheme({ type: 'basic', username: 'a:b' })).toBeUndefined();
+        expect(normalizeAuthScheme({ type: 'digest' })).toBeUndefined();
+        expect(normalizeAuthScheme(undefined)).toBeUndefined();
+    });
+
+    it('builds the headers for each scheme', () => {
+        expect(buildAuthHeaders(undefined, 'tok')).toEqual({ Authorization: 'Bearer tok', 'X-API-Key': 'tok' });
+        expect(buildAuthHeaders({ type: 'bearer' }, 'tok')).toEqual({ Authorization: 'Bearer tok' });
+        expect(buildAuthHeaders({ type: 'api-key', header: 'X-Gateway-Key' }, 'tok')).toEqual({ 'X-Gateway-Key': 'tok' });
+        expect(buildAuthHeaders({ type: 'basic', username: 'ci' }, 'tok')).toEqual({
+            Authorization: `Basic ${Buffer.from('ci:tok').toString('base64')}`,
+        });
+        expect(buildAuthHeaders({ type: 'none' }, 'tok')).toEqual({});
+        expect(buildAuthHeaders({ type: 'bearer' }, undefined)).toEqual({});
+    });
+
+    it('keeps secret header values out of settings and resolves them from storage', async () => {
+        const settings = normalizeHeaderSettings([
+            { name: 'X-Tenant', value: 'acme' },
+            { name: 'X-Gateway-Secret', value: 'leaked', secret: true },
+            { name: 'X-Missing', secret: true },
+            { name: 'x-tenant', value: 'duplicate' },
+            { name: 'Mcp-Session-Id', value: 'hijack' },
+            { name: 'Bad Name', value: 'x' },
+            { name: 'X-No-Value' },
+        ]);
+
+        expect(settings).toEqual([
+            { name: 'X-Tenant', value: 'acme' },
+            { name: 'X-Gateway-Secret', secret: true },
+            { name: 'X-Missing', secret: true },
+        ]);
+        const headers = await resolveHeaderSettings(settings!, async (name) => (name === 'X-Gateway-Secret' ? 's3cret-value' : undefined));
+        expect(headers).toEqual({ 'X-Tenant': 'acme', 'X-Gateway-Secret': 's3cret-value' });
+        expect(normalizeHeaderSettings([])).toBeUndefined();
+    });
+
+    it('reports the exact headers a client sends with values redacted', () => {
+        const client = new HttpMcpClient('http://127.0.0.1:3002', 'token-abcd', false, {
+            authScheme: { type: 'api-key', header: 'X-Gateway-Key' },
+            headers: { 'X-Tenant': 'acme' },
+        });
+        const state = client.getAuthDebugState();
+
+        expect(state.authScheme).toBe('X-Gateway-Key header');
+        expect(state.headers).toEqual(['X-Tenant: ***acme (len=4)', 'X-Gateway-Key: ***abcd (len=10)']);
+        expect(describeHeaders({ Authorization: 'Bearer token-abcd' })).toEqual(['Authorization: Bearer ***abcd (len=10)']);
+        client.dispose();
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ServerCapabilities } from '../src/mcp-capabilities';
+
+function toolsList() {
+    return {
+        tools: [
+            { name: 'riotplan_list_plans', inputSchema: { type: 'object', properties: { filter: { type: 'string' } } } },
+            {
+                name: 'riotplan_plan',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        action: { type: 'string', enum: ['create', 'move', 'update'] },
+                        planId: { type: 'string' },
+                    },
+                },
+            },
+            { name: 'riotplan_status', inputSchema: { type: 'object', properties: { path: { type: 'string' } } } },
+            { name: 'riotplan_delete_plan', inputSchema: { type: 'object', properties: { planId: { type: 'string' } } } },
+            { name: 'riotplan_context', inputSchema: { type: 'object', properties: { action: { type: 'string' } } } },
+        ],
+    };
+}
+
+describe('ServerCapabilities', () => {
+    it('routes operations to the first tool and action the server exposes', () => {
+        const capabilities = ServerCapabilities.fromToolsList(toolsList());
+
+        expect(capabilities.resolve('listPlans')).toEqual({ tool: 'riotplan_list_plans' });
+        expect(capabilities.resolve('renamePlan')).toEqual({ tool: 'riotplan_plan', action: 'update' });
+        expect(capabilities.resolve('deletePlan')).toEqual({ tool: 'riotplan_delete_plan' });
+        expect(capabilities.supports('removeEvidence')).toBe(false);
+    });
+
+    it('accepts free-form actions when the schema declares no enum', () => {
+        const capabilities = ServerCapabilities.fromToolsList(toolsList());
+
+        expect(capabilities.resolve('upsertContextProject')).toEqual({ tool: 'riotplan_context', action: 'upsert' });
+    });
+
+    it('picks the plan reference argument from the input schema', () => {
+        const capabilities = ServerCapabilities.fromToolsList(toolsList());
+
+        expect(capabilities.planRefArgument('riotplan_status')).toBe('path');
+        expect(capabilities.planRefArgument('riotplan_plan')).toBe('planId');
+        expect(capabilities.planRefArgument('riotplan_missing')).toBe('planId');
+    });
+
+    it('falls back to preferred routes when the tool list is unknown', () => {
+        const capabilities = ServerCapabilities.unknown();
+
+        expect(capabilities.known).toBe(false);
+        expect(capabilities.resolve('renamePlan')).toEqual({ tool: 'riotplan_plan', action: 'rename' });
+        expect(capabilities.hasRiotPlanTools()).toBe(false);
+    });
+});
@@ -0,0 +1,84 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+
+describe('HttpMcpClient capabilities', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let toolsListRequests: number;
+    let toolsListFails: boolean;
+
+    beforeEach(async () => {
+        toolsListRequests = 0;
+        toolsListFails = true;
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                if (body.id === undefined || body.id === null) {
+                    res.writeHead(202).end();
+                    return;
+                }
+                if (body.method === 'tools/list') {
+                    toolsListRequests += 1;
+                    if (toolsListFails) {
+                        res.writeHead(500).end('tool registry unavailable');
+                        return;
+                    }
+                }
+                if (body.method === 'test/notify') {
+                    // Announce a changed tool list on the response stream before answering.
+                    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                    res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' })}\n\n`);
+                    res.end(`data: ${JSON.stringify({ jsonrpc: '2.0', id: body.id, result: {} })}\n\n`);
+                    return;
+                }
+                const results: Record<string, unknown> = {
+                    initialize: { protocolVersion: '2025-06-18', capabilities: {} },
+                    'tools/list': { tools: [{ name: 'riotplan_list_plans', inputSchema: { type: 'object' } }] },
+                    'tools/call': { content: [{ type: 'text', text: '{"plans":[]}' }] },
+                };
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: results[body.method] ?? {} }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('does not ask for a failing tool list on every operation', async () => {
+        const client = new HttpMcpClient(baseUrl, undefined, false, { retryPolicy: { maxAttempts: 1 } });
+
+        await client.listPlans('active');
+        await client.listPlans('done');
+
+        expect(toolsListRequests).toBe(1);
+        expect(client.getCachedCapabilities()).toBeUndefined();
+        client.dispose();
+    });
+
+    it('refetches the tool list and notifies listeners when the server announces a change', async () => {
+        const client = new HttpMcpClient(baseUrl, undefined, false, { retryPolicy: { maxAttempts: 1 } });
+        await client.listPlans('active');
+        toolsListFails = false;
+
+        const changed = new Promise<void>((resolve) => client.onCapabilitiesChanged(resolve));
+        await client.sendRequest('test/notify');
+        await changed;
+
+        expect(toolsListRequests).toBe(2);
+        expect(client.getCachedCapabilities()?.supports('listPlans')).toBe(true);
+        client.dispose();
+    });
+});
@@ -0,0 +1,86 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import type { ProgressUpdate } from '../src/mcp-request';
+
+describe('HttpMcpClient progress notifications', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let toolCall: any;
+
+    beforeEach(async () => {
+        toolCall = undefined;
+        server = http.createServer((req, res) => {
+            if (req.method !== 'POST') {
+                res.writeHead(405).end();
+                return;
+            }
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                if (body.method === 'initialize') {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2025-06-18', capabilities: {} } }));
+                    return;
+                }
+                if (body.id === null) {
+                    res.writeHead(202).end();
+                    return;
+                }
+                toolCall = body;
+                const token = body.params?._meta?.progressToken;
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                for (const [progress, message] of [[1, 'Deleting file'], [2, 'Rebuilding index']] as const) {
+                    const notification = {
+                        jsonrpc: '2.0',
+                        method: 'notifications/progress',
+                        params: { progressToken: token, progress, total: 2, message },
+                    };
+                    res.write(`data: ${JSON.stringify(notification)}\n\n`);
+                }
+                res.end(`data: ${JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { content: [] } })}\n\n`);
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('attaches a progress token and routes progress notifications to the call', async () => {
+        const client = new HttpMcpClient(baseUrl);
+        const updates: ProgressUpdate[] = [];
+
+        await client.sendRequest(
+            'tools/call',
+            { name: 'riotplan_evidence', arguments: {} },
+            { onProgress: (update) => updates.push(update) }
+        );
+
+        expect(typeof toolCall.params._meta.progressToken).toBe('string');
+        expect(toolCall.params.name).toBe('riotplan_evidence');
+        expect(updates).toEqual([
+            { progress: 1, total: 2, message: 'Deleting file' },
+            { progress: 2, total: 2, message: 'Rebuilding index' },
+        ]);
+        client.dispose();
+    });
+
+    it('sends no progress token when nobody listens', async () => {
+        const client = new HttpMcpClient(baseUrl);
+
+        await client.sendRequest('tools/call', { name: 'riotplan_status', arguments: {} });
+
+        expect(toolCall.params._meta).toBeUndefined();
+        client.dispose();
+    });
+});
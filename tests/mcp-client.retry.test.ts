@@ -0,0 +1,97 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import { RequestTimeoutError } from '../src/mcp-request';
+
+const PLAN_UUID = '11111111-2222-3333-4444-555555555555';
+
+describe('HttpMcpClient retries', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let toolCalls: string[];
+
+    beforeEach(async () => {
+        toolCalls = [];
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                if (body.id === undefined || body.id === null) {
+                    res.writeHead(202).end();
+                    return;
+                }
+                if (body.method === 'tools/call' && body.params.name === 'riotplan_delete_plan') {
+                    toolCalls.push(`delete:${body.params.arguments.planId}`);
+                    if (body.params.arguments.planId === PLAN_UUID) {
+                        res.writeHead(200, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({
+                            jsonrpc: '2.0',
+                            id: body.id,
+                            result: { isError: true, content: [{ type: 'text', text: 'Plan not found' }] },
+                        }));
+                    }
+                    // Any other identifier: the server is still deleting when the client gives up.
+                    return;
+                }
+                if (body.method === 'tools/call') {
+                    const name = `${body.params.name}:${body.params.arguments.action ?? ''}`;
+                    toolCalls.push(name);
+                    // The gateway times out after the server has handled the first attempt of each call.
+                    if (toolCalls.filter((call) => call === name).length === 1) {
+                        res.writeHead(504).end('gateway timeout');
+                        return;
+                    }
+                }
+                const results: Record<string, unknown> = {
+                    initialize: { protocolVersion: '2025-06-18', capabilities: {} },
+                    'tools/list': {
+                        tools: [
+                            { name: 'riotplan_list_plans', inputSchema: { type: 'object' } },
+                            { name: 'riotplan_plan', inputSchema: { type: 'object', properties: { action: { enum: ['create'] } } } },
+                            { name: 'riotplan_delete_plan', inputSchema: { type: 'object', properties: { planId: {}, confirm: {} } } },
+                        ],
+                    },
+                    'tools/call': { content: [{ type: 'text', text: '{"ok":true}' }] },
+                };
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: results[body.method] ?? {} }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('retries reads after a gateway error but never repeats a write', async () => {
+        const client = new HttpMcpClient(baseUrl, undefined, false, { retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } });
+
+        await expect(client.listPlans('active')).resolves.toMatchObject({ content: [{ type: 'text' }] });
+        await expect(client.createPlan({ code: 'new-plan', description: 'Once only' })).rejects.toThrow('HTTP 504');
+
+        expect(toolCalls).toEqual(['riotplan_list_plans:', 'riotplan_list_plans:', 'riotplan_plan:create']);
+        client.dispose();
+    });
+
+    it('tries the next plan identifier after "not found" but never after a timed-out delete', async () => {
+        const client = new HttpMcpClient(baseUrl, undefined, false, {
+            retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 },
+            timeouts: { write: 100 },
+        });
+
+        await expect(client.deletePlan(`active/plan-${PLAN_UUID}`)).rejects.toBeInstanceOf(RequestTimeoutError);
+
+        expect(toolCalls).toEqual([`delete:${PLAN_UUID}`, `delete:plan-${PLAN_UUID}`]);
+        client.dispose();
+    });
+});
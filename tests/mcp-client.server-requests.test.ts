@@ -0,0 +1,106 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient, JsonRpcError } from '../src/mcp-client';
+
+interface Received {
+    body: any;
+    headers: http.IncomingHttpHeaders;
+}
+
+describe('HttpMcpClient server-to-client requests', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let received: Received[];
+    let onReply: ((body: any) => void) | undefined;
+
+    beforeEach(async () => {
+        received = [];
+        onReply = undefined;
+        server = http.createServer((req, res) => {
+            if (req.method !== 'POST') {
+                res.writeHead(405).end();
+                return;
+            }
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                received.push({ body, headers: req.headers });
+                if (body.method === 'initialize') {
+                    res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+                    res.end(JSON.stringify({
+                        jsonrpc: '2.0',
+                        id: body.id,
+                        result: { protocolVersion: '2025-06-18', serverInfo: { name: 'test', version: '1.0.0' }, capabilities: {} },
+                    }));
+                    return;
+                }
+                if (!body.method) {
+                    res.writeHead(202).end();
+                    onReply?.(body);
+                    return;
+                }
+                if (body.id === null) {
+                    res.writeHead(202).end();
+                    return;
+                }
+                // Ask the client something mid-request and only answer once it replies.
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', id: 'srv-1', method: body.params.ask })}\n\n`);
+                onReply = (reply) => {
+                    res.end(`data: ${JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { reply } })}\n\n`);
+                };
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('answers a server request sent on the response stream before the response arrives', async () => {
+        const client = new HttpMcpClient(baseUrl, undefined, false, {
+            requestHandlers: { 'roots/list': () => ({ roots: [{ uri: 'file:///work', name: 'work' }] }) },
+        });
+
+        const result = await client.sendRequest('test/ask', { ask: 'roots/list' });
+
+        expect(result.reply).toEqual({
+            jsonrpc: '2.0',
+            id: 'srv-1',
+            result: { roots: [{ uri: 'file:///work', name: 'work' }] },
+        });
+        const initialize = received.find((entry) => entry.body.method === 'initialize');
+        expect(initialize?.body.params.capabilities).toEqual({ roots: { listChanged: true } });
+        const ask = received.find((entry) => entry.body.method === 'test/ask');
+        expect(ask?.headers['mcp-protocol-version']).toBe('2025-06-18');
+        client.dispose();
+    });
+
+    it('replies to ping and reports unknown methods and handler errors as JSON-RPC errors', async () => {
+        const client = new HttpMcpClient(baseUrl, undefined, false, {
+            requestHandlers: {
+                'elicitation/create': () => {
+                    throw new JsonRpcError(-32602, 'bad schema');
+                },
+            },
+        });
+
+        const ping = await client.sendRequest('test/ask', { ask: 'ping' });
+        const unknown = await client.sendRequest('test/ask', { ask: 'sampling/createMessage' });
+        const failing = await client.sendRequest('test/ask', { ask: 'elicitation/create' });
+
+        expect(ping.reply.result).toEqual({});
+        expect(unknown.reply.error.code).toBe(-32601);
+        expect(failing.reply.error).toEqual({ code: -32602, message: 'bad schema' });
+        client.dispose();
+    });
+});
@@ -0,0 +1,114 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+    getProxyUrl: () => undefined,
+    isProxyBypassed: () => false,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import { formatDiagnosticsReport, runConnectionDiagnostics } from '../src/mcp-diagnostics';
+
+function listen(server: http.Server): Promise<number> {
+    return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+}
+
+describe('runConnectionDiagnostics', () => {
+    let server: http.Server;
+    let url: string;
+
+    beforeEach(async () => {
+        server = http.createServer((req, res) => {
+            if (req.url === '/health') {
+                res.writeHead(200).end('ok');
+                return;
+            }
+            if (req.method === 'GET') {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write(': open\n\n');
+                return;
+            }
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                if (body.id === undefined || body.id === null) {
+                    res.writeHead(202).end();
+                    return;
+                }
+                const results: Record<string, unknown> = {
+                    initialize: { protocolVersion: '2025-06-18', serverInfo: { name: 'riotplan', version: '1.2.0' }, capabilities: {} },
+                    'tools/list': { tools: [{ name: 'riotplan_list_plans', inputSchema: { type: 'object' } }] },
+                    'tools/call': { content: [{ type: 'text', text: JSON.stringify({ plans: [] }) }] },
+                };
+                res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: results[body.method] ?? {} }));
+            });
+        });
+        url = `http://127.0.0.1:${await listen(server)}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('passes every layer against a working server', async () => {
+        const seen: string[] = [];
+        const report = await runConnectionDiagnostics(
+            { serverName: 'Local', serverUrl: url, proxyBypass: false, createClient: async () => ({ client: new HttpMcpClient(url) }) },
+            (step) => seen.push(step.name)
+        );
+
+        expect(report.steps.map((step) => [step.name, step.status])).toEqual([
+            ['URL', 'pass'],
+            ['Proxy', 'pass'],
+            ['DNS', 'pass'],
+            ['TCP connect', 'pass'],
+            ['Health (/health)', 'pass'],
+            ['MCP initialize', 'pass'],
+            ['Notification stream', 'pass'],
+            ['tools/list', 'pass'],
+            ['Authenticated tool call', 'pass'],
+        ]);
+        expect(seen).toEqual(report.steps.map((step) => step.name));
+        expect(report.steps[5].detail).toBe('Protocol 2025-06-18, server riotplan 1.2.0');
+    });
+
+    it('stops at an invalid URL and skips the later layers', async () => {
+        const createClient = vi.fn();
+        const report = await runConnectionDiagnostics({ serverName: 'Broken', serverUrl: 'not a url', proxyBypass: false, createClient });
+
+        expect(report.steps[0]).toMatchObject({ name: 'URL', status: 'fail', detail: '"not a url" is not a valid URL' });
+        expect(report.steps.slice(1).every((step) => step.status === 'skip' && step.detail === 'Skipped: URL failed')).toBe(true);
+        expect(createClient).not.toHaveBeenCalled();
+    });
+
+    it('reports a refused connection with a fix and formats the report', async () => {
+        const closed = http.createServer();
+        const port = await listen(closed);
+        await new Promise<void>((resolve) => closed.close(() => resolve()));
+        const closedUrl = `http://127.0.0.1:${port}`;
+
+        const report = await runConnectionDiagnostics({
+            serverName: 'Down',
+            serverUrl: closedUrl,
+            proxyBypass: false,
+            createClient: async () => ({ client: new HttpMcpClient(closedUrl) }),
+        });
+
+        const tcp = report.steps.find((step) => step.name === 'TCP connect');
+        expect(tcp).toMatchObject({
+            status: 'fail',
+            detail: `Cannot connect to 127.0.0.1:${port}: ECONNREFUSED`,
+            fix: `Nothing accepts connections on 127.0.0.1:${port}. Start the server or check the port in the URL.`,
+        });
+        const text = formatDiagnosticsReport(report);
+        expect(text).toContain(`[FAIL] TCP connect (`);
+        expect(text).toContain(`       Fix: Nothing accepts connections on 127.0.0.1:${port}.`);
+        expect(text).toContain('[SKIP] Health (/health): Skipped: TCP connect failed');
+        expect(text.endsWith('First failure: TCP connect')).toBe(true);
+    });
+});
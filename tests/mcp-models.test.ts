@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import {
+    decodeContextProjects,
+    decodeHistory,
+    decodePlanContext,
+    decodePlanList,
+    decodePlanStatus,
+    decodeSteps,
+    SchemaDriftLog,
+    SchemaDriftReport,
+    SchemaValidationError,
+} from '../src/mcp-models';
+
+function textResult(payload: unknown) {
+    return { content: [{ type: 'text', text: JSON.stringify(payload) }] };
+}
+
+describe('mcp-models decoders', () => {
+    it('decodes plan status, folding aliases and computing a missing percentage', () => {
+        const decoded = decodePlanStatus({
+            title: 'Ship it',
+            code: 'ship-it',
+            updatedAt: '2026-01-02T00:00:00.000Z',
+            progress: { completed: 1, total: 4 },
+            currentStep: 2,
+            lastCompleted: 1,
+        });
+
+        expect(decoded.issues).toEqual([]);
+        expect(decoded.value).toEqual({
+            name: 'Ship it',
+            code: 'ship-it',
+            status: undefined,
+            stage: undefined,
+            progress: { completed: 1, total: 4, percentage: 25 },
+            currentStep: 2,
+            lastUpdated: '2026-01-02T00:00:00.000Z',
+            lastCompleted: '1',
+        });
+    });
+
+    it('rejects plan status without a name or code', () => {
+        expect(() => decodePlanStatus({ status: 'executing' })).toThrow(SchemaValidationError);
+        expect(() => decodePlanStatus('nope')).toThrow(/Plan status payload .*\$ expected object, got string/);
+    });
+
+    it('drops malformed context fields and reports each one', () => {
+        const decoded = decodePlanContext({
+            stage: 'shaping',
+            idea: { content: 'An idea' },
+            constraints: ['fast', 42],
+            questions: 'why?',
+            evidence: { files: [{ name: 'a.md', preview: 'A', size: 10 }, { preview: 'no name' }] },
+            history: { recentEvents: [{ type: 'created', timestamp: 't', summary: 's' }, { timestamp: 't' }] },
+        });
+
+        expect(decoded.value.constraints).toEqual(['fast']);
+        expect(decoded.value.questions).toEqual([]);
+        expect(decoded.value.evidence.files).toEqual([
+            { name: 'a.md', title: undefined, preview: 'A', size: 10, createdAt: undefined },
+        ]);
+        expect(decoded.value.history.recentEvents).toEqual([{ type: 'created', timestamp: 't', summary: 's' }]);
+        expect(decoded.issues.map((issue) => issue.path)).toEqual([
+            '$.evidence.files[1].name',
+            '$.constraints[1]',
+            '$.questions',
+            '$.history.recentEvents[1].type',
+        ]);
+    });
+
+    it('keeps valid plans and skips entries without an identifier', () => {
+        const decoded = decodePlanList({
+            plans: [
+                { uuid: 'u-1', name: 'One', progress: { completed: 'x', total: 2 }, createdAt: 'c' },
+                { stage: 'idea' },
+            ],
+        });
+
+        expect(decoded.value.plans).toHaveLength(1);
+        expect(decoded.value.plans[0]).toMatchObject({ uuid: 'u-1', name: 'One', lastUpdated: 'c', progress: undefined });
+        expect(decoded.issues.map((issue) => issue.path)).toEqual([
+            '$.plans[0].progress.completed',
+            '$.plans[0].progress',
+            '$.plans[1]',
+        ]);
+        expect(() => decodePlanList({ items: [] })).toThrow(SchemaValidationError);
+    });
+
+    it('accepts the step, history and project list variants', () => {
+        expect(decodeSteps({ steps: [{ number: 1, title: 'Start' }, { number: 0, title: 'Bad' }] }).value).toEqual([
+            { number: 1, title: 'Start', status: 'pending', file: undefined, startedAt: undefined, completedAt: undefined },
+        ]);
+        expect(decodeHistory([{ type: 'step_completed' }]).value.events).toEqual([
+            { type: 'step_completed', timestamp: undefined, summary: undefined },
+        ]);
+        expect(decodeContextProjects({ data: { projects: [{ id: 'p1', repo: { url: 'u' } }] } }).value).toEqual([
+            { id: 'p1', repo: { url: 'u' } },
+        ]);
+        const drifted = decodeContextProjects([{ id: 7, name: 'Seven' }, 'junk']);
+        expect(drifted.value).toEqual([{ name: 'Seven' }]);
+        expect(drifted.issues.map((issue) => issue.path)).toEqual(['$[0].id', '$[1]']);
+    });
+});
+
+describe('SchemaDriftLog', () => {
+    it('writes each distinct drift once', () => {
+        const write = vi.fn();
+        const log = new SchemaDriftLog(write, () => new Date('2026-01-01T00:00:00.000Z'));
+        const report: SchemaDriftReport = {
+            serverUrl: 'http://a',
+            operation: 'getPlanStatus',
+            model: 'Plan status',
+            issues: [{ path: '$', message: 'has neither name nor code' }],
+            rejected: true,
+        };
+
+        expect(log.report(report)).toBe(true);
+        expect(log.report({ ...report })).toBe(false);
+        expect(log.report({ ...report, serverUrl: 'http://b' })).toBe(true);
+
+        expect(write).toHaveBeenCalledTimes(2);
+        expect(write.mock.calls[0][0]).toBe(
+            '[2026-01-01T00:00:00.000Z] Plan status from http://a (getPlanStatus) was rejected: 1 issue(s)\n' +
+                '  $: has neither name nor code'
+        );
+    });
+});
+
+describe('HttpMcpClient result validation', () => {
+    function clientWith(result: unknown) {
+        const reports: SchemaDriftReport[] = [];
+        const client = new HttpMcpClient('http://127.0.0.1:1', undefined, false, {
+            onSchemaDrift: (report) => reports.push(report),
+        });
+        vi.spyOn(client as any, 'callOperation').mockResolvedValue(result);
+        return { client, reports };
+    }
+
+    it('reports and rejects a plan status that does not match the model', async () => {
+        const { client, reports } = clientWith(textResult({ progress: 'half' }));
+
+        await expect(client.getPlanStatus('plan-1')).rejects.toBeInstanceOf(SchemaValidationError);
+        expect(reports).toHaveLength(1);
+        expect(reports[0]).toMatchObject({
+            serverUrl: 'http://127.0.0.1:1',
+            operation: 'getPlanStatus',
+            model: 'Plan status',
+            rejected: true,
+        });
+    });
+
+    it('reports repaired drift and returns the validated value', async () => {
+        const { client, reports } = clientWith(textResult({ entities: [{ id: 'p1', active: 'yes' }] }));
+
+        await expect(client.listContextProjects()).resolves.toEqual([{ id: 'p1' }]);
+        expect(reports[0]).toMatchObject({ operation: 'listContextProjects', rejected: false });
+        expect(reports[0].issues).toEqual([{ path: '$[0].active', message: 'expected boolean, got string' }]);
+    });
+
+    it('falls back to an empty list when the steps resource is not JSON', async () => {
+        const { client, reports } = clientWith(undefined);
+        vi.spyOn(client, 'readResource').mockResolvedValue('Plan not found');
+
+        await expect(client.listSteps('plan-1')).resolves.toEqual([]);
+        expect(reports[0]).toMatchObject({ operation: 'listSteps', rejected: true });
+    });
+});
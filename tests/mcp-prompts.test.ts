@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import { formatPromptMessages, isPlanArgument, parsePromptList, parsePromptResult } from '../src/mcp-prompts';
+
+describe('mcp-prompts', () => {
+    it('parses prompts and their arguments, dropping unnamed entries', () => {
+        expect(parsePromptList({
+            prompts: [
+                {
+                    name: 'shape_idea',
+                    title: 'Shape an idea',
+                    arguments: [{ name: 'planId', description: 'Plan to shape', required: true }, { name: 'focus' }, {}],
+                },
+                { description: 'no name' },
+            ],
+            nextCursor: 'next',
+        })).toEqual({
+            items: [{
+                name: 'shape_idea',
+                title: 'Shape an idea',
+                description: undefined,
+                arguments: [
+                    { name: 'planId', description: 'Plan to shape', required: true },
+                    { name: 'focus', description: undefined, required: false },
+                ],
+            }],
+            nextCursor: 'next',
+        });
+    });
+
+    it('renders a single user message without a heading', () => {
+        const result = parsePromptResult({ messages: [{ role: 'user', content: { type: 'text', text: 'Shape plan a' } }] });
+
+        expect(formatPromptMessages(result)).toBe('Shape plan a');
+    });
+
+    it('renders conversations with role headings and embedded resources', () => {
+        const result = parsePromptResult({
+            description: 'Idea review',
+            messages: [
+                { role: 'user', content: { type: 'resource', resource: { uri: 'riotplan://plan/a', mimeType: 'text/markdown', text: '# Plan A' } } },
+                { role: 'assistant', content: { type: 'text', text: 'Looks good.' } },
+                { role: 'user', content: { type: 'image', mimeType: 'image/png', data: Buffer.from('png!').toString('base64') } },
+            ],
+        });
+
+        expect(result.description).toBe('Idea review');
+        expect(formatPromptMessages(result)).toBe([
+            '## user\n\n<!-- riotplan://plan/a -->\n# Plan A',
+            '## assistant\n\nLooks good.',
+            '## user\n\n[image image/png, 4 bytes]',
+        ].join('\n\n'));
+    });
+
+    it('recognizes plan arguments by name', () => {
+        expect(['plan', 'planId', 'plan_id', 'planRef', 'plan-path'].every(isPlanArgument)).toBe(true);
+        expect(['planner', 'projectId', 'id'].some(isPlanArgument)).toBe(false);
+    });
+});
+
+describe('HttpMcpClient prompts', () => {
+    it('sends prompt arguments with prompts/get', async () => {
+        const client = new HttpMcpClient('http://127.0.0.1:1');
+        const sendRequest = vi.spyOn(client, 'sendRequest').mockResolvedValue({
+            messages: [{ role: 'user', content: { type: 'text', text: 'hello' } }],
+        });
+
+        const result = await client.getPrompt('shape_idea', { planId: 'a' });
+
+        expect(sendRequest.mock.calls[0].slice(0, 2)).toEqual(['prompts/get', { name: 'shape_idea', arguments: { planId: 'a' } }]);
+        expect(result.messages).toEqual([{ role: 'user', content: [{ type: 'text', text: 'hello', mimeType: undefined, uri: undefined, data: undefined }] }]);
+    });
+});
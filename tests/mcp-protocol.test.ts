@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+    describeServerInfo,
+    LATEST_PROTOCOL_VERSION,
+    negotiateProtocol,
+    protocolFeatures,
+    UnsupportedProtocolVersionError,
+} from '../src/mcp-protocol';
+
+describe('negotiateProtocol', () => {
+    it('accepts the revision the server answers with and keeps server info', () => {
+        const negotiated = negotiateProtocol({
+            protocolVersion: '2025-03-26',
+            serverInfo: { name: 'riotplan-mcp-http', version: '1.4.0' },
+            capabilities: { resources: { subscribe: true } },
+            instructions: '  Use plan ids.  ',
+        });
+
+        expect(negotiated).toEqual({
+            protocolVersion: '2025-03-26',
+            serverInfo: { name: 'riotplan-mcp-http', version: '1.4.0' },
+            serverCapabilities: { resources: { subscribe: true } },
+            instructions: 'Use plan ids.',
+        });
+    });
+
+    it('rejects revisions the client does not implement', () => {
+        expect(() => negotiateProtocol({ protocolVersion: '2023-01-01' })).toThrow(UnsupportedProtocolVersionError);
+        expect(() => negotiateProtocol({})).toThrow(/supports 2025-06-18/);
+    });
+
+    it('offers the newest supported revision', () => {
+        expect(LATEST_PROTOCOL_VERSION).toBe('2025-06-18');
+    });
+});
+
+describe('protocolFeatures', () => {
+    it('enables transport features by revision', () => {
+        expect(protocolFeatures('2025-06-18')).toEqual({
+            protocolVersionHeader: true,
+            resumableStreams: true,
+            sessionTermination: true,
+        });
+        expect(protocolFeatures('2025-03-26').protocolVersionHeader).toBe(false);
+        expect(protocolFeatures('2024-11-05')).toEqual({
+            protocolVersionHeader: false,
+            resumableStreams: false,
+            sessionTermination: false,
+        });
+    });
+});
+
+describe('describeServerInfo', () => {
+    it('prefers the display title and appends the version', () => {
+        expect(describeServerInfo({ name: 'riotplan', title: 'RiotPlan', version: '2.0.0' })).toBe('RiotPlan 2.0.0');
+        expect(describeServerInfo({ name: 'riotplan', version: '' })).toBe('riotplan');
+        expect(describeServerInfo(undefined)).toBeUndefined();
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_TIMEOUT_POLICY,
+    isCancellationError,
+    normalizeTimeoutOverrides,
+    RequestCancelledError,
+    RequestTimeoutError,
+    resolveTimeoutPolicy,
+    toAbortSignal,
+} from '../src/mcp-request';
+
+function makeToken() {
+    const listeners: Array<() => void> = [];
+    return {
+        isCancellationRequested: false,
+        onCancellationRequested(listener: () => void) {
+            listeners.push(listener);
+            return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+        },
+        cancel() {
+            this.isCancellationRequested = true;
+            [...listeners].forEach((listener) => listener());
+        },
+    };
+}
+
+describe('mcp-request', () => {
+    it('merges profile overrides over the default timeout policy', () => {
+        const policy = resolveTimeoutPolicy({ transfer: 600000, read: -1 });
+
+        expect(policy.transfer).toBe(600000);
+        expect(policy.read).toBe(DEFAULT_TIMEOUT_POLICY.read);
+        expect(policy.health).toBe(DEFAULT_TIMEOUT_POLICY.health);
+    });
+
+    it('keeps only recognised positive overrides when normalizing settings', () => {
+        expect(normalizeTimeoutOverrides({ list: '5000', bogus: 1, write: 0 })).toEqual({ list: 5000 });
+        expect(normalizeTimeoutOverrides({})).toBeUndefined();
+        expect(normalizeTimeoutOverrides('nope')).toBeUndefined();
+    });
+
+    it('aborts the signal when the cancellation token fires', () => {
+        const token = makeToken();
+        const signal = toAbortSignal(token);
+
+        expect(signal.aborted).toBe(false);
+        token.cancel();
+        expect(signal.aborted).toBe(true);
+    });
+
+    it('returns an already-aborted signal for a cancelled token', () => {
+        const token = makeToken();
+        token.isCancellationRequested = true;
+
+        expect(toAbortSignal(token).aborted).toBe(true);
+    });
+
+    it('distinguishes cancellation from timeouts', () => {
+        expect(isCancellationError(new RequestCancelledError())).toBe(true);
+        const timeout = new RequestTimeoutError('MCP tools/list', 30000);
+        expect(isCancellationError(timeout)).toBe(false);
+        expect(timeout.message).toBe('MCP tools/list timed out after 30000ms');
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { RequestCancelledError, RequestTimeoutError } from '../src/mcp-request';
+import {
+    backoffDelay,
+    CircuitBreaker,
+    CircuitOpenError,
+    DEFAULT_RETRY_POLICY,
+    isServerFailure,
+    isTransientError,
+    isUnsentRequestError,
+    waitForRetry,
+} from '../src/mcp-resilience';
+
+function errnoError(code: string): Error {
+    return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+describe('isTransientError', () => {
+    it('retries connection resets, gateway errors and busy stores', () => {
+        expect(isTransientError(errnoError('ECONNRESET'))).toBe(true);
+        expect(isTransientError(errnoError('ETIMEDOUT'))).toBe(true);
+        expect(isTransientError(new Error('HTTP 503: unavailable'))).toBe(true);
+        expect(isTransientError(new Error('SQLITE_BUSY: database is locked'))).toBe(true);
+        expect(isTransientError(new Error("ENOENT: rename '/plans/.sync-index.json.tmp'"))).toBe(true);
+    });
+
+    it('does not retry client errors, cancellations or overall timeouts', () => {
+        expect(isTransientError(new Error('HTTP 400: bad request'))).toBe(false);
+        expect(isTransientError(new Error('HTTP 500: boom'))).toBe(false);
+        expect(isTransientError(errnoError('ECONNREFUSED'))).toBe(false);
+        expect(isTransientError(new RequestCancelledError())).toBe(false);
+        expect(isTransientError(new RequestTimeoutError('POST /mcp', 10))).toBe(false);
+    });
+});
+
+describe('isUnsentRequestError', () => {
+    it('only accepts failures before the request reached the server', () => {
+        expect(isUnsentRequestError(errnoError('ECONNREFUSED'))).toBe(true);
+        expect(isUnsentRequestError(errnoError('EAI_AGAIN'))).toBe(true);
+        expect(isUnsentRequestError(errnoError('ECONNRESET'))).toBe(false);
+        expect(isUnsentRequestError(errnoError('ETIMEDOUT'))).toBe(false);
+        expect(isUnsentRequestError(new Error('HTTP 503: unavailable'))).toBe(false);
+    });
+});
+
+describe('isServerFailure', () => {
+    it('counts unreachable servers and 5xx but not tool errors', () => {
+        expect(isServerFailure(errnoError('ECONNREFUSED'))).toBe(true);
+        expect(isServerFailure(new Error('HTTP 500: boom'))).toBe(true);
+        expect(isServerFailure(new RequestTimeoutError('POST /mcp', 10))).toBe(true);
+        expect(isServerFailure(new Error('SQLITE_BUSY'))).toBe(false);
+        expect(isServerFailure(new Error('HTTP 401: unauthorized'))).toBe(false);
+    });
+});
+
+describe('backoffDelay', () => {
+    it('grows exponentially under the cap with full jitter', () => {
+        const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 300 };
+        expect(backoffDelay(0, policy, () => 1)).toBe(100);
+        expect(backoffDelay(1, policy, () => 1)).toBe(200);
+        expect(backoffDelay(5, policy, () => 1)).toBe(300);
+        expect(backoffDelay(1, policy, () => 0.5)).toBe(100);
+    });
+});
+
+describe('waitForRetry', () => {
+    it('rejects when the signal aborts', async () => {
+        const controller = new AbortController();
+        const pending = waitForRetry(10000, controller.signal);
+        controller.abort();
+        await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+});
+
+describe('CircuitBreaker', () => {
+    it('opens after repeated failures and fails fast until the reset timeout', () => {
+        let now = 1000;
+        const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 500, now: () => now });
+        const states: string[] = [];
+        breaker.onStateChange((snapshot) => states.push(snapshot.state));
+
+        breaker.recordFailure();
+        expect(() => breaker.assertCanRequest()).not.toThrow();
+        breaker.recordFailure();
+
+        expect(breaker.getSnapshot()).toEqual({ state: 'open', consecutiveFailures: 2, retryAt: 1500 });
+        expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError);
+
+        now = 1500;
+        breaker.assertCanRequest();
+        expect(breaker.getSnapshot().state).toBe('half-open');
+        expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError);
+
+        breaker.recordSuccess();
+        expect(breaker.getSnapshot().state).toBe('closed');
+        expect(states).toEqual(['open', 'half-open', 'closed']);
+    });
+
+    it('re-opens when the half-open trial fails', () => {
+        let now = 0;
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 100, now: () => now });
+        breaker.recordFailure();
+        now = 100;
+        breaker.assertCanRequest();
+
+        breaker.recordFailure();
+
+        expect(breaker.getSnapshot()).toEqual({ state: 'open', consecutiveFailures: 2, retryAt: 200 });
+    });
+});
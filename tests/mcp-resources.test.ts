@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import {
+    expandUriTemplate,
+    formatResourceContents,
+    notificationResourceUris,
+    parseResourceList,
+    parseResourceTemplateList,
+    resourceGroup,
+    ResourceSubscriptionRegistry,
+    templateVariables,
+} from '../src/mcp-resources';
+
+describe('mcp-resources', () => {
+    it('parses resource and template lists, dropping entries without a URI', () => {
+        expect(parseResourceList({
+            resources: [
+                { uri: 'riotplan://plan/a', name: 'Plan A', mimeType: 'application/json', size: 12 },
+                { uri: 'riotplan://status/a' },
+                { name: 'no uri' },
+                'junk',
+            ],
+            nextCursor: 'page-2',
+        })).toEqual({
+            items: [
+                { uri: 'riotplan://plan/a', name: 'Plan A', title: undefined, description: undefined, mimeType: 'application/json', size: 12 },
+                { uri: 'riotplan://status/a', name: 'riotplan://status/a', title: undefined, description: undefined, mimeType: undefined, size: undefined },
+            ],
+            nextCursor: 'page-2',
+        });
+        expect(parseResourceTemplateList({ resourceTemplates: [{ uriTemplate: 'riotplan://plan/{planId}', name: 'Plan' }, {}] }).items)
+            .toEqual([{ uriTemplate: 'riotplan://plan/{planId}', name: 'Plan', title: undefined, description: undefined, mimeType: undefined }]);
+    });
+
+    it('groups riotplan resources by kind and others by scheme', () => {
+        expect(resourceGroup('riotplan://plan/my-plan')).toBe('plan');
+        expect(resourceGroup('riotplan://artifact/my-plan?type=summary')).toBe('artifact');
+        expect(resourceGroup('file:///tmp/x.md')).toBe('file');
+    });
+
+    it('expands path and query template expressions', () => {
+        const template = 'riotplan://artifact/{planId}{?type,format}';
+
+        expect(templateVariables(template)).toEqual(['planId', 'type', 'format']);
+        expect(expandUriTemplate(template, { planId: 'my plan', type: 'summary', format: '' }))
+            .toBe('riotplan://artifact/my%20plan?type=summary');
+    });
+
+    it('pretty-prints JSON and labels each part of multi-part contents', () => {
+        expect(formatResourceContents([{ uri: 'riotplan://plan/a', mimeType: 'application/json', text: '{"a":1}' }]))
+            .toBe('{\n  "a": 1\n}');
+        expect(formatResourceContents([
+            { uri: 'riotplan://a', text: 'hello' },
+            { uri: 'riotplan://b', mimeType: 'image/png', blob: Buffer.from('png!').toString('base64') },
+        ])).toBe('--- riotplan://a\nhello\n\n--- riotplan://b\n[binary image/png, 4 bytes]');
+    });
+
+    it('reads URIs from the notification shapes servers send', () => {
+        expect(notificationResourceUris({ uri: 'a', resource: { uri: 'b' }, resources: [{ uri: 'c' }, {}], uris: ['d', 5] }))
+            .toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('tracks subscription state and update times per server', () => {
+        const registry = new ResourceSubscriptionRegistry(() => 1000);
+        const listener = vi.fn();
+        registry.onDidChange(listener);
+
+        registry.set('s1', 'riotplan://plan/a', 'subscribed');
+        expect(registry.markUpdated('s1', ['riotplan://plan/a', 'riotplan://plan/b'])).toEqual(['riotplan://plan/a']);
+        expect(registry.markUpdated('s2', ['riotplan://plan/a'])).toEqual([]);
+        registry.set('s1', 'riotplan://plan/a', 'subscribing');
+
+        expect(registry.get('s1', 'riotplan://plan/a')).toEqual({ state: 'subscribing', updatedAt: 1000 });
+        expect(registry.getUris('s1')).toEqual(['riotplan://plan/a']);
+        expect(listener).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe('HttpMcpClient resource listing', () => {
+    it('follows nextCursor pages and stops on a repeated cursor', async () => {
+        const client = new HttpMcpClient('http://127.0.0.1:1');
+        const sendRequest = vi.spyOn(client, 'sendRequest')
+            .mockResolvedValueOnce({ resources: [{ uri: 'riotplan://plan/a' }], nextCursor: 'c1' })
+            .mockResolvedValueOnce({ resources: [{ uri: 'riotplan://plan/b' }], nextCursor: 'c1' });
+
+        const resources = await client.listResources();
+
+        expect(resources.map((resource) => resource.uri)).toEqual(['riotplan://plan/a', 'riotplan://plan/b']);
+        expect(sendRequest.mock.calls.map((call) => [call[0], call[1]])).toEqual([
+            ['resources/list', {}],
+            ['resources/list', { cursor: 'c1' }],
+        ]);
+    });
+});
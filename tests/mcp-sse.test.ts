@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SseConnectionHandlers, SseParser, SseStream } from '../src/mcp-sse';
+
+describe('SseParser', () => {
+    it('parses multi-line data, event types, ids and retry across chunk boundaries', () => {
+        const parser = new SseParser();
+
+        expect(parser.push('id: 7\r\nevent: message\r\ndata: {"a":')).toEqual([]);
+        const events = parser.push('1}\r\ndata: more\r\n\r\n: ping\n\nretry: 2500\n');
+
+        expect(events).toEqual([{ id: '7', event: 'message', data: '{"a":1}\nmore' }]);
+        expect(parser.lastEventId).toBe('7');
+        expect(parser.retryMs).toBe(2500);
+    });
+
+    it('keeps the last event id for later events and ignores comment-only blocks', () => {
+        const parser = new SseParser();
+        parser.push('id: 3\ndata: one\n\n');
+
+        const events = parser.push(':keepalive\n\ndata: two\n\n');
+
+        expect(events).toEqual([{ id: '3', event: 'message', data: 'two' }]);
+    });
+
+    it('handles a CRLF split between chunks', () => {
+        const parser = new SseParser();
+
+        expect(parser.push('data: x\r')).toEqual([]);
+        expect(parser.push('\n\r\n')).toEqual([{ event: 'message', data: 'x' }]);
+    });
+});
+
+describe('SseStream', () => {
+    let connections: Array<{ lastEventId?: string; handlers: SseConnectionHandlers; abort: ReturnType<typeof vi.fn> }>;
+
+    function createStream(options = {}) {
+        const events: string[] = [];
+        const stream = new SseStream(
+            (lastEventId, handlers) => {
+                const abort = vi.fn();
+                connections.push({ lastEventId, handlers, abort });
+                return abort;
+            },
+            (event) => events.push(event.data),
+            { baseDelayMs: 100, maxDelayMs: 1000, heartbeatTimeoutMs: 5000, ...options },
+            () => 1
+        );
+        return { stream, events };
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        connections = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('reconnects with backoff and resumes from the last event id', () => {
+        const { stream, events } = createStream();
+        const health: string[] = [];
+        stream.onHealthChange((value) => health.push(value));
+
+        stream.start();
+        connections[0].handlers.onOpen();
+        connections[0].handlers.onChunk('id: 41\ndata: first\n\n');
+        connections[0].handlers.onClose(new Error('socket hang up'));
+
+        expect(stream.getHealth()).toBe('reconnecting');
+        vi.advanceTimersByTime(99);
+        expect(connections).toHaveLength(1);
+        vi.advanceTimersByTime(1);
+        expect(connections).toHaveLength(2);
+        expect(connections[1].lastEventId).toBe('41');
+
+        connections[1].handlers.onOpen();
+        expect(events).toEqual(['first']);
+        expect(health).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+    });
+
+    it('drops a silent stream after the heartbeat timeout', () => {
+        const { stream } = createStream();
+        stream.start();
+        connections[0].handlers.onOpen();
+
+        vi.advanceTimersByTime(4000);
+        connections[0].handlers.onChunk(': ping\n\n');
+        vi.advanceTimersByTime(4000);
+        expect(connections[0].abort).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1000);
+        expect(connections[0].abort).toHaveBeenCalled();
+        expect(stream.getHealth()).toBe('reconnecting');
+
+        // Late callbacks from the abandoned connection are ignored.
+        connections[0].handlers.onClose(new Error('destroyed'));
+        vi.advanceTimersByTime(100);
+        expect(connections).toHaveLength(2);
+    });
+
+    it('stops without retrying when the server refuses the stream', () => {
+        const { stream } = createStream();
+        stream.start();
+
+        connections[0].handlers.onClose(new Error('HTTP 405'), false);
+        vi.advanceTimersByTime(10000);
+
+        expect(stream.getHealth()).toBe('stopped');
+        expect(connections).toHaveLength(1);
+    });
+
+    it('stop() aborts the connection and cancels pending reconnects', () => {
+        const { stream } = createStream();
+        stream.start();
+        connections[0].handlers.onClose();
+
+        stream.stop();
+        vi.advanceTimersByTime(10000);
+
+        expect(connections).toHaveLength(1);
+        expect(stream.getHealth()).toBe('stopped');
+    });
+});
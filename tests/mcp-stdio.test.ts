@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import { splitCommandLine, StdioProcessError, StdioServerProcess, StdioServerSettings } from '../src/mcp-stdio';
+
+// Minimal MCP server on stdio: answers initialize, echoes, asks the client for a ping, crashes on request.
+const FAKE_SERVER = `
+const readline = require('readline');
+const send = (message) => process.stdout.write(JSON.stringify(message) + '\\n');
+let askedBy;
+process.stderr.write('fake server ready\\n');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+    const message = JSON.parse(line);
+    if (message.method === 'initialize') {
+        send({ jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-06-18', serverInfo: { name: 'fake', version: '1.0.0' }, capabilities: {} } });
+    } else if (message.method === 'test/echo') {
+        send({ jsonrpc: '2.0', method: 'notifications/test', params: { pid: process.pid } });
+        send({ jsonrpc: '2.0', id: message.id, result: { echoed: message.params, pid: process.pid } });
+    } else if (message.method === 'test/ask') {
+        askedBy = message.id;
+        send({ jsonrpc: '2.0', id: 'server-1', method: 'ping' });
+    } else if (message.id === 'server-1' && !message.method) {
+        send({ jsonrpc: '2.0', id: askedBy, result: { pong: message.result } });
+    } else if (message.method === 'test/crash') {
+        process.exit(3);
+    }
+});
+`;
+
+describe('stdio server profiles', () => {
+    let directory: string;
+    let settings: StdioServerSettings;
+    const clients: HttpMcpClient[] = [];
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'riotplan-stdio-'));
+        await fs.writeFile(path.join(directory, 'server.js'), FAKE_SERVER, 'utf8');
+        settings = { command: process.execPath, args: ['server.js'], cwd: directory };
+    });
+
+    afterEach(() => {
+        for (const client of clients.splice(0)) {
+            client.dispose();
+        }
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    function connect(server: StdioServerProcess): HttpMcpClient {
+        const client = new HttpMcpClient('stdio:fake', undefined, false, {
+            stdio: server,
+            retryPolicy: { maxAttempts: 1 },
+        });
+        clients.push(client);
+        return client;
+    }
+
+    it('speaks JSON-RPC over stdin/stdout and forwards stderr and server notifications', async () => {
+        const stderr: string[] = [];
+        const client = connect(new StdioServerProcess(settings, { onStderr: (line) => stderr.push(line) }));
+        const notifications: unknown[] = [];
+        client.onNotification('notifications/test', (params) => notifications.push(params));
+
+        const result = await client.sendRequest('test/echo', { value: 1 });
+
+        expect(result.echoed).toEqual({ value: 1 });
+        expect(client.getProtocolInfo()?.serverInfo).toMatchObject({ name: 'fake' });
+        expect(client.getStreamHealth()).toBe('open');
+        expect(notifications).toEqual([{ pid: result.pid }]);
+        expect(stderr).toContain('fake server ready');
+    });
+
+    it('answers server requests on stdin', async () => {
+        const client = connect(new StdioServerProcess(settings));
+
+        await expect(client.sendRequest('test/ask')).resolves.toEqual({ pong: {} });
+    });
+
+    it('restarts a crashed process and re-initializes the session', async () => {
+        const server = new StdioServerProcess(settings, { restartPolicy: { baseDelayMs: 1, maxDelayMs: 1 } });
+        const client = connect(server);
+        const first = await client.sendRequest('test/echo');
+        const restarted = new Promise<void>((resolve) => server.onRestart(resolve));
+
+        const crash = client.sendRequest('test/crash');
+        await expect(crash).rejects.toBeInstanceOf(StdioProcessError);
+        await expect(crash).rejects.toMatchObject({ code: 'ECONNRESET', message: 'RiotPlan server process exited with code 3' });
+        await restarted;
+
+        const second = await client.sendRequest('test/echo');
+        expect(second.pid).not.toBe(first.pid);
+        expect(server.getState()).toBe('running');
+    });
+
+    it('gives up after too many crashes', async () => {
+        const states: string[] = [];
+        const server = new StdioServerProcess(settings, { restartPolicy: { maxRestarts: 0 } });
+        server.onStateChange((state, detail) => states.push(detail ? `${state}: ${detail}` : state));
+        const client = connect(server);
+
+        await expect(client.sendRequest('test/crash')).rejects.toBeInstanceOf(StdioProcessError);
+
+        expect(states).toEqual(['starting', 'running', 'failed: exited with code 3; gave up after 0 restarts']);
+        await expect(client.sendRequest('test/echo')).rejects.toThrow('RiotPlan server process exited with code 3');
+    });
+
+    it('reports a command that cannot be started', async () => {
+        const client = connect(new StdioServerProcess({ command: path.join(directory, 'missing-binary') }));
+
+        const verification = await client.verifyRiotPlanServer();
+
+        expect(verification.ok).toBe(false);
+        expect(verification.reason).toMatch(/missing-binary" could not be started: .*ENOENT/);
+    });
+
+    it('splits typed command lines', () => {
+        expect(splitCommandLine(`riotplan-mcp --plans-dir "My Plans" --name 'a b'`)).toEqual([
+            'riotplan-mcp',
+            '--plans-dir',
+            'My Plans',
+            '--name',
+            'a b',
+        ]);
+    });
+});
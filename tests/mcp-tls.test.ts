@@ -0,0 +1,110 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { DetailedPeerCertificate } from 'tls';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    describeTlsSettings,
+    loadTlsOptions,
+    normalizeFingerprint,
+    normalizeTlsSettings,
+    pinnedServerIdentity,
+    resolveTlsPath,
+    TlsConfigurationError,
+} from '../src/mcp-tls';
+
+const LEAF = 'AA:'.repeat(31) + 'AA';
+const INTERMEDIATE = 'BB:'.repeat(31) + 'BB';
+
+function fakeChain(): DetailedPeerCertificate {
+    const intermediate = { subject: { CN: 'Intermediate' }, fingerprint256: INTERMEDIATE } as unknown as DetailedPeerCertificate;
+    intermediate.issuerCertificate = intermediate;
+    return {
+        subject: { CN: 'plans.internal' },
+        subjectaltname: 'DNS:plans.internal',
+        fingerprint256: LEAF,
+        issuerCertificate: intermediate,
+    } as unknown as DetailedPeerCertificate;
+}
+
+describe('mcp-tls', () => {
+    it('normalizes SHA-256 fingerprints written with or without separators', () => {
+        expect(normalizeFingerprint('aa'.repeat(32))).toBe(LEAF);
+        expect(normalizeFingerprint(`sha256/${LEAF.toLowerCase()}`)).toBe(LEAF);
+        expect(normalizeFingerprint('AA:BB')).toBeUndefined();
+    });
+
+    it('keeps only recognised TLS settings', () => {
+        expect(normalizeTlsSettings({ caFile: ' ca.pem ', insecureSkipVerify: 'yes', allowedFingerprints: ['x', 3, ' '] }))
+            .toEqual({ caFile: 'ca.pem', allowedFingerprints: ['x'] });
+        expect(normalizeTlsSettings({ insecureSkipVerify: false })).toBeUndefined();
+        expect(normalizeTlsSettings('ca.pem')).toBeUndefined();
+    });
+
+    it('resolves relative paths against the base directory and expands ~', () => {
+        expect(resolveTlsPath('certs/ca.pem', '/work')).toBe(path.resolve('/work/certs/ca.pem'));
+        expect(resolveTlsPath('~/ca.pem', '/work')).toBe(path.join(os.homedir(), 'ca.pem'));
+        expect(resolveTlsPath('/etc/ca.pem', '/work')).toBe(path.resolve('/etc/ca.pem'));
+    });
+
+    it('accepts a chain containing a pinned certificate and rejects others', () => {
+        const cert = fakeChain();
+        expect(pinnedServerIdentity([INTERMEDIATE.toLowerCase()])!('plans.internal', cert)).toBeUndefined();
+        expect(pinnedServerIdentity(['CC'.repeat(32)])!('plans.internal', cert)?.message)
+            .toContain('does not match any pinned fingerprint');
+    });
+
+    it('still checks the host name when pinning', () => {
+        expect(pinnedServerIdentity([LEAF])!('other.internal', fakeChain())).toBeInstanceOf(Error);
+    });
+
+    it('describes configured TLS settings', () => {
+        expect(describeTlsSettings({ caFile: 'ca.pem', certFile: 'c.pem', keyFile: 'k.pem', allowedFingerprints: [LEAF] }))
+            .toBe('custom CA, client certificate, 1 pinned fingerprint');
+        expect(describeTlsSettings(undefined)).toBeUndefined();
+    });
+
+    describe('loadTlsOptions', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'riotplan-tls-'));
+            await fs.writeFile(path.join(dir, 'ca.pem'), 'CA');
+            await fs.writeFile(path.join(dir, 'client.pem'), 'CERT');
+            await fs.writeFile(path.join(dir, 'client.key'), 'KEY');
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        it('reads CA, client certificate and key, adding the CA to the default roots', async () => {
+            const options = await loadTlsOptions(
+                { caFile: 'ca.pem', certFile: 'client.pem', keyFile: 'client.key', allowedFingerprints: [LEAF] },
+                { passphrase: 'secret', baseDir: dir }
+            );
+
+            expect(options.ca?.length).toBeGreaterThan(1);
+            expect(options.ca?.[options.ca.length - 1].toString()).toBe('CA');
+            expect(options.cert?.toString()).toBe('CERT');
+            expect(options.key?.toString()).toBe('KEY');
+            expect(options.passphrase).toBe('secret');
+            expect(options.rejectUnauthorized).toBeUndefined();
+            expect(options.checkServerIdentity).toBeTypeOf('function');
+        });
+
+        it('turns off verification only when asked', async () => {
+            expect(await loadTlsOptions({ insecureSkipVerify: true })).toEqual({ rejectUnauthorized: false });
+        });
+
+        it('rejects unreadable files and contradictory settings', async () => {
+            await expect(loadTlsOptions({ caFile: 'missing.pem' }, { baseDir: dir }))
+                .rejects.toThrow(/Cannot read CA file .*missing\.pem/);
+            await expect(loadTlsOptions({ certFile: 'client.pem' }, { baseDir: dir }))
+                .rejects.toThrow('certFile and keyFile must be configured together');
+            await expect(loadTlsOptions({ insecureSkipVerify: true, allowedFingerprints: [LEAF] }))
+                .rejects.toBeInstanceOf(TlsConfigurationError);
+            await expect(loadTlsOptions({ allowedFingerprints: ['nope'] })).rejects.toThrow('Not a SHA-256 fingerprint: nope');
+        });
+    });
+});
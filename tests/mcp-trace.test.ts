@@ -0,0 +1,124 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import { maskSecret, redactTracePayload, RequestTracer } from '../src/mcp-trace';
+
+describe('mcp-trace', () => {
+    it('masks credential fields at any depth and leaves the rest alone', () => {
+        const redacted = redactTracePayload({
+            method: 'tools/call',
+            params: {
+                _meta: { progressToken: 'p-1' },
+                arguments: { apiKey: 'rp-secret-9876', headers: [{ Authorization: 'Bearer abcdefgh' }] },
+            },
+        });
+
+        expect(redacted).toEqual({
+            method: 'tools/call',
+            params: {
+                _meta: { progressToken: 'p-1' },
+                arguments: { apiKey: '***9876 (len=14)', headers: [{ Authorization: '***efgh (len=15)' }] },
+            },
+        });
+        expect(maskSecret(undefined)).toBe('none');
+    });
+
+    it('records nothing while disabled and keeps only the newest entries', () => {
+        const tracer = new RequestTracer(2, () => new Date('2026-01-01T00:00:00.000Z'));
+        tracer.record('http://a', { kind: 'request', method: 'ignored' });
+        tracer.setEnabled(true);
+        tracer.record('http://a', { kind: 'request', method: 'one' });
+        tracer.record('http://b', { kind: 'request', method: 'two' });
+        tracer.record('http://a', { kind: 'response', method: 'three' });
+
+        expect(tracer.getEntries().map((entry) => [entry.seq, entry.method])).toEqual([[2, 'two'], [3, 'three']]);
+        expect(tracer.getEntries('http://a').map((entry) => entry.method)).toEqual(['three']);
+        expect(tracer.toCapture('1.2.3')).toMatchObject({
+            format: 'riotplan-trace',
+            version: 1,
+            exportedAt: '2026-01-01T00:00:00.000Z',
+            extensionVersion: '1.2.3',
+            servers: ['http://b', 'http://a'],
+        });
+    });
+
+    it('notifies listeners on record and clear', () => {
+        const tracer = new RequestTracer();
+        tracer.setEnabled(true);
+        const listener = vi.fn();
+        const unsubscribe = tracer.onDidChange(listener);
+
+        tracer.record('http://a', { kind: 'sse' });
+        tracer.clear();
+        unsubscribe();
+        tracer.record('http://a', { kind: 'sse' });
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(tracer.getEntries()).toHaveLength(1);
+    });
+});
+
+describe('HttpMcpClient tracing', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        server = http.createServer((req, res) => {
+            if (req.method !== 'POST') {
+                res.writeHead(405).end();
+                return;
+            }
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                if (body.method === 'initialize') {
+                    res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-abcd' });
+                    res.end(JSON.stringify({
+                        jsonrpc: '2.0',
+                        id: body.id,
+                        result: { protocolVersion: '2025-06-18', serverInfo: { name: 'test', version: '1.0.0' }, capabilities: {} },
+                    }));
+                    return;
+                }
+                if (body.id === undefined || body.id === null) {
+                    res.writeHead(202).end();
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { echoed: body.params } }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('records redacted requests and responses with status, timing and masked session id', async () => {
+        const tracer = new RequestTracer();
+        tracer.setEnabled(true);
+        const client = new HttpMcpClient(baseUrl, 'rp-token-5678', false, { tracer });
+
+        await client.sendRequest('test/echo', { password: 'hunter22' });
+        client.dispose();
+
+        const entries = tracer.getEntries(baseUrl);
+        const request = entries.find((entry) => entry.kind === 'request' && entry.method === 'test/echo');
+        const response = entries.find((entry) => entry.kind === 'response' && entry.method === 'test/echo');
+        expect(request?.payload).toMatchObject({ params: { password: '***er22 (len=8)' } });
+        expect(request?.sessionId).toBe('***abcd (len=12)');
+        expect(response).toMatchObject({ statusCode: 200, rpcId: request?.rpcId });
+        expect(response?.durationMs).toBeGreaterThanOrEqual(0);
+        expect(JSON.stringify(entries)).not.toContain('rp-token-5678');
+        expect(JSON.stringify(entries)).not.toContain('hunter22');
+    });
+});
@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import { expectedSha256, parseContentRange, PlanIntegrityError } from '../src/mcp-transfer';
+
+const PLAN = Buffer.from('riotplan-archive:'.repeat(200), 'utf8');
+const PLAN_SHA256 = createHash('sha256').update(PLAN).digest('hex');
+
+describe('mcp-transfer', () => {
+    it('reads SHA-256 digests from Repr-Digest, Digest and X-Checksum-Sha256', () => {
+        const base64 = Buffer.from(PLAN_SHA256, 'hex').toString('base64');
+
+        expect(expectedSha256({ 'repr-digest': `sha-512=:abc=:, sha-256=:${base64}:` })).toBe(PLAN_SHA256);
+        expect(expectedSha256({ digest: `SHA-256=${base64}` })).toBe(PLAN_SHA256);
+        expect(expectedSha256({ 'x-checksum-sha256': PLAN_SHA256.toUpperCase() })).toBe(PLAN_SHA256);
+        expect(expectedSha256({ 'x-checksum-sha256': 'not-a-digest' })).toBeUndefined();
+    });
+
+    it('parses Content-Range headers', () => {
+        expect(parseContentRange('bytes 100-199/3400')).toEqual({ start: 100, end: 199, total: 3400 });
+        expect(parseContentRange('bytes 0-9/*')).toEqual({ start: 0, end: 9, total: undefined });
+        expect(parseContentRange('items 0-9/10')).toBeUndefined();
+    });
+});
+
+describe('HttpMcpClient plan file transfers', () => {
+    let directory: string;
+    let server: http.Server;
+    let baseUrl: string;
+    let handler: (req: http.IncomingMessage, res: http.ServerResponse, body: Buffer) => void;
+    let requests: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: Buffer }>;
+
+    const client = (options: ConstructorParameters<typeof HttpMcpClient>[3] = {}) =>
+        new HttpMcpClient(baseUrl, undefined, false, { retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 }, ...options });
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'riotplan-transfer-'));
+        requests = [];
+        server = http.createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => {
+                const body = Buffer.concat(chunks);
+                requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+                handler(req, res, body);
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('streams a download to disk with byte progress and a verified checksum', async () => {
+        handler = (_req, res) => {
+            res.writeHead(200, {
+                'Content-Length': PLAN.byteLength,
+                'Content-Disposition': 'attachment; filename="my-plan.plan"',
+                'X-Checksum-Sha256': PLAN_SHA256,
+            });
+            res.end(PLAN);
+        };
+        const target = path.join(directory, 'my-plan.plan');
+        const progress: Array<{ progress: number; total?: number }> = [];
+
+        const result = await client().downloadPlanToFile('plan-a', target, { onProgress: (update) => progress.push(update) });
+
+        expect(result).toEqual({ filename: 'my-plan.plan', bytes: PLAN.byteLength, sha256: PLAN_SHA256, resumedFrom: 0 });
+        expect(await fs.readFile(target)).toEqual(PLAN);
+        expect(progress[progress.length - 1]).toEqual({ progress: PLAN.byteLength, total: PLAN.byteLength });
+        expect(await fs.readdir(directory)).toEqual(['my-plan.plan']);
+    });
+
+    it('resumes an interrupted download with a range request', async () => {
+        const cut = 1000;
+        handler = (req, res) => {
+            const range = /^bytes=(\d+)-$/.exec(String(req.headers.range || ''));
+            if (range && req.headers['if-range'] === '"v1"') {
+                const start = Number(range[1]);
+                res.writeHead(206, {
+                    ETag: '"v1"',
+                    'Content-Length': PLAN.byteLength - start,
+                    'Content-Range': `bytes ${start}-${PLAN.byteLength - 1}/${PLAN.byteLength}`,
+                });
+                res.end(PLAN.subarray(start));
+                return;
+            }
+            res.writeHead(200, { ETag: '"v1"', 'Content-Length': PLAN.byteLength });
+            res.write(PLAN.subarray(0, cut), () => setTimeout(() => res.socket?.destroy(), 20));
+        };
+        const target = path.join(directory, 'resumed.plan');
+
+        const result = await client().downloadPlanToFile('plan-a', target);
+
+        expect(result.resumedFrom).toBe(cut);
+        expect(await fs.readFile(target)).toEqual(PLAN);
+        expect(requests.map((request) => request.headers.range)).toEqual([undefined, `bytes=${cut}-`]);
+    });
+
+    it('rejects a download whose checksum does not match and drops the partial file', async () => {
+        handler = (_req, res) => {
+            res.writeHead(200, { 'Content-Length': PLAN.byteLength, 'X-Checksum-Sha256': '0'.repeat(64) });
+            res.end(PLAN);
+        };
+        const target = path.join(directory, 'corrupt.plan');
+
+        await expect(client().downloadPlanToFile('plan-a', target)).rejects.toBeInstanceOf(PlanIntegrityError);
+        expect(await fs.readdir(directory)).toEqual([]);
+    });
+
+    it('streams small uploads as multipart with the file checksum', async () => {
+        handler = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, sha256: PLAN_SHA256 }));
+        };
+        const source = path.join(directory, 'upload.plan');
+        await fs.writeFile(source, PLAN);
+
+        await expect(client().uploadPlanFromFile(source, 'upload.plan')).resolves.toEqual({ success: true, sha256: PLAN_SHA256 });
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0].url).toBe('/plan/upload');
+        expect(requests[0].headers['x-checksum-sha256']).toBe(PLAN_SHA256);
+        expect(requests[0].body.includes(PLAN)).toBe(true);
+        expect(Number(requests[0].headers['content-length'])).toBe(requests[0].body.byteLength);
+    });
+
+    it('does not repeat a multipart upload after a gateway error', async () => {
+        handler = (_req, res) => {
+            res.writeHead(502).end('bad gateway');
+        };
+        const source = path.join(directory, 'upload.plan');
+        await fs.writeFile(source, PLAN);
+
+        await expect(client().uploadPlanFromFile(source, 'upload.plan')).rejects.toThrow('HTTP 502');
+
+        expect(requests.map((request) => request.url)).toEqual(['/plan/upload']);
+    });
+
+    it('uploads large files in chunks and follows the server offset on conflicts', async () => {
+        let received = Buffer.alloc(0);
+        let conflictSent = false;
+        handler = (req, res, body) => {
+            res.setHeader('Content-Type', 'application/json');
+            if (req.method === 'POST' && req.url === '/plan/upload/sessions') {
+                res.writeHead(201).end(JSON.stringify({ uploadId: 'u1', chunkSize: 1500 }));
+                return;
+            }
+            const range = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(String(req.headers['content-range']));
+            const start = Number(range?.[1]);
+            if (!conflictSent && start > 0) {
+                // Pretend only part of the first chunk was stored.
+                conflictSent = true;
+                received = received.subarray(0, 1000);
+                res.writeHead(409).end(JSON.stringify({ offset: 1000 }));
+                return;
+            }
+            received = Buffer.concat([received.subarray(0, start), body]);
+            const offset = received.byteLength;
+            res.writeHead(200).end(JSON.stringify(
+                offset >= PLAN.byteLength ? { offset, result: { success: true, sha256: PLAN_SHA256 } } : { offset }
+            ));
+        };
+        const source = path.join(directory, 'large.plan');
+        await fs.writeFile(source, PLAN);
+
+        const result = await client({ uploadChunkBytes: 1024 }).uploadPlanFromFile(source, 'large.plan');
+
+        expect(result).toEqual({ success: true, sha256: PLAN_SHA256 });
+        expect(received).toEqual(PLAN);
+        expect(JSON.parse(requests[0].body.toString('utf8'))).toEqual({ filename: 'large.plan', size: PLAN.byteLength, sha256: PLAN_SHA256 });
+        expect(requests.slice(1).map((request) => request.headers['content-range'])).toEqual([
+            'bytes 0-1499/3400',
+            'bytes 1500-2999/3400',
+            'bytes 1000-2499/3400',
+            'bytes 2500-3399/3400',
+        ]);
+    });
+
+    it('falls back to one multipart upload when the server has no upload sessions', async () => {
+        handler = (req, res) => {
+            if (req.url === '/plan/upload/sessions') {
+                res.writeHead(404).end('not found');
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ success: true }));
+        };
+        const source = path.join(directory, 'large.plan');
+        await fs.writeFile(source, PLAN);
+        const uploader = client({ uploadChunkBytes: 1024 });
+
+        await uploader.uploadPlanFromFile(source, 'large.plan');
+        await uploader.uploadPlanFromFile(source, 'large.plan');
+
+        expect(requests.map((request) => request.url)).toEqual(['/plan/upload/sessions', '/plan/upload', '/plan/upload']);
+    });
+});
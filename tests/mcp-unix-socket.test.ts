@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { HttpMcpClient } from '../src/mcp-client';
+import { describeSocketError, unixSocketPath, UnixSocketError } from '../src/mcp-unix-socket';
+
+describe('mcp-unix-socket', () => {
+    it('reads the socket path from unix: URLs', () => {
+        expect(unixSocketPath('unix:/run/riotplan.sock')).toBe('/run/riotplan.sock');
+        expect(unixSocketPath('unix:///run/riotplan.sock')).toBe('/run/riotplan.sock');
+        expect(unixSocketPath('unix:~/riotplan.sock')).toBe(path.join(os.homedir(), 'riotplan.sock'));
+        expect(unixSocketPath('unix:')).toBeUndefined();
+        expect(unixSocketPath('http://127.0.0.1:3002')).toBeUndefined();
+    });
+
+    it('explains permission errors and keeps the error code', () => {
+        const denied = Object.assign(new Error('connect EACCES /run/riotplan.sock'), { code: 'EACCES' });
+        const other = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+        const described = describeSocketError(denied, '/run/riotplan.sock');
+
+        expect(described).toBeInstanceOf(UnixSocketError);
+        expect(described.message).toMatch(/^Permission denied on socket \/run\/riotplan\.sock: your user needs read and write access/);
+        expect((described as UnixSocketError).code).toBe('EACCES');
+        expect(describeSocketError(other, '/run/riotplan.sock')).toBe(other);
+    });
+});
+
+describe('HttpMcpClient over a unix socket', () => {
+    let directory: string;
+    let socketPath: string;
+    let server: http.Server;
+    let paths: string[];
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'riotplan-socket-'));
+        socketPath = path.join(directory, 'mcp.sock');
+        paths = [];
+        server = http.createServer((req, res) => {
+            paths.push(`${req.method} ${req.url}`);
+            if (req.url === '/health') {
+                res.writeHead(200).end('ok');
+                return;
+            }
+            if (req.method !== 'POST') {
+                res.writeHead(405).end();
+                return;
+            }
+            let raw = '';
+            req.on('data', (chunk) => { raw += chunk; });
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                if (body.method === 'initialize') {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({
+                        jsonrpc: '2.0',
+                        id: body.id,
+                        result: { protocolVersion: '2025-06-18', serverInfo: { name: 'socket', version: '1.0.0' }, capabilities: {} },
+                    }));
+                    return;
+                }
+                if (body.id === undefined || body.id === null) {
+                    res.writeHead(202).end();
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { echoed: body.params } }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('sends health checks and JSON-RPC requests to the socket', async () => {
+        const client = new HttpMcpClient(`unix:${socketPath}`);
+
+        await expect(client.healthCheck()).resolves.toBe(true);
+        await expect(client.sendRequest('test/echo', { value: 1 })).resolves.toEqual({ echoed: { value: 1 } });
+        client.dispose();
+
+        expect(paths).toEqual(['GET /health', 'POST /mcp', 'POST /mcp', 'POST /mcp']);
+    });
+
+    it('reports a missing socket clearly when verifying the server', async () => {
+        const client = new HttpMcpClient(`unix:${path.join(directory, 'missing.sock')}`);
+
+        const verification = await client.verifyRiotPlanServer();
+
+        expect(verification).toEqual({
+            ok: false,
+            reason: `Socket ${path.join(directory, 'missing.sock')} does not exist; is the RiotPlan server running?`,
+        });
+    });
+});
@@ -1,5 +1,20 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
 import { describe, expect, it, vi } from 'vitest';
-import { MultiServerAggregator } from '../../src/multiServer/aggregator';
+
+vi.mock('../../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import { RequestCancelledError } from '../../src/mcp-request';
+import {
+    describeUnavailableServer,
+    MultiServerAggregator,
+    readServerOutcomes,
+    unavailableServers,
+} from '../../src/multiServer/aggregator';
+import { OfflineCache } from '../../src/multiServer/offlineCache';
 
 function makeManager() {
     const serverAClient = {
@@ -42,6 +57,7 @@ function makeManager() {
     const manager = {
         getProfiles: vi.fn(() => profiles),
         getClient: vi.fn((serverId: string) => (serverId === 'srv-a' ? serverAClient : serverBClient)),
+        getStatus: vi.fn(() => undefined),
         getStatuses: vi.fn(() => [
             { serverId: 'srv-a', state: 'connected' as const, serverUrl: 'http://a' },
             { serverId: 'srv-b', state: 'connected' as const, serverUrl: 'http://b' },
@@ -69,8 +85,8 @@ describe('MultiServerAggregator', () => {
         expect(plans[1].serverName).toBe('Server B');
         expect(plans[1].planId).toContain('srv-b::');
 
-        expect(serverAClient.listPlans).toHaveBeenCalledWith('all');
-        expect(serverBClient.listPlans).toHaveBeenCalledWith('all');
+        expect(serverAClient.listPlans).toHaveBeenCalledWith('all', undefined);
+        expect(serverBClient.listPlans).toHaveBeenCalledWith('all', undefined);
     });
 
     it('merges projects with server-scoped ids', async () => {
@@ -85,8 +101,8 @@ describe('MultiServerAggregator', () => {
         expect(projects[1].id).toContain('srv-b::');
         expect(projects[1].serverName).toBe('Server B');
 
-        expect(serverAClient.listContextProjects).toHaveBeenCalledWith(true);
-        expect(serverBClient.listContextProjects).toHaveBeenCalledWith(true);
+        expect(serverAClient.listContextProjects).toHaveBeenCalledWith(true, undefined);
+        expect(serverBClient.listContextProjects).toHaveBeenCalledWith(true, undefined);
     });
 
     it('dedupes context projects by catalog UUID when enabled', async () => {
@@ -119,4 +135,136 @@ describe('MultiServerAggregator', () => {
         expect(projects[0].id).toBe(`srv-a::${uuid}`);
         expect(projects[0].serverId).toBe('srv-a');
     });
+
+    it('serves the last synced plans and projects, marked stale, when a server is unreachable', async () => {
+        const { manager, serverBClient } = makeManager();
+        const dir = mkdtempSync(path.join(tmpdir(), 'riotplan-aggregator-'));
+        try {
+            const cache = new OfflineCache(dir, () => new Date('2026-01-01T00:00:00.000Z'));
+            await cache.setPlans('srv-b', 'all', [{ path: 'plans/cached-b', name: 'Cached B' }]);
+            await cache.setProjects('srv-b', [{ id: 'proj-b-old', name: 'Old B', active: false }]);
+            serverBClient.listPlans = vi.fn(async () => {
+                throw new Error('connect ECONNREFUSED');
+            });
+            serverBClient.listContextProjects = vi.fn(async () => {
+                throw new Error('connect ECONNREFUSED');
+            });
+            const aggregator = new MultiServerAggregator(manager as any, { offlineCache: cache });
+
+            const plans = JSON.parse((await aggregator.listPlans('all')).content[0].text).plans;
+            expect(plans.map((plan: any) => [plan.name, plan.stale, plan.syncedAt])).toEqual([
+                ['Plan A1', undefined, undefined],
+                ['Cached B', true, '2026-01-01T00:00:00.000Z'],
+            ]);
+            expect(plans[1].planId).toBe('srv-b::plans/cached-b');
+
+            expect((await aggregator.listContextProjects(true)).map((project) => project.name)).toEqual(['Project A1', 'Old B']);
+            expect((await aggregator.listContextProjects(false)).map((project) => project.name)).toEqual(['Project A1']);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('lists the healthy servers and reports an unreachable server with nothing cached', async () => {
+        const { manager, serverBClient } = makeManager();
+        const dir = mkdtempSync(path.join(tmpdir(), 'riotplan-aggregator-'));
+        try {
+            serverBClient.listPlans = vi.fn(async () => {
+                throw new Error('connect ECONNREFUSED');
+            });
+            const aggregator = new MultiServerAggregator(manager as any, { offlineCache: new OfflineCache(dir) });
+
+            const payload = JSON.parse((await aggregator.listPlans('all')).content[0].text);
+
+            expect(payload.plans.map((plan: any) => plan.name)).toEqual(['Plan A1']);
+            expect(payload.servers).toEqual([
+                expect.objectContaining({ serverId: 'srv-a', itemCount: 1, fromCache: false }),
+                expect.objectContaining({ serverId: 'srv-b', itemCount: 0, fromCache: false, error: 'connect ECONNREFUSED' }),
+            ]);
+            expect(typeof payload.servers[0].latencyMs).toBe('number');
+            expect(unavailableServers(readServerOutcomes(payload)).map(describeUnavailableServer)).toEqual([
+                'Server B unavailable: connect ECONNREFUSED',
+            ]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('reports auth failures without serving cached rows, and disconnected servers by their last error', async () => {
+        const { manager, serverAClient } = makeManager();
+        const dir = mkdtempSync(path.join(tmpdir(), 'riotplan-aggregator-'));
+        try {
+            const cache = new OfflineCache(dir);
+            await cache.setProjects('srv-a', [{ id: 'proj-a-old', name: 'Old A' }]);
+            serverAClient.listContextProjects = vi.fn(async () => {
+                throw new Error('HTTP 401: {"error_code":"unauthorized"}');
+            });
+            manager.getClient.mockImplementation(((serverId: string) => (serverId === 'srv-a' ? serverAClient : undefined)) as any);
+            manager.getStatus.mockImplementation(((serverId: string) =>
+                serverId === 'srv-b' ? { serverId, serverUrl: 'http://b', state: 'disconnected', lastError: 'server_unreachable' } : undefined) as any);
+            const aggregator = new MultiServerAggregator(manager as any, { offlineCache: cache });
+
+            const { projects, servers } = await aggregator.aggregateContextProjects(true);
+
+            expect(projects).toEqual([]);
+            expect(servers.map((server) => [server.serverId, server.error, server.fromCache])).toEqual([
+                ['srv-a', 'unauthorized', false],
+                ['srv-b', 'server_unreachable', false],
+            ]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('still rejects a cancelled list', async () => {
+        const { manager, serverBClient } = makeManager();
+        serverBClient.listPlans = vi.fn(async () => {
+            throw new RequestCancelledError();
+        });
+        const aggregator = new MultiServerAggregator(manager as any);
+
+        await expect(aggregator.listPlans('all', { signal: new AbortController().signal } as any)).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+
+    it('shares one in-flight plan list per refresh until the snapshot is invalidated', async () => {
+        const { manager, serverAClient, serverBClient } = makeManager();
+        const notificationHandlers: Array<() => void> = [];
+        (serverAClient as any).onNotification = vi.fn((_method: string, handler: () => void) => {
+            notificationHandlers.push(handler);
+            return () => undefined;
+        });
+        const aggregator = new MultiServerAggregator(manager as any);
+
+        const [first, second] = await Promise.all([aggregator.listPlans('all'), aggregator.listPlans('all')]);
+        await aggregator.listPlans('all');
+        expect(second).toBe(first);
+        expect(serverAClient.listPlans).toHaveBeenCalledTimes(1);
+        expect(serverBClient.listPlans).toHaveBeenCalledTimes(1);
+
+        notificationHandlers[0]();
+        await aggregator.listPlans('all');
+        aggregator.invalidateSnapshot();
+        await aggregator.listPlans('all');
+        expect(serverAClient.listPlans).toHaveBeenCalledTimes(3);
+        expect((serverAClient as any).onNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps a partial load until refreshed and lets cancellable calls bypass the snapshot', async () => {
+        const { manager, serverBClient } = makeManager();
+        const listPlans = serverBClient.listPlans;
+        serverBClient.listPlans = vi.fn().mockRejectedValueOnce(new Error('boom')).mockImplementation(listPlans);
+        const aggregator = new MultiServerAggregator(manager as any);
+
+        const first = JSON.parse((await aggregator.listPlans('all')).content[0].text);
+        await aggregator.listPlans('all');
+        expect(first.servers[1].error).toBe('boom');
+        expect(serverBClient.listPlans).toHaveBeenCalledTimes(1);
+
+        aggregator.invalidateSnapshot();
+        const second = JSON.parse((await aggregator.listPlans('all')).content[0].text);
+        await aggregator.listPlans('all', { signal: new AbortController().signal } as any);
+
+        expect(second.plans).toHaveLength(2);
+        expect(serverBClient.listPlans).toHaveBeenCalledTimes(3);
+    });
 });
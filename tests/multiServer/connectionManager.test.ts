@@ -1,27 +1,59 @@
 import { describe, expect, it, vi } from 'vitest';
+import { ServerCapabilities } from '../../src/mcp-capabilities';
 import { MultiServerConnectionManager } from '../../src/multiServer/connectionManager';
 import { ServerProfile } from '../../src/multiServer/types';
 
 const verifyRiotPlanServerMock = vi.fn();
+const listPlansMock = vi.fn(async () => ({ content: [] }));
 const disposeMock = vi.fn();
+const getCachedCapabilitiesMock = vi.fn((): ServerCapabilities | undefined => undefined);
 
 vi.mock('../../src/mcp-client', () => {
     return {
         HttpMcpClient: class MockHttpMcpClient {
             public readonly baseUrl: string;
+            public readonly apiKey?: string;
+            public readonly options: any;
 
-            constructor(baseUrl: string) {
+            constructor(baseUrl: string, apiKey?: string, _proxyBypass?: boolean, options?: any) {
                 this.baseUrl = baseUrl;
+                this.apiKey = apiKey;
+                this.options = options;
+            }
+
+            public streamHealth = 'open';
+            public streamHealthListener?: (health: string) => void;
+
+            getStreamHealth() {
+                return this.streamHealth;
+            }
+
+            onStreamHealthChange(listener: (health: string) => void) {
+                this.streamHealthListener = listener;
+                return () => undefined;
+            }
+
+            getCachedCapabilities() {
+                return getCachedCapabilitiesMock();
+            }
+
+            onCapabilitiesChanged() {
+                return () => undefined;
             }
 
             async verifyRiotPlanServer() {
                 return verifyRiotPlanServerMock();
             }
 
+            async listPlans(category: string) {
+                return listPlansMock(category);
+            }
+
             dispose() {
                 disposeMock();
             }
         },
+        isUnauthorizedError: (error: unknown) => String(error).includes('HTTP 401'),
     };
 });
 
@@ -68,6 +100,26 @@ describe('MultiServerConnectionManager', () => {
         expect(statuses.find((status) => status.serverId === 's2')?.state).toBe('disconnected');
     });
 
+    it('treats a connected server whose tool list could not be read as supporting the preferred routes', async () => {
+        const manager = new MultiServerConnectionManager();
+        manager.configureProfiles(makeProfiles(), 's1');
+        expect(manager.supportsOperation('createPlan')).toBe(true);
+
+        // tools/list rejected on s1, so its client has no cached capabilities; s2 is unreachable.
+        verifyRiotPlanServerMock
+            .mockResolvedValueOnce({ ok: true })
+            .mockResolvedValueOnce({ ok: false, reason: 'server_unreachable' });
+        await manager.connectAll();
+        expect(manager.supportsOperation('createPlan')).toBe(true);
+        expect(manager.supportsOperation('bindProject')).toBe(true);
+
+        getCachedCapabilitiesMock.mockReturnValue(ServerCapabilities.fromToolsList({
+            tools: [{ name: 'riotplan_list_plans', inputSchema: { type: 'object' } }],
+        }));
+        expect(manager.supportsOperation('createPlan')).toBe(false);
+        getCachedCapabilitiesMock.mockReturnValue(undefined);
+    });
+
     it('disconnects and disposes clients', async () => {
         verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
         const manager = new MultiServerConnectionManager();
@@ -91,4 +143,187 @@ describe('MultiServerConnectionManager', () => {
         expect(status?.state).toBe('disconnected');
         expect(status?.lastError).toContain('network_down');
     });
+
+    it('reports circuit breaker state per server and notifies on changes', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const manager = new MultiServerConnectionManager();
+        manager.configureProfiles(makeProfiles(), 's1');
+        await manager.connect('s1');
+        const listener = vi.fn();
+        manager.onStatusChange(listener);
+
+        const breaker = (manager.getClient('s1') as any).options.circuitBreaker;
+        for (let i = 0; i < 5; i += 1) {
+            breaker.recordFailure();
+        }
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        const status = manager.getStatuses().find((entry) => entry.serverId === 's1');
+        expect(status?.circuit?.state).toBe('open');
+        expect(status?.circuit?.retryAt).toBeGreaterThan(0);
+
+        await manager.connect('s1');
+        expect(manager.getStatuses().find((entry) => entry.serverId === 's1')?.circuit?.state).toBe('closed');
+    });
+
+    it('reports a connected server as degraded while its notification stream reconnects', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const manager = new MultiServerConnectionManager();
+        manager.configureProfiles(makeProfiles(), 's1');
+        await manager.connect('s1');
+        const listener = vi.fn();
+        manager.onStatusChange(listener);
+        const client = manager.getClient('s1') as any;
+
+        client.streamHealthListener('reconnecting');
+        const degraded = manager.getStatuses().find((entry) => entry.serverId === 's1');
+        expect(degraded?.state).toBe('degraded');
+        expect(degraded?.lastError).toContain('Notification stream');
+
+        client.streamHealthListener('open');
+        expect(manager.getStatuses().find((entry) => entry.serverId === 's1')?.state).toBe('connected');
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('applies health probes and keeps a server degraded while either signal is bad', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const manager = new MultiServerConnectionManager();
+        manager.configureProfiles(makeProfiles(), 's1');
+        await manager.connect('s1');
+        const listener = vi.fn();
+        manager.onStatusChange(listener);
+        const client = manager.getClient('s1') as any;
+
+        manager.applyProbe('s1', { state: 'degraded', checkedAt: 1000, consecutiveFailures: 1, error: 'Health check failed (1 of 3)' });
+        client.streamHealthListener('reconnecting');
+        client.streamHealthListener('open');
+        expect(manager.getStatus('s1')).toMatchObject({ state: 'degraded', lastError: 'Health check failed (1 of 3)', consecutiveFailures: 1 });
+
+        client.streamHealthListener('reconnecting');
+        manager.applyProbe('s1', { state: 'connected', checkedAt: 2000, latencyMs: 12, consecutiveFailures: 0 });
+        expect(manager.getStatus('s1')).toMatchObject({ state: 'degraded', latencyMs: 12, lastCheckedAt: 2000 });
+        expect(manager.getStatus('s1')?.lastError).toContain('Notification stream');
+
+        client.streamHealthListener('open');
+        expect(manager.getStatus('s1')).toMatchObject({ state: 'connected', lastError: undefined });
+        expect(listener).toHaveBeenCalledTimes(6);
+    });
+
+    it('notifies listeners when a connect attempt settles', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: false, reason: 'server_unreachable' });
+        const manager = new MultiServerConnectionManager();
+        manager.configureProfiles(makeProfiles(), 's1');
+        const listener = vi.fn(() => manager.getStatus('s1')?.state);
+        manager.onStatusChange(listener);
+
+        await manager.connect('s1');
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveReturnedWith('disconnected');
+    });
+
+    it('disposes the previous client when a server reconnects', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        disposeMock.mockClear();
+        const manager = new MultiServerConnectionManager();
+        manager.configureProfiles(makeProfiles(), 's1');
+        await manager.connect('s1');
+
+        await manager.connect('s1');
+
+        expect(disposeMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('passes resolved TLS options to the client', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const resolveTls = vi.fn(async () => ({ rejectUnauthorized: false }));
+        const manager = new MultiServerConnectionManager({ resolveTls });
+        const profiles = makeProfiles();
+        profiles[0].tls = { insecureSkipVerify: true };
+        manager.configureProfiles(profiles, 's1');
+
+        await manager.connectAll();
+
+        expect(resolveTls).toHaveBeenCalledTimes(1);
+        expect((manager.getClient('s1') as any).options.tls).toEqual({ rejectUnauthorized: false });
+        expect((manager.getClient('s2') as any).options.tls).toBeUndefined();
+    });
+
+    it('leaves a server disconnected without a client when its TLS settings cannot be loaded', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const manager = new MultiServerConnectionManager({
+            resolveTls: async () => {
+                throw new Error('Cannot read CA file /missing.pem');
+            },
+        });
+        const profiles = makeProfiles();
+        manager.configureProfiles(profiles, 's1');
+        await manager.connect('s1');
+        profiles[0].tls = { caFile: '/missing.pem' };
+
+        const status = await manager.connect('s1');
+
+        expect(status.state).toBe('disconnected');
+        expect(status.lastError).toBe('TLS configuration: Cannot read CA file /missing.pem');
+        expect(manager.getClient('s1')).toBeUndefined();
+    });
+
+    it('leaves a server disconnected when its secret headers cannot be read, without failing the others', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const manager = new MultiServerConnectionManager({
+            readHeaderSecret: async () => {
+                throw new Error('SecretStorage is locked');
+            },
+        });
+        const profiles = makeProfiles();
+        profiles[0].headers = [{ name: 'X-Gateway-Secret', secret: true }];
+        manager.configureProfiles(profiles, 's1');
+
+        const result = await manager.connectAll();
+
+        expect(result.get('s1')).toMatchObject({ state: 'disconnected', lastError: 'Headers: SecretStorage is locked' });
+        expect(result.get('s2')?.state).toBe('connected');
+        expect(manager.getClient('s1')).toBeUndefined();
+    });
+
+    it('checks a token with a throwaway client that carries the profile headers', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const manager = new MultiServerConnectionManager({
+            readHeaderSecret: async (_profile, name) => (name === 'X-Gateway-Secret' ? 'gw' : undefined),
+        });
+        const profiles = makeProfiles();
+        profiles[0].authScheme = { type: 'api-key', header: 'X-Gateway-Key' };
+        profiles[0].headers = [{ name: 'X-Tenant', value: 'acme' }, { name: 'X-Gateway-Secret', secret: true }];
+        manager.configureProfiles(profiles, 's1');
+        manager.setClientApiKey('s1', 'old-token');
+        await manager.connect('s1');
+        const connected = manager.getClient('s1') as any;
+        disposeMock.mockClear();
+        verifyRiotPlanServerMock.mockResolvedValueOnce({ ok: false, reason: 'unauthorized' });
+
+        const result = await manager.checkToken('s1', 'new-token');
+
+        expect(result).toEqual({ ok: false, reason: 'unauthorized' });
+        expect(disposeMock).toHaveBeenCalledTimes(1);
+        expect(manager.getClient('s1')).toBe(connected);
+        expect(connected.apiKey).toBe('old-token');
+        expect(connected.options.authScheme).toEqual({ type: 'api-key', header: 'X-Gateway-Key' });
+        expect(connected.options.headers).toEqual({ 'X-Tenant': 'acme', 'X-Gateway-Secret': 'gw' });
+    });
+
+    it('requires an authenticated tool call to accept a token and never checks stdio profiles', async () => {
+        verifyRiotPlanServerMock.mockResolvedValue({ ok: true });
+        const manager = new MultiServerConnectionManager();
+        const profiles = makeProfiles();
+        profiles[1] = { ...profiles[1], url: 'stdio:riotplan-mcp', transport: 'stdio', stdio: { command: 'riotplan-mcp' } };
+        manager.configureProfiles(profiles, 's1');
+        listPlansMock.mockClear();
+        listPlansMock.mockRejectedValueOnce(new Error('HTTP 401: token revoked'));
+
+        await expect(manager.checkToken('s1', 'revoked')).resolves.toEqual({ ok: false, reason: 'unauthorized' });
+        await expect(manager.checkToken('s1', 'valid')).resolves.toEqual({ ok: true });
+        expect(listPlansMock).toHaveBeenCalledWith('hold');
+        await expect(manager.createStandaloneClient('s2')).rejects.toThrow('Stdio profiles only run one server process');
+        expect(listPlansMock).toHaveBeenCalledTimes(2);
+    });
 });
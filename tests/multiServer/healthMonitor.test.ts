@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HealthMonitorTarget, ServerHealthMonitor, ServerProbe } from '../../src/multiServer/healthMonitor';
+import { ServerProfile, ServerRuntimeStatus } from '../../src/multiServer/types';
+
+function makeProfile(id: string, overrides: Partial<ServerProfile> = {}): ServerProfile {
+    return {
+        id,
+        name: id,
+        url: `http://127.0.0.1/${id}`,
+        enabled: true,
+        proxyBypass: false,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function makeTarget(profiles: ServerProfile[], states: Record<string, Partial<ServerRuntimeStatus>>) {
+    const statuses = new Map<string, ServerRuntimeStatus>(
+        profiles.map((profile) => [profile.id, { serverId: profile.id, serverUrl: profile.url, state: 'connected', ...states[profile.id] }])
+    );
+    const healthCheckStatus = vi.fn(async (): Promise<number | undefined> => 200);
+    const probes: Array<[string, ServerProbe]> = [];
+    const target = {
+        getProfiles: () => profiles,
+        getStatus: (serverId: string) => statuses.get(serverId),
+        getClient: () => ({ healthCheckStatus }),
+        connect: vi.fn(async (serverId: string) => statuses.get(serverId)!),
+        applyProbe: (serverId: string, probe: ServerProbe) => {
+            probes.push([serverId, probe]);
+            const status = statuses.get(serverId)!;
+            statuses.set(serverId, { ...status, state: probe.state, lastError: probe.error });
+        },
+    };
+    return { target, statuses, healthCheckStatus, probes };
+}
+
+describe('ServerHealthMonitor', () => {
+    it('degrades on slow or failed checks and disconnects after the failure threshold', async () => {
+        let now = 0;
+        const { target, healthCheckStatus, probes } = makeTarget([makeProfile('s1')], {});
+        const monitor = new ServerHealthMonitor(target as unknown as HealthMonitorTarget, { slowProbeMs: 100, failureThreshold: 2 }, () => now);
+
+        healthCheckStatus.mockImplementationOnce(async () => {
+            now += 150;
+            return 200;
+        });
+        await monitor.checkAll();
+        healthCheckStatus.mockResolvedValue(undefined);
+        await monitor.checkAll();
+        await monitor.checkAll();
+
+        expect(probes.map(([, probe]) => [probe.state, probe.consecutiveFailures, probe.error])).toEqual([
+            ['degraded', 0, 'Slow health check (150 ms)'],
+            ['degraded', 1, 'Health check failed (1 of 2)'],
+            ['disconnected', 2, 'Unreachable: 2 health checks failed in a row'],
+        ]);
+        expect(probes[0][1].latencyMs).toBe(150);
+    });
+
+    it('disconnects a server whose token is rejected and does not retry it', async () => {
+        const { target, healthCheckStatus, probes } = makeTarget([makeProfile('s1')], {});
+        const monitor = new ServerHealthMonitor(target as unknown as HealthMonitorTarget, { failureThreshold: 3 });
+        healthCheckStatus.mockResolvedValue(401);
+
+        await monitor.checkAll();
+        await monitor.checkAll();
+
+        expect(probes.map(([, probe]) => [probe.state, probe.error])).toEqual([['disconnected', 'unauthorized']]);
+        expect(target.connect).not.toHaveBeenCalled();
+    });
+
+    it('reconnects disconnected servers with exponential backoff', async () => {
+        let now = 0;
+        const { target, statuses } = makeTarget([makeProfile('s1')], {
+            s1: { state: 'disconnected', lastError: 'server_unreachable' },
+        });
+        const monitor = new ServerHealthMonitor(target as unknown as HealthMonitorTarget, { intervalMs: 1000 }, () => now);
+
+        await monitor.checkAll();
+        expect(target.connect).toHaveBeenCalledTimes(1);
+        expect(monitor.getNextReconnectAt('s1')).toBe(2000);
+
+        now = 1500;
+        await monitor.checkAll();
+        expect(target.connect).toHaveBeenCalledTimes(1);
+
+        now = 2000;
+        await monitor.checkAll();
+        expect(target.connect).toHaveBeenCalledTimes(2);
+        expect(monitor.getNextReconnectAt('s1')).toBe(6000);
+
+        target.connect.mockImplementationOnce(async (serverId: string) => {
+            statuses.set(serverId, { ...statuses.get(serverId)!, state: 'connected', lastError: undefined });
+            return statuses.get(serverId)!;
+        });
+        now = 6000;
+        await monitor.checkAll();
+        expect(target.connect).toHaveBeenCalledTimes(3);
+        expect(monitor.getNextReconnectAt('s1')).toBeUndefined();
+    });
+
+    it('leaves stdio, disabled, intentionally disconnected and misconfigured servers alone', async () => {
+        const { target, healthCheckStatus } = makeTarget(
+            [
+                makeProfile('stdio', { transport: 'stdio' }),
+                makeProfile('off', { enabled: false }),
+                makeProfile('idle'),
+                makeProfile('auth'),
+                makeProfile('tls'),
+            ],
+            {
+                idle: { state: 'disconnected' },
+                auth: { state: 'disconnected', lastError: 'unauthorized' },
+                tls: { state: 'disconnected', lastError: 'TLS configuration: Cannot read CA file' },
+            }
+        );
+        const monitor = new ServerHealthMonitor(target as unknown as HealthMonitorTarget);
+
+        await monitor.checkAll();
+
+        expect(healthCheckStatus).not.toHaveBeenCalled();
+        expect(target.connect).not.toHaveBeenCalled();
+    });
+
+    it('probes on its interval until stopped', async () => {
+        vi.useFakeTimers();
+        try {
+            const { target, healthCheckStatus } = makeTarget([makeProfile('s1')], {});
+            const monitor = new ServerHealthMonitor(target as unknown as HealthMonitorTarget, { intervalMs: 1000 });
+
+            monitor.start();
+            await vi.advanceTimersByTimeAsync(2500);
+            monitor.stop();
+            await vi.advanceTimersByTimeAsync(5000);
+
+            expect(healthCheckStatus).toHaveBeenCalledTimes(2);
+            expect(monitor.isRunning()).toBe(false);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,243 @@
+import * as http from 'http';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/proxyUtils', () => ({
+    getProxyAgent: () => undefined,
+}));
+
+import {
+    buildAuthorizationUrl,
+    canonicalResourceUri,
+    createPkcePair,
+    OAuthError,
+    OAuthHttpClient,
+    OAuthProfileState,
+    parseResourceMetadataUrl,
+    protectedResourceMetadataUrls,
+} from '../../src/multiServer/oauth';
+import { HttpMcpClient, HttpStatusError } from '../../src/mcp-client';
+
+/** Minimal authorization server + protected resource metadata on one origin. */
+function createStandInServer(baseUrl: () => string) {
+    const codes = new Map<string, { challenge: string; clientId: string; resource: string }>();
+    const revoked: string[] = [];
+    let refreshCount = 0;
+
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url || '/', baseUrl());
+        let raw = '';
+        req.on('data', (chunk) => { raw += chunk; });
+        req.on('end', () => {
+            const json = (status: number, body: unknown) => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(body));
+            };
+            const form = new URLSearchParams(raw);
+            switch (url.pathname) {
+            case '/mcp':
+                // The protected resource rejects unauthenticated calls and points at its metadata.
+                res.writeHead(401, {
+                    'Content-Type': 'application/json',
+                    'WWW-Authenticate': `Bearer resource_metadata="${baseUrl()}/.well-known/oauth-protected-resource/mcp"`,
+                });
+                res.end(JSON.stringify({ error: 'unauthorized' }));
+                return;
+            case '/.well-known/oauth-protected-resource/mcp':
+                json(200, { resource: `${baseUrl()}/mcp`, authorization_servers: [`${baseUrl()}/auth`], scopes_supported: ['plans'] });
+                return;
+            case '/.well-known/oauth-authorization-server/auth':
+                json(200, {
+                    issuer: `${baseUrl()}/auth`,
+                    authorization_endpoint: `${baseUrl()}/auth/authorize`,
+                    token_endpoint: `${baseUrl()}/auth/token`,
+                    registration_endpoint: `${baseUrl()}/auth/register`,
+                    revocation_endpoint: `${baseUrl()}/auth/revoke`,
+                    code_challenge_methods_supported: ['S256'],
+                });
+                return;
+            case '/auth/register':
+                json(201, { client_id: 'client-1', redirect_uris: JSON.parse(raw).redirect_uris });
+                return;
+            case '/auth/authorize': {
+                // Stand-in for the browser step: issue a code bound to the challenge.
+                const code = `code-${codes.size + 1}`;
+                codes.set(code, {
+                    challenge: url.searchParams.get('code_challenge') || '',
+                    clientId: url.searchParams.get('client_id') || '',
+                    resource: url.searchParams.get('resource') || '',
+                });
+                json(200, { code, state: url.searchParams.get('state') });
+                return;
+            }
+            case '/auth/token': {
+                if (form.get('grant_type') === 'authorization_code') {
+                    const issued = codes.get(form.get('code') || '');
+                    const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+                    if (!issued || issued.challenge !== challenge || issued.resource !== form.get('resource')) {
+                        json(400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+                        return;
+                    }
+                    json(200, { access_token: 'access-1', token_type: 'Bearer', refresh_token: 'refresh-1', expires_in: 3600 });
+                    return;
+                }
+                if (form.get('refresh_token') !== 'refresh-1' || revoked.includes('refresh-1')) {
+                    json(400, { error: 'invalid_grant' });
+                    return;
+                }
+                refreshCount += 1;
+                json(200, { access_token: `access-refreshed-${refreshCount}`, token_type: 'Bearer', expires_in: 60 });
+                return;
+            }
+            case '/auth/revoke':
+                revoked.push(form.get('token') || '');
+                json(200, {});
+                return;
+            default:
+                json(404, { error: 'not_found' });
+            }
+        });
+    });
+    return { server, revoked };
+}
+
+async function authorize(authorizationUrl: string): Promise<{ code: string; state: string }> {
+    return new Promise((resolve, reject) => {
+        http.get(authorizationUrl, (res) => {
+            let data = '';
+            res.on('data', (chunk) => { data += chunk; });
+            res.on('end', () => resolve(JSON.parse(data)));
+        }).on('error', reject);
+    });
+}
+
+describe('OAuth helpers', () => {
+    it('extracts resource_metadata from a WWW-Authenticate challenge', () => {
+        expect(parseResourceMetadataUrl(
+            'Bearer realm="riotplan", resource_metadata="https://plans.example.com/.well-known/oauth-protected-resource/mcp"'
+        )).toBe('https://plans.example.com/.well-known/oauth-protected-resource/mcp');
+        expect(parseResourceMetadataUrl('Bearer realm="riotplan"')).toBeUndefined();
+    });
+
+    it('derives the resource indicator and well-known metadata locations from the server URL', () => {
+        expect(canonicalResourceUri('https://plans.example.com/')).toBe('https://plans.example.com/mcp');
+        expect(protectedResourceMetadataUrls('https://plans.example.com')).toEqual([
+            'https://plans.example.com/.well-known/oauth-protected-resource/mcp',
+            'https://plans.example.com/.well-known/oauth-protected-resource',
+        ]);
+    });
+
+    it('builds an S256 authorization URL with state and resource', () => {
+        const pkce = createPkcePair();
+        expect(pkce.challenge).toBe(createHash('sha256').update(pkce.verifier).digest('base64url'));
+        const url = new URL(buildAuthorizationUrl({
+            server: { issuer: 'https://as.example.com', authorizationEndpoint: 'https://as.example.com/authorize', tokenEndpoint: 'https://as.example.com/token' },
+            clientId: 'client-1',
+            redirectUri: 'vscode://riotplan.riotplan-vscode/oauth/callback',
+            pkce,
+            state: 'state-1',
+            resource: 'https://plans.example.com/mcp',
+        }));
+        expect(url.searchParams.get('response_type')).toBe('code');
+        expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(url.searchParams.get('code_challenge')).toBe(pkce.challenge);
+        expect(url.searchParams.get('resource')).toBe('https://plans.example.com/mcp');
+        expect(url.searchParams.has('scope')).toBe(false);
+    });
+});
+
+describe('OAuthHttpClient against a stand-in authorization server', () => {
+    let baseUrl: string;
+    let standIn: ReturnType<typeof createStandInServer>;
+
+    beforeEach(async () => {
+        standIn = createStandInServer(() => baseUrl);
+        await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => standIn.server.close(() => resolve()));
+    });
+
+    async function signIn(oauth: OAuthHttpClient): Promise<OAuthProfileState> {
+        const resource = await oauth.discoverProtectedResource(baseUrl);
+        const server = await oauth.discoverAuthorizationServer(resource.authorizationServers[0]);
+        const client = await oauth.registerClient(server, 'vscode://riotplan/oauth/callback', 'RiotPlan tests');
+        const state: OAuthProfileState = { resource: resource.resource!, server, client };
+        const pkce = createPkcePair();
+        const { code } = await authorize(buildAuthorizationUrl({
+            server, clientId: client.clientId, redirectUri: client.redirectUri, pkce, state: 'xyz', resource: state.resource,
+        }));
+        return { ...state, tokens: await oauth.exchangeCode(state, code, pkce.verifier) };
+    }
+
+    it('discovers, registers and exchanges an authorization code with PKCE', async () => {
+        const state = await signIn(new OAuthHttpClient());
+
+        expect(state.server.tokenEndpoint).toBe(`${baseUrl}/auth/token`);
+        expect(state.client).toEqual({ clientId: 'client-1', redirectUri: 'vscode://riotplan/oauth/callback' });
+        expect(state.tokens).toMatchObject({ accessToken: 'access-1', tokenType: 'Bearer', refreshToken: 'refresh-1' });
+        expect(state.tokens!.expiresAt).toBeGreaterThan(Date.now());
+    });
+
+    it('rejects a code exchange with the wrong verifier', async () => {
+        const oauth = new OAuthHttpClient();
+        const resource = await oauth.discoverProtectedResource(baseUrl);
+        const server = await oauth.discoverAuthorizationServer(resource.authorizationServers[0]);
+        const state: OAuthProfileState = { resource: resource.resource!, server, client: { clientId: 'client-1', redirectUri: 'x' } };
+        const { code } = await authorize(buildAuthorizationUrl({
+            server, clientId: 'client-1', redirectUri: 'x', pkce: createPkcePair(), state: 's', resource: state.resource,
+        }));
+
+        const error = await oauth.exchangeCode(state, code, createPkcePair().verifier).catch((err) => err);
+        expect(error).toBeInstanceOf(OAuthError);
+        expect(error.code).toBe('invalid_grant');
+    });
+
+    it('refreshes, keeping the previous refresh token when none is returned', async () => {
+        const oauth = new OAuthHttpClient();
+        const state = await signIn(oauth);
+
+        const refreshed = await oauth.refresh(state);
+        expect(refreshed.accessToken).toBe('access-refreshed-1');
+        expect(refreshed.refreshToken).toBe('refresh-1');
+    });
+
+    it('revokes both tokens so later refreshes fail', async () => {
+        const oauth = new OAuthHttpClient();
+        const state = await signIn(oauth);
+
+        await oauth.revoke(state);
+        expect(standIn.revoked).toEqual(['refresh-1', 'access-1']);
+        await expect(oauth.refresh(state)).rejects.toMatchObject({ code: 'invalid_grant' });
+    });
+
+    it('follows the resource_metadata hint from a 401 challenge', async () => {
+        const oauth = new OAuthHttpClient();
+        const metadata = await oauth.discoverProtectedResource(
+            'http://unused.invalid',
+            `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource/mcp"`
+        );
+        expect(metadata.authorizationServers).toEqual([`${baseUrl}/auth`]);
+        expect(metadata.scopesSupported).toEqual(['plans']);
+    });
+
+    it('hands the challenge of a rejected MCP request to discovery', async () => {
+        const rejections: unknown[] = [];
+        const client = new HttpMcpClient(baseUrl, undefined, false, {
+            onUnauthorized: async (error) => {
+                rejections.push(error);
+                return undefined;
+            },
+        });
+
+        await expect(client.listPlans('active')).rejects.toThrow('HTTP 401');
+        client.dispose();
+        expect(rejections[0]).toBeInstanceOf(HttpStatusError);
+        const challenge = (rejections[0] as HttpStatusError).headers['www-authenticate'];
+        const metadata = await new OAuthHttpClient().discoverProtectedResource('http://unused.invalid', challenge);
+        expect(metadata.resource).toBe(`${baseUrl}/mcp`);
+    });
+});
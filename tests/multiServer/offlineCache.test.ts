@@ -0,0 +1,63 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MAX_PLAN_DETAIL_SNAPSHOTS, OfflineCache } from '../../src/multiServer/offlineCache';
+
+describe('OfflineCache', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(tmpdir(), 'riotplan-offline-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('persists plan lists, projects and plan details per server across instances', async () => {
+        const cache = new OfflineCache(dir, () => new Date('2026-02-03T04:05:06.000Z'));
+        await cache.setPlans('srv/a', 'active', [{ id: 'p1' }]);
+        await cache.setProjects('srv/a', [{ id: 'proj-1', name: 'One' }]);
+        await cache.setPlanDetail('srv/a', 'p1', {
+            status: { name: 'Plan 1', progress: { completed: 1, total: 2, percentage: 50 } },
+            context: null,
+            steps: [{ number: 1, title: 'First', status: 'completed' }],
+        });
+
+        const reopened = new OfflineCache(dir);
+        expect(await reopened.getPlans('srv/a', 'active')).toEqual({
+            syncedAt: '2026-02-03T04:05:06.000Z',
+            data: [{ id: 'p1' }],
+        });
+        expect(await reopened.getPlans('srv/a')).toBeUndefined();
+        expect((await reopened.getProjects('srv/a'))?.data).toEqual([{ id: 'proj-1', name: 'One' }]);
+        expect((await reopened.getPlanDetail('srv/a', 'p1'))?.data.status.name).toBe('Plan 1');
+        expect(await reopened.getPlans('srv-b')).toBeUndefined();
+        expect(readdirSync(dir)).toEqual(['srv%2Fa.json']);
+    });
+
+    it('keeps only the newest plan detail snapshots', async () => {
+        let tick = 0;
+        const cache = new OfflineCache(dir, () => new Date(Date.UTC(2026, 0, 1, 0, 0, tick++)));
+        for (let index = 0; index <= MAX_PLAN_DETAIL_SNAPSHOTS; index++) {
+            await cache.setPlanDetail('srv', `plan-${index}`, { status: { name: `Plan ${index}` }, context: null, steps: [] });
+        }
+
+        const reopened = new OfflineCache(dir);
+        expect(await reopened.getPlanDetail('srv', 'plan-0')).toBeUndefined();
+        expect(await reopened.getPlanDetail('srv', `plan-${MAX_PLAN_DETAIL_SNAPSHOTS}`)).toBeDefined();
+    });
+
+    it('treats a corrupt file as empty and removes a server on clear', async () => {
+        writeFileSync(path.join(dir, 'srv.json'), '{not json');
+        const cache = new OfflineCache(dir);
+        expect(await cache.getPlans('srv')).toBeUndefined();
+
+        await cache.setPlans('srv', undefined, [{ id: 'p1' }]);
+        await cache.clear('srv');
+
+        expect(await cache.getPlans('srv')).toBeUndefined();
+        expect(existsSync(path.join(dir, 'srv.json'))).toBe(false);
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('vscode', () => ({}));
+
+import {
+    createProfileBundle,
+    mergeImportedProfiles,
+    parseProfileBundle,
+    planProfileImport,
+    ProfileBundleError,
+    resolveProfileImport,
+} from '../../src/multiServer/profileBundle';
+import { ServerProfile } from '../../src/multiServer/types';
+
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+
+function makeProfile(id: string, overrides: Partial<ServerProfile> = {}): ServerProfile {
+    return {
+        id,
+        name: id,
+        url: `https://${id}.example.com`,
+        enabled: true,
+        proxyBypass: false,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('profileBundle', () => {
+    it('exports shareable settings without timestamps, origin or stdio environment', () => {
+        const bundle = createProfileBundle([
+            makeProfile('team', { authMode: 'oauth', tls: { caFile: '/etc/ca.pem' }, source: 'workspace' }),
+            makeProfile('local', {
+                url: 'stdio:riotplan-mcp',
+                transport: 'stdio',
+                stdio: { command: 'riotplan-mcp', env: { RIOTPLAN_TOKEN: 'secret' } },
+            }),
+        ], NOW);
+
+        expect(bundle).toEqual({
+            format: 'riotplan-server-profiles',
+            version: 1,
+            exportedAt: '2026-03-01T00:00:00.000Z',
+            profiles: [
+                { id: 'team', name: 'team', url: 'https://team.example.com', enabled: true, proxyBypass: false, authMode: 'oauth', tls: { caFile: '/etc/ca.pem' } },
+                { id: 'local', name: 'local', url: 'stdio:riotplan-mcp', enabled: true, proxyBypass: false, transport: 'stdio', stdio: { command: 'riotplan-mcp' } },
+            ],
+        });
+        expect(JSON.stringify(bundle)).not.toContain('secret');
+    });
+
+    it('round-trips a bundle and rejects malformed ones', () => {
+        const profiles = parseProfileBundle(JSON.parse(JSON.stringify(createProfileBundle([makeProfile('team')], NOW))), NOW);
+
+        expect(profiles).toEqual([makeProfile('team', { createdAt: NOW.toISOString(), updatedAt: NOW.toISOString() })]);
+        expect(() => parseProfileBundle({ profiles: [] })).toThrow(ProfileBundleError);
+        expect(() => parseProfileBundle({ format: 'riotplan-server-profiles', version: 2, profiles: [{}] })).toThrow('Unsupported bundle version 2');
+        expect(() => parseProfileBundle({ format: 'riotplan-server-profiles', version: 1, profiles: [{ id: 'x', name: 'X' }] }))
+            .toThrow('Profile 1 needs an id, a name and a URL or stdio command');
+        expect(() => parseProfileBundle({
+            format: 'riotplan-server-profiles',
+            version: 1,
+            profiles: [makeProfile('team'), makeProfile('team')],
+        })).toThrow('Profile id "team" appears more than once');
+    });
+
+    it('plans adds, updates and id conflicts and resolves them into a merged list', () => {
+        const existing = [
+            makeProfile('same'),
+            makeProfile('changed', { source: 'repository', sourceFolder: 'file:///repo' }),
+            makeProfile('clash'),
+        ];
+        const incoming = [
+            makeProfile('same', { createdAt: NOW.toISOString() }),
+            makeProfile('changed', { proxyBypass: true, updatedAt: NOW.toISOString() }),
+            makeProfile('clash', { url: 'https://other.example.com' }),
+            makeProfile('new'),
+        ];
+
+        const entries = planProfileImport(existing, incoming);
+        expect(entries.map((entry) => [entry.incoming.id, entry.action, entry.changes])).toEqual([
+            ['same', 'unchanged', []],
+            ['changed', 'update', ['proxyBypass: false -> true']],
+            ['clash', 'conflict', ['url: "https://clash.example.com" -> "https://other.example.com"']],
+            ['new', 'add', []],
+        ]);
+
+        const changes = resolveProfileImport(entries, () => 'keepBoth', () => 'generated-id');
+        expect(changes.map((change) => [change.kind, change.profile.id, change.profile.name])).toEqual([
+            ['update', 'changed', 'changed'],
+            ['add', 'generated-id', 'clash (imported)'],
+            ['add', 'new', 'new'],
+        ]);
+        // An update stays in the layer it came from and keeps its creation time.
+        expect(changes[0].profile).toMatchObject({ source: 'repository', sourceFolder: 'file:///repo', createdAt: '2026-01-01T00:00:00.000Z' });
+
+        const merged = mergeImportedProfiles(existing, changes);
+        expect(merged.map((profile) => [profile.id, profile.url])).toEqual([
+            ['same', 'https://same.example.com'],
+            ['changed', 'https://changed.example.com'],
+            ['clash', 'https://clash.example.com'],
+            ['generated-id', 'https://other.example.com'],
+            ['new', 'https://new.example.com'],
+        ]);
+
+        expect(changes[0].dropsCredentials).toBeUndefined();
+
+        const replacements = resolveProfileImport(entries, () => 'replace', () => 'unused');
+        const replaced = mergeImportedProfiles(existing, replacements);
+        expect(replaced.find((profile) => profile.id === 'clash')?.url).toBe('https://other.example.com');
+        // The existing token for `clash` belongs to the old server and must not follow the id.
+        expect(replacements.map((change) => [change.profile.id, change.dropsCredentials])).toEqual([
+            ['changed', undefined],
+            ['clash', true],
+            ['new', undefined],
+        ]);
+        expect(resolveProfileImport(entries, () => 'skip', () => 'unused').map((change) => change.profile.id)).toEqual(['changed', 'new']);
+    });
+});
@@ -1,34 +1,80 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const configurationState: Record<string, unknown> = {};
-const updateMock = vi.fn(async (key: string, value: unknown) => {
-    configurationState[key] = value;
+const workspaceState: Record<string, unknown> = {};
+const repositoryFiles = new Map<string, string>();
+const workspace = {
+    isTrusted: true,
+    workspaceFolders: undefined as Array<{ name: string; uri: { path: string; toString(): string } }> | undefined,
+};
+const updateMock = vi.fn(async (key: string, value: unknown, target?: number) => {
+    const state = target === 2 ? workspaceState : configurationState;
+    if (value === undefined) {
+        delete state[key];
+    } else {
+        state[key] = value;
+    }
 });
 
 vi.mock('vscode', () => {
+    class FileSystemError extends Error {}
+    const has = (state: Record<string, unknown>, key: string) => Object.prototype.hasOwnProperty.call(state, key);
     return {
         workspace: {
+            get isTrusted() {
+                return workspace.isTrusted;
+            },
+            get workspaceFolders() {
+                return workspace.workspaceFolders;
+            },
+            fs: {
+                readFile: vi.fn(async (uri: { path: string }) => {
+                    const text = repositoryFiles.get(uri.path);
+                    if (text === undefined) {
+                        throw new FileSystemError(uri.path);
+                    }
+                    return Buffer.from(text, 'utf8');
+                }),
+            },
             getConfiguration: vi.fn(() => ({
                 get: (key: string, fallback?: unknown) =>
-                    Object.prototype.hasOwnProperty.call(configurationState, key)
-                        ? configurationState[key]
-                        : fallback,
+                    has(workspaceState, key) ? workspaceState[key] : has(configurationState, key) ? configurationState[key] : fallback,
+                inspect: (key: string) => ({
+                    globalValue: configurationState[key],
+                    workspaceValue: workspaceState[key],
+                }),
                 update: updateMock,
             })),
         },
+        Uri: {
+            joinPath: (base: { path: string }, ...segments: string[]) => ({ path: [base.path, ...segments].join('/') }),
+        },
+        FileSystemError,
         ConfigurationTarget: {
             Global: 1,
+            Workspace: 2,
+            WorkspaceFolder: 3,
         },
     };
 });
 
-import { ServerProfilesStore } from '../../src/multiServer/profilesStore';
+import { describeProfileSource, ServerProfilesStore } from '../../src/multiServer/profilesStore';
+
+function openRepository(servers: unknown) {
+    workspace.workspaceFolders = [{ name: 'app', uri: { path: '/repo/app', toString: () => 'file:///repo/app' } }];
+    repositoryFiles.set('/repo/app/.riotplan/servers.json', JSON.stringify(servers));
+}
 
 describe('ServerProfilesStore', () => {
     beforeEach(() => {
-        for (const key of Object.keys(configurationState)) {
-            delete configurationState[key];
+        for (const state of [configurationState, workspaceState]) {
+            for (const key of Object.keys(state)) {
+                delete state[key];
+            }
         }
+        repositoryFiles.clear();
+        workspace.isTrusted = true;
+        workspace.workspaceFolders = undefined;
         updateMock.mockClear();
     });
 
@@ -70,4 +116,149 @@ describe('ServerProfilesStore', () => {
         expect(activeServerId).toBe('srv-b');
         expect(updateMock).not.toHaveBeenCalledWith('activeServerId', expect.anything(), expect.anything());
     });
+
+    it('keeps valid per-profile timeout overrides', async () => {
+        configurationState.serverProfiles = [
+            {
+                id: 'srv-a',
+                name: 'A',
+                url: 'https://a.example.com',
+                enabled: true,
+                timeouts: { transfer: 300000, list: 'soon' },
+            },
+        ];
+        const store = new ServerProfilesStore();
+
+        const { profiles } = await store.loadProfiles('https://fallback.example.com', false);
+
+        expect(profiles[0].timeouts).toEqual({ transfer: 300000 });
+    });
+
+    it('keeps the oauth auth mode and drops unknown modes', async () => {
+        configurationState.serverProfiles = [
+            { id: 'srv-a', name: 'A', url: 'https://a.example.com', enabled: true, authMode: 'oauth' },
+            { id: 'srv-b', name: 'B', url: 'https://b.example.com', enabled: true, authMode: 'saml' },
+        ];
+        const store = new ServerProfilesStore();
+
+        const { profiles } = await store.loadProfiles('https://fallback.example.com', false);
+
+        expect(profiles[0].authMode).toBe('oauth');
+        expect(profiles[1].authMode).toBeUndefined();
+    });
+
+    it('normalizes stdio profiles and drops ones without a command', async () => {
+        configurationState.serverProfiles = [
+            {
+                id: 'local',
+                name: 'Local',
+                enabled: true,
+                transport: 'stdio',
+                stdio: { command: ' riotplan-mcp ', args: ['--plans-dir', 3], env: { DEBUG: '1', PORT: 3002 } },
+            },
+            { id: 'broken', name: 'Broken', enabled: true, transport: 'stdio', stdio: { args: ['x'] } },
+        ];
+        const store = new ServerProfilesStore();
+
+        const { profiles } = await store.loadProfiles('https://fallback.example.com', false);
+
+        expect(profiles).toHaveLength(1);
+        expect(profiles[0]).toMatchObject({
+            url: 'stdio:riotplan-mcp',
+            transport: 'stdio',
+            stdio: { command: 'riotplan-mcp', args: ['--plans-dir'], env: { DEBUG: '1' } },
+        });
+    });
+
+    it('layers repository and workspace profiles over user settings and records where each came from', async () => {
+        configurationState.serverProfiles = [
+            { id: 'personal', name: 'Personal', url: 'https://me.example.com', enabled: true },
+            { id: 'team', name: 'Team (mine)', url: 'https://team.example.com', enabled: false },
+        ];
+        configurationState.activeServerId = 'personal';
+        openRepository({
+            activeServerId: 'team',
+            servers: [
+                { id: 'team', name: 'Team', url: 'https://team.example.com', enabled: true },
+                { id: 'staging', name: 'Staging', url: 'https://staging.example.com', enabled: true },
+            ],
+        });
+        workspaceState.serverProfiles = [{ id: 'staging', name: 'Staging (local)', url: 'http://127.0.0.1:3002', enabled: true }];
+        const store = new ServerProfilesStore();
+
+        const { profiles, activeServerId } = await store.loadProfiles('https://fallback.example.com', false);
+
+        expect(profiles.map((profile) => [profile.id, profile.name, profile.source])).toEqual([
+            ['personal', 'Personal', 'user'],
+            ['team', 'Team', 'repository'],
+            ['staging', 'Staging (local)', 'workspace'],
+        ]);
+        expect(describeProfileSource(profiles[1])).toBe('.riotplan/servers.json (app)');
+        expect(activeServerId).toBe('team');
+
+        workspaceState.activeServerId = 'staging';
+        expect(store.getActiveServerId()).toBe('staging');
+    });
+
+    it('saves each profile to its own layer and turns edits to repository profiles into workspace overrides', async () => {
+        configurationState.serverProfiles = [
+            { id: 'personal', name: 'Personal', url: 'https://me.example.com', enabled: true },
+            { id: 'team', name: 'Team (mine)', url: 'https://team.example.com', enabled: false },
+        ];
+        openRepository({
+            activeServerId: 'team',
+            servers: [
+                { id: 'team', name: 'Team', url: 'https://team.example.com', enabled: true },
+                { id: 'docs', name: 'Docs', url: 'https://docs.example.com', enabled: true },
+            ],
+        });
+        const store = new ServerProfilesStore();
+        const { profiles } = await store.loadProfiles('https://fallback.example.com', false);
+        updateMock.mockClear();
+
+        await store.saveProfiles(profiles.map((profile) => (profile.id === 'team' ? { ...profile, enabled: false } : profile)));
+
+        // The user copy of `team` is shadowed, not removed; untouched repository profiles are not copied anywhere.
+        expect(updateMock).toHaveBeenCalledTimes(1);
+        expect(workspaceState.serverProfiles).toEqual([
+            expect.objectContaining({ id: 'team', url: 'https://team.example.com', enabled: false }),
+        ]);
+        expect((workspaceState.serverProfiles as any[])[0].source).toBeUndefined();
+        expect((configurationState.serverProfiles as any[]).map((entry) => entry.id)).toEqual(['personal', 'team']);
+
+        await store.setActiveServerId('docs');
+        expect(workspaceState.activeServerId).toBe('docs');
+        expect(configurationState.activeServerId).toBeUndefined();
+    });
+
+    it('ignores a repository profile that would point a user profile at another server', async () => {
+        configurationState.serverProfiles = [{ id: 'default', name: 'Mine', url: 'https://me.example.com', enabled: true }];
+        openRepository({
+            servers: [
+                { id: 'default', name: 'Team', url: 'https://attacker.example.com', enabled: true },
+                { id: 'local', name: 'Local', url: 'stdio:riotplan-mcp', transport: 'stdio', stdio: { command: 'riotplan-mcp' } },
+            ],
+        });
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const store = new ServerProfilesStore();
+
+        const { profiles } = await store.loadProfiles('https://fallback.example.com', false);
+
+        expect(profiles.map((profile) => [profile.id, profile.url, profile.source])).toEqual([
+            ['default', 'https://me.example.com', 'user'],
+            ['local', 'stdio:riotplan-mcp', 'repository'],
+        ]);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('ignoring "default" in .riotplan/servers.json (app)'));
+        warn.mockRestore();
+    });
+
+    it('ignores repository profiles in an untrusted workspace', async () => {
+        openRepository({ servers: [{ id: 'team', name: 'Team', url: 'https://team.example.com', enabled: true }] });
+        workspace.isTrusted = false;
+        const store = new ServerProfilesStore();
+
+        const { profiles } = await store.loadProfiles('https://fallback.example.com', false);
+
+        expect(profiles.map((profile) => profile.id)).toEqual(['default-server']);
+    });
 });
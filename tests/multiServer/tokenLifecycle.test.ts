@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import {
+    describeTokenCheck,
+    describeTokenExpiry,
+    tokenExpiry,
+    tokenExpiryNotice,
+} from '../../src/multiServer/tokenLifecycle';
+
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+
+function jwt(payload: Record<string, unknown>): string {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.c2lnbmF0dXJl`;
+}
+
+describe('tokenLifecycle', () => {
+    it('reads the expiry of JWT tokens and ignores opaque ones', () => {
+        expect(tokenExpiry(jwt({ sub: 'ci', exp: 1772755200 }))).toEqual(new Date('2026-03-06T00:00:00.000Z'));
+        expect(tokenExpiry(jwt({ sub: 'ci' }))).toBeUndefined();
+        expect(tokenExpiry('rp-0123456789abcdef')).toBeUndefined();
+        expect(tokenExpiry('a.b.c')).toBeUndefined();
+        expect(tokenExpiry(undefined)).toBeUndefined();
+    });
+
+    it('warns within the configured window and once expired', () => {
+        const inFiveDays = new Date('2026-03-06T00:00:00.000Z');
+
+        expect(tokenExpiryNotice(inFiveDays, 7, NOW)).toEqual({ state: 'expiring', expiresAt: inFiveDays, daysLeft: 5 });
+        expect(tokenExpiryNotice(inFiveDays, 3, NOW)).toBeUndefined();
+        expect(tokenExpiryNotice(inFiveDays, 0, NOW)).toBeUndefined();
+        expect(tokenExpiryNotice(new Date('2026-02-27T00:00:00.000Z'), 0, NOW)?.state).toBe('expired');
+        expect(tokenExpiryNotice(undefined, 7, NOW)).toBeUndefined();
+
+        expect(describeTokenExpiry(inFiveDays, NOW)).toBe('expires in 5 days (2026-03-06)');
+        expect(describeTokenExpiry(new Date('2026-03-01T06:00:00.000Z'), NOW)).toBe('expires within a day (2026-03-01)');
+        expect(describeTokenExpiry(new Date('2026-02-27T00:00:00.000Z'), NOW)).toBe('expired 2026-02-27');
+    });
+
+    it('describes token check results', () => {
+        expect(describeTokenCheck({ ok: true })).toBe('accepted by the server');
+        expect(describeTokenCheck({ ok: false, reason: 'unauthorized' })).toBe('rejected by the server (HTTP 401)');
+        expect(describeTokenCheck({ ok: false, reason: 'server_unreachable' })).toBe('could not be checked: the server is unreachable');
+        expect(describeTokenCheck({ ok: false, reason: 'TLS configuration: Cannot read CA file' }))
+            .toBe('could not be checked: TLS configuration: Cannot read CA file');
+    });
+});
@@ -74,43 +74,20 @@ import { PlanItem, PlansTreeProvider, UNASSIGNED_PROJECT_FILTER } from '../src/p
 
 describe('PlansTreeProvider', () => {
     it('shows rolled-up counts on status categories', async () => {
-        const listPlans = vi.fn(async (category: string) => {
-            if (category === 'active') {
-                return {
-                    content: [
-                        {
-                            type: 'text',
-                            text: JSON.stringify({
-                                plans: [
-                                    { id: 'a-1', name: 'Active One', category: 'active' },
-                                    { id: 'a-2', name: 'Active Two', category: 'active' },
-                                ],
-                            }),
-                        },
-                    ],
-                };
-            }
-            if (category === 'done') {
-                return {
-                    content: [
-                        {
-                            type: 'text',
-                            text: JSON.stringify({
-                                plans: [{ id: 'd-1', name: 'Done One', category: 'done' }],
-                            }),
-                        },
-                    ],
-                };
-            }
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: JSON.stringify({ plans: [] }),
-                    },
-                ],
-            };
-        });
+        const listPlans = vi.fn(async () => ({
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify({
+                        plans: [
+                            { id: 'a-1', name: 'Active One', category: 'active' },
+                            { id: 'a-2', name: 'Active Two', category: 'active' },
+                            { id: 'd-1', name: 'Done One', category: 'done' },
+                        ],
+                    }),
+                },
+            ],
+        }));
         const provider = new PlansTreeProvider({ listPlans } as any);
 
         const categories = await provider.getChildren();
@@ -122,9 +99,36 @@ describe('PlansTreeProvider', () => {
         expect(categories[1].description).toBe('1');
         expect(categories[2].label).toBe('Hold');
         expect(categories[2].description).toBeUndefined();
-        expect(listPlans).toHaveBeenNthCalledWith(1, 'active');
-        expect(listPlans).toHaveBeenNthCalledWith(2, 'done');
-        expect(listPlans).toHaveBeenNthCalledWith(3, 'hold');
+        expect(listPlans).toHaveBeenCalledTimes(1);
+        expect(listPlans.mock.calls.every((call: unknown[]) => call[0] === 'all')).toBe(true);
+    });
+
+    it('lists servers that could not be reached after the categories', async () => {
+        const listPlans = vi.fn(async () => ({
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify({
+                        plans: [{ id: 'a-1', name: 'Active One', category: 'active', serverId: 'srv-a' }],
+                        servers: [
+                            { serverId: 'srv-a', serverName: 'Server A', itemCount: 1, fromCache: false },
+                            { serverId: 'srv-b', serverName: 'Server B', itemCount: 0, fromCache: false, error: 'unauthorized' },
+                            { serverId: 'srv-c', serverName: 'Server C', itemCount: 2, fromCache: true, error: 'server_unreachable' },
+                        ],
+                    }),
+                },
+            ],
+        }));
+        const provider = new PlansTreeProvider({ listPlans } as any);
+
+        const roots = await provider.getChildren();
+
+        expect(roots.map((item) => item.label)).toEqual(['Active', 'Done', 'Hold', 'Server B unavailable: unauthorized']);
+        expect(roots[3].contextValue).toBe('plan-server-unavailable');
+        expect(roots[3].command).toEqual(expect.objectContaining({ command: 'riotplan.showServerConnectionDetails', arguments: ['srv-b'] }));
+
+        provider.setServerFilter('srv-a');
+        expect((await provider.getChildren()).map((item) => item.label)).toEqual(['Active', 'Done', 'Hold']);
     });
 
     it('groups plans by modified day within a category', async () => {
@@ -156,8 +160,8 @@ describe('PlansTreeProvider', () => {
         expect(dayGroups[0].contextValue).toBe('plan-day-group');
         expect(planChildren).toHaveLength(1);
         expect(planChildren[0].label).toBe('Plan 1');
-        expect(listPlans).toHaveBeenNthCalledWith(1, 'active');
-        expect(listPlans).toHaveBeenNthCalledWith(2, 'active');
+        expect(listPlans).toHaveBeenNthCalledWith(1, 'all');
+        expect(listPlans).toHaveBeenNthCalledWith(2, 'all');
     });
 
     it('filters to unassigned plans when project filter is unassigned', async () => {
@@ -271,17 +275,19 @@ describe('PlansTreeProvider', () => {
 
         expect(categories).toHaveLength(1);
         expect(categories[0].label).toBe('Done');
-        expect(listPlans).toHaveBeenCalledWith('done');
+        expect(listPlans).toHaveBeenCalledTimes(1);
+        expect(listPlans).toHaveBeenCalledWith('all');
     });
 
     it('resolves category from label when category is missing on tree element', async () => {
-        const listPlans = vi.fn(async (category: string) => ({
+        const listPlans = vi.fn(async () => ({
             content: [
                 {
                     type: 'text',
                     text: JSON.stringify({
                         plans: [
-                            { id: `${category}-plan`, name: 'Category Plan', path: `${category}/category-plan` },
+                            { id: 'active-plan', name: 'Active Plan', path: 'active/active-plan' },
+                            { id: 'hold-plan', name: 'Category Plan', path: 'hold/category-plan' },
                         ],
                     }),
                 },
@@ -292,7 +298,8 @@ describe('PlansTreeProvider', () => {
         const dayGroups = await provider.getChildren(new PlanItem('Hold', 1 as any));
 
         expect(dayGroups).toHaveLength(1);
-        expect(listPlans).toHaveBeenCalledWith('hold');
+        expect(dayGroups[0].description).toBe('1');
+        expect(listPlans).toHaveBeenCalledWith('all');
     });
 
     it('skips moves when dropped to same category and reports info message', async () => {
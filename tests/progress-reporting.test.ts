@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('vscode', () => ({}));
+
+import { ProgressForwarder } from '../src/progress-reporting';
+
+describe('ProgressForwarder', () => {
+    it('turns absolute server progress into increments within its share', () => {
+        const report = vi.fn();
+        const forwarder = new ProgressForwarder({ report }, 50, 'Uploading');
+
+        forwarder.onProgress({ progress: 25, total: 100 });
+        forwarder.onProgress({ progress: 50, total: 100, message: 'chunk 2 of 4' });
+        forwarder.onProgress({ progress: 40, total: 100 });
+        forwarder.complete('Done');
+
+        expect(report.mock.calls.map(([value]) => value)).toEqual([
+            { message: 'Uploading (25%)', increment: 12.5 },
+            { message: 'Uploading (chunk 2 of 4)', increment: 12.5 },
+            { message: 'Uploading (40%)' },
+            { message: 'Done', increment: 25 },
+        ]);
+    });
+
+    it('shows messages without moving the bar when the total is unknown', () => {
+        const report = vi.fn();
+        const forwarder = new ProgressForwarder({ report }, 100, 'Removing');
+
+        forwarder.onProgress({ progress: 3, message: 'rebuilding index' });
+
+        expect(report).toHaveBeenCalledWith({ message: 'Removing (rebuilding index)' });
+    });
+
+    it('shows byte counts for plan file transfers', () => {
+        const report = vi.fn();
+        const forwarder = new ProgressForwarder({ report }, 100, 'Downloading', 'bytes');
+
+        forwarder.onProgress({ progress: 512, total: 3 * 1024 * 1024 });
+        forwarder.onProgress({ progress: 1536 * 1024 });
+
+        expect(report.mock.calls.map(([value]) => value.message)).toEqual([
+            'Downloading (512 B of 3.0 MB)',
+            'Downloading (1.5 MB)',
+        ]);
+    });
+});
@@ -64,6 +64,25 @@ describe('ProjectsTreeProvider', () => {
         expect(items[0].contextValue).toBe('project');
     });
 
+    it('adds a row for each server whose projects could not be loaded', async () => {
+        const aggregateContextProjects = vi.fn(async () => ({
+            projects: [{ id: 'srv-a::p-1', name: 'Alpha', serverName: 'Server A' }],
+            servers: [
+                { serverId: 'srv-a', serverName: 'Server A', itemCount: 1, fromCache: false },
+                { serverId: 'srv-b', serverName: 'Server B', itemCount: 0, fromCache: false, error: 'connect ECONNREFUSED' },
+            ],
+        }));
+        const provider = new ProjectsTreeProvider({ listContextProjects: vi.fn(), aggregateContextProjects } as any);
+
+        const items = await provider.getChildren();
+
+        expect(aggregateContextProjects).toHaveBeenCalledWith(true);
+        expect(items.map((item) => [item.label, item.contextValue])).toEqual([
+            ['Alpha', 'project'],
+            ['Server B unavailable: connect ECONNREFUSED', 'project-server-unavailable'],
+        ]);
+    });
+
     it('returns empty list when loading projects fails', async () => {
         const listContextProjects = vi.fn(async () => {
             throw new Error('network failure');
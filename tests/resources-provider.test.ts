@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('vscode', () => {
+    class EventEmitter<T> {
+        private listeners: Array<(value: T) => void> = [];
+        event = (listener: (value: T) => void) => {
+            this.listeners.push(listener);
+            return { dispose: () => {} };
+        };
+        fire = (value: T) => this.listeners.forEach((listener) => listener(value));
+    }
+    class TreeItem {
+        label: string;
+        collapsibleState: number;
+        description?: string;
+        iconPath?: unknown;
+        contextValue?: string;
+        command?: unknown;
+        tooltip?: string;
+        constructor(label: string, collapsibleState: number) {
+            this.label = label;
+            this.collapsibleState = collapsibleState;
+        }
+    }
+    class ThemeIcon {
+        constructor(readonly id: string) {}
+    }
+    return {
+        EventEmitter,
+        TreeItem,
+        ThemeIcon,
+        TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
+        Uri: { from: (components: Record<string, string>) => ({ ...components }) },
+    };
+});
+
+vi.mock('../src/mcp-client', () => ({ HttpMcpClient: class {} }));
+
+import { ResourceSubscriptionRegistry } from '../src/mcp-resources';
+import { ResourceDocumentProvider, ResourceNode, ResourcesTreeProvider } from '../src/resources-provider';
+
+function fakeClient(overrides: Record<string, unknown> = {}) {
+    const handlers = new Map<string, Array<(data: unknown) => void>>();
+    return {
+        handlers,
+        listResources: vi.fn(async () => [
+            { uri: 'riotplan://status/b', name: 'Status B' },
+            { uri: 'riotplan://plan/a', name: 'Plan A', mimeType: 'application/json' },
+        ]),
+        listResourceTemplates: vi.fn(async () => [{ uriTemplate: 'riotplan://plan/{planId}', name: 'Plan' }]),
+        readResourceContents: vi.fn(async (uri: string) => [{ uri, mimeType: 'application/json', text: '{"ok":true}' }]),
+        subscribeToResource: vi.fn(async () => undefined),
+        unsubscribeFromResource: vi.fn(async () => undefined),
+        onNotification: (method: string, handler: (data: unknown) => void) => {
+            handlers.set(method, [...(handlers.get(method) ?? []), handler]);
+            return () => undefined;
+        },
+        onSessionRecovered: () => () => undefined,
+        ...overrides,
+    };
+}
+
+describe('ResourcesTreeProvider', () => {
+    it('groups resources by kind and lists templates per server', async () => {
+        const client = fakeClient();
+        const provider = new ResourcesTreeProvider(
+            { getServers: () => [{ serverId: 's1', serverName: 'Local', client: client as any }] },
+            new ResourceSubscriptionRegistry()
+        );
+
+        const [server] = await provider.getChildren();
+        const groups = await provider.getChildren(server);
+
+        expect(groups.map((node) => (node.type === 'group' ? node.group : node.type))).toEqual(['plan', 'status', 'templates']);
+        const resources = await provider.getChildren(groups[0]);
+        const item = provider.getTreeItem(resources[0]);
+        expect(item.label).toBe('Plan A');
+        expect(item.description).toBe('application/json');
+        expect(item.contextValue).toBe('resource');
+    });
+
+    it('reports servers without resource support instead of failing', async () => {
+        const client = fakeClient({ listResources: vi.fn(async () => { throw new Error('Method not found: resources/list'); }) });
+        const provider = new ResourcesTreeProvider(
+            { getServers: () => [{ serverId: 's1', serverName: 'Local', client: client as any }] },
+            new ResourceSubscriptionRegistry()
+        );
+
+        const [server] = await provider.getChildren();
+
+        expect(await provider.getChildren(server)).toEqual([{ type: 'message', message: 'This server does not list resources' }]);
+    });
+
+    it('shows live subscription state and reloads documents on updates', async () => {
+        const client = fakeClient();
+        const server = { serverId: 's1', serverName: 'Local', client: client as any };
+        const registry = new ResourceSubscriptionRegistry(() => Date.UTC(2026, 0, 1, 12, 0, 0));
+        const documents = new ResourceDocumentProvider({ getServers: () => [server] });
+        const changed = vi.fn();
+        documents.onDidChange(changed);
+        const provider = new ResourcesTreeProvider(
+            { getServers: () => [server] },
+            registry,
+            (serverId, uris) => documents.notifyUpdated(serverId, uris)
+        );
+        await provider.getChildren();
+        const node: ResourceNode = { type: 'resource', server, resource: { uri: 'riotplan://plan/a', name: 'Plan A' } };
+        const documentUri = { query: new URLSearchParams({ server: 's1', uri: 'riotplan://plan/a' }).toString() };
+
+        await provider.subscribe(server, 'riotplan://plan/a');
+        await expect(documents.provideTextDocumentContent(documentUri as any)).resolves.toBe('{\n  "ok": true\n}');
+        client.handlers.get('notifications/resources/updated')![0]({ uri: 'riotplan://plan/a' });
+
+        expect(client.subscribeToResource).toHaveBeenCalledWith('riotplan://plan/a');
+        const item = provider.getTreeItem(node);
+        expect(item.contextValue).toBe('resource.subscribed');
+        expect(item.description).toMatch(/^subscribed · updated /);
+        expect(changed).toHaveBeenCalledWith(documentUri);
+
+        await provider.unsubscribe(server, 'riotplan://plan/a');
+        expect(provider.getTreeItem(node).contextValue).toBe('resource');
+        expect(client.unsubscribeFromResource).toHaveBeenCalledWith('riotplan://plan/a');
+    });
+
+    it('subscribes again on a reconnected server client', async () => {
+        const first = fakeClient();
+        const second = fakeClient();
+        let client = first;
+        const registry = new ResourceSubscriptionRegistry();
+        const provider = new ResourcesTreeProvider(
+            { getServers: () => [{ serverId: 's1', serverName: 'Local', client: client as any }] },
+            registry
+        );
+        await provider.getChildren();
+        await provider.subscribe({ serverId: 's1', serverName: 'Local', client: first as any }, 'riotplan://plan/a');
+
+        client = second;
+        await provider.getChildren();
+
+        expect(second.subscribeToResource).toHaveBeenCalledWith('riotplan://plan/a');
+    });
+});
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const showInformationMessage = vi.fn();
+const showInputBox = vi.fn();
+const showQuickPick = vi.fn();
+const workspaceState: { workspaceFolders?: unknown[] } = {};
+
+vi.mock('vscode', () => ({
+    window: {
+        showInformationMessage: (...args: unknown[]) => showInformationMessage(...args),
+        showInputBox: (...args: unknown[]) => showInputBox(...args),
+        showQuickPick: (...args: unknown[]) => showQuickPick(...args),
+    },
+    workspace: {
+        get workspaceFolders() {
+            return workspaceState.workspaceFolders;
+        },
+    },
+}));
+
+import {
+    handleElicitation,
+    listWorkspaceRoots,
+    parseElicitationSchema,
+    validateElicitationInput,
+} from '../src/server-requests';
+
+const schema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', title: 'Plan name', minLength: 3 },
+        priority: { type: 'string', enum: ['low', 'high'], enumNames: ['Low', 'High'] },
+        estimate: { type: 'integer', minimum: 1 },
+        confirm: { type: 'boolean' },
+        nested: { type: 'object' },
+    },
+    required: ['name', 'confirm'],
+};
+
+describe('elicitation schema handling', () => {
+    it('keeps primitive fields with their constraints', () => {
+        const fields = parseElicitationSchema(schema);
+
+        expect(fields.map((field) => field.name)).toEqual(['name', 'priority', 'estimate', 'confirm']);
+        expect(fields[0]).toMatchObject({ title: 'Plan name', required: true, minLength: 3 });
+        expect(fields[1]).toMatchObject({ required: false, enumValues: ['low', 'high'], enumNames: ['Low', 'High'] });
+    });
+
+    it('validates required, length and numeric constraints', () => {
+        const [name, , estimate] = parseElicitationSchema(schema);
+
+        expect(validateElicitationInput(name, '')).toBe('Plan name is required');
+        expect(validateElicitationInput(name, 'ab')).toBe('At least 3 characters');
+        expect(validateElicitationInput(name, 'abc')).toBeUndefined();
+        expect(validateElicitationInput(estimate, '')).toBeUndefined();
+        expect(validateElicitationInput(estimate, '1.5')).toBe('Enter a whole number');
+        expect(validateElicitationInput(estimate, '0')).toBe('Must be at least 1');
+    });
+});
+
+describe('handleElicitation', () => {
+    beforeEach(() => {
+        showInformationMessage.mockReset();
+        showInputBox.mockReset();
+        showQuickPick.mockReset();
+    });
+
+    it('collects typed answers and accepts', async () => {
+        showInformationMessage.mockResolvedValue('Respond');
+        showInputBox.mockResolvedValueOnce('Launch').mockResolvedValueOnce('3');
+        showQuickPick
+            .mockImplementationOnce(async (items: any[]) => items.find((item) => item.label === 'High'))
+            .mockImplementationOnce(async (items: any[]) => items.find((item) => item.label === 'Yes'));
+
+        const result = await handleElicitation({ message: 'Details?', requestedSchema: schema }, 'Local');
+
+        expect(result).toEqual({ action: 'accept', content: { name: 'Launch', priority: 'high', estimate: 3, confirm: true } });
+        expect(showInformationMessage.mock.calls[0][0]).toContain('Local');
+    });
+
+    it('declines or cancels without prompting further', async () => {
+        showInformationMessage.mockResolvedValueOnce('Decline');
+        await expect(handleElicitation({ requestedSchema: schema }, 'Local')).resolves.toEqual({ action: 'decline' });
+
+        showInformationMessage.mockResolvedValueOnce('Respond');
+        showInputBox.mockResolvedValueOnce(undefined);
+        await expect(handleElicitation({ requestedSchema: schema }, 'Local')).resolves.toEqual({ action: 'cancel' });
+        expect(showQuickPick).not.toHaveBeenCalled();
+    });
+});
+
+describe('listWorkspaceRoots', () => {
+    it('returns file workspace folders as roots', () => {
+        workspaceState.workspaceFolders = [
+            { name: 'app', uri: { scheme: 'file', toString: () => 'file:///src/app' } },
+            { name: 'remote', uri: { scheme: 'vscode-vfs', toString: () => 'vscode-vfs://github/x' } },
+        ];
+
+        expect(listWorkspaceRoots()).toEqual({ roots: [{ uri: 'file:///src/app', name: 'app' }] });
+    });
+});
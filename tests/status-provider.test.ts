@@ -65,6 +65,25 @@ describe('StatusTreeProvider', () => {
         expect(items[items.length - 1].label).toBe('Reconnect');
     });
 
+    it('shows an open circuit in the description and tooltip', () => {
+        const provider = new StatusTreeProvider({} as any, 'http://localhost:3002');
+        provider.setServerStatuses([
+            {
+                serverId: 's1',
+                serverName: 'Local',
+                serverUrl: 'http://127.0.0.1:3002',
+                state: 'connected',
+                circuit: { state: 'open', consecutiveFailures: 5, retryAt: Date.now() + 30000 },
+            },
+        ]);
+
+        const [item] = provider.getChildren();
+
+        expect(item.description).toContain('circuit open');
+        expect(item.tooltip).toContain('Circuit: Open after 5 failures');
+        expect((item.iconPath as any).id).toBe('debug-disconnect');
+    });
+
     it('resets to checking state when client and server URL are updated', () => {
         const provider = new StatusTreeProvider({} as any, 'http://localhost:3002');
         provider.setConnectionState('disconnected', 'abcdef123456');